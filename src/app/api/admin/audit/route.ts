@@ -0,0 +1,61 @@
+/**
+ * GET /api/admin/audit
+ *
+ * Audit log of privileged mutations, newest first (requires audit.view)
+ * Each entry has the actor, action, target and the before/after values
+ * of the fields that changed.
+ *
+ * Query: ?actorId=&action=&targetType=&targetId=&from=&to=&page=1&limit=50
+ * (from/to are ISO dates or timestamps, UTC)
+ */
+
+import { NextRequest } from 'next/server'
+import { getAuditLog } from '@/lib/audit'
+import { paginatedResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'audit.view'))) {
+    return apiError('You do not have permission to view the audit log', HttpStatus.FORBIDDEN)
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
+  const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)))
+  const actorId = searchParams.get('actorId')
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+
+  if (actorId !== null && isNaN(parseInt(actorId, 10))) {
+    return apiError('actorId must be a number', HttpStatus.BAD_REQUEST)
+  }
+
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value && isNaN(Date.parse(value))) {
+      return apiError(`${name} must be a valid date`, HttpStatus.BAD_REQUEST)
+    }
+  }
+
+  try {
+    const { entries, total } = await getAuditLog({
+      actorId: actorId !== null ? parseInt(actorId, 10) : undefined,
+      action: searchParams.get('action') || undefined,
+      targetType: searchParams.get('targetType') || undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      page,
+      limit,
+    })
+
+    return paginatedResponse(entries, page, limit, total, 'Audit log retrieved')
+  } catch (error) {
+    console.error('[audit] GET error:', error)
+    return apiError('Failed to fetch audit log', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * DELETE /api/admin/lockouts/[id]
+ *
+ * Clear a lockout so the username or IP can log in again immediately
+ * (requires security.manage)
+ */
+
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { clearLockout } from '@/lib/login-throttle'
+import { recordAudit } from '@/lib/audit'
+import { successResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'security.manage'))) {
+    return apiError('You do not have permission to clear lockouts', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const { id } = await params
+    const lockoutId = parseInt(id, 10)
+
+    if (isNaN(lockoutId)) {
+      return apiError('Invalid lockout ID', HttpStatus.BAD_REQUEST)
+    }
+
+    const cleared = await withTransaction(async () => {
+      const lockout = await clearLockout(lockoutId)
+      if (!lockout) return null
+
+      await recordAudit(request, authResult.user, {
+        action: 'security.lockout_clear',
+        targetType: 'lockout',
+        targetId: lockoutId,
+        before: { ...lockout },
+        after: null,
+      })
+      return lockout
+    })
+
+    if (!cleared) {
+      return apiError('Lockout not found', HttpStatus.NOT_FOUND)
+    }
+
+    return successResponse({ id: lockoutId }, 'Lockout cleared')
+  } catch (error) {
+    console.error('[lockouts] DELETE error:', error)
+    return apiError('Failed to clear lockout', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * GET /api/admin/lockouts
+ *
+ * Usernames and IPs that are locked out or have recent failed logins
+ * (requires security.manage)
+ */
+
+import { NextRequest } from 'next/server'
+import { getLockouts } from '@/lib/login-throttle'
+import { successResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'security.manage'))) {
+    return apiError('You do not have permission to view lockouts', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const lockouts = await getLockouts()
+
+    return successResponse(lockouts, 'Lockouts retrieved')
+  } catch (error) {
+    console.error('[lockouts] GET error:', error)
+    return apiError('Failed to fetch lockouts', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
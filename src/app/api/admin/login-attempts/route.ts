@@ -0,0 +1,45 @@
+/**
+ * GET /api/admin/login-attempts
+ *
+ * Login attempt log, newest first (requires security.view - COUNCIL or higher by default)
+ * Each entry includes the rank of the targeted account, so attempts
+ * against council accounts stand out.
+ *
+ * Query: ?username=&ip=&success=true|false&page=1&limit=50
+ */
+
+import { NextRequest } from 'next/server'
+import { getLoginAttempts } from '@/lib/login-throttle'
+import { paginatedResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'security.view'))) {
+    return apiError('You do not have permission to view login attempts', HttpStatus.FORBIDDEN)
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
+  const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)))
+  const success = searchParams.get('success')
+
+  try {
+    const { attempts, total } = await getLoginAttempts({
+      username: searchParams.get('username') || undefined,
+      ipAddress: searchParams.get('ip') || undefined,
+      success: success === null ? undefined : success === 'true',
+      page,
+      limit,
+    })
+
+    return paginatedResponse(attempts, page, limit, total, 'Login attempts retrieved')
+  } catch (error) {
+    console.error('[login-attempts] GET error:', error)
+    return apiError('Failed to fetch login attempts', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
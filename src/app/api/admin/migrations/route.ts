@@ -0,0 +1,133 @@
+/**
+ * /api/admin/migrations
+ *
+ * Schema migration status and manual up/down runs (requires system.migrate)
+ */
+
+import { NextRequest } from 'next/server'
+import { getDriver } from '@/lib/db'
+import { getMigrationStatus, migrateUp, migrateDown } from '@/lib/migration-runner'
+import { successResponse, errorResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { MigrationError } from '@/lib/errors'
+
+/**
+ * GET /api/admin/migrations
+ *
+ * Returns applied, pending and unknown migrations
+ */
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'system.migrate'))) {
+    return apiError(
+      'You do not have permission to view migration status',
+      HttpStatus.FORBIDDEN
+    )
+  }
+
+  try {
+    const status = await getMigrationStatus(getDriver())
+
+    return successResponse(status, 'Migration status retrieved')
+  } catch (error) {
+    console.error('[migrations] GET error:', error)
+    return apiError(
+      'Failed to fetch migration status',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    )
+  }
+}
+
+/**
+ * POST /api/admin/migrations
+ *
+ * Body: { direction?: 'up' | 'down', dryRun?: boolean, steps?: number }
+ * - up (default): apply pending migrations (all, or the next `steps`)
+ * - down: roll back the last `steps` migrations (default 1)
+ * - dryRun: return the SQL that would run without changing anything
+ */
+export async function POST(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'system.migrate'))) {
+    return apiError(
+      'You do not have permission to run migrations',
+      HttpStatus.FORBIDDEN
+    )
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { direction = 'up', dryRun = false, steps } = body
+
+    if (direction !== 'up' && direction !== 'down') {
+      return apiError(
+        "direction must be 'up' or 'down'",
+        HttpStatus.BAD_REQUEST
+      )
+    }
+
+    if (steps !== undefined && (!Number.isInteger(steps) || steps < 1)) {
+      return apiError(
+        'steps must be a positive integer',
+        HttpStatus.BAD_REQUEST
+      )
+    }
+
+    const db = getDriver()
+    const options = { dryRun: Boolean(dryRun), steps }
+    const before = await getMigrationStatus(db)
+    const executed = direction === 'up'
+      ? await migrateUp(db, options)
+      : await migrateDown(db, options)
+
+    console.log(`[migrations] ${dryRun ? 'Dry run' : 'Run'} ${direction} by ${authResult.user.username}: ${executed.length} migration(s)`)
+
+    const status = await getMigrationStatus(db)
+
+    // Each migration commits in its own transaction (DDL can't be rolled
+    // back on MySQL anyway), so the entry is written once the run is done
+    if (!dryRun && executed.length > 0) {
+      await recordAudit(request, authResult.user, {
+        action: 'system.migrate',
+        targetType: 'migration',
+        targetId: status.currentVersion,
+        before: { version: before.currentVersion },
+        after: {
+          version: status.currentVersion,
+          direction,
+          migrations: executed.map(step => `${step.version} ${step.name}`),
+        },
+      })
+    }
+
+    return successResponse(
+      {
+        dryRun: Boolean(dryRun),
+        direction,
+        migrations: executed,
+        status,
+      },
+      executed.length === 0
+        ? 'Nothing to migrate'
+        : `${dryRun ? 'Would run' : 'Ran'} ${executed.length} migration(s)`
+    )
+  } catch (error) {
+    console.error('[migrations] POST error:', error)
+
+    if (error instanceof MigrationError) {
+      return errorResponse(error)
+    }
+
+    return apiError(
+      'Failed to run migrations',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    )
+  }
+}
@@ -7,10 +7,11 @@
 import { NextRequest } from 'next/server'
 import { parseWclZoneIdFromUrl } from '@/lib/parse-wcl-zone-url'
 import { fetchWarcraftLogsZoneEncounters } from '@/lib/warcraft-logs-client'
+import { isWclRateLimitedError } from '@/lib/warcraft-logs-scheduler'
 import { successResponse, errorResponse } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 import { requireAuth } from '@/lib/auth-middleware'
-import { canManageUsers } from '@/lib/permissions'
+import { can } from '@/lib/permissions'
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,9 +21,9 @@ export async function POST(request: NextRequest) {
     const authResult = requireAuth(request)
     if (authResult.error) return authResult.error
 
-    if (!canManageUsers(authResult.user)) {
+    if (!(await can(authResult.user, 'season.manage'))) {
       return errorResponse(
-        'Only Guild Masters can manage season configuration',
+        'You do not have permission to manage season configuration',
         HttpStatus.FORBIDDEN
       )
     }
@@ -79,6 +80,13 @@ export async function POST(request: NextRequest) {
       console.error(`[season-config/import] ${errorCode}:`, errorMessage)
       
       // Return specific error messages based on failure type
+      if (isWclRateLimitedError(wclError)) {
+        return errorResponse(
+          new Error(`Warcraft Logs rate limit reached. Try again after ${wclError.resetsAt}.`),
+          HttpStatus.TOO_MANY_REQUESTS
+        )
+      }
+
       if (errorCode === 'WCL_OAUTH_FAILED') {
         return errorResponse(
           'Could not authenticate with Warcraft Logs. Please check API credentials.',
@@ -2,10 +2,13 @@
  * GET /api/admin/season-config
  * 
  * Returns the active season configuration
+ * The ETag is the active config's id (0 if there is none) - every save
+ * creates a new config, so the id changes whenever the config does
  */
 
 import { NextRequest } from 'next/server'
 import { getActiveSeasonConfig } from '@/lib/season-config'
+import { withETag } from '@/lib/etag'
 import { successResponse, errorResponse } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
@@ -16,9 +19,9 @@ export async function GET(request: NextRequest) {
     const activeConfig = await getActiveSeasonConfig()
 
     if (!activeConfig) {
-      return successResponse(
-        null,
-        'No active season configuration found'
+      return withETag(
+        successResponse(null, 'No active season configuration found'),
+        0
       )
     }
 
@@ -35,7 +38,10 @@ export async function GET(request: NextRequest) {
       updatedAt: activeConfig.updated_at,
     }
 
-    return successResponse(response, 'Active season configuration retrieved')
+    return withETag(
+      successResponse(response, 'Active season configuration retrieved'),
+      activeConfig.id
+    )
   } catch (error) {
     console.error('[season-config] GET error:', error)
     return errorResponse(
@@ -2,15 +2,48 @@
  * POST /api/admin/season-config/save
  * 
  * Saves and activates a season configuration
+ * Headers: If-Match: "<active config id>" (optional, from the GET ETag) -
+ * 412 if someone else saved a config since
  */
 
 import { NextRequest } from 'next/server'
-import { createSeasonConfig } from '@/lib/season-config'
-import { successResponse, errorResponse } from '@/lib/api-response'
+import { withTransaction } from '@/lib/db'
+import { createSeasonConfig, getActiveSeasonConfig } from '@/lib/season-config'
+import { recordAudit } from '@/lib/audit'
+import { PreconditionFailedError } from '@/lib/errors'
+import { getExpectedVersion, withETag } from '@/lib/etag'
+import { successResponse, errorResponse, preconditionFailedResponse } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 import { requireAuth } from '@/lib/auth-middleware'
-import { canManageUsers } from '@/lib/permissions'
-import type { EncounterInfo } from '@/types/season-config'
+import { can } from '@/lib/permissions'
+import type { EncounterInfo, SeasonConfig } from '@/types/season-config'
+
+// Camel-cased for the frontend
+function toResponse(config: SeasonConfig) {
+  return {
+    id: config.id,
+    tierName: config.tier_name,
+    wclTierUrl: config.wcl_tier_url,
+    wclZoneId: config.wcl_zone_id,
+    encounterOrder: config.encounter_order,
+    encounterNames: config.encounter_names,
+    isActive: config.is_active,
+    createdAt: config.created_at,
+    updatedAt: config.updated_at,
+  }
+}
+
+// The fields of a config shown in the audit log
+function auditState(config: SeasonConfig) {
+  return {
+    id: config.id,
+    tier_name: config.tier_name,
+    wcl_tier_url: config.wcl_tier_url,
+    wcl_zone_id: config.wcl_zone_id,
+    encounter_order: config.encounter_order,
+    encounter_names: config.encounter_names,
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,9 +53,9 @@ export async function POST(request: NextRequest) {
     const authResult = requireAuth(request)
     if (authResult.error) return authResult.error
 
-    if (!canManageUsers(authResult.user)) {
+    if (!(await can(authResult.user, 'season.manage'))) {
       return errorResponse(
-        'Only Guild Masters can manage season configuration',
+        'You do not have permission to manage season configuration',
         HttpStatus.FORBIDDEN
       )
     }
@@ -66,33 +99,53 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const expectedVersion = getExpectedVersion(request)
+
     // Save the config (will automatically deactivate others and set this as active)
-    const savedConfig = await createSeasonConfig({
-      tier_name: tierName,
-      wcl_tier_url: wclTierUrl,
-      wcl_zone_id: wclZoneId,
-      encounter_order: encounterOrder,
-      encounter_names: encounterNames as EncounterInfo[],
-      is_active: true,
+    const savedConfig = await withTransaction(async () => {
+      const previousConfig = await getActiveSeasonConfig()
+
+      // Someone else saved a config since the client loaded it
+      if (expectedVersion !== null && expectedVersion !== (previousConfig?.id ?? 0)) {
+        throw new PreconditionFailedError(
+          'The season configuration was changed by someone else. Review it and save again.',
+          previousConfig ? toResponse(previousConfig) : null,
+          previousConfig?.id ?? 0
+        )
+      }
+
+      const config = await createSeasonConfig({
+        tier_name: tierName,
+        wcl_tier_url: wclTierUrl,
+        wcl_zone_id: wclZoneId,
+        encounter_order: encounterOrder,
+        encounter_names: encounterNames as EncounterInfo[],
+        is_active: true,
+      })
+
+      await recordAudit(request, authResult.user, {
+        action: 'season_config.save',
+        targetType: 'season_config',
+        targetId: config.id,
+        before: previousConfig ? auditState(previousConfig) : null,
+        after: auditState(config),
+      })
+
+      return config
     })
 
     console.log(`[season-config/save] Saved and activated season config: ${savedConfig.tier_name} (Zone ${savedConfig.wcl_zone_id})`)
 
     // Transform to camelCase for frontend
-    const response = {
-      id: savedConfig.id,
-      tierName: savedConfig.tier_name,
-      wclTierUrl: savedConfig.wcl_tier_url,
-      wclZoneId: savedConfig.wcl_zone_id,
-      encounterOrder: savedConfig.encounter_order,
-      encounterNames: savedConfig.encounter_names,
-      isActive: savedConfig.is_active,
-      createdAt: savedConfig.created_at,
-      updatedAt: savedConfig.updated_at,
+    return withETag(
+      successResponse(toResponse(savedConfig), 'Season configuration saved and activated'),
+      savedConfig.id
+    )
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      return preconditionFailedResponse(error.current, error.version, error.message)
     }
 
-    return successResponse(response, 'Season configuration saved and activated')
-  } catch (error) {
     console.error('[season-config/save] Error:', error)
     return errorResponse(
       `Failed to save season configuration: ${error instanceof Error ? error.message : 'Unknown error'}`,
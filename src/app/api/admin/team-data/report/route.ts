@@ -0,0 +1,32 @@
+/**
+ * GET /api/admin/team-data/report
+ *
+ * Teams whose stored progress or team info doesn't match the team data
+ * schema, with per-field errors (requires team.edit for every team)
+ * Such teams still load, but edits to them must send conforming data.
+ */
+
+import { NextRequest } from 'next/server'
+import { findNonConformingTeams } from '@/lib/team-data'
+import { successResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'team.edit'))) {
+    return apiError('You do not have permission to view the team data report', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const teams = await findNonConformingTeams()
+
+    return successResponse(teams, 'Team data report retrieved')
+  } catch (error) {
+    console.error('Team data report error:', error)
+    return apiError('Failed to build team data report', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
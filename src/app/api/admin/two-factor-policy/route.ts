@@ -0,0 +1,92 @@
+/**
+ * /api/admin/two-factor-policy
+ *
+ * Which ranks must use two-factor authentication (requires security.manage)
+ * Users of a required rank who haven't enrolled are sent through
+ * enrollment at their next login.
+ */
+
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { getTwoFactorPolicy, setTwoFactorPolicy } from '@/lib/two-factor'
+import { recordAudit } from '@/lib/audit'
+import { successResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import type { TwoFactorPolicy } from '@/types/two-factor'
+
+const RANKS = ['GUILD_MASTER', 'COUNCIL', 'TEAM_LEAD'] as const
+
+/**
+ * GET /api/admin/two-factor-policy
+ *
+ * Returns: { GUILD_MASTER: boolean, COUNCIL: boolean, TEAM_LEAD: boolean }
+ */
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'security.manage'))) {
+    return apiError('You do not have permission to view the two-factor policy', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const policy = await getTwoFactorPolicy()
+    return successResponse(policy, 'Two-factor policy retrieved')
+  } catch (error) {
+    console.error('[two-factor-policy] GET error:', error)
+    return apiError('Failed to fetch two-factor policy', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * PUT /api/admin/two-factor-policy
+ *
+ * Body: { GUILD_MASTER?: boolean, COUNCIL?: boolean, TEAM_LEAD?: boolean }
+ */
+export async function PUT(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'security.manage'))) {
+    return apiError('You do not have permission to change the two-factor policy', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const body = await request.json()
+    const changes: Partial<TwoFactorPolicy> = {}
+
+    for (const rank of RANKS) {
+      if (body[rank] === undefined) continue
+
+      if (typeof body[rank] !== 'boolean') {
+        return apiError(`${rank} must be true or false`, HttpStatus.BAD_REQUEST)
+      }
+      changes[rank] = body[rank]
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return apiError('No policy changes provided', HttpStatus.BAD_REQUEST)
+    }
+
+    const policy = await withTransaction(async () => {
+      const previous = await getTwoFactorPolicy()
+      const updated = await setTwoFactorPolicy(changes, authResult.user.userId)
+
+      await recordAudit(request, authResult.user, {
+        action: 'two_factor_policy.update',
+        targetType: 'two_factor_policy',
+        targetId: null,
+        before: { ...previous },
+        after: { ...updated },
+      })
+
+      return updated
+    })
+    return successResponse(policy, 'Two-factor policy updated')
+  } catch (error) {
+    console.error('[two-factor-policy] PUT error:', error)
+    return apiError('Failed to update two-factor policy', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
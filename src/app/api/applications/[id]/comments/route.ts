@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { addApplicationComment, getApplication } from '@/lib/applications'
+import { ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/applications/[id]/comments
+ *
+ * Comment on an application (requires applications.review on its team)
+ * Body: { body }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+
+    const application = await getApplication(parseInt(id))
+    if (!application) {
+      return apiError('Application not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (!(await can(authResult.user, 'applications.review', { teamId: application.team_id }))) {
+      return apiError('You do not have permission to review this team\'s applications', HttpStatus.FORBIDDEN)
+    }
+
+    const { body } = await request.json()
+    const comment = await addApplicationComment(application.id, body, authResult.user)
+
+    return apiResponse(comment, HttpStatus.CREATED)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+
+    console.error('Add application comment error:', error)
+    return apiError('Failed to add comment', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
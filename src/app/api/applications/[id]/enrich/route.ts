@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { enrichApplication, getApplication } from '@/lib/applications'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/applications/[id]/enrich
+ *
+ * Look up the applicant's player card again, e.g. after it failed
+ * (requires applications.review on the application's team)
+ * The outcome is in the application's enrichment_status / enrichment_error.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+
+    const application = await getApplication(parseInt(id))
+    if (!application) {
+      return apiError('Application not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (!(await can(authResult.user, 'applications.review', { teamId: application.team_id }))) {
+      return apiError('You do not have permission to review this team\'s applications', HttpStatus.FORBIDDEN)
+    }
+
+    return apiResponse(await enrichApplication(application.id))
+  } catch (error) {
+    console.error('Enrich application error:', error)
+    return apiError('Failed to enrich application', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import {
+  APPLICATION_STATUSES,
+  getApplication,
+  getApplicationDetail,
+  updateApplicationStatus,
+} from '@/lib/applications'
+import { AppError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { ApplicationStatus } from '@/types/application'
+
+/**
+ * GET /api/applications/[id]
+ *
+ * An application with its player card, comments, votes and vote tally
+ * (requires applications.review on the application's team)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+
+    const application = await getApplicationDetail(parseInt(id))
+    if (!application) {
+      return apiError('Application not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (!(await can(authResult.user, 'applications.review', { teamId: application.team_id }))) {
+      return apiError('You do not have permission to review this team\'s applications', HttpStatus.FORBIDDEN)
+    }
+
+    return apiResponse(application)
+  } catch (error) {
+    console.error('Get application error:', error)
+    return apiError('Failed to fetch application', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * PATCH /api/applications/[id]
+ *
+ * Move an application through the workflow (requires applications.manage
+ * on its team)
+ * Body: { status }
+ *
+ * new -> reviewing | declined; reviewing -> trial | accepted | declined;
+ * trial -> accepted | declined; accepted or declined -> reviewing (reopen)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const { status } = await request.json()
+
+    if (!APPLICATION_STATUSES.includes(status)) {
+      return apiError(`status must be one of: ${APPLICATION_STATUSES.join(', ')}`, HttpStatus.BAD_REQUEST)
+    }
+
+    const existing = await getApplication(parseInt(id))
+    if (!existing) {
+      return apiError('Application not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (!(await can(authResult.user, 'applications.manage', { teamId: existing.team_id }))) {
+      return apiError('You do not have permission to manage this team\'s applications', HttpStatus.FORBIDDEN)
+    }
+
+    const application = await withTransaction(async () => {
+      const updated = await updateApplicationStatus(existing, status as ApplicationStatus, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'application.status_update',
+        targetType: 'application',
+        targetId: existing.id,
+        before: { status: existing.status },
+        after: { status: updated.status },
+      })
+
+      return updated
+    })
+
+    return apiResponse(application)
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Update application error:', error)
+    return apiError('Failed to update application', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { castApplicationVote, getApplication } from '@/lib/applications'
+import { ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * PUT /api/applications/[id]/vote
+ *
+ * Vote on an application (requires applications.review on its team)
+ * Each reviewer has one vote; voting again changes it.
+ * Body: { vote: 'yes' | 'no' | 'abstain' }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+
+    const application = await getApplication(parseInt(id))
+    if (!application) {
+      return apiError('Application not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (!(await can(authResult.user, 'applications.review', { teamId: application.team_id }))) {
+      return apiError('You do not have permission to review this team\'s applications', HttpStatus.FORBIDDEN)
+    }
+
+    const { vote } = await request.json()
+
+    return apiResponse(await castApplicationVote(application.id, vote, authResult.user))
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+
+    console.error('Vote on application error:', error)
+    return apiError('Failed to record vote', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
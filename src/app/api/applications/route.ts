@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server'
+import { getClientIp, requireAuth } from '@/lib/auth-middleware'
+import { getPermittedTeamIds } from '@/lib/permissions'
+import {
+  APPLICATION_STATUSES,
+  createApplication,
+  enrichApplication,
+  getApplications,
+  getTeamApplicationQuestions,
+  validateApplication,
+} from '@/lib/applications'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse, paginatedResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { ApplicationStatus } from '@/types/application'
+
+/**
+ * GET /api/applications
+ *
+ * Applications to the teams the user reviews, newest first
+ * (requires applications.review; only covered teams are listed)
+ *
+ * Query: ?teamId=&status=&page=1&limit=50
+ */
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  const searchParams = request.nextUrl.searchParams
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
+  const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)))
+  const teamId = searchParams.get('teamId')
+  const status = searchParams.get('status')
+
+  if (teamId !== null && isNaN(parseInt(teamId, 10))) {
+    return apiError('teamId must be a number', HttpStatus.BAD_REQUEST)
+  }
+
+  if (status !== null && !APPLICATION_STATUSES.includes(status as ApplicationStatus)) {
+    return apiError(`status must be one of: ${APPLICATION_STATUSES.join(', ')}`, HttpStatus.BAD_REQUEST)
+  }
+
+  try {
+    let teamIds = await getPermittedTeamIds(authResult.user, 'applications.review')
+
+    if (teamId !== null) {
+      const requested = parseInt(teamId, 10)
+      if (teamIds !== null && !teamIds.includes(requested)) {
+        return apiError('You do not have permission to review this team\'s applications', HttpStatus.FORBIDDEN)
+      }
+      teamIds = [requested]
+    }
+
+    const { applications, total } = await getApplications({
+      teamIds,
+      status: (status as ApplicationStatus) || undefined,
+      page,
+      limit,
+    })
+
+    return paginatedResponse(applications, page, limit, total, 'Applications retrieved')
+  } catch (error) {
+    console.error('Get applications error:', error)
+    return apiError('Failed to fetch applications', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * POST /api/applications
+ *
+ * Submit an application (public endpoint, no authentication required)
+ * Body: { teamId, wclUrl, class, spec?, availability?, discord, answers?,
+ *         characterName?, realm?, region? }
+ *
+ * The character is taken from the WCL URL (name, realm and region are only
+ * needed for a link by character id). If the team has a questionnaire,
+ * answers are [{ questionId, answer }] and must answer its required
+ * questions. The applicant's player card is looked up in the background
+ * once the application is saved.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // A missing or malformed teamId is reported with the other fields
+    const teamId = Number(body?.teamId)
+    const questions = Number.isInteger(teamId) && teamId > 0
+      ? await getTeamApplicationQuestions(teamId)
+      : []
+    if (!questions) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const input = validateApplication(body, questions)
+
+    const application = await createApplication(input, getClientIp(request))
+
+    // Don't make the applicant wait for Warcraft Logs
+    enrichApplication(application.id).catch(error => {
+      console.error('Enrich application error:', error)
+    })
+
+    return apiResponse(
+      { id: application.id, status: application.status, created_at: application.created_at },
+      HttpStatus.CREATED
+    )
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Submit application error:', error)
+    return apiError('Failed to submit application', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
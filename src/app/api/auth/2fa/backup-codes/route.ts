@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { isTwoFactorEnabled, replaceBackupCodes, verifyTwoFactorCode } from '@/lib/two-factor'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/auth/2fa/backup-codes
+ * 
+ * Replace all backup codes with a new set (old ones stop working)
+ * Body: { code } (authenticator or backup code)
+ * Returns: { backupCodes }
+ */
+export async function POST(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const body = await request.json()
+    const { code } = body
+
+    if (!code) {
+      return apiError('Verification code is required', HttpStatus.BAD_REQUEST)
+    }
+
+    if (!(await isTwoFactorEnabled(authResult.user.userId))) {
+      return apiError('Two-factor authentication is not enabled', HttpStatus.BAD_REQUEST)
+    }
+
+    const method = await verifyTwoFactorCode(authResult.user.userId, String(code))
+    if (!method) {
+      return apiError('Invalid verification code', HttpStatus.UNAUTHORIZED)
+    }
+
+    const backupCodes = await replaceBackupCodes(authResult.user.userId)
+
+    return apiResponse({ backupCodes })
+  } catch (error) {
+    console.error('Regenerate backup codes error:', error)
+    return apiError('Failed to regenerate backup codes', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { User } from '@/lib/auth'
+import { getAuthUser, getClientIp } from '@/lib/auth-middleware'
+import { startLoginSession } from '@/lib/sessions'
+import { recordSuccessfulLogin } from '@/lib/login-throttle'
+import { confirmEnrollment, deleteLoginChallenge, getLoginChallenge } from '@/lib/two-factor'
+import { AppError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/auth/2fa/confirm
+ * 
+ * Finish enrollment with the first code from the authenticator app
+ * Returns one-time backup codes - they are not shown again.
+ * 
+ * When authenticated with a setup challengeToken (forced enrollment during
+ * login), the login is completed too and tokens are returned.
+ * 
+ * Body: { code, challengeToken? }
+ * Returns: { backupCodes, token?, refreshToken?, user? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { code, challengeToken } = body
+
+    if (!code) {
+      return apiError('Verification code is required', HttpStatus.BAD_REQUEST)
+    }
+
+    const authUser = getAuthUser(request)
+    const challenge = !authUser && challengeToken
+      ? await getLoginChallenge(challengeToken, 'setup')
+      : null
+
+    const userId = authUser?.userId ?? challenge?.user_id
+    if (!userId) {
+      return apiError('Authentication required', HttpStatus.UNAUTHORIZED)
+    }
+
+    const backupCodes = await confirmEnrollment(userId, String(code))
+
+    if (!challenge) {
+      return apiResponse({ backupCodes })
+    }
+
+    const user = await queryOne<User>(
+      'SELECT id, username, rank, team_id, created_at, updated_at FROM users WHERE id = ?',
+      [userId]
+    )
+
+    if (!user) {
+      return apiError('User not found', HttpStatus.NOT_FOUND)
+    }
+
+    const ipAddress = getClientIp(request)
+    await deleteLoginChallenge(challenge.id)
+    await recordSuccessfulLogin(user.username, ipAddress, user.id)
+
+    const { token, refreshToken } = await startLoginSession(user, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress,
+    })
+
+    return apiResponse({ backupCodes, token, refreshToken, user })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Two-factor confirm error:', error)
+    return apiError('Failed to confirm two-factor enrollment', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
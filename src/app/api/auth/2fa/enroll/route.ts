@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { User } from '@/lib/auth'
+import { getAuthUser } from '@/lib/auth-middleware'
+import { getLoginChallenge, startEnrollment } from '@/lib/two-factor'
+import { AppError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/auth/2fa/enroll
+ * 
+ * Start two-factor enrollment: returns a new secret and the otpauth://
+ * provisioning URI to show as a QR code. 2FA stays off until
+ * /api/auth/2fa/confirm receives a valid code.
+ * 
+ * Authenticate with the access token, or - when login answered with
+ * twoFactorSetupRequired - with that challengeToken in the body.
+ * 
+ * Body: { challengeToken? }
+ * Returns: { secret, otpauthUri }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const authUser = getAuthUser(request)
+    const challenge = !authUser && body.challengeToken
+      ? await getLoginChallenge(body.challengeToken, 'setup')
+      : null
+
+    const userId = authUser?.userId ?? challenge?.user_id
+    if (!userId) {
+      return apiError('Authentication required', HttpStatus.UNAUTHORIZED)
+    }
+
+    const user = await queryOne<User>('SELECT id, username FROM users WHERE id = ?', [userId])
+    if (!user) {
+      return apiError('User not found', HttpStatus.NOT_FOUND)
+    }
+
+    const enrollment = await startEnrollment(user.id, user.username)
+
+    return apiResponse(enrollment)
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Two-factor enrollment error:', error)
+    return apiError('Failed to start two-factor enrollment', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
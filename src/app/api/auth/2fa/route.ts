@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server'
+import { requireAuth, getClientIp } from '@/lib/auth-middleware'
+import { checkLoginThrottle, recordFailedLogin } from '@/lib/login-throttle'
+import {
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  verifyTwoFactorCode,
+  disableTwoFactor,
+} from '@/lib/two-factor'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/auth/2fa
+ * 
+ * Two-factor status for the signed-in user
+ * Returns: { enabled, required, pendingEnrollment, backupCodesRemaining }
+ */
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const status = await getTwoFactorStatus(authResult.user.userId, authResult.user.rank)
+    return apiResponse(status)
+  } catch (error) {
+    console.error('Get two-factor status error:', error)
+    return apiError('Failed to fetch two-factor status', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * DELETE /api/auth/2fa
+ * 
+ * Turn off two-factor authentication for the signed-in user
+ * Not allowed when the user's rank requires it
+ * Body: { code } (authenticator or backup code)
+ * Wrong codes are throttled like failed logins (429 with Retry-After)
+ */
+export async function DELETE(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const body = await request.json()
+    const { code } = body
+
+    if (!code) {
+      return apiError('Verification code is required', HttpStatus.BAD_REQUEST)
+    }
+
+    if (await isTwoFactorRequired(authResult.user.rank)) {
+      return apiError('Two-factor authentication is required for your rank', HttpStatus.FORBIDDEN)
+    }
+
+    // Wrong codes count as failed logins, so a stolen token can't be used
+    // to guess its way to turning 2FA off
+    const { userId, username } = authResult.user
+    const ipAddress = getClientIp(request)
+
+    const throttle = await checkLoginThrottle(username, ipAddress)
+    if (!throttle.allowed) {
+      return Response.json({
+        success: false,
+        message: `Too many failed attempts. Try again in ${throttle.retryAfterSeconds} seconds`,
+        retryAfter: throttle.retryAfterSeconds,
+      }, {
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        headers: { 'Retry-After': String(throttle.retryAfterSeconds) },
+      })
+    }
+
+    const method = await verifyTwoFactorCode(userId, String(code))
+    if (!method) {
+      await recordFailedLogin(username, ipAddress, userId, 'invalid_two_factor')
+      return apiError('Invalid verification code', HttpStatus.UNAUTHORIZED)
+    }
+
+    await disableTwoFactor(userId)
+
+    return apiResponse({ message: 'Two-factor authentication disabled' })
+  } catch (error) {
+    console.error('Disable two-factor error:', error)
+    return apiError('Failed to disable two-factor authentication', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
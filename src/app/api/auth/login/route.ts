@@ -1,6 +1,19 @@
 import { NextRequest } from 'next/server'
 import { query, queryOne } from '@/lib/db'
-import { verifyPassword, generateToken, User } from '@/lib/auth'
+import { verifyPassword, User } from '@/lib/auth'
+import { getClientIp } from '@/lib/auth-middleware'
+import { startLoginSession } from '@/lib/sessions'
+import {
+  checkLoginThrottle,
+  recordFailedLogin,
+  recordLoginAttempt,
+  recordSuccessfulLogin,
+} from '@/lib/login-throttle'
+import {
+  createLoginChallenge,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+} from '@/lib/two-factor'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
@@ -8,11 +21,19 @@ import { HttpStatus } from '@/lib/http-status'
  * POST /api/auth/login
  * 
  * Login with username and password
- * Returns a JWT token that the frontend should store
+ * Returns a short-lived access token plus a refresh token for /api/auth/refresh
  * Also returns failed attempt count for password recovery flow
  * 
+ * Repeated failures (per username and per IP) slow down further attempts and
+ * eventually lock the username; blocked attempts get 429 with Retry-After.
+ * 
+ * With two-factor authentication, no token is issued yet. Instead the response
+ * carries a challengeToken for POST /api/auth/login/verify ({ twoFactorRequired })
+ * or, when the user's rank requires 2FA but they haven't set it up, for
+ * /api/auth/2fa/enroll and /api/auth/2fa/confirm ({ twoFactorSetupRequired }).
+ * 
  * Body: { username, password }
- * Returns: { success: true, data: { token, user } } or { success: false, message, failedAttempts, userExists }
+ * Returns: { success: true, data: { token, refreshToken, user } } or { success: false, message, failedAttempts, userExists }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -24,6 +45,23 @@ export async function POST(request: NextRequest) {
       return apiError('Username and password are required', HttpStatus.BAD_REQUEST)
     }
 
+    const ipAddress = getClientIp(request)
+
+    // Refuse without checking the password while backing off or locked out
+    const throttle = await checkLoginThrottle(username, ipAddress)
+    if (!throttle.allowed) {
+      await recordLoginAttempt(username, ipAddress, null, 'locked_out')
+
+      return Response.json({
+        success: false,
+        message: `Too many failed login attempts. Try again in ${throttle.retryAfterSeconds} seconds`,
+        retryAfter: throttle.retryAfterSeconds,
+      }, {
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        headers: { 'Retry-After': String(throttle.retryAfterSeconds) },
+      })
+    }
+
     // Find user by username
     const user = await queryOne<User & { password_hash: string }>(
       'SELECT * FROM users WHERE username = ?',
@@ -31,11 +69,14 @@ export async function POST(request: NextRequest) {
     )
 
     if (!user) {
+      const failure = await recordFailedLogin(username, ipAddress, null, 'unknown_user')
+
       // Don't reveal if username doesn't exist (return generic error)
       return Response.json({
         success: false,
         message: 'Invalid username or password',
-        failedAttempts: 0,
+        failedAttempts: failure.failedAttempts,
+        lockedOut: failure.lockedOut,
         userExists: false
       }, { status: HttpStatus.UNAUTHORIZED })
     }
@@ -44,25 +85,45 @@ export async function POST(request: NextRequest) {
     const isValidPassword = await verifyPassword(password, user.password_hash)
     if (!isValidPassword) {
       // Password is wrong - this counts as a failed attempt
-      // Return userExists: true so frontend can track attempts
+      // Return userExists: true so frontend can offer password recovery
+      const failure = await recordFailedLogin(username, ipAddress, user.id, 'invalid_password')
+
       return Response.json({
         success: false,
         message: 'Invalid username or password',
-        failedAttempts: 0, // Frontend will track this
+        failedAttempts: failure.failedAttempts,
+        lockedOut: failure.lockedOut,
         userExists: true,
         username: username,
         isGuildmaster: user.rank === 'GUILD_MASTER'
       }, { status: HttpStatus.UNAUTHORIZED })
     }
 
-    // Generate token
-    const token = generateToken(user)
+    // Second factor before any token is issued
+    if (await isTwoFactorEnabled(user.id)) {
+      const challengeToken = await createLoginChallenge(user.id, 'verify')
+      return apiResponse({ twoFactorRequired: true, challengeToken })
+    }
+
+    if (await isTwoFactorRequired(user.rank)) {
+      const challengeToken = await createLoginChallenge(user.id, 'setup')
+      return apiResponse({ twoFactorSetupRequired: true, challengeToken })
+    }
+
+    await recordSuccessfulLogin(username, ipAddress, user.id)
+
+    // Start a server-side session and issue tokens for it
+    const { token, refreshToken } = await startLoginSession(user, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress,
+    })
 
     // Remove password_hash from response
     const { password_hash, ...userWithoutPassword } = user
 
     return apiResponse({
       token,
+      refreshToken,
       user: userWithoutPassword,
     })
   } catch (error) {
@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { User } from '@/lib/auth'
+import { getClientIp } from '@/lib/auth-middleware'
+import { startLoginSession } from '@/lib/sessions'
+import { checkLoginThrottle, recordFailedLogin, recordSuccessfulLogin } from '@/lib/login-throttle'
+import {
+  getLoginChallenge,
+  recordChallengeFailure,
+  deleteLoginChallenge,
+  verifyTwoFactorCode,
+} from '@/lib/two-factor'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/auth/login/verify
+ * 
+ * Second login step for accounts with two-factor authentication
+ * Accepts a code from the authenticator app or one of the backup codes
+ * 
+ * Body: { challengeToken, code }
+ * Returns: { success: true, data: { token, refreshToken, user, usedBackupCode } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { challengeToken, code } = body
+
+    if (!challengeToken || !code) {
+      return apiError('Challenge token and code are required', HttpStatus.BAD_REQUEST)
+    }
+
+    const challenge = await getLoginChallenge(challengeToken, 'verify')
+    if (!challenge) {
+      return apiError('Login expired, please log in again', HttpStatus.UNAUTHORIZED)
+    }
+
+    const user = await queryOne<User>(
+      'SELECT id, username, rank, team_id, created_at, updated_at FROM users WHERE id = ?',
+      [challenge.user_id]
+    )
+
+    if (!user) {
+      return apiError('Login expired, please log in again', HttpStatus.UNAUTHORIZED)
+    }
+
+    const ipAddress = getClientIp(request)
+
+    const throttle = await checkLoginThrottle(user.username, ipAddress)
+    if (!throttle.allowed) {
+      return Response.json({
+        success: false,
+        message: `Too many failed login attempts. Try again in ${throttle.retryAfterSeconds} seconds`,
+        retryAfter: throttle.retryAfterSeconds,
+      }, {
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        headers: { 'Retry-After': String(throttle.retryAfterSeconds) },
+      })
+    }
+
+    const method = await verifyTwoFactorCode(user.id, String(code))
+
+    if (!method) {
+      const attemptsRemaining = await recordChallengeFailure(challenge)
+      await recordFailedLogin(user.username, ipAddress, user.id, 'invalid_two_factor')
+
+      return Response.json({
+        success: false,
+        message: 'Invalid verification code',
+        attemptsRemaining,
+      }, { status: HttpStatus.UNAUTHORIZED })
+    }
+
+    await deleteLoginChallenge(challenge.id)
+    await recordSuccessfulLogin(user.username, ipAddress, user.id)
+
+    const { token, refreshToken } = await startLoginSession(user, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress,
+    })
+
+    return apiResponse({
+      token,
+      refreshToken,
+      user,
+      usedBackupCode: method === 'backup',
+    })
+  } catch (error) {
+    console.error('Two-factor login error:', error)
+    return apiError('Login failed', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { revokeSession, revokeSessionByToken, revokeUserSessions } from '@/lib/sessions'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/auth/logout
+ * 
+ * End the current session so its refresh token stops working
+ * 
+ * Body: { refreshToken?, allDevices? }
+ * - refreshToken: revoke that session (works even after the access token expired)
+ * - allDevices: revoke every session of the signed-in user (requires auth)
+ * Without a body, the session of the access token in the Authorization header is revoked
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { refreshToken, allDevices } = body
+
+    if (allDevices) {
+      const authResult = requireAuth(request)
+      if (authResult.error) return authResult.error
+
+      const revoked = await revokeUserSessions(authResult.user.userId, 'logout_all')
+      return apiResponse({ message: 'Logged out of all devices', revoked })
+    }
+
+    if (refreshToken) {
+      await revokeSessionByToken(refreshToken, 'logout')
+      return apiResponse({ message: 'Logged out successfully' })
+    }
+
+    const authResult = requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    if (!authResult.user.sessionId) {
+      return apiError('Refresh token is required to log out of this session', HttpStatus.BAD_REQUEST)
+    }
+
+    await revokeSession(authResult.user.sessionId, 'logout')
+    return apiResponse({ message: 'Logged out successfully' })
+  } catch (error) {
+    console.error('Logout error:', error)
+    return apiError('Failed to log out', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
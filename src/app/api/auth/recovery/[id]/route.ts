@@ -1,20 +1,28 @@
 import { NextRequest } from 'next/server'
-import { queryOne, execute } from '@/lib/db'
+import { queryOne, withTransaction } from '@/lib/db'
+import { User } from '@/lib/auth'
 import { requireAuth } from '@/lib/auth-middleware'
+import { can, isGuildMaster } from '@/lib/permissions'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
+import { resetTwoFactor } from '@/lib/two-factor'
+import { recordAudit } from '@/lib/audit'
+import type { RecoveryRequestType } from '@/types/two-factor'
 
 interface RecoveryRequest {
   id: number
   user_id: number
+  request_type: RecoveryRequestType
   status: 'pending' | 'resolved'
 }
 
 /**
  * PATCH /api/auth/recovery/[id]
  * 
- * Resolve a recovery request (GUILD_MASTER only)
- * This marks the request as resolved after the Guildmaster has reset the password
+ * Resolve a recovery request (requires recovery.resolve)
+ * Password requests are marked resolved after the Guildmaster has reset the password.
+ * Two-factor requests reset the user's 2FA as part of resolving them, which
+ * also requires users.manage (and Guild Master for a Guild Master account).
  */
 export async function PATCH(
   request: NextRequest,
@@ -25,9 +33,8 @@ export async function PATCH(
 
   const user = authResult.user
 
-  // Only Guildmaster can resolve recovery requests
-  if (user.rank !== 'GUILD_MASTER') {
-    return apiError('Only Guild Master can resolve recovery requests', HttpStatus.FORBIDDEN)
+  if (!(await can(user, 'recovery.resolve'))) {
+    return apiError('You do not have permission to resolve recovery requests', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -52,15 +59,58 @@ export async function PATCH(
       return apiError('Recovery request already resolved', HttpStatus.BAD_REQUEST)
     }
 
+    if (recoveryRequest.request_type === 'two_factor') {
+      if (!(await can(user, 'users.manage'))) {
+        return apiError('You do not have permission to reset two-factor authentication', HttpStatus.FORBIDDEN)
+      }
+
+      const target = await queryOne<User>(
+        'SELECT id, rank FROM users WHERE id = ?',
+        [recoveryRequest.user_id]
+      )
+
+      if (!target) {
+        return apiError('User not found', HttpStatus.NOT_FOUND)
+      }
+
+      if (target.rank === 'GUILD_MASTER' && !isGuildMaster(user)) {
+        return apiError('Only Guild Master can manage Guild Master accounts', HttpStatus.FORBIDDEN)
+      }
+
+      await withTransaction(async () => {
+        await resetTwoFactor(recoveryRequest.user_id, user.userId)
+
+        await recordAudit(request, user, {
+          action: 'user.two_factor_reset',
+          targetType: 'user',
+          targetId: recoveryRequest.user_id,
+        })
+      })
+
+      return apiResponse({
+        message: 'Two-factor authentication reset and recovery request resolved'
+      })
+    }
+
     // Mark as resolved
-    await execute(
-      `UPDATE password_recovery_requests 
-       SET status = 'resolved', 
-           resolved_at = DATETIME('now'), 
-           resolved_by = ? 
-       WHERE id = ?`,
-      [user.id, requestId]
-    )
+    await withTransaction(async (tx) => {
+      await tx.execute(
+        `UPDATE password_recovery_requests 
+         SET status = 'resolved', 
+             resolved_at = DATETIME('now'), 
+             resolved_by = ? 
+         WHERE id = ?`,
+        [user.userId, requestId]
+      )
+
+      await recordAudit(request, user, {
+        action: 'user.recovery_resolve',
+        targetType: 'user',
+        targetId: recoveryRequest.user_id,
+        before: { recovery_request_id: requestId, status: recoveryRequest.status },
+        after: { recovery_request_id: requestId, status: 'resolved' },
+      })
+    })
 
     return apiResponse({
       message: 'Recovery request resolved successfully'
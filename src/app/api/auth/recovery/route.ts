@@ -1,8 +1,11 @@
 import { NextRequest } from 'next/server'
 import { queryOne, query, execute } from '@/lib/db'
 import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
+import { isTwoFactorEnabled } from '@/lib/two-factor'
+import type { RecoveryRequestType } from '@/types/two-factor'
 
 interface User {
   id: number
@@ -13,6 +16,7 @@ interface User {
 interface RecoveryRequest {
   id: number
   user_id: number
+  request_type: RecoveryRequestType
   status: 'pending' | 'resolved'
   created_at: string
   resolved_at: string | null
@@ -26,18 +30,25 @@ interface RecoveryWithUser extends RecoveryRequest {
 /**
  * POST /api/auth/recovery
  * 
- * Create a password recovery request (PUBLIC - no auth required)
- * Body: { username: string }
+ * Create a recovery request (PUBLIC - no auth required)
+ * type 'password' (default) asks for a password reset, 'two_factor' asks the
+ * Guild Master to reset a lost authenticator
+ * Body: { username: string, type?: 'password' | 'two_factor' }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { username } = body
+    const type: RecoveryRequestType = body.type ?? 'password'
 
     if (!username) {
       return apiError('Username is required', HttpStatus.BAD_REQUEST)
     }
 
+    if (type !== 'password' && type !== 'two_factor') {
+      return apiError("Type must be 'password' or 'two_factor'", HttpStatus.BAD_REQUEST)
+    }
+
     // Check if user exists
     const user = await queryOne<User>(
       'SELECT id, username, rank FROM users WHERE username = ?',
@@ -54,10 +65,14 @@ export async function POST(request: NextRequest) {
       return apiError('Recovery not available for this account', HttpStatus.FORBIDDEN)
     }
 
+    if (type === 'two_factor' && !(await isTwoFactorEnabled(user.id))) {
+      return apiError('Two-factor authentication is not enabled for this account', HttpStatus.BAD_REQUEST)
+    }
+
     // Check for existing pending request
     const existingRequest = await queryOne<RecoveryRequest>(
-      'SELECT * FROM password_recovery_requests WHERE user_id = ? AND status = ?',
-      [user.id, 'pending']
+      'SELECT * FROM password_recovery_requests WHERE user_id = ? AND request_type = ? AND status = ?',
+      [user.id, type, 'pending']
     )
 
     if (existingRequest) {
@@ -68,8 +83,9 @@ export async function POST(request: NextRequest) {
     const recentRequest = await queryOne<RecoveryRequest>(
       `SELECT * FROM password_recovery_requests 
        WHERE user_id = ? 
+       AND request_type = ?
        AND datetime(created_at) > datetime('now', '-24 hours')`,
-      [user.id]
+      [user.id, type]
     )
 
     if (recentRequest) {
@@ -78,8 +94,8 @@ export async function POST(request: NextRequest) {
 
     // Create recovery request
     await execute(
-      'INSERT INTO password_recovery_requests (user_id, status) VALUES (?, ?)',
-      [user.id, 'pending']
+      'INSERT INTO password_recovery_requests (user_id, request_type, status) VALUES (?, ?, ?)',
+      [user.id, type, 'pending']
     )
 
     return apiResponse({
@@ -95,7 +111,7 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/auth/recovery
  * 
- * Get all pending recovery requests (GUILD_MASTER only)
+ * Get all pending recovery requests (requires recovery.resolve)
  */
 export async function GET(request: NextRequest) {
   const authResult = requireAuth(request)
@@ -103,9 +119,8 @@ export async function GET(request: NextRequest) {
 
   const user = authResult.user
 
-  // Only Guildmaster can view recovery requests
-  if (user.rank !== 'GUILD_MASTER') {
-    return apiError('Only Guild Master can view recovery requests', HttpStatus.FORBIDDEN)
+  if (!(await can(user, 'recovery.resolve'))) {
+    return apiError('You do not have permission to view recovery requests', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -113,6 +128,7 @@ export async function GET(request: NextRequest) {
       `SELECT 
         r.id,
         r.user_id,
+        r.request_type,
         r.status,
         r.created_at,
         r.resolved_at,
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { generateToken } from '@/lib/auth'
+import { getClientIp } from '@/lib/auth-middleware'
+import { rotateSession } from '@/lib/sessions'
+import { UnauthorizedError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/auth/refresh
+ * 
+ * Exchange a refresh token for a new access token
+ * The refresh token is rotated: the old one stops working and must be
+ * replaced with the one returned here. Claims (rank, team) are re-read
+ * from the database.
+ * 
+ * Body: { refreshToken }
+ * Returns: { success: true, data: { token, refreshToken, user } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { refreshToken } = body
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return apiError('Refresh token is required', HttpStatus.BAD_REQUEST)
+    }
+
+    const session = await rotateSession(refreshToken, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: getClientIp(request),
+    })
+
+    return apiResponse({
+      token: generateToken(session.user, session.sessionId),
+      refreshToken: session.refreshToken,
+      user: session.user,
+    })
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return apiError(error.message, HttpStatus.UNAUTHORIZED)
+    }
+
+    console.error('Refresh token error:', error)
+    return apiError('Failed to refresh session', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
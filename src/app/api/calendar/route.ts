@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server'
+import { getCalendar } from '@/lib/raid-events'
+import { addDays } from '@/lib/raid-schedule'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+const DEFAULT_DAYS = 28
+const MAX_DAYS = 366
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+}
+
+/**
+ * GET /api/calendar
+ *
+ * Every team's raid nights and events between two dates, in start order
+ * (public endpoint, no authentication required). Cancelled occurrences
+ * are included with `cancelled: true`.
+ *
+ * Query: ?from=YYYY-MM-DD (default today) &to=YYYY-MM-DD (inclusive,
+ *        default four weeks on) &teamId= (one team only)
+ * Dates are UTC days; each occurrence has startsAt/endsAt in UTC and its
+ * local date and timezone.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const from = searchParams.get('from') || new Date().toISOString().slice(0, 10)
+  const to = searchParams.get('to') || addDays(from, DEFAULT_DAYS - 1)
+  const teamId = searchParams.get('teamId')
+
+  if (!isDate(from) || !isDate(to)) {
+    return apiError('from and to must be dates (YYYY-MM-DD)', HttpStatus.BAD_REQUEST)
+  }
+  if (to < from || to > addDays(from, MAX_DAYS - 1)) {
+    return apiError(`to must be on or after from, and at most ${MAX_DAYS} days later`, HttpStatus.BAD_REQUEST)
+  }
+  if (teamId !== null && isNaN(parseInt(teamId, 10))) {
+    return apiError('teamId must be a number', HttpStatus.BAD_REQUEST)
+  }
+
+  try {
+    const occurrences = await getCalendar(
+      new Date(`${from}T00:00:00Z`),
+      new Date(`${addDays(to, 1)}T00:00:00Z`),
+      teamId !== null ? parseInt(teamId, 10) : undefined
+    )
+
+    return apiResponse({ from, to, occurrences })
+  } catch (error) {
+    console.error('Get calendar error:', error)
+    return apiError('Failed to fetch calendar', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest } from 'next/server'
-import { queryOne, execute } from '@/lib/db'
+import { queryOne, withTransaction } from '@/lib/db'
 import { requireAuth } from '@/lib/auth-middleware'
-import { apiResponse, apiError } from '@/lib/api-response'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { PreconditionFailedError } from '@/lib/errors'
+import { getExpectedVersion, withETag } from '@/lib/etag'
+import { apiResponse, apiError, preconditionFailedResponse } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
 interface SiteContent {
@@ -9,6 +13,7 @@ interface SiteContent {
   key: string
   title: string
   content: string
+  version: number
   created_at: string
   updated_at: string
 }
@@ -18,6 +23,7 @@ interface SiteContent {
  * 
  * Get site content by key (PUBLIC - no auth required)
  * Example: GET /api/content/about-us
+ * The content's version is sent as the ETag
  */
 export async function GET(
   request: NextRequest,
@@ -34,7 +40,7 @@ export async function GET(
       return apiError('Content not found', HttpStatus.NOT_FOUND)
     }
 
-    return apiResponse(content)
+    return withETag(apiResponse(content), content.version)
   } catch (error) {
     console.error('Get content error:', error)
     return apiError('Failed to fetch content', HttpStatus.INTERNAL_SERVER_ERROR)
@@ -44,8 +50,9 @@ export async function GET(
 /**
  * PATCH /api/content/[key]
  * 
- * Update site content (GUILD_MASTER and COUNCIL only)
+ * Update site content (requires content.edit - GUILD_MASTER and COUNCIL by default)
  * Body: { title?, content? }
+ * Headers: If-Match: "<version>" (optional) - 412 if the content has changed
  */
 export async function PATCH(
   request: NextRequest,
@@ -54,11 +61,10 @@ export async function PATCH(
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  // Only GUILD_MASTER and COUNCIL can edit content
   const user = authResult.user
-  if (user.rank !== 'GUILD_MASTER' && user.rank !== 'COUNCIL') {
+  if (!(await can(user, 'content.edit'))) {
     return apiError(
-      'Only Guild Master and Council can edit site content',
+      'You do not have permission to edit site content',
       HttpStatus.FORBIDDEN
     )
   }
@@ -97,26 +103,59 @@ export async function PATCH(
       return apiError('No updates provided', HttpStatus.BAD_REQUEST)
     }
 
-    // Add updated_at
-    updates.push("updated_at = DATETIME('now')")
+    // Add updated_at and bump the version
+    updates.push("updated_at = DATETIME('now')", 'version = version + 1')
 
-    // Add key to values
+    // Add key to values, and the version the client loaded if it sent one
+    const expectedVersion = getExpectedVersion(request)
     values.push(key)
+    if (expectedVersion !== null) {
+      values.push(expectedVersion)
+    }
 
     // Execute update
-    await execute(
-      `UPDATE site_content SET ${updates.join(', ')} WHERE key = ?`,
-      values
-    )
-
-    // Get updated content
-    const updatedContent = await queryOne<SiteContent>(
-      'SELECT * FROM site_content WHERE key = ?',
-      [key]
-    )
-
-    return apiResponse(updatedContent)
+    const updatedContent = await withTransaction(async (tx) => {
+      const result = await tx.execute(
+        `UPDATE site_content SET ${updates.join(', ')} WHERE key = ?${expectedVersion !== null ? ' AND version = ?' : ''}`,
+        values
+      )
+
+      // Someone else saved since the client loaded the page
+      if (result.changes === 0) {
+        const current = await tx.queryOne<SiteContent>('SELECT * FROM site_content WHERE key = ?', [key])
+        throw new PreconditionFailedError(
+          'This page was changed by someone else. Review their changes and save again.',
+          current,
+          current?.version ?? 0
+        )
+      }
+
+      // Get updated content
+      const updated = await tx.queryOne<SiteContent>(
+        'SELECT * FROM site_content WHERE key = ?',
+        [key]
+      )
+
+      await recordAudit(request, user, {
+        action: 'content.update',
+        targetType: 'content',
+        targetId: key,
+        before: { title: existingContent.title, content: existingContent.content },
+        after: updated ? { title: updated.title, content: updated.content } : null,
+      })
+
+      return updated
+    })
+
+    return withETag(apiResponse(updatedContent), updatedContent!.version)
   } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      if (!error.current) {
+        return apiError('Content not found', HttpStatus.NOT_FOUND)
+      }
+      return preconditionFailedResponse(error.current, error.version, error.message)
+    }
+
     console.error('Update content error:', error)
     return apiError('Failed to update content', HttpStatus.INTERNAL_SERVER_ERROR)
   }
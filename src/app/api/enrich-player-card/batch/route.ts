@@ -0,0 +1,145 @@
+/**
+ * POST /api/enrich-player-card/batch
+ *
+ * Enriches many player cards in one request, e.g. a whole roster
+ *
+ * Input (one of):
+ * {
+ *   warcraftLogsUrls: string[] (at most MAX_BATCH_SIZE),
+ *   seasonKey?: string (default: "latest"),
+ *   forceRefresh?: boolean
+ * }
+ * {
+ *   teamId: number (requires sign-in and team.view; every roster member,
+ *     by WCL URL or by realm and region; at most MAX_BATCH_SIZE members),
+ *   seasonKey?, forceRefresh?
+ * }
+ *
+ * Output:
+ * {
+ *   success: true,
+ *   data: {
+ *     results: [{
+ *       warcraftLogsUrls: string[],
+ *       memberIds: number[],
+ *       playerCard: {...} | null,
+ *       fetchStatus: 'complete' | 'partial' | 'failed',
+ *       cached: boolean,
+ *       errorCode?: string,
+ *       errorMessage?: string
+ *     }],
+ *     counts: { requested, unique, cached, fetched, failed }
+ *   }
+ * }
+ *
+ * URLs for the same character share one result. A character that can't be
+ * enriched fails on its own: errorCode is INVALID_URL, WCL_NOT_CONFIGURED,
+ * WCL_CHARACTER_NOT_FOUND or another WCL error code.
+ */
+
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { queryOne } from '@/lib/db'
+import { getRoster } from '@/lib/roster'
+import { buildWarcraftLogsCharacterUrl, toRealmSlug } from '@/lib/warcraft-logs-parser'
+import { findCachedCharacter } from '@/lib/character-enrichment-cache'
+import { MAX_BATCH_SIZE, enrichPlayerCards } from '@/lib/player-card'
+import { AppError } from '@/lib/errors'
+import type { RosterMember } from '@/types/roster'
+import type { PlayerCardBatchRequest } from '@/types/player-card'
+
+// A roster member's WCL character, from their WCL URL or realm and region
+function memberUrl(member: RosterMember): string {
+  if (member.wcl_url) return member.wcl_url
+  try {
+    return buildWarcraftLogsCharacterUrl(member.region, toRealmSlug(member.realm), member.character_name)
+  } catch {
+    return ''
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { warcraftLogsUrls, teamId, seasonKey = 'latest', forceRefresh = false } = body ?? {}
+
+    let requests: PlayerCardBatchRequest[]
+
+    if (teamId !== undefined) {
+      const authResult = requireAuth(request)
+      if (authResult.error) return authResult.error
+
+      if (typeof teamId !== 'number' || !Number.isInteger(teamId)) {
+        return apiError('teamId must be an integer', HttpStatus.BAD_REQUEST)
+      }
+
+      if (!(await can(authResult.user, 'team.view', { teamId }))) {
+        return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+      }
+
+      const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+      if (!team) {
+        return apiError('Team not found', HttpStatus.NOT_FOUND)
+      }
+
+      const roster = await getRoster(teamId)
+      if (roster.length > MAX_BATCH_SIZE) {
+        return apiError(
+          `The roster has more than ${MAX_BATCH_SIZE} members; send their warcraftLogsUrls in smaller batches`,
+          HttpStatus.BAD_REQUEST
+        )
+      }
+
+      requests = roster.map(member => ({
+        warcraftLogsUrl: memberUrl(member),
+        memberId: member.id,
+      }))
+    } else if (Array.isArray(warcraftLogsUrls) && warcraftLogsUrls.every(url => typeof url === 'string')) {
+      if (warcraftLogsUrls.length === 0 || warcraftLogsUrls.length > MAX_BATCH_SIZE) {
+        return apiError(
+          `warcraftLogsUrls must list between 1 and ${MAX_BATCH_SIZE} URLs`,
+          HttpStatus.BAD_REQUEST
+        )
+      }
+      requests = warcraftLogsUrls.map((url: string) => ({ warcraftLogsUrl: url }))
+    } else {
+      return apiError(
+        'warcraftLogsUrls (an array of strings) or teamId is required',
+        HttpStatus.BAD_REQUEST
+      )
+    }
+
+    // Check database connectivity once for the whole batch
+    try {
+      await findCachedCharacter({ region: 'US', realm: 'test', character_name: 'test', season_key: 'latest' })
+    } catch (dbError) {
+      console.error('[enrich-player-card/batch] Database connectivity check failed:', dbError)
+      return apiError(
+        'Database unavailable. Please try again later.',
+        HttpStatus.SERVICE_UNAVAILABLE
+      )
+    }
+
+    const result = await enrichPlayerCards(requests, {
+      seasonKey: typeof seasonKey === 'string' ? seasonKey : 'latest',
+      forceRefresh: forceRefresh === true,
+    })
+
+    console.log('[enrich-player-card/batch] Done:', result.counts)
+
+    return successResponse(result)
+  } catch (error) {
+    if (error instanceof AppError) {
+      return errorResponse(error)
+    }
+
+    console.error('[enrich-player-card/batch] Unexpected error:', error)
+    return apiError(
+      'An unexpected server error occurred. Please try again later.',
+      HttpStatus.INTERNAL_SERVER_ERROR
+    )
+  }
+}
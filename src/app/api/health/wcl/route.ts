@@ -2,80 +2,74 @@
  * GET /api/health/wcl
  * 
  * Health check for Warcraft Logs API connectivity
- * Tests OAuth token acquisition
+ * Tests OAuth token acquisition through the shared token manager, so a
+ * token it already holds is reused rather than requesting another
+ * Also reports the API points left this hour (rateLimitData) and the
+ * requests queued behind them
  */
 
 import { NextRequest } from 'next/server'
-import { successResponse, errorResponse } from '@/lib/api-response'
-import { HttpStatus } from '@/lib/http-status'
+import { successResponse } from '@/lib/api-response'
+import { getWclToken } from '@/lib/warcraft-logs-token'
+import { getWclSchedulerStatus } from '@/lib/warcraft-logs-scheduler'
 
 export async function GET(request: NextRequest) {
   try {
     console.log('[health/wcl] Testing WCL API connectivity')
 
-    const clientId = process.env.WCL_CLIENT_ID
-    const clientSecret = process.env.WCL_CLIENT_SECRET
+    let token
+    try {
+      token = await getWclToken()
+    } catch (tokenError) {
+      const code = (tokenError as any).code
 
-    if (!clientId || !clientSecret) {
-      return successResponse({
-        ok: false,
-        code: 'WCL_CONFIG_MISSING',
-        message: 'Warcraft Logs credentials not configured'
-      })
-    }
+      if (code === 'WCL_CONFIG_MISSING') {
+        return successResponse({
+          ok: false,
+          code,
+          message: 'Warcraft Logs credentials not configured'
+        })
+      }
 
-    // Try to get an OAuth token
-    const tokenUrl = 'https://www.warcraftlogs.com/oauth/token'
-    
-    const response = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'client_credentials',
-        client_id: clientId,
-        client_secret: clientSecret,
-      }),
-    })
+      if (code === 'WCL_OAUTH_FAILED') {
+        return successResponse({
+          ok: false,
+          code,
+          message: `WCL OAuth failed with status ${(tokenError as any).status}`,
+          details: {
+            status: (tokenError as any).status,
+            statusText: (tokenError as any).statusText
+          }
+        })
+      }
 
-    if (!response.ok) {
-      const responseText = await response.text()
-      console.error('[health/wcl] OAuth failed:', {
-        status: response.status,
-        body: responseText.substring(0, 500)
-      })
-      
-      return successResponse({
-        ok: false,
-        code: 'WCL_OAUTH_FAILED',
-        message: `WCL OAuth failed with status ${response.status}`,
-        details: {
-          status: response.status,
-          statusText: response.statusText
-        }
-      })
-    }
+      if (code === 'WCL_OAUTH_INVALID_RESPONSE' || code === 'WCL_OAUTH_NETWORK_ERROR') {
+        return successResponse({
+          ok: false,
+          code,
+          message: (tokenError as Error).message
+        })
+      }
 
-    const data = await response.json()
-    
-    if (!data.access_token) {
-      return successResponse({
-        ok: false,
-        code: 'WCL_OAUTH_INVALID_RESPONSE',
-        message: 'WCL OAuth response missing access token'
-      })
+      throw tokenError
     }
 
     console.log('[health/wcl] ✅ WCL API connectivity OK')
+
+    // Points left this hour, and what's waiting on them
+    const scheduler = await getWclSchedulerStatus({ refresh: true })
     
     return successResponse({
       ok: true,
       message: 'Warcraft Logs API is accessible',
       details: {
         hasToken: true,
-        tokenLength: data.access_token.length,
-        expiresIn: data.expires_in
+        tokenLength: token.accessToken.length,
+        expiresIn: Math.max(0, Math.round((token.expiresAt - Date.now()) / 1000)),
+        budget: scheduler.budget,
+        queued: scheduler.queued,
+        activeRequests: scheduler.active,
+        pausedUntil: scheduler.pausedUntil
       }
     })
 
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { PERMISSIONS, getUserPermissions } from '@/lib/permissions'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/permissions
+ * 
+ * List every permission, plus what the current user holds
+ * Returns: { available: { [permission]: description }, granted: [{ permission, teamId }] }
+ * A granted teamId of null means the permission applies to every team.
+ */
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const grants = await getUserPermissions(authResult.user)
+
+    // Drop duplicates (a rank default and a role can grant the same thing)
+    const seen = new Set<string>()
+    const granted = grants.filter(grant => {
+      const key = `${grant.permission}:${grant.teamId}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+    return apiResponse({ available: PERMISSIONS, granted })
+  } catch (error) {
+    console.error('Get permissions error:', error)
+    return apiError('Failed to fetch permissions', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
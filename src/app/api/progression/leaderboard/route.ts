@@ -0,0 +1,28 @@
+import { getProgressionLeaderboard } from '@/lib/progression-leaderboard'
+import { AppError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/progression/leaderboard
+ *
+ * Every team ranked by Mythic, then Heroic, then Normal bosses down in the
+ * active season (public endpoint, no authentication required)
+ * Ties go to the team that got there first. Each team lists its bosses in
+ * the season's encounter order with the dates they first went down.
+ *
+ * Built from roster members' cached Warcraft Logs kills (see
+ * /api/teams/[id]/progression) and rebuilt when they change.
+ */
+export async function GET() {
+  try {
+    return apiResponse(await getProgressionLeaderboard())
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Get progression leaderboard error:', error)
+    return apiError('Failed to fetch progression leaderboard', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server'
+import { query, queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can, isPermission } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+async function getRolePermissions(roleId: number): Promise<string[]> {
+  const rows = await query<{ permission: string }>(
+    'SELECT permission FROM role_permissions WHERE role_id = ? ORDER BY permission',
+    [roleId]
+  )
+  return rows.map(row => row.permission)
+}
+
+/**
+ * GET /api/roles/[id]/permissions
+ * 
+ * Get the permissions a role grants (requires roles.manage)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'roles.manage'))) {
+    return apiError('You do not have permission to view role permissions', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const { id } = await params
+    const roleId = parseInt(id)
+
+    if (isNaN(roleId)) {
+      return apiError('Invalid role ID', HttpStatus.BAD_REQUEST)
+    }
+
+    const role = await queryOne('SELECT id FROM guild_roles WHERE id = ?', [roleId])
+    if (!role) {
+      return apiError('Role not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse({ roleId, permissions: await getRolePermissions(roleId) })
+  } catch (error) {
+    console.error('Get role permissions error:', error)
+    return apiError('Failed to fetch role permissions', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * PUT /api/roles/[id]/permissions
+ * 
+ * Replace the permissions a role grants (requires roles.manage)
+ * Body: { permissions: string[] }
+ * 
+ * Team-specific roles only grant their permissions for their team.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'roles.manage'))) {
+    return apiError('You do not have permission to change role permissions', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const { id } = await params
+    const roleId = parseInt(id)
+
+    if (isNaN(roleId)) {
+      return apiError('Invalid role ID', HttpStatus.BAD_REQUEST)
+    }
+
+    const body = await request.json()
+    const { permissions } = body
+
+    if (!Array.isArray(permissions)) {
+      return apiError('permissions must be an array', HttpStatus.BAD_REQUEST)
+    }
+
+    const unknown = permissions.filter(permission => !isPermission(permission))
+    if (unknown.length > 0) {
+      return apiError(`Unknown permissions: ${unknown.join(', ')}`, HttpStatus.BAD_REQUEST)
+    }
+
+    const role = await queryOne('SELECT id FROM guild_roles WHERE id = ?', [roleId])
+    if (!role) {
+      return apiError('Role not found', HttpStatus.NOT_FOUND)
+    }
+
+    const updated = await withTransaction(async (tx) => {
+      const previous = await getRolePermissions(roleId)
+
+      await tx.execute('DELETE FROM role_permissions WHERE role_id = ?', [roleId])
+      for (const permission of new Set<string>(permissions)) {
+        await tx.execute(
+          'INSERT INTO role_permissions (role_id, permission) VALUES (?, ?)',
+          [roleId, permission]
+        )
+      }
+
+      const current = await getRolePermissions(roleId)
+
+      await recordAudit(request, authResult.user, {
+        action: 'role.permissions_update',
+        targetType: 'role',
+        targetId: roleId,
+        before: { permissions: previous },
+        after: { permissions: current },
+      })
+
+      return current
+    })
+
+    return apiResponse({ roleId, permissions: updated })
+  } catch (error) {
+    console.error('Update role permissions error:', error)
+    return apiError('Failed to update role permissions', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest } from 'next/server'
-import { queryOne, execute } from '@/lib/db'
+import { queryOne, withTransaction } from '@/lib/db'
 import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
 /**
  * PATCH /api/roles/[id]
  * 
- * Update a role (GUILD_MASTER only)
+ * Update a role (requires roles.manage)
  */
 export async function PATCH(
   request: NextRequest,
@@ -18,8 +20,8 @@ export async function PATCH(
 
   const user = authResult.user
 
-  if (user.rank !== 'GUILD_MASTER') {
-    return apiError('Only Guild Master can update roles', HttpStatus.FORBIDDEN)
+  if (!(await can(user, 'roles.manage'))) {
+    return apiError('You do not have permission to update roles', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -34,7 +36,7 @@ export async function PATCH(
     const { name, description, cluster_name, cluster_level, display_order } = body
 
     // Check if role exists
-    const role = await queryOne('SELECT * FROM guild_roles WHERE id = ?', [roleId])
+    const role = await queryOne<Record<string, unknown>>('SELECT * FROM guild_roles WHERE id = ?', [roleId])
     if (!role) {
       return apiError('Role not found', HttpStatus.NOT_FOUND)
     }
@@ -71,10 +73,20 @@ export async function PATCH(
     updates.push("updated_at = DATETIME('now')")
     values.push(roleId)
 
-    await execute(
-      `UPDATE guild_roles SET ${updates.join(', ')} WHERE id = ?`,
-      values
-    )
+    await withTransaction(async (tx) => {
+      await tx.execute(
+        `UPDATE guild_roles SET ${updates.join(', ')} WHERE id = ?`,
+        values
+      )
+
+      await recordAudit(request, user, {
+        action: 'role.update',
+        targetType: 'role',
+        targetId: roleId,
+        before: role,
+        after: await tx.queryOne<Record<string, unknown>>('SELECT * FROM guild_roles WHERE id = ?', [roleId]),
+      })
+    })
 
     return apiResponse({ message: 'Role updated successfully' })
   } catch (error) {
@@ -86,7 +98,7 @@ export async function PATCH(
 /**
  * DELETE /api/roles/[id]
  * 
- * Delete a role (GUILD_MASTER only)
+ * Delete a role (requires roles.manage)
  */
 export async function DELETE(
   request: NextRequest,
@@ -97,8 +109,8 @@ export async function DELETE(
 
   const user = authResult.user
 
-  if (user.rank !== 'GUILD_MASTER') {
-    return apiError('Only Guild Master can delete roles', HttpStatus.FORBIDDEN)
+  if (!(await can(user, 'roles.manage'))) {
+    return apiError('You do not have permission to delete roles', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -109,12 +121,23 @@ export async function DELETE(
       return apiError('Invalid role ID', HttpStatus.BAD_REQUEST)
     }
 
-    const result = await execute('DELETE FROM guild_roles WHERE id = ?', [roleId])
-
-    if (result.changes === 0) {
+    const role = await queryOne<Record<string, unknown>>('SELECT * FROM guild_roles WHERE id = ?', [roleId])
+    if (!role) {
       return apiError('Role not found', HttpStatus.NOT_FOUND)
     }
 
+    await withTransaction(async (tx) => {
+      await tx.execute('DELETE FROM role_permissions WHERE role_id = ?', [roleId])
+      await tx.execute('DELETE FROM guild_roles WHERE id = ?', [roleId])
+
+      await recordAudit(request, user, {
+        action: 'role.delete',
+        targetType: 'role',
+        targetId: roleId,
+        before: role,
+      })
+    })
+
     return apiResponse({ message: 'Role deleted successfully' })
   } catch (error) {
     console.error('Delete role error:', error)
@@ -1,13 +1,15 @@
 import { NextRequest } from 'next/server'
-import { query, queryOne, execute } from '@/lib/db'
+import { query, queryOne, withTransaction } from '@/lib/db'
 import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
 /**
  * POST /api/roles/assignments
  * 
- * Assign a user to a role (GUILD_MASTER only)
+ * Assign a user to a role (requires roles.manage)
  * Body: { role_id, user_id }
  */
 export async function POST(request: NextRequest) {
@@ -16,8 +18,8 @@ export async function POST(request: NextRequest) {
 
   const user = authResult.user
 
-  if (user.rank !== 'GUILD_MASTER') {
-    return apiError('Only Guild Master can assign roles', HttpStatus.FORBIDDEN)
+  if (!(await can(user, 'roles.manage'))) {
+    return apiError('You do not have permission to assign roles', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -51,10 +53,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Create assignment
-    await execute(
-      'INSERT INTO role_assignments (role_id, user_id) VALUES (?, ?)',
-      [role_id, user_id]
-    )
+    await withTransaction(async (tx) => {
+      await tx.execute(
+        'INSERT INTO role_assignments (role_id, user_id) VALUES (?, ?)',
+        [role_id, user_id]
+      )
+
+      await recordAudit(request, user, {
+        action: 'role.assign',
+        targetType: 'role_assignment',
+        targetId: `${role_id}:${user_id}`,
+        after: { role_id, role_name: role.name, user_id, username: targetUser.username },
+      })
+    })
 
     return apiResponse({ 
       message: 'User assigned to role successfully'
@@ -68,7 +79,7 @@ export async function POST(request: NextRequest) {
 /**
  * DELETE /api/roles/assignments
  * 
- * Remove a user from a role (GUILD_MASTER only)
+ * Remove a user from a role (requires roles.manage)
  * Body: { role_id, user_id }
  */
 export async function DELETE(request: NextRequest) {
@@ -77,8 +88,8 @@ export async function DELETE(request: NextRequest) {
 
   const user = authResult.user
 
-  if (user.rank !== 'GUILD_MASTER') {
-    return apiError('Only Guild Master can remove role assignments', HttpStatus.FORBIDDEN)
+  if (!(await can(user, 'roles.manage'))) {
+    return apiError('You do not have permission to remove role assignments', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -89,12 +100,25 @@ export async function DELETE(request: NextRequest) {
       return apiError('role_id and user_id are required', HttpStatus.BAD_REQUEST)
     }
 
-    const result = await execute(
-      'DELETE FROM role_assignments WHERE role_id = ? AND user_id = ?',
-      [role_id, user_id]
-    )
-
-    if (result.changes === 0) {
+    const removed = await withTransaction(async (tx) => {
+      const result = await tx.execute(
+        'DELETE FROM role_assignments WHERE role_id = ? AND user_id = ?',
+        [role_id, user_id]
+      )
+
+      if (result.changes > 0) {
+        await recordAudit(request, user, {
+          action: 'role.unassign',
+          targetType: 'role_assignment',
+          targetId: `${role_id}:${user_id}`,
+          before: { role_id, user_id },
+        })
+      }
+
+      return result.changes > 0
+    })
+
+    if (!removed) {
       return apiError('Assignment not found', HttpStatus.NOT_FOUND)
     }
 
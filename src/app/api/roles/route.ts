@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server'
-import { query, execute } from '@/lib/db'
+import { query, withTransaction } from '@/lib/db'
 import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
@@ -72,7 +74,7 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/roles
  * 
- * Create a new role (GUILD_MASTER only)
+ * Create a new role (requires roles.manage)
  * Body: { name, description, cluster_name, cluster_level, display_order, is_team_specific, team_id }
  */
 export async function POST(request: NextRequest) {
@@ -81,9 +83,8 @@ export async function POST(request: NextRequest) {
 
   const user = authResult.user
 
-  // Only Guildmaster can create roles
-  if (user.rank !== 'GUILD_MASTER') {
-    return apiError('Only Guild Master can create roles', HttpStatus.FORBIDDEN)
+  if (!(await can(user, 'roles.manage'))) {
+    return apiError('You do not have permission to create roles', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -94,19 +95,40 @@ export async function POST(request: NextRequest) {
       return apiError('Name, cluster_name, and cluster_level are required', HttpStatus.BAD_REQUEST)
     }
 
-    const result = await execute(
-      `INSERT INTO guild_roles (name, description, cluster_name, cluster_level, display_order, is_team_specific, team_id)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [
-        name,
-        description || '',
-        cluster_name,
-        cluster_level,
-        display_order || 0,
-        is_team_specific ? 1 : 0,
-        team_id || null
-      ]
-    )
+    const role = {
+      name,
+      description: description || '',
+      cluster_name,
+      cluster_level,
+      display_order: display_order || 0,
+      is_team_specific: is_team_specific ? 1 : 0,
+      team_id: team_id || null
+    }
+
+    const result = await withTransaction(async (tx) => {
+      const inserted = await tx.execute(
+        `INSERT INTO guild_roles (name, description, cluster_name, cluster_level, display_order, is_team_specific, team_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          role.name,
+          role.description,
+          role.cluster_name,
+          role.cluster_level,
+          role.display_order,
+          role.is_team_specific,
+          role.team_id
+        ]
+      )
+
+      await recordAudit(request, user, {
+        action: 'role.create',
+        targetType: 'role',
+        targetId: Number(inserted.lastInsertRowid),
+        after: role,
+      })
+
+      return inserted
+    })
 
     return apiResponse({ 
       id: result.lastInsertRowid,
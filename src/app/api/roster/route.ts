@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { getAccessibleTeamIds } from '@/lib/permissions'
+import { findCharacterTeams } from '@/lib/roster'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/roster?character=Name&realm=Realm
+ *
+ * Find which teams a character is on, limited to teams the user can view
+ * realm is optional; names match case-insensitively
+ */
+export async function GET(request: NextRequest) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const character = searchParams.get('character')?.trim()
+    const realm = searchParams.get('realm')?.trim() || undefined
+
+    if (!character) {
+      return apiError('character is required', HttpStatus.BAD_REQUEST)
+    }
+
+    const accessibleTeamIds = await getAccessibleTeamIds(authResult.user)
+    const entries = (await findCharacterTeams(character, realm)).filter(
+      entry => accessibleTeamIds === null || accessibleTeamIds.includes(entry.team_id)
+    )
+
+    return apiResponse(entries)
+  } catch (error) {
+    console.error('Find character error:', error)
+    return apiError('Failed to search rosters', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
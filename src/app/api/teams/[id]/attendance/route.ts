@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamAttendance } from '@/lib/attendance'
+import { DEFAULT_ATTENDANCE_WINDOWS, DEFAULT_TRIAL_THRESHOLD } from '@/lib/attendance-summary'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+const MAX_WINDOW_DAYS = 366
+const MAX_WINDOWS = 5
+
+/**
+ * GET /api/teams/[id]/attendance
+ *
+ * Attendance percentages per roster member (inactive members left out) over
+ * the last N days for each window (requires team.view). Only raids with
+ * recorded attendance count; present, late and bench count as attended.
+ * Trials below the threshold in the shortest window are flagged and listed
+ * in `trialsToReview`.
+ *
+ * Query: ?windows=30,90 (days) &threshold=80 (percent)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const windowsParam = searchParams.get('windows')
+    const thresholdParam = searchParams.get('threshold')
+
+    const windows = windowsParam
+      ? [...new Set(windowsParam.split(',').map(value => value.trim()))]
+      : DEFAULT_ATTENDANCE_WINDOWS.map(String)
+    if (
+      windows.length > MAX_WINDOWS ||
+      windows.some(value => !/^[1-9]\d*$/.test(value) || parseInt(value, 10) > MAX_WINDOW_DAYS)
+    ) {
+      return apiError(
+        `windows must be up to ${MAX_WINDOWS} numbers of days from 1 to ${MAX_WINDOW_DAYS}`,
+        HttpStatus.BAD_REQUEST
+      )
+    }
+
+    const threshold = thresholdParam !== null ? Number(thresholdParam) : DEFAULT_TRIAL_THRESHOLD
+    if (thresholdParam !== null && (thresholdParam.trim() === '' || isNaN(threshold) || threshold < 0 || threshold > 100)) {
+      return apiError('threshold must be a percentage from 0 to 100', HttpStatus.BAD_REQUEST)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getTeamAttendance(teamId, windows.map(Number), threshold))
+  } catch (error) {
+    console.error('Get team attendance error:', error)
+    return apiError('Failed to compute attendance', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { getCalendar } from '@/lib/raid-events'
+import { buildICalendar } from '@/lib/raid-schedule'
+import { apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+// How much of the schedule the feed covers
+const PAST_DAYS = 28
+const FUTURE_DAYS = 180
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/teams/[id]/calendar.ics
+ *
+ * The team's raid schedule as an iCalendar feed (public endpoint, no
+ * authentication required) for subscribing from Google Calendar, Apple
+ * Calendar, Outlook and the like. Covers the last four weeks and the next
+ * six months; cancelled occurrences are marked as cancelled.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    const team = await queryOne<{ id: number; name: string }>('SELECT id, name FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const now = new Date()
+    const occurrences = await getCalendar(
+      new Date(now.getTime() - PAST_DAYS * DAY_MS),
+      new Date(now.getTime() + FUTURE_DAYS * DAY_MS),
+      team.id
+    )
+
+    const calendar = buildICalendar(`${team.name} Raids`, occurrences, {
+      uidDomain: request.nextUrl.hostname,
+      now,
+    })
+
+    const filename = team.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `team-${team.id}`
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}.ics"`,
+        'Cache-Control': 'public, max-age=900',
+      },
+    })
+  } catch (error) {
+    console.error('Get team calendar feed error:', error)
+    return apiError('Failed to build calendar feed', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
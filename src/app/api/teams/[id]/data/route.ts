@@ -1,9 +1,17 @@
 import { NextRequest } from 'next/server'
-import { queryOne, execute } from '@/lib/db'
+import { queryOne, withTransaction } from '@/lib/db'
 import { requireAuth } from '@/lib/auth-middleware'
-import { canEditTeam } from '@/lib/permissions'
-import { apiResponse, apiError } from '@/lib/api-response'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { getLegacyRoster, replaceRoster } from '@/lib/roster'
+import { assertValidTeamData, getTeamDataSeason } from '@/lib/team-data'
+import { parseTeamInfo, parseTeamProgress } from '@/lib/team-data-schema'
+import { PreconditionFailedError, ValidationError } from '@/lib/errors'
+import { getExpectedVersion, withETag } from '@/lib/etag'
+import { apiResponse, apiError, errorResponse, preconditionFailedResponse } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
+import type { LegacyRosterEntry } from '@/types/roster'
+import type { TeamDataSeason } from '@/types/team-data'
 
 /**
  * TEAM DATA ROUTE
@@ -13,27 +21,65 @@ import { HttpStatus } from '@/lib/http-status'
  * Only in Account Manager (admin area)
  * 
  * PERMISSION RULES:
- * - GUILD_MASTER: Can access ANY team
- * - COUNCIL: Can access ANY team
- * - TEAM_LEAD: Can ONLY access their assigned team
+ * - Reading needs team.view, saving needs team.roster.edit
+ * - GUILD_MASTER and COUNCIL have both for ANY team
+ * - TEAM_LEAD has both for their assigned team ONLY
+ * - Guild roles can grant them for one team or all teams
+ *
+ * The roster is stored as roster_members rows; it is read and written here
+ * as the old array for existing clients. Single members can be edited
+ * through /api/teams/[id]/roster instead.
+ *
+ * progress and teamInfo must match the team data schema (see
+ * team-data-schema.ts); anything else is rejected with per-field errors.
+ *
+ * CONCURRENCY:
+ * - GET returns the team's version as the ETag (and a `version` field)
+ * - PATCH with If-Match gets 412 if anyone changed the team since, with the
+ *   current data in the response so the editor can merge
  */
 
 interface Team {
   id: number
   name: string
   description: string | null
-  roster: string  // JSON string
+  roster: string  // Legacy JSON string, no longer written (see roster_members)
   progress: string  // JSON string
   team_info: string  // JSON string
+  version: number
   created_at: string
   updated_at: string
 }
 
+// The editable data fields, parsed, for the audit log
+function auditState(team: Team, roster: LegacyRosterEntry[]) {
+  return {
+    roster,
+    progress: JSON.parse(team.progress || '{}'),
+    teamInfo: JSON.parse(team.team_info || '{}'),
+  }
+}
+
+// The team as the Team Manager sees it
+function toTeamData(team: Team, roster: LegacyRosterEntry[], season: TeamDataSeason | null) {
+  return {
+    id: team.id,
+    name: team.name,  // Read-only in Team Manager
+    description: team.description,  // Read-only in Team Manager
+    roster,
+    progress: parseTeamProgress(team.progress, season),
+    teamInfo: parseTeamInfo(team.team_info),
+    version: team.version,
+    created_at: team.created_at,
+    updated_at: team.updated_at,
+  }
+}
+
 /**
  * GET /api/teams/[id]/data
  * 
  * Get team data for editing
- * Returns: roster, progress, teamInfo as JSON
+ * Returns: roster, progress, teamInfo as JSON, plus the version (also the ETag)
  */
 export async function GET(
   request: NextRequest,
@@ -48,7 +94,7 @@ export async function GET(
 
     // SERVER-SIDE PERMISSION CHECK
     // This is critical - never trust the frontend!
-    if (!canEditTeam(authResult.user, teamId)) {
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
       return apiError(
         'You do not have permission to access this team',
         HttpStatus.FORBIDDEN
@@ -66,18 +112,9 @@ export async function GET(
     }
 
     // Parse JSON strings and return
-    const teamData = {
-      id: team.id,
-      name: team.name,  // Read-only in Team Manager
-      description: team.description,  // Read-only in Team Manager
-      roster: JSON.parse(team.roster || '[]'),
-      progress: JSON.parse(team.progress || '{}'),
-      teamInfo: JSON.parse(team.team_info || '{}'),
-      created_at: team.created_at,
-      updated_at: team.updated_at,
-    }
+    const teamData = toTeamData(team, await getLegacyRoster(teamId), await getTeamDataSeason())
 
-    return apiResponse(teamData)
+    return withETag(apiResponse(teamData), team.version)
   } catch (error) {
     console.error('Get team data error:', error)
     return apiError('Failed to fetch team data', HttpStatus.INTERNAL_SERVER_ERROR)
@@ -89,6 +126,7 @@ export async function GET(
  * 
  * Update team data ONLY
  * Body: { roster?, progress?, teamInfo? }
+ * Headers: If-Match: "<version>" (optional) - 412 if the team has changed
  * 
  * IMPORTANT:
  * - Team name CANNOT be changed here
@@ -108,7 +146,7 @@ export async function PATCH(
     const teamId = parseInt(params.id)
 
     // SERVER-SIDE PERMISSION CHECK
-    if (!canEditTeam(authResult.user, teamId)) {
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
       return apiError(
         'You do not have permission to edit this team',
         HttpStatus.FORBIDDEN
@@ -128,16 +166,14 @@ export async function PATCH(
     const body = await request.json()
     const { roster, progress, teamInfo } = body
 
+    const season = await getTeamDataSeason()
+    assertValidTeamData({ progress, teamInfo }, season)
+
     // Build update query for data fields ONLY
     const updates: string[] = []
     const values: any[] = []
 
     // Only update fields that are provided
-    if (roster !== undefined) {
-      updates.push('roster = ?')
-      values.push(JSON.stringify(roster))
-    }
-
     if (progress !== undefined) {
       updates.push('progress = ?')
       values.push(JSON.stringify(progress))
@@ -148,45 +184,81 @@ export async function PATCH(
       values.push(JSON.stringify(teamInfo))
     }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && roster === undefined) {
       return apiError('No updates provided', HttpStatus.BAD_REQUEST)
     }
 
-    // Add updated_at timestamp
-    updates.push("updated_at = DATETIME('now')")
+    const existingRoster = await getLegacyRoster(teamId)
 
-    // Add team ID to values
+    // Add updated_at timestamp and bump the version
+    updates.push("updated_at = DATETIME('now')", 'version = version + 1')
+
+    // Add team ID to values, and the version the client loaded if it sent one
+    const expectedVersion = getExpectedVersion(request)
     values.push(teamId)
+    if (expectedVersion !== null) {
+      values.push(expectedVersion)
+    }
 
     // Execute update - affects ONLY this team
-    await execute(
-      `UPDATE teams SET ${updates.join(', ')} WHERE id = ?`,
-      values
-    )
+    const { updatedTeam, updatedRoster } = await withTransaction(async (tx) => {
+      const result = await tx.execute(
+        `UPDATE teams SET ${updates.join(', ')} WHERE id = ?${expectedVersion !== null ? ' AND version = ?' : ''}`,
+        values
+      )
 
-    // Get updated team data
-    const updatedTeam = await queryOne<Team>(
-      'SELECT * FROM teams WHERE id = ?',
-      [teamId]
-    )
+      // Someone else saved since the client loaded the team
+      if (result.changes === 0) {
+        const current = await tx.queryOne<Team>('SELECT * FROM teams WHERE id = ?', [teamId])
+        throw new PreconditionFailedError(
+          'This team was changed by someone else. Review their changes and save again.',
+          current ? toTeamData(current, await getLegacyRoster(teamId), season) : null,
+          current?.version ?? 0
+        )
+      }
+
+      if (roster !== undefined) {
+        await replaceRoster(teamId, roster, authResult.user)
+      }
+      const newRoster = await getLegacyRoster(teamId)
+
+      // Get updated team data
+      const team = await tx.queryOne<Team>(
+        'SELECT * FROM teams WHERE id = ?',
+        [teamId]
+      )
+
+      if (team) {
+        await recordAudit(request, authResult.user, {
+          action: 'team.update_data',
+          targetType: 'team',
+          targetId: teamId,
+          before: auditState(existingTeam, existingRoster),
+          after: auditState(team, newRoster),
+        })
+      }
+
+      return { updatedTeam: team, updatedRoster: newRoster }
+    })
 
     if (!updatedTeam) {
       return apiError('Failed to fetch updated team', HttpStatus.INTERNAL_SERVER_ERROR)
     }
 
     // Return updated data
-    const teamData = {
-      id: updatedTeam.id,
-      name: updatedTeam.name,
-      description: updatedTeam.description,
-      roster: JSON.parse(updatedTeam.roster || '[]'),
-      progress: JSON.parse(updatedTeam.progress || '{}'),
-      teamInfo: JSON.parse(updatedTeam.team_info || '{}'),
-      updated_at: updatedTeam.updated_at,
+    return withETag(apiResponse(toTeamData(updatedTeam, updatedRoster, season)), updatedTeam.version)
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+
+    if (error instanceof PreconditionFailedError) {
+      if (!error.current) {
+        return apiError('Team not found', HttpStatus.NOT_FOUND)
+      }
+      return preconditionFailedResponse(error.current, error.version, error.message)
     }
 
-    return apiResponse(teamData)
-  } catch (error: any) {
     console.error('Update team data error:', error)
     
     // Handle JSON parsing errors
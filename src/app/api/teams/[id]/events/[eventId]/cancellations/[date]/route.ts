@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamEvent, restoreOccurrence } from '@/lib/raid-events'
+import { recordAudit } from '@/lib/audit'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * DELETE /api/teams/[id]/events/[eventId]/cancellations/[date]
+ *
+ * Put a cancelled occurrence back on the schedule (requires team.roster.edit)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string; date: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId, date } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    const cancellation = event.cancellations.find(cancelled => cancelled.occurrence_date === date)
+    if (!cancellation) {
+      return apiError('That occurrence is not cancelled', HttpStatus.NOT_FOUND)
+    }
+
+    await withTransaction(async () => {
+      await restoreOccurrence(event.id, date)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.event_restore',
+        targetType: 'team',
+        targetId: teamId,
+        before: {
+          event_id: event.id,
+          title: event.title,
+          occurrence_date: cancellation.occurrence_date,
+          reason: cancellation.reason,
+        },
+      })
+    })
+
+    return apiResponse({ message: 'Occurrence restored' })
+  } catch (error) {
+    console.error('Restore event error:', error)
+    return apiError('Failed to restore occurrence', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { cancelOccurrence, getTeamEvent } from '@/lib/raid-events'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/teams/[id]/events/[eventId]/cancellations
+ *
+ * Call off one occurrence of an event (requires team.roster.edit)
+ * Body: { date (YYYY-MM-DD, the event's local date), reason? }
+ *
+ * 400 if the event doesn't happen on that date, 409 if it's already
+ * cancelled. The occurrence stays on the calendar marked as cancelled.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    const { date, reason } = await request.json()
+
+    const cancellation = await withTransaction(async () => {
+      const added = await cancelOccurrence(event, date, reason, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.event_cancel',
+        targetType: 'team',
+        targetId: teamId,
+        after: {
+          event_id: event.id,
+          title: event.title,
+          occurrence_date: added.occurrence_date,
+          reason: added.reason,
+        },
+      })
+
+      return added
+    })
+
+    return apiResponse(cancellation, HttpStatus.CREATED)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Cancel event error:', error)
+    return apiError('Failed to cancel event', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamEvent } from '@/lib/raid-events'
+import { getOccurrenceAttendance, recordAttendance } from '@/lib/attendance'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { AttendanceRecord } from '@/types/attendance'
+
+// Member id -> status, for the audit log
+function auditState(records: AttendanceRecord[]) {
+  return Object.fromEntries(records.map(record => [record.member_id, record.status]))
+}
+
+/**
+ * PUT /api/teams/[id]/events/[eventId]/occurrences/[date]/attendance
+ *
+ * Record who came to a raid, replacing what was recorded for it before
+ * (requires team.roster.edit). Only for raids that have started and
+ * weren't cancelled.
+ * Body: { attendance: [{ memberId, status: 'present' | 'late' | 'bench' | 'absent' }] }
+ *
+ * Members left out have no record for this raid, so it doesn't count for
+ * or against them.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string; date: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId, date } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    const body = await request.json()
+    const before = (await getOccurrenceAttendance(event, date)).attendance
+
+    const attendance = await withTransaction(async () => {
+      const recorded = await recordAttendance(event, date, body, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.attendance_record',
+        targetType: 'team',
+        targetId: teamId,
+        before: { event_id: event.id, occurrence_date: date, attendance: auditState(before) },
+        after: { event_id: event.id, occurrence_date: date, attendance: auditState(recorded) },
+      })
+
+      return recorded
+    })
+
+    return apiResponse(attendance)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Record attendance error:', error)
+    return apiError('Failed to record attendance', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
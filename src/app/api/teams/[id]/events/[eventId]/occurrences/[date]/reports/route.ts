@@ -0,0 +1,138 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamEvent } from '@/lib/raid-events'
+import { getOccurrenceAttendance } from '@/lib/attendance'
+import { fetchRaidReport, getOccurrenceReports, importRaidReport } from '@/lib/raid-reports'
+import { isWarcraftLogsConfigured } from '@/lib/warcraft-logs-client'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { AttendanceRecord } from '@/types/attendance'
+
+// Member id -> status, for the audit log
+function auditState(records: AttendanceRecord[]) {
+  return Object.fromEntries(records.map(record => [record.member_id, record.status]))
+}
+
+/**
+ * GET /api/teams/[id]/events/[eventId]/occurrences/[date]/reports
+ *
+ * Warcraft Logs reports imported for one occurrence of an event, with
+ * their boss pulls (requires team.view)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string; date: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId, date } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getOccurrenceReports(event, date))
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Get raid reports error:', error)
+    return apiError('Failed to fetch raid reports', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * POST /api/teams/[id]/events/[eventId]/occurrences/[date]/reports
+ *
+ * Import a Warcraft Logs report for a raid (requires team.roster.edit).
+ * Its players are matched against the roster to record attendance, and
+ * its Normal, Heroic and Mythic boss pulls and kills are stored.
+ * Body: { report } - a report URL or its 16-character code
+ *
+ * Importing a report again replaces what it recorded before; a night can
+ * have more than one report.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string; date: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId, date } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    if (!isWarcraftLogsConfigured()) {
+      return apiError('Warcraft Logs API credentials not configured', HttpStatus.SERVICE_UNAVAILABLE)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    const body = await request.json()
+    const report = await fetchRaidReport(event, date, body)
+    const before = (await getOccurrenceAttendance(event, date)).attendance
+
+    const result = await withTransaction(async () => {
+      const imported = await importRaidReport(event, date, report, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.report_import',
+        targetType: 'team',
+        targetId: teamId,
+        before: { event_id: event.id, occurrence_date: date, attendance: auditState(before) },
+        after: {
+          event_id: event.id,
+          occurrence_date: date,
+          report_code: imported.report.report_code,
+          pulls: imported.pulls.length,
+          kills: imported.pulls.filter(pull => pull.killed).length,
+          attendance: auditState(imported.attendance),
+        },
+      })
+
+      return imported
+    })
+
+    return apiResponse(result, HttpStatus.CREATED)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    const code = (error as any)?.code
+    if (code === 'WCL_REPORT_NOT_FOUND') {
+      return apiError((error as Error).message, HttpStatus.NOT_FOUND)
+    }
+    if (typeof code === 'string' && code.startsWith('WCL_')) {
+      console.error(`Import raid report ${code}:`, (error as Error).message)
+      return apiError('Warcraft Logs API request failed. Please try again later.', HttpStatus.BAD_GATEWAY)
+    }
+
+    console.error('Import raid report error:', error)
+    return apiError('Failed to import raid report', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamEvent } from '@/lib/raid-events'
+import { getOccurrenceAttendance } from '@/lib/attendance'
+import { AppError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/events/[eventId]/occurrences/[date]
+ *
+ * Signups and recorded attendance for one occurrence of an event
+ * (requires team.view). [date] is the event's local date (YYYY-MM-DD).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string; date: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId, date } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getOccurrenceAttendance(event, date))
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Get occurrence attendance error:', error)
+    return apiError('Failed to fetch attendance', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamEvent } from '@/lib/raid-events'
+import { recordSignup } from '@/lib/attendance'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * PUT /api/teams/[id]/events/[eventId]/occurrences/[date]/signups
+ *
+ * Record a roster member's signup for an occurrence, replacing any earlier
+ * one (requires team.roster.edit)
+ * Body: { memberId, status: 'accepted' | 'tentative' | 'declined', reason? }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string; date: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId, date } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    const body = await request.json()
+
+    const signup = await withTransaction(async () => {
+      const recorded = await recordSignup(event, date, body, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.signup_record',
+        targetType: 'team',
+        targetId: teamId,
+        after: {
+          event_id: event.id,
+          occurrence_date: date,
+          member_id: recorded.member_id,
+          status: recorded.status,
+          reason: recorded.reason,
+        },
+      })
+
+      return recorded
+    })
+
+    return apiResponse(signup)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Record signup error:', error)
+    return apiError('Failed to record signup', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
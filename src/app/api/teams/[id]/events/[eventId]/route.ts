@@ -0,0 +1,164 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamEvent, removeTeamEvent, updateTeamEvent, validateRaidEvent } from '@/lib/raid-events'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { RaidEvent } from '@/types/raid-event'
+
+// The editable fields of an event, for the audit log
+function auditState(event: RaidEvent) {
+  return {
+    event_id: event.id,
+    kind: event.kind,
+    title: event.title,
+    description: event.description,
+    weekday: event.weekday,
+    event_date: event.event_date,
+    start_time: event.start_time,
+    duration_minutes: event.duration_minutes,
+    timezone: event.timezone,
+    starts_on: event.starts_on,
+    ends_on: event.ends_on,
+  }
+}
+
+/**
+ * GET /api/teams/[id]/events/[eventId]
+ *
+ * Get one event with its cancelled dates (requires team.view)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const event = await getTeamEvent(teamId, parseInt(eventId))
+    if (!event) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(event)
+  } catch (error) {
+    console.error('Get team event error:', error)
+    return apiError('Failed to fetch event', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * PATCH /api/teams/[id]/events/[eventId]
+ *
+ * Edit an event (requires team.roster.edit)
+ * Body: any of the fields POST /api/teams/[id]/events takes
+ *
+ * Cancellations for dates the event no longer falls on are dropped.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId: eventIdParam } = await params
+    const teamId = parseInt(id)
+    const eventId = parseInt(eventIdParam)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    const existing = await getTeamEvent(teamId, eventId)
+    if (!existing) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    const input = validateRaidEvent(await request.json(), existing, null)
+
+    const event = await withTransaction(async () => {
+      const updated = await updateTeamEvent(teamId, eventId, input)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.event_update',
+        targetType: 'team',
+        targetId: teamId,
+        before: auditState(existing),
+        after: auditState(updated),
+      })
+
+      return updated
+    })
+
+    return apiResponse(event)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Update team event error:', error)
+    return apiError('Failed to update event', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/events/[eventId]
+ *
+ * Remove an event from the schedule (requires team.roster.edit)
+ * To skip a single date, cancel it instead. Its signups go with it;
+ * attendance already recorded still counts.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, eventId: eventIdParam } = await params
+    const teamId = parseInt(id)
+    const eventId = parseInt(eventIdParam)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    const existing = await getTeamEvent(teamId, eventId)
+    if (!existing) {
+      return apiError('Event not found', HttpStatus.NOT_FOUND)
+    }
+
+    await withTransaction(async () => {
+      await removeTeamEvent(teamId, eventId)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.event_remove',
+        targetType: 'team',
+        targetId: teamId,
+        before: auditState(existing),
+      })
+    })
+
+    return apiResponse({ message: 'Event removed' })
+  } catch (error) {
+    console.error('Remove team event error:', error)
+    return apiError('Failed to remove event', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
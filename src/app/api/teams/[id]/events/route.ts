@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { createTeamEvent, getTeamEvents, getTeamTimezone, validateRaidEvent } from '@/lib/raid-events'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/events
+ *
+ * The team's raid schedule: weekly raid nights, then one-off events, each
+ * with its cancelled dates (requires team.view)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getTeamEvents(teamId))
+  } catch (error) {
+    console.error('Get team events error:', error)
+    return apiError('Failed to fetch team events', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * POST /api/teams/[id]/events
+ *
+ * Add a weekly raid night or a one-off event (requires team.roster.edit)
+ * Body: { kind: 'weekly' | 'one_off', title, description?, startTime (HH:MM),
+ *         durationMinutes, timezone?, weekday (weekly), startsOn?, endsOn?
+ *         (weekly), date (one_off) }
+ *
+ * Times are local to `timezone`, which defaults to the team info timezone.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s schedule', HttpStatus.FORBIDDEN)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const input = validateRaidEvent(await request.json(), null, await getTeamTimezone(teamId))
+
+    const event = await withTransaction(async () => {
+      const added = await createTeamEvent(teamId, input, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.event_add',
+        targetType: 'team',
+        targetId: teamId,
+        after: {
+          event_id: added.id,
+          kind: added.kind,
+          title: added.title,
+          weekday: added.weekday,
+          event_date: added.event_date,
+          start_time: added.start_time,
+          timezone: added.timezone,
+        },
+      })
+
+      return added
+    })
+
+    return apiResponse(event, HttpStatus.CREATED)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Add team event error:', error)
+    return apiError('Failed to add event', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getLootAward, getLootAwardDetail, removeLootAward, updateLootAward, validateLootAward } from '@/lib/loot'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { LootAward } from '@/types/loot'
+
+// The editable fields of an item, for the audit log
+function auditState(award: LootAward) {
+  return {
+    loot_id: award.id,
+    event_id: award.event_id,
+    occurrence_date: award.occurrence_date,
+    item_id: award.item_id,
+    item_name: award.item_name,
+    encounter_name: award.encounter_name,
+    difficulty: award.difficulty,
+    member_id: award.member_id,
+    response: award.response,
+    note: award.note,
+  }
+}
+
+/**
+ * GET /api/teams/[id]/loot/[lootId]
+ *
+ * One item with the council's votes and the tally per candidate
+ * (requires loot.view)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lootId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, lootId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.view', { teamId }))) {
+      return apiError('You do not have permission to view this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const award = await getLootAwardDetail(teamId, parseInt(lootId))
+    if (!award) {
+      return apiError('Loot not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(award)
+  } catch (error) {
+    console.error('Get loot error:', error)
+    return apiError('Failed to fetch loot', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * PATCH /api/teams/[id]/loot/[lootId]
+ *
+ * Edit an item or award it (requires loot.manage)
+ * Body: any of the fields POST /api/teams/[id]/loot takes; memberId and
+ * response together award it, and null for both takes it back
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lootId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, lootId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const existing = await getLootAward(teamId, parseInt(lootId))
+    if (!existing) {
+      return apiError('Loot not found', HttpStatus.NOT_FOUND)
+    }
+
+    const input = validateLootAward(await request.json(), existing)
+
+    const award = await withTransaction(async () => {
+      const updated = await updateLootAward(existing, input, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.loot_update',
+        targetType: 'team',
+        targetId: teamId,
+        before: auditState(existing),
+        after: auditState(updated),
+      })
+
+      return updated
+    })
+
+    return apiResponse(award)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Update loot error:', error)
+    return apiError('Failed to update loot', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/loot/[lootId]
+ *
+ * Remove an item recorded by mistake, with its votes (requires loot.manage)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lootId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, lootId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const existing = await getLootAward(teamId, parseInt(lootId))
+    if (!existing) {
+      return apiError('Loot not found', HttpStatus.NOT_FOUND)
+    }
+
+    await withTransaction(async () => {
+      await removeLootAward(existing)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.loot_remove',
+        targetType: 'team',
+        targetId: teamId,
+        before: auditState(existing),
+      })
+    })
+
+    return apiResponse({ message: 'Loot removed' })
+  } catch (error) {
+    console.error('Remove loot error:', error)
+    return apiError('Failed to remove loot', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { castLootVote, getLootAward } from '@/lib/loot'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * PUT /api/teams/[id]/loot/[lootId]/vote
+ *
+ * Vote on who should get an item (requires loot.manage)
+ * Each council member has one vote per item; voting again changes it.
+ * Only until the item is awarded.
+ * Body: { memberId, note? }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lootId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, lootId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const award = await getLootAward(teamId, parseInt(lootId))
+    if (!award) {
+      return apiError('Loot not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await castLootVote(award, await request.json(), authResult.user))
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Vote on loot error:', error)
+    return apiError('Failed to record vote', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { createLootAward, getTeamLoot, validateLootAward } from '@/lib/loot'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse, paginatedResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/loot
+ *
+ * The team's loot history, most recent raid first (requires loot.view)
+ *
+ * Query: ?memberId=&eventId=&seasonId=&page=1&limit=50
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  const searchParams = request.nextUrl.searchParams
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
+  const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)))
+
+  const filters: Record<string, number | undefined> = {}
+  for (const [param, filter] of [['memberId', 'memberId'], ['eventId', 'eventId'], ['seasonId', 'seasonConfigId']]) {
+    const value = searchParams.get(param)
+    if (value === null) continue
+    if (isNaN(parseInt(value, 10))) {
+      return apiError(`${param} must be a number`, HttpStatus.BAD_REQUEST)
+    }
+    filters[filter] = parseInt(value, 10)
+  }
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.view', { teamId }))) {
+      return apiError('You do not have permission to view this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const { awards, total } = await getTeamLoot(teamId, { ...filters, page, limit })
+
+    return paginatedResponse(awards, page, limit, total, 'Loot retrieved')
+  } catch (error) {
+    console.error('Get team loot error:', error)
+    return apiError('Failed to fetch loot', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * POST /api/teams/[id]/loot
+ *
+ * Record an item that dropped at one of the team's raids (requires
+ * loot.manage)
+ * Body: { eventId, date, itemName, itemId?, encounterName?, difficulty?,
+ *         memberId?, response?: 'bis' | 'upgrade' | 'offspec' | 'transmog',
+ *         note? }
+ *
+ * Give memberId and response to award it straight away, or leave them out
+ * for the council to vote on first.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const input = validateLootAward(await request.json(), null)
+
+    const award = await withTransaction(async () => {
+      const added = await createLootAward(teamId, input, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.loot_add',
+        targetType: 'team',
+        targetId: teamId,
+        after: {
+          loot_id: added.id,
+          event_id: added.event_id,
+          occurrence_date: added.occurrence_date,
+          item_name: added.item_name,
+          member_id: added.member_id,
+          response: added.response,
+        },
+      })
+
+      return added
+    })
+
+    return apiResponse(award, HttpStatus.CREATED)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Add loot error:', error)
+    return apiError('Failed to record loot', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getTeamLootSummary } from '@/lib/loot'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/loot/summary
+ *
+ * Items each roster member (except inactive ones) has received this tier,
+ * per response type (requires loot.view)
+ *
+ * Query: ?seasonId= for another season than the active one
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  const seasonId = request.nextUrl.searchParams.get('seasonId')
+  if (seasonId !== null && isNaN(parseInt(seasonId, 10))) {
+    return apiError('seasonId must be a number', HttpStatus.BAD_REQUEST)
+  }
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.view', { teamId }))) {
+      return apiError('You do not have permission to view this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getTeamLootSummary(teamId, seasonId !== null ? parseInt(seasonId, 10) : undefined))
+  } catch (error) {
+    console.error('Get loot summary error:', error)
+    return apiError('Failed to fetch loot summary', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
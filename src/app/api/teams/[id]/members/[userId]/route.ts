@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import {
+  getTeamMembership,
+  isTeamMembershipRole,
+  removeTeamMember,
+  updateTeamMemberRole,
+} from '@/lib/team-memberships'
+import { recordAudit } from '@/lib/audit'
+import { AppError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * PATCH /api/teams/[id]/members/[userId]
+ * 
+ * Change a member's role on the team (requires team.members.manage)
+ * Body: { role: 'lead' | 'co-lead' | 'officer' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, userId: userIdParam } = await params
+    const teamId = parseInt(id)
+    const userId = parseInt(userIdParam)
+
+    if (!(await can(authResult.user, 'team.members.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s members', HttpStatus.FORBIDDEN)
+    }
+
+    const body = await request.json()
+    const { role } = body
+
+    if (!isTeamMembershipRole(role)) {
+      return apiError("Role must be 'lead', 'co-lead' or 'officer'", HttpStatus.BAD_REQUEST)
+    }
+
+    const existing = await getTeamMembership(teamId, userId)
+    if (!existing) {
+      return apiError('Team member not found', HttpStatus.NOT_FOUND)
+    }
+
+    const membership = await withTransaction(async () => {
+      const updated = await updateTeamMemberRole(teamId, userId, role)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.member_update',
+        targetType: 'team',
+        targetId: teamId,
+        before: { user_id: userId, role: existing.role },
+        after: { user_id: userId, role },
+      })
+
+      return updated
+    })
+
+    return apiResponse(membership)
+  } catch (error) {
+    console.error('Update team member error:', error)
+    return apiError('Failed to update team member', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/members/[userId]
+ * 
+ * Remove a user from the team (requires team.members.manage)
+ * A Team Lead's last team can't be removed
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, userId: userIdParam } = await params
+    const teamId = parseInt(id)
+    const userId = parseInt(userIdParam)
+
+    if (!(await can(authResult.user, 'team.members.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s members', HttpStatus.FORBIDDEN)
+    }
+
+    const existing = await getTeamMembership(teamId, userId)
+    if (!existing) {
+      return apiError('Team member not found', HttpStatus.NOT_FOUND)
+    }
+
+    await withTransaction(async () => {
+      await removeTeamMember(teamId, userId)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.member_remove',
+        targetType: 'team',
+        targetId: teamId,
+        before: { user_id: userId, role: existing.role },
+      })
+    })
+
+    return apiResponse({ message: 'Team member removed' })
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Remove team member error:', error)
+    return apiError('Failed to remove team member', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
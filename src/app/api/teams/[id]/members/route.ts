@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { addTeamMember, getTeamMembers, isTeamMembershipRole } from '@/lib/team-memberships'
+import { recordAudit } from '@/lib/audit'
+import { AppError } from '@/lib/errors'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/members
+ * 
+ * List a team's leads, co-leads and officers (requires team.view)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getTeamMembers(teamId))
+  } catch (error) {
+    console.error('Get team members error:', error)
+    return apiError('Failed to fetch team members', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * POST /api/teams/[id]/members
+ * 
+ * Add a user to a team (requires team.members.manage)
+ * Body: { userId, role: 'lead' | 'co-lead' | 'officer' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.members.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s members', HttpStatus.FORBIDDEN)
+    }
+
+    const body = await request.json()
+    const { userId, role } = body
+
+    if (!userId || !isTeamMembershipRole(role)) {
+      return apiError("userId and role ('lead', 'co-lead' or 'officer') are required", HttpStatus.BAD_REQUEST)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const user = await queryOne<{ id: number; username: string }>(
+      'SELECT id, username FROM users WHERE id = ?',
+      [userId]
+    )
+    if (!user) {
+      return apiError('User not found', HttpStatus.NOT_FOUND)
+    }
+
+    const membership = await withTransaction(async () => {
+      const added = await addTeamMember(teamId, user.id, role)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.member_add',
+        targetType: 'team',
+        targetId: teamId,
+        after: { user_id: user.id, username: user.username, role },
+      })
+
+      return added
+    })
+
+    return apiResponse(membership, HttpStatus.CREATED)
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Add team member error:', error)
+    return apiError('Failed to add team member', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
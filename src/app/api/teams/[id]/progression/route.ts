@@ -0,0 +1,155 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { getTeamProgression } from '@/lib/team-progression'
+import { AppError } from '@/lib/errors'
+import { withETag } from '@/lib/etag'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { TeamProgressionOptions } from '@/types/team-progression'
+
+/**
+ * Read ?threshold= and ?refresh= (threshold must be a positive whole number)
+ */
+function parseOptions(request: NextRequest): TeamProgressionOptions | null {
+  const searchParams = request.nextUrl.searchParams
+  const threshold = searchParams.get('threshold')
+  const refresh = searchParams.get('refresh')
+
+  if (threshold !== null && !/^[1-9]\d*$/.test(threshold)) {
+    return null
+  }
+
+  return {
+    threshold: threshold !== null ? parseInt(threshold, 10) : undefined,
+    refresh: refresh === '1' || refresh === 'true',
+  }
+}
+
+/**
+ * GET /api/teams/[id]/progression
+ *
+ * The team's progress in the active season, worked out from its roster
+ * members' Warcraft Logs kills (requires team.view). For each boss: how
+ * many members have killed it on each difficulty and the hardest
+ * difficulty that reaches the threshold; plus `progress` in the
+ * teams.progress shape and any members that couldn't be looked up.
+ *
+ * Query: ?threshold=N (members who need the kill, default half the roster)
+ *        &refresh=1 (ignore cached kills)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const options = parseOptions(request)
+    if (!options) {
+      return apiError('threshold must be a positive whole number', HttpStatus.BAD_REQUEST)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getTeamProgression(teamId, options))
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Get team progression error:', error)
+    return apiError('Failed to compute team progression', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * POST /api/teams/[id]/progression
+ *
+ * Work out progression as GET does and save it as the team's progress
+ * (requires team.roster.edit), recording any new first-kill dates. Progress
+ * notes are kept. Bumps the team's version like any other save; the new
+ * one is sent as the ETag.
+ *
+ * Query: same as GET
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team', HttpStatus.FORBIDDEN)
+    }
+
+    const options = parseOptions(request)
+    if (!options) {
+      return apiError('threshold must be a positive whole number', HttpStatus.BAD_REQUEST)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    // Look everything up before the transaction; it can take a while
+    const progression = await getTeamProgression(teamId, { ...options, recordFirstKills: true })
+
+    const version = await withTransaction(async (tx) => {
+      const before = await tx.queryOne<{ progress: string | null }>(
+        'SELECT progress FROM teams WHERE id = ?',
+        [teamId]
+      )
+      const previous = JSON.parse(before?.progress || '{}')
+      const progress = typeof previous.notes === 'string'
+        ? { ...progression.progress, notes: previous.notes }
+        : progression.progress
+
+      await tx.execute(
+        "UPDATE teams SET progress = ?, updated_at = DATETIME('now'), version = version + 1 WHERE id = ?",
+        [JSON.stringify(progress), teamId]
+      )
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.update_data',
+        targetType: 'team',
+        targetId: teamId,
+        before: { progress: previous },
+        after: { progress },
+      })
+
+      progression.progress = progress
+
+      const updated = await tx.queryOne<{ version: number }>('SELECT version FROM teams WHERE id = ?', [teamId])
+      return updated!.version
+    })
+
+    return withETag(apiResponse(progression), version)
+  } catch (error) {
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Save team progression error:', error)
+    return apiError('Failed to save team progression', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { parseQuestionSet, validateQuestionSet } from '@/lib/application-questions'
+import { PreconditionFailedError, ValidationError } from '@/lib/errors'
+import { getExpectedVersion, withETag } from '@/lib/etag'
+import { apiResponse, apiError, errorResponse, preconditionFailedResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+interface TeamQuestions {
+  id: number
+  application_questions: string | null
+  version: number
+}
+
+function toQuestionSet(team: TeamQuestions) {
+  return {
+    teamId: team.id,
+    questions: parseQuestionSet(team.application_questions),
+    version: team.version,
+  }
+}
+
+/**
+ * GET /api/teams/[id]/questions
+ *
+ * The questions the team's applicants answer, in order (requires
+ * team.view). The team's version is sent as the ETag. Applicants see them
+ * on GET /api/teams/public.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const team = await queryOne<TeamQuestions>(
+      'SELECT id, application_questions, version FROM teams WHERE id = ?',
+      [teamId]
+    )
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    return withETag(apiResponse(toQuestionSet(team)), team.version)
+  } catch (error) {
+    console.error('Get application questions error:', error)
+    return apiError('Failed to fetch application questions', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * PUT /api/teams/[id]/questions
+ *
+ * Replace the team's questionnaire (requires applications.manage)
+ * Body: { questions: [{ id, label, type, required, options?, help? }] }
+ * Headers: If-Match: "<version>" (optional) - 412 if the team has changed
+ *
+ * type is short_text, long_text, single_choice, multi_choice or url.
+ * Keep a question's id when rewording it; answers refer to it. Applications
+ * already submitted keep the labels they were answered under.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  const { id } = await params
+  const teamId = parseInt(id)
+
+  try {
+    if (!(await can(authResult.user, 'applications.manage', { teamId }))) {
+      return apiError('You do not have permission to manage this team\'s applications', HttpStatus.FORBIDDEN)
+    }
+
+    const existing = await queryOne<TeamQuestions>(
+      'SELECT id, application_questions, version FROM teams WHERE id = ?',
+      [teamId]
+    )
+    if (!existing) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const { questions } = await request.json()
+
+    const errors = validateQuestionSet(questions)
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Invalid application questions', errors)
+    }
+
+    const expectedVersion = getExpectedVersion(request)
+
+    const updated = await withTransaction(async (tx) => {
+      const result = await tx.execute(
+        `UPDATE teams SET application_questions = ?, updated_at = DATETIME('now'), version = version + 1
+         WHERE id = ?${expectedVersion !== null ? ' AND version = ?' : ''}`,
+        expectedVersion !== null
+          ? [JSON.stringify(questions), teamId, expectedVersion]
+          : [JSON.stringify(questions), teamId]
+      )
+
+      if (result.changes === 0) {
+        const current = await tx.queryOne<TeamQuestions>(
+          'SELECT id, application_questions, version FROM teams WHERE id = ?',
+          [teamId]
+        )
+        throw new PreconditionFailedError(
+          'This team was changed by someone else. Review their changes and save again.',
+          current ? toQuestionSet(current) : null,
+          current?.version ?? 0
+        )
+      }
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.update_questions',
+        targetType: 'team',
+        targetId: teamId,
+        before: { questions: parseQuestionSet(existing.application_questions) },
+        after: { questions },
+      })
+
+      return (await tx.queryOne<TeamQuestions>(
+        'SELECT id, application_questions, version FROM teams WHERE id = ?',
+        [teamId]
+      ))!
+    })
+
+    return withETag(apiResponse(toQuestionSet(updated)), updated.version)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+
+    if (error instanceof PreconditionFailedError) {
+      if (!error.current) {
+        return apiError('Team not found', HttpStatus.NOT_FOUND)
+      }
+      return preconditionFailedResponse(error.current, error.version, error.message)
+    }
+
+    console.error('Update application questions error:', error)
+    return apiError('Failed to update application questions', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
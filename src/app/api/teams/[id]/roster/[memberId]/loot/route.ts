@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getRosterMember } from '@/lib/roster'
+import { getTeamLoot } from '@/lib/loot'
+import { apiError, paginatedResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/roster/[memberId]/loot
+ *
+ * Everything a roster member has been awarded, most recent raid first
+ * (requires loot.view)
+ *
+ * Query: ?seasonId=&page=1&limit=50
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  const searchParams = request.nextUrl.searchParams
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
+  const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)))
+  const seasonId = searchParams.get('seasonId')
+
+  if (seasonId !== null && isNaN(parseInt(seasonId, 10))) {
+    return apiError('seasonId must be a number', HttpStatus.BAD_REQUEST)
+  }
+
+  try {
+    const { id, memberId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'loot.view', { teamId }))) {
+      return apiError('You do not have permission to view this team\'s loot', HttpStatus.FORBIDDEN)
+    }
+
+    const member = await getRosterMember(teamId, parseInt(memberId))
+    if (!member) {
+      return apiError('Roster member not found', HttpStatus.NOT_FOUND)
+    }
+
+    const { awards, total } = await getTeamLoot(teamId, {
+      memberId: member.id,
+      seasonConfigId: seasonId !== null ? parseInt(seasonId, 10) : undefined,
+      page,
+      limit,
+    })
+
+    return paginatedResponse(awards, page, limit, total, 'Loot history retrieved')
+  } catch (error) {
+    console.error('Get member loot error:', error)
+    return apiError('Failed to fetch loot history', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest } from 'next/server'
+import { withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import {
+  getRosterMember,
+  removeRosterMember,
+  updateRosterMember,
+  validateRosterMember,
+} from '@/lib/roster'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { RosterMember } from '@/types/roster'
+
+// The editable fields of a roster member, for the audit log
+function auditState(member: RosterMember) {
+  return {
+    member_id: member.id,
+    character_name: member.character_name,
+    realm: member.realm,
+    region: member.region,
+    class: member.class,
+    spec: member.spec,
+    role: member.role,
+    status: member.status,
+    wcl_url: member.wcl_url,
+    joined_at: member.joined_at,
+    notes: member.notes,
+  }
+}
+
+/**
+ * GET /api/teams/[id]/roster/[memberId]
+ *
+ * Get one roster member (requires team.view)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, memberId } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    const member = await getRosterMember(teamId, parseInt(memberId))
+    if (!member) {
+      return apiError('Roster member not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(member)
+  } catch (error) {
+    console.error('Get roster member error:', error)
+    return apiError('Failed to fetch roster member', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * PATCH /api/teams/[id]/roster/[memberId]
+ *
+ * Edit a roster member (requires team.roster.edit)
+ * Body: any of { characterName, realm, region, class, spec, role, status, wclUrl, joinedAt, notes }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, memberId: memberIdParam } = await params
+    const teamId = parseInt(id)
+    const memberId = parseInt(memberIdParam)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s roster', HttpStatus.FORBIDDEN)
+    }
+
+    const changes = validateRosterMember(await request.json(), true)
+    if (Object.keys(changes).length === 0) {
+      return apiError('No updates provided', HttpStatus.BAD_REQUEST)
+    }
+
+    const existing = await getRosterMember(teamId, memberId)
+    if (!existing) {
+      return apiError('Roster member not found', HttpStatus.NOT_FOUND)
+    }
+
+    const member = await withTransaction(async () => {
+      const updated = await updateRosterMember(teamId, memberId, changes, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.roster_update',
+        targetType: 'team',
+        targetId: teamId,
+        before: auditState(existing),
+        after: auditState(updated!),
+      })
+
+      return updated
+    })
+
+    return apiResponse(member)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Update roster member error:', error)
+    return apiError('Failed to update roster member', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * DELETE /api/teams/[id]/roster/[memberId]
+ *
+ * Take a character off the roster (requires team.roster.edit)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id, memberId: memberIdParam } = await params
+    const teamId = parseInt(id)
+    const memberId = parseInt(memberIdParam)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s roster', HttpStatus.FORBIDDEN)
+    }
+
+    const existing = await getRosterMember(teamId, memberId)
+    if (!existing) {
+      return apiError('Roster member not found', HttpStatus.NOT_FOUND)
+    }
+
+    await withTransaction(async () => {
+      await removeRosterMember(teamId, memberId, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.roster_remove',
+        targetType: 'team',
+        targetId: teamId,
+        before: auditState(existing),
+      })
+    })
+
+    return apiResponse({ message: 'Roster member removed' })
+  } catch (error) {
+    console.error('Remove roster member error:', error)
+    return apiError('Failed to remove roster member', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
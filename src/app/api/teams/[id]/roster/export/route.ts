@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getRoster } from '@/lib/roster'
+import { rosterToCsv } from '@/lib/roster-csv'
+import { toRosterExport } from '@/lib/roster-import'
+import { apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/roster/export
+ *
+ * Download the team's roster as a file (requires team.view)
+ *
+ * Query: ?format=csv (default) for spreadsheets, or json. Either can be
+ * sent back to POST /api/teams/[id]/roster/import.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+    const format = request.nextUrl.searchParams.get('format') ?? 'csv'
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    if (format !== 'csv' && format !== 'json') {
+      return apiError('format must be csv or json', HttpStatus.BAD_REQUEST)
+    }
+
+    const team = await queryOne<{ id: number; name: string }>('SELECT id, name FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const roster = await getRoster(teamId)
+    const filename = `${team.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `team-${team.id}`}-roster`
+
+    if (format === 'json') {
+      const body = {
+        teamId: team.id,
+        teamName: team.name,
+        exportedAt: new Date().toISOString(),
+        members: roster.map(toRosterExport),
+      }
+
+      return new NextResponse(JSON.stringify(body, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.json"`,
+        },
+      })
+    }
+
+    return new NextResponse(rosterToCsv(roster), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error('Export roster error:', error)
+    return apiError('Failed to export roster', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
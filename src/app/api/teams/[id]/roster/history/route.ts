@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server'
+import { queryOne } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getRosterHistory } from '@/lib/roster-history'
+import { paginatedResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/teams/[id]/roster/history
+ *
+ * Timeline of roster changes, newest first (requires team.view)
+ * Each event has the member, what happened (added, updated, removed), the
+ * fields that changed, the member's state and who made the change.
+ *
+ * Query: ?memberId=&from=&to=&page=1&limit=50
+ * (from/to are ISO dates or timestamps, UTC; a `to` date includes that day)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  const { id } = await params
+  const teamId = parseInt(id)
+
+  if (!(await can(authResult.user, 'team.view', { teamId }))) {
+    return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10))
+  const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)))
+  const memberId = searchParams.get('memberId')
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+
+  if (memberId !== null && isNaN(parseInt(memberId, 10))) {
+    return apiError('memberId must be a number', HttpStatus.BAD_REQUEST)
+  }
+
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value && isNaN(Date.parse(value))) {
+      return apiError(`${name} must be a valid date`, HttpStatus.BAD_REQUEST)
+    }
+  }
+
+  try {
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const { events, total } = await getRosterHistory(teamId, {
+      memberId: memberId !== null ? parseInt(memberId, 10) : undefined,
+      from: from || undefined,
+      to: to || undefined,
+      page,
+      limit,
+    })
+
+    return paginatedResponse(events, page, limit, total, 'Roster history retrieved')
+  } catch (error) {
+    console.error('Get roster history error:', error)
+    return apiError('Failed to fetch roster history', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
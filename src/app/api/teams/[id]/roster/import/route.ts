@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { getRoster } from '@/lib/roster'
+import { applyRosterImport, previewRosterImport, readRosterImport } from '@/lib/roster-import'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * POST /api/teams/[id]/roster/import
+ *
+ * Import a roster from a spreadsheet or a JSON export (requires
+ * team.roster.edit)
+ * Body: { csv, mapping?, mode?, preview? } or { members, mode?, preview? }
+ *
+ * - mapping: CSV column name -> roster field (characterName, realm, region,
+ *   class, spec, role, status, wclUrl, joinedAt, notes; null skips the
+ *   column). Columns it doesn't mention are recognised by name.
+ * - mode: merge (default) adds and updates members; replace also removes
+ *   members the file doesn't list.
+ * - preview: true checks every row and returns what would change without
+ *   saving.
+ *
+ * Rows match current members by character name, realm and, when given,
+ * region. Nothing is saved unless every row is valid; errors are keyed
+ * rows[i].field.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s roster', HttpStatus.FORBIDDEN)
+    }
+
+    const importRequest = readRosterImport(await request.json())
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (importRequest.preview) {
+      return apiResponse(await previewRosterImport(teamId, importRequest))
+    }
+
+    const result = await withTransaction(async () => {
+      const preview = await previewRosterImport(teamId, importRequest)
+      const before = await getRoster(teamId)
+      const roster = await applyRosterImport(teamId, preview, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.roster_import',
+        targetType: 'team',
+        targetId: teamId,
+        before: { member_count: before.length },
+        after: {
+          mode: preview.mode,
+          member_count: roster.length,
+          ...preview.counts,
+        },
+      })
+
+      return { import: preview, roster }
+    })
+
+    return apiResponse(result)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Import roster error:', error)
+    return apiError('Failed to import roster', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
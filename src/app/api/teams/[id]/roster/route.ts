@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
+import { addRosterMember, getRoster, validateRosterMember } from '@/lib/roster'
+import { getRosterAt, toHistoryTimestamp } from '@/lib/roster-history'
+import { recordAudit } from '@/lib/audit'
+import { AppError, ValidationError } from '@/lib/errors'
+import { apiResponse, apiError, errorResponse } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+import type { RosterMemberInput } from '@/types/roster'
+
+/**
+ * GET /api/teams/[id]/roster
+ *
+ * List the characters on a team's roster in display order (requires team.view)
+ *
+ * Query: ?at= rebuilds the roster as it was at that time from the roster
+ * history (ISO timestamp, or a date meaning the end of that day, UTC)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+    const at = request.nextUrl.searchParams.get('at')
+
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
+      return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
+    }
+
+    if (at && isNaN(Date.parse(at))) {
+      return apiError('at must be a valid date', HttpStatus.BAD_REQUEST)
+    }
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (at) {
+      return apiResponse(await getRosterAt(teamId, toHistoryTimestamp(at)))
+    }
+
+    return apiResponse(await getRoster(teamId))
+  } catch (error) {
+    console.error('Get roster error:', error)
+    return apiError('Failed to fetch roster', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * POST /api/teams/[id]/roster
+ *
+ * Add a character to the end of the roster (requires team.roster.edit)
+ * Body: { characterName, realm?, region?, class?, spec?, role?, status?, wclUrl?, joinedAt?, notes? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  try {
+    const { id } = await params
+    const teamId = parseInt(id)
+
+    if (!(await can(authResult.user, 'team.roster.edit', { teamId }))) {
+      return apiError('You do not have permission to edit this team\'s roster', HttpStatus.FORBIDDEN)
+    }
+
+    const input = validateRosterMember(await request.json()) as RosterMemberInput
+
+    const team = await queryOne('SELECT id FROM teams WHERE id = ?', [teamId])
+    if (!team) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
+
+    const member = await withTransaction(async () => {
+      const added = await addRosterMember(teamId, input, authResult.user)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.roster_add',
+        targetType: 'team',
+        targetId: teamId,
+        after: {
+          member_id: added.id,
+          character_name: added.character_name,
+          realm: added.realm,
+          status: added.status,
+        },
+      })
+
+      return added
+    })
+
+    return apiResponse(member, HttpStatus.CREATED)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+    if (error instanceof AppError) {
+      return apiError(error.message, error.statusCode)
+    }
+
+    console.error('Add roster member error:', error)
+    return apiError('Failed to add roster member', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
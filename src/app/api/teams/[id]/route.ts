@@ -1,9 +1,25 @@
 import { NextRequest } from 'next/server'
-import { query, execute, queryOne } from '@/lib/db'
+import { queryOne, withTransaction } from '@/lib/db'
+import { isUniqueConstraintError } from '@/lib/sql-dialect'
 import { requireAuth } from '@/lib/auth-middleware'
-import { canAccessTeam, canEditTeam, isGuildMaster } from '@/lib/permissions'
-import { apiResponse, apiError } from '@/lib/api-response'
+import { can } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { removeTeamMemberships } from '@/lib/team-memberships'
+import { removeTeamApplications } from '@/lib/applications'
+import { removeTeamEvents } from '@/lib/raid-events'
+import { removeTeamAttendance } from '@/lib/attendance'
+import { removeTeamReports } from '@/lib/raid-reports'
+import { removeTeamLoot } from '@/lib/loot'
+import { getLegacyRoster, replaceRoster } from '@/lib/roster'
+import { assertValidTeamData, getTeamDataSeason } from '@/lib/team-data'
+import { parseTeamInfo, parseTeamProgress } from '@/lib/team-data-schema'
+import { parseQuestionSet } from '@/lib/application-questions'
+import { PreconditionFailedError, ValidationError } from '@/lib/errors'
+import { getExpectedVersion, withETag } from '@/lib/etag'
+import { apiResponse, apiError, errorResponse, preconditionFailedResponse } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
+import type { LegacyRosterEntry } from '@/types/roster'
+import type { TeamDataSeason } from '@/types/team-data'
 
 interface Team {
   id: number
@@ -12,15 +28,34 @@ interface Team {
   roster: string
   progress: string
   team_info: string
+  application_questions: string | null
   team_directive: string | null
+  version: number
   created_at: string
   updated_at: string
 }
 
-interface TeamProgress {
-  completed: number
-  total: number
-  difficulty: 'Normal' | 'Heroic' | 'Mythic'
+// A team with its JSON fields parsed for the frontend
+function parseTeam(team: Team, roster: LegacyRosterEntry[], season: TeamDataSeason | null) {
+  return {
+    ...team,
+    roster,
+    progress: parseTeamProgress(team.progress, season),
+    team_info: parseTeamInfo(team.team_info),
+    application_questions: parseQuestionSet(team.application_questions)
+  }
+}
+
+// A team with its JSON columns parsed and its roster, for the audit log
+function auditState(team: Team, roster: LegacyRosterEntry[]) {
+  return {
+    name: team.name,
+    description: team.description,
+    team_directive: team.team_directive,
+    roster,
+    progress: team.progress ? JSON.parse(team.progress) : null,
+    team_info: team.team_info ? JSON.parse(team.team_info) : {},
+  }
 }
 
 /**
@@ -30,6 +65,7 @@ interface TeamProgress {
  * Access rules:
  * - GUILD_MASTER & COUNCIL: Can view any team
  * - TEAM_LEAD: Can only view their assigned team
+ * The team's version is sent as the ETag
  */
 export async function GET(
   request: NextRequest,
@@ -42,7 +78,7 @@ export async function GET(
     const teamId = parseInt(params.id)
 
     // Check permission
-    if (!canAccessTeam(authResult.user, teamId)) {
+    if (!(await can(authResult.user, 'team.view', { teamId }))) {
       return apiError('You do not have access to this team', HttpStatus.FORBIDDEN)
     }
 
@@ -55,15 +91,10 @@ export async function GET(
       return apiError('Team not found', HttpStatus.NOT_FOUND)
     }
 
-    // Parse JSON fields for frontend
-    const parsedTeam = {
-      ...team,
-      roster: team.roster ? JSON.parse(team.roster) : [],
-      progress: team.progress ? JSON.parse(team.progress) : { completed: 0, total: 9, difficulty: 'Normal' },
-      team_info: team.team_info ? JSON.parse(team.team_info) : {}
-    }
+    // Parse JSON fields for frontend; roster comes from roster_members
+    const parsedTeam = parseTeam(team, await getLegacyRoster(teamId), await getTeamDataSeason())
 
-    return apiResponse(parsedTeam)
+    return withETag(apiResponse(parsedTeam), team.version)
   } catch (error) {
     console.error('Get team error:', error)
     return apiError('Failed to fetch team', HttpStatus.INTERNAL_SERVER_ERROR)
@@ -79,6 +110,7 @@ export async function GET(
  * - TEAM_LEAD: Can only edit their assigned team
  * 
  * Body: { name?, description? }
+ * Headers: If-Match: "<version>" (optional) - 412 if the team has changed
  */
 export async function PATCH(
   request: NextRequest,
@@ -91,7 +123,7 @@ export async function PATCH(
     const teamId = parseInt(params.id)
 
     // Check permission
-    if (!canEditTeam(authResult.user, teamId)) {
+    if (!(await can(authResult.user, 'team.edit', { teamId }))) {
       return apiError('You do not have permission to edit this team', HttpStatus.FORBIDDEN)
     }
 
@@ -108,12 +140,23 @@ export async function PATCH(
     const body = await request.json()
     const { name, description, progress, roster, team_info, team_directive } = body
 
+    // Roster, progress and team info need the same permission as the team data route
+    if (
+      (progress !== undefined || roster !== undefined || team_info !== undefined) &&
+      !(await can(authResult.user, 'team.roster.edit', { teamId }))
+    ) {
+      return apiError('You do not have permission to edit this team\'s roster', HttpStatus.FORBIDDEN)
+    }
+
     // Validate team_directive if provided
     const VALID_DIRECTIVES = ['Mythic CE', 'Mythic Progression', 'AOTC / Light Mythic', 'AOTC', 'Learning / Casual']
     if (team_directive !== undefined && team_directive !== null && !VALID_DIRECTIVES.includes(team_directive)) {
       return apiError('Invalid team directive', HttpStatus.BAD_REQUEST)
     }
 
+    const season = await getTeamDataSeason()
+    assertValidTeamData({ progress, teamInfo: team_info }, season, 'team_info')
+
     // Build update query
     const updates: string[] = []
     const values: any[] = []
@@ -133,11 +176,6 @@ export async function PATCH(
       values.push(JSON.stringify(progress))
     }
 
-    if (roster !== undefined) {
-      updates.push('roster = ?')
-      values.push(JSON.stringify(roster))
-    }
-
     if (team_info !== undefined) {
       updates.push('team_info = ?')
       values.push(JSON.stringify(team_info))
@@ -148,41 +186,87 @@ export async function PATCH(
       values.push(team_directive)
     }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && roster === undefined) {
       return apiError('No updates provided', HttpStatus.BAD_REQUEST)
     }
 
-    // Add updated_at
-    updates.push("updated_at = DATETIME('now')")
+    const existingRoster = await getLegacyRoster(teamId)
 
-    // Add team ID to values
+    // Add updated_at and bump the version
+    updates.push("updated_at = DATETIME('now')", 'version = version + 1')
+
+    // Add team ID to values, and the version the client loaded if it sent one
+    const expectedVersion = getExpectedVersion(request)
     values.push(teamId)
+    if (expectedVersion !== null) {
+      values.push(expectedVersion)
+    }
 
     // Execute update
-    await execute(
-      `UPDATE teams SET ${updates.join(', ')} WHERE id = ?`,
-      values
-    )
-
-    // Get updated team
-    const updatedTeam = await queryOne<Team>(
-      'SELECT * FROM teams WHERE id = ?',
-      [teamId]
-    )
+    const { updatedTeam, updatedRoster } = await withTransaction(async (tx) => {
+      const result = await tx.execute(
+        `UPDATE teams SET ${updates.join(', ')} WHERE id = ?${expectedVersion !== null ? ' AND version = ?' : ''}`,
+        values
+      )
+
+      // Someone else saved since the client loaded the team
+      if (result.changes === 0) {
+        const current = await tx.queryOne<Team>('SELECT * FROM teams WHERE id = ?', [teamId])
+        throw new PreconditionFailedError(
+          'This team was changed by someone else. Review their changes and save again.',
+          current ? parseTeam(current, await getLegacyRoster(teamId), season) : null,
+          current?.version ?? 0
+        )
+      }
+
+      // Roster entries are stored as roster_members rows
+      if (roster !== undefined) {
+        await replaceRoster(teamId, roster, authResult.user)
+      }
+      const newRoster = await getLegacyRoster(teamId)
+
+      // Get updated team
+      const team = await tx.queryOne<Team>(
+        'SELECT * FROM teams WHERE id = ?',
+        [teamId]
+      )
+
+      if (team) {
+        await recordAudit(request, authResult.user, {
+          action: 'team.update',
+          targetType: 'team',
+          targetId: teamId,
+          before: auditState(existingTeam, existingRoster),
+          after: auditState(team, newRoster),
+        })
+      }
+
+      return { updatedTeam: team, updatedRoster: newRoster }
+    })
+
+    if (!updatedTeam) {
+      return apiError('Team not found', HttpStatus.NOT_FOUND)
+    }
 
     // Parse JSON fields for frontend
-    const parsedUpdatedTeam = {
-      ...updatedTeam,
-      roster: updatedTeam?.roster ? JSON.parse(updatedTeam.roster) : [],
-      progress: updatedTeam?.progress ? JSON.parse(updatedTeam.progress) : { completed: 0, total: 9, difficulty: 'Normal' },
-      team_info: updatedTeam?.team_info ? JSON.parse(updatedTeam.team_info) : {}
-    }
+    const parsedUpdatedTeam = parseTeam(updatedTeam, updatedRoster, season)
 
-    return apiResponse(parsedUpdatedTeam)
+    return withETag(apiResponse(parsedUpdatedTeam), updatedTeam.version)
   } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return errorResponse(error)
+    }
+
+    if (error instanceof PreconditionFailedError) {
+      if (!error.current) {
+        return apiError('Team not found', HttpStatus.NOT_FOUND)
+      }
+      return preconditionFailedResponse(error.current, error.version, error.message)
+    }
+
     console.error('Update team error:', error)
 
-    if (error.message?.includes('UNIQUE')) {
+    if (isUniqueConstraintError(error)) {
       return apiError('Team name already exists', HttpStatus.CONFLICT)
     }
 
@@ -202,9 +286,8 @@ export async function DELETE(
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  // Only Guild Master can delete teams
-  if (!isGuildMaster(authResult.user)) {
-    return apiError('Only Guild Master can delete teams', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'team.delete'))) {
+    return apiError('You do not have permission to delete teams', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -212,7 +295,7 @@ export async function DELETE(
 
     // Check if team exists
     const team = await queryOne<Team>(
-      'SELECT id FROM teams WHERE id = ?',
+      'SELECT * FROM teams WHERE id = ?',
       [teamId]
     )
 
@@ -220,11 +303,33 @@ export async function DELETE(
       return apiError('Team not found', HttpStatus.NOT_FOUND)
     }
 
-    // Auto-unassign any users from this team
-    await execute('UPDATE users SET team_id = NULL WHERE team_id = ?', [teamId])
-
-    // Delete team
-    await execute('DELETE FROM teams WHERE id = ?', [teamId])
+    const roster = await getLegacyRoster(teamId)
+
+    await withTransaction(async (tx) => {
+      // Auto-unassign any users from this team
+      await tx.execute('UPDATE users SET team_id = NULL WHERE team_id = ?', [teamId])
+
+      // Delete team and its roster
+      await tx.execute('DELETE FROM roster_events WHERE team_id = ?', [teamId])
+      await tx.execute('DELETE FROM roster_members WHERE team_id = ?', [teamId])
+      await tx.execute('DELETE FROM team_boss_kills WHERE team_id = ?', [teamId])
+      await removeTeamApplications(teamId)
+      await removeTeamAttendance(teamId)
+      await removeTeamReports(teamId)
+      await removeTeamLoot(teamId)
+      await removeTeamEvents(teamId)
+      await tx.execute('DELETE FROM teams WHERE id = ?', [teamId])
+
+      // Its leads keep access to any other teams they belong to
+      await removeTeamMemberships(teamId)
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.delete',
+        targetType: 'team',
+        targetId: teamId,
+        before: auditState(team, roster),
+      })
+    })
 
     return apiResponse({ message: 'Team deleted successfully' })
   } catch (error) {
@@ -1,4 +1,8 @@
 import { query } from '@/lib/db'
+import { getLegacyRosters } from '@/lib/roster'
+import { getTeamDataSeason } from '@/lib/team-data'
+import { parseTeamInfo, parseTeamProgress } from '@/lib/team-data-schema'
+import { parseQuestionSet } from '@/lib/application-questions'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
@@ -9,6 +13,7 @@ interface Team {
   roster: string
   progress: string
   team_info: string
+  application_questions: string | null
   created_at: string
   updated_at: string
 }
@@ -17,19 +22,23 @@ interface Team {
  * GET /api/teams/public
  * 
  * Get all teams (public endpoint, no authentication required)
- * Used for the public "Apply Here" page
+ * Used for the public "Apply Here" page, including each team's
+ * application_questions
  * Returns team data with parsed JSON fields
  */
 export async function GET() {
   try {
     const teams = await query<Team>('SELECT * FROM teams ORDER BY name')
 
-    // Parse JSON fields for frontend
+    // Parse JSON fields for frontend; roster comes from roster_members
+    const rosters = await getLegacyRosters(teams.map(team => team.id))
+    const season = await getTeamDataSeason()
     const parsedTeams = teams.map(team => ({
       ...team,
-      roster: team.roster ? JSON.parse(team.roster) : [],
-      progress: team.progress ? JSON.parse(team.progress) : { completed: 0, total: 9, difficulty: 'Normal' },
-      team_info: team.team_info ? JSON.parse(team.team_info) : {}
+      roster: rosters.get(team.id) ?? [],
+      progress: parseTeamProgress(team.progress, season),
+      team_info: parseTeamInfo(team.team_info),
+      application_questions: parseQuestionSet(team.application_questions)
     }))
 
     return apiResponse(parsedTeams)
@@ -1,7 +1,13 @@
 import { NextRequest } from 'next/server'
-import { query, execute } from '@/lib/db'
+import { query, withTransaction } from '@/lib/db'
+import { isUniqueConstraintError } from '@/lib/sql-dialect'
 import { requireAuth } from '@/lib/auth-middleware'
-import { getAccessibleTeamIds, isGuildMaster } from '@/lib/permissions'
+import { can, getAccessibleTeamIds } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { getLegacyRosters } from '@/lib/roster'
+import { getTeamDataSeason } from '@/lib/team-data'
+import { parseTeamInfo, parseTeamProgress } from '@/lib/team-data-schema'
+import { parseQuestionSet } from '@/lib/application-questions'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
@@ -12,6 +18,7 @@ interface Team {
   roster: string
   progress: string
   team_info: string
+  application_questions: string | null
   created_at: string
   updated_at: string
 }
@@ -22,13 +29,14 @@ interface Team {
  * Get all teams that the user can access
  * - GUILD_MASTER & COUNCIL: See all teams
  * - TEAM_LEAD: See only their assigned team
+ * - Guild roles with team.view add the teams they cover
  */
 export async function GET(request: NextRequest) {
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
   try {
-    const accessibleTeamIds = getAccessibleTeamIds(authResult.user)
+    const accessibleTeamIds = await getAccessibleTeamIds(authResult.user)
 
     let teams: Team[]
 
@@ -47,12 +55,15 @@ export async function GET(request: NextRequest) {
       teams = []
     }
 
-    // Parse JSON fields for frontend
+    // Parse JSON fields for frontend; roster comes from roster_members
+    const rosters = await getLegacyRosters(teams.map(team => team.id))
+    const season = await getTeamDataSeason()
     const parsedTeams = teams.map(team => ({
       ...team,
-      roster: team.roster ? JSON.parse(team.roster) : [],
-      progress: team.progress ? JSON.parse(team.progress) : { completed: 0, total: 9, difficulty: 'Normal' },
-      team_info: team.team_info ? JSON.parse(team.team_info) : {}
+      roster: rosters.get(team.id) ?? [],
+      progress: parseTeamProgress(team.progress, season),
+      team_info: parseTeamInfo(team.team_info),
+      application_questions: parseQuestionSet(team.application_questions)
     }))
 
     return apiResponse(parsedTeams)
@@ -75,9 +86,8 @@ export async function POST(request: NextRequest) {
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  // Only Guild Master can create teams
-  if (!isGuildMaster(authResult.user)) {
-    return apiError('Only Guild Master can create teams', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'team.create'))) {
+    return apiError('You do not have permission to create teams', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -88,33 +98,45 @@ export async function POST(request: NextRequest) {
       return apiError('Team name is required', HttpStatus.BAD_REQUEST)
     }
 
-    // Insert team
-    const result = await execute(
-      'INSERT INTO teams (name, description) VALUES (?, ?)',
-      [name, description || null]
-    )
+    const newTeamResult = await withTransaction(async (tx) => {
+      // Insert team
+      const result = await tx.execute(
+        'INSERT INTO teams (name, description) VALUES (?, ?)',
+        [name, description || null]
+      )
+
+      // Get the created team
+      const created = await tx.query<Team>(
+        'SELECT * FROM teams WHERE id = ?',
+        [result.lastInsertRowid]
+      )
+
+      await recordAudit(request, authResult.user, {
+        action: 'team.create',
+        targetType: 'team',
+        targetId: created[0].id,
+        after: { name: created[0].name, description: created[0].description },
+      })
 
-    // Get the created team
-    const newTeamResult = await query<Team>(
-      'SELECT * FROM teams WHERE id = ?',
-      [result.lastInsertRowid]
-    )
+      return created
+    })
 
     const newTeam = newTeamResult[0]
 
     // Parse JSON fields for frontend
     const parsedNewTeam = {
       ...newTeam,
-      roster: newTeam.roster ? JSON.parse(newTeam.roster) : [],
-      progress: newTeam.progress ? JSON.parse(newTeam.progress) : { completed: 0, total: 9, difficulty: 'Normal' },
-      team_info: newTeam.team_info ? JSON.parse(newTeam.team_info) : {}
+      roster: [],
+      progress: parseTeamProgress(newTeam.progress, await getTeamDataSeason()),
+      team_info: parseTeamInfo(newTeam.team_info),
+      application_questions: parseQuestionSet(newTeam.application_questions)
     }
 
     return apiResponse(parsedNewTeam, HttpStatus.CREATED)
   } catch (error: any) {
     console.error('Create team error:', error)
 
-    if (error.message?.includes('UNIQUE')) {
+    if (isUniqueConstraintError(error)) {
       return apiError('Team name already exists', HttpStatus.CONFLICT)
     }
 
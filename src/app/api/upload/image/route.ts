@@ -3,6 +3,7 @@ import { writeFile, mkdir } from 'fs/promises'
 import { existsSync } from 'fs'
 import path from 'path'
 import { requireAuth } from '@/lib/auth-middleware'
+import { can } from '@/lib/permissions'
 import { apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
@@ -10,7 +11,7 @@ import { HttpStatus } from '@/lib/http-status'
  * POST /api/upload/image
  * 
  * Upload an image file
- * Access: GUILD_MASTER and COUNCIL (content editors)
+ * Access: content.edit (GUILD_MASTER and COUNCIL by default)
  * Returns: { url: string } - The URL to access the uploaded image
  */
 export async function POST(request: NextRequest) {
@@ -18,11 +19,10 @@ export async function POST(request: NextRequest) {
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  // Only GUILD_MASTER and COUNCIL can upload images
   const user = authResult.user
-  if (user.rank !== 'GUILD_MASTER' && user.rank !== 'COUNCIL') {
+  if (!(await can(user, 'content.edit'))) {
     return apiError(
-      'Only Guild Master and Council can upload images',
+      'You do not have permission to upload images',
       HttpStatus.FORBIDDEN
     )
   }
@@ -1,15 +1,16 @@
 import { NextRequest } from 'next/server'
-import { execute, queryOne } from '@/lib/db'
+import { queryOne, withTransaction } from '@/lib/db'
 import { hashPassword, User } from '@/lib/auth'
 import { requireAuth } from '@/lib/auth-middleware'
-import { canManageUsers } from '@/lib/permissions'
+import { can, isGuildMaster } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
 /**
  * PATCH /api/users/[id]/password
  * 
- * Change a user's password (GUILD_MASTER only)
+ * Change a user's password (requires users.manage)
  * Body: { password }
  */
 export async function PATCH(
@@ -19,8 +20,8 @@ export async function PATCH(
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  if (!canManageUsers(authResult.user)) {
-    return apiError('Only Guild Master can change passwords', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to change passwords', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -37,7 +38,7 @@ export async function PATCH(
 
     // Check if user exists
     const user = await queryOne<User>(
-      'SELECT id FROM users WHERE id = ?',
+      'SELECT id, rank FROM users WHERE id = ?',
       [params.id]
     )
 
@@ -45,14 +46,26 @@ export async function PATCH(
       return apiError('User not found', HttpStatus.NOT_FOUND)
     }
 
+    if (user.rank === 'GUILD_MASTER' && !isGuildMaster(authResult.user)) {
+      return apiError('Only Guild Master can manage Guild Master accounts', HttpStatus.FORBIDDEN)
+    }
+
     // Hash new password
     const passwordHash = await hashPassword(password)
 
-    // Update password
-    await execute(
-      "UPDATE users SET password_hash = ?, updated_at = DATETIME('now') WHERE id = ?",
-      [passwordHash, params.id]
-    )
+    // Update password (the audit entry records that it changed, never the value)
+    await withTransaction(async (tx) => {
+      await tx.execute(
+        "UPDATE users SET password_hash = ?, updated_at = DATETIME('now') WHERE id = ?",
+        [passwordHash, params.id]
+      )
+
+      await recordAudit(request, authResult.user, {
+        action: 'user.password_reset',
+        targetType: 'user',
+        targetId: user.id,
+      })
+    })
 
     return apiResponse({ message: 'Password updated successfully' })
   } catch (error) {
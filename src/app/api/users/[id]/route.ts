@@ -1,15 +1,19 @@
 import { NextRequest } from 'next/server'
-import { query, execute, queryOne } from '@/lib/db'
+import { query, queryOne, withTransaction } from '@/lib/db'
+import { isUniqueConstraintError } from '@/lib/sql-dialect'
 import { hashPassword, User } from '@/lib/auth'
 import { requireAuth } from '@/lib/auth-middleware'
-import { canManageUsers } from '@/lib/permissions'
+import { can, isGuildMaster } from '@/lib/permissions'
+import { revokeUserSessions } from '@/lib/sessions'
+import { recordAudit } from '@/lib/audit'
+import { getUserTeams, movePrimaryTeam } from '@/lib/team-memberships'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
 /**
  * GET /api/users/[id]
  * 
- * Get a single user by ID (GUILD_MASTER only)
+ * Get a single user by ID, with the teams they belong to (requires users.manage)
  */
 export async function GET(
   request: NextRequest,
@@ -18,8 +22,8 @@ export async function GET(
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  if (!canManageUsers(authResult.user)) {
-    return apiError('Only Guild Master can view users', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to view users', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -32,7 +36,7 @@ export async function GET(
       return apiError('User not found', HttpStatus.NOT_FOUND)
     }
 
-    return apiResponse(user)
+    return apiResponse({ ...user, teams: await getUserTeams(user.id) })
   } catch (error) {
     console.error('Get user error:', error)
     return apiError('Failed to fetch user', HttpStatus.INTERNAL_SERVER_ERROR)
@@ -42,9 +46,12 @@ export async function GET(
 /**
  * PATCH /api/users/[id]
  * 
- * Update a user (GUILD_MASTER only)
+ * Update a user (requires users.manage)
  * Body: { username?, rank?, teamId? }
  * 
+ * Changing rank or team revokes the user's sessions, so their old claims
+ * can't be refreshed and they have to log in again.
+ * 
  * Note: Use /api/users/[id]/password to change password
  */
 export async function PATCH(
@@ -54,8 +61,8 @@ export async function PATCH(
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  if (!canManageUsers(authResult.user)) {
-    return apiError('Only Guild Master can update users', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to update users', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -72,6 +79,10 @@ export async function PATCH(
       return apiError('User not found', HttpStatus.NOT_FOUND)
     }
 
+    if (existingUser.rank === 'GUILD_MASTER' && !isGuildMaster(authResult.user)) {
+      return apiError('Only Guild Master can manage Guild Master accounts', HttpStatus.FORBIDDEN)
+    }
+
     // Build update query dynamically
     const updates: string[] = []
     const values: any[] = []
@@ -87,6 +98,11 @@ export async function PATCH(
         return apiError('Invalid rank', HttpStatus.BAD_REQUEST)
       }
 
+      // users.manage can be granted by a guild role; the top rank can't be handed out that way
+      if (rank === 'GUILD_MASTER' && !isGuildMaster(authResult.user)) {
+        return apiError('Only Guild Master can grant the Guild Master rank', HttpStatus.FORBIDDEN)
+      }
+
       // Validate teamId rules for new rank
       if (rank === 'TEAM_LEAD' && teamId === undefined && !existingUser.team_id) {
         return apiError('Team Lead must have a team assigned', HttpStatus.BAD_REQUEST)
@@ -122,23 +138,46 @@ export async function PATCH(
     // Add user ID to values
     values.push(params.id)
 
+    const rankChanged = rank !== undefined && rank !== existingUser.rank
+    const teamChanged = teamId !== undefined && (teamId ? Number(teamId) : null) !== existingUser.team_id
+
     // Execute update
-    await execute(
-      `UPDATE users SET ${updates.join(', ')} WHERE id = ?`,
-      values
-    )
+    const updatedUser = await withTransaction(async (tx) => {
+      await tx.execute(
+        `UPDATE users SET ${updates.join(', ')} WHERE id = ?`,
+        values
+      )
+
+      if (teamChanged) {
+        await movePrimaryTeam(existingUser.id, existingUser.team_id, teamId ? Number(teamId) : null)
+      }
 
-    // Get updated user
-    const updatedUser = await queryOne<User>(
-      'SELECT id, username, rank, team_id, created_at, updated_at FROM users WHERE id = ?',
-      [params.id]
-    )
+      if (rankChanged || teamChanged) {
+        await revokeUserSessions(existingUser.id, rankChanged ? 'rank_changed' : 'team_changed')
+      }
+
+      // Get updated user
+      const user = await tx.queryOne<User>(
+        'SELECT id, username, rank, team_id, created_at, updated_at FROM users WHERE id = ?',
+        [params.id]
+      )
+
+      await recordAudit(request, authResult.user, {
+        action: 'user.update',
+        targetType: 'user',
+        targetId: existingUser.id,
+        before: { username: existingUser.username, rank: existingUser.rank, team_id: existingUser.team_id },
+        after: user ? { username: user.username, rank: user.rank, team_id: user.team_id } : null,
+      })
+
+      return user
+    })
 
     return apiResponse(updatedUser)
   } catch (error: any) {
     console.error('Update user error:', error)
 
-    if (error.message?.includes('UNIQUE')) {
+    if (isUniqueConstraintError(error)) {
       return apiError('Username already exists', HttpStatus.CONFLICT)
     }
 
@@ -149,7 +188,8 @@ export async function PATCH(
 /**
  * DELETE /api/users/[id]
  * 
- * Delete a user (GUILD_MASTER only)
+ * Delete a user (requires users.manage)
+ * Their sessions are revoked along with the account
  */
 export async function DELETE(
   request: NextRequest,
@@ -158,14 +198,14 @@ export async function DELETE(
   const authResult = requireAuth(request)
   if (authResult.error) return authResult.error
 
-  if (!canManageUsers(authResult.user)) {
-    return apiError('Only Guild Master can delete users', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to delete users', HttpStatus.FORBIDDEN)
   }
 
   try {
     // Check if user exists
     const user = await queryOne<User>(
-      'SELECT id FROM users WHERE id = ?',
+      'SELECT id, username, rank, team_id FROM users WHERE id = ?',
       [params.id]
     )
 
@@ -173,13 +213,28 @@ export async function DELETE(
       return apiError('User not found', HttpStatus.NOT_FOUND)
     }
 
+    if (user.rank === 'GUILD_MASTER' && !isGuildMaster(authResult.user)) {
+      return apiError('Only Guild Master can manage Guild Master accounts', HttpStatus.FORBIDDEN)
+    }
+
     // Prevent deleting yourself
     if (user.id === authResult.user.userId) {
       return apiError('Cannot delete your own account', HttpStatus.BAD_REQUEST)
     }
 
-    // Delete user
-    await execute('DELETE FROM users WHERE id = ?', [params.id])
+    // Delete user, revoking their sessions first
+    await withTransaction(async (tx) => {
+      await revokeUserSessions(user.id, 'user_deleted')
+      await tx.execute('DELETE FROM team_memberships WHERE user_id = ?', [user.id])
+      await tx.execute('DELETE FROM users WHERE id = ?', [params.id])
+
+      await recordAudit(request, authResult.user, {
+        action: 'user.delete',
+        targetType: 'user',
+        targetId: user.id,
+        before: { username: user.username, rank: user.rank, team_id: user.team_id },
+      })
+    })
 
     return apiResponse({ message: 'User deleted successfully' })
   } catch (error) {
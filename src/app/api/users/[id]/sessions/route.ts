@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { User } from '@/lib/auth'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can, isGuildMaster } from '@/lib/permissions'
+import { getActiveSessions, revokeUserSessions } from '@/lib/sessions'
+import { recordAudit } from '@/lib/audit'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/users/[id]/sessions
+ * 
+ * List a user's active sessions (users.manage, or the user themselves)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  const userId = parseInt(params.id, 10)
+  if (!(await can(authResult.user, 'users.manage')) && authResult.user.userId !== userId) {
+    return apiError('You can only view your own sessions', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const sessions = await getActiveSessions(userId)
+
+    return apiResponse(
+      sessions.map(session => ({
+        ...session,
+        current: session.id === authResult.user.sessionId,
+      }))
+    )
+  } catch (error) {
+    console.error('Get sessions error:', error)
+    return apiError('Failed to fetch sessions', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * DELETE /api/users/[id]/sessions
+ * 
+ * Log a user out of all devices (requires users.manage)
+ * Their access tokens stay valid until they expire, but can't be refreshed
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to revoke sessions', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const user = await queryOne<User>(
+      'SELECT id, rank FROM users WHERE id = ?',
+      [params.id]
+    )
+
+    if (!user) {
+      return apiError('User not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (user.rank === 'GUILD_MASTER' && !isGuildMaster(authResult.user)) {
+      return apiError('Only Guild Master can manage Guild Master accounts', HttpStatus.FORBIDDEN)
+    }
+
+    const revoked = await withTransaction(async () => {
+      const count = await revokeUserSessions(user.id, 'admin_revoked')
+
+      await recordAudit(request, authResult.user, {
+        action: 'user.sessions_revoke',
+        targetType: 'user',
+        targetId: user.id,
+        after: { revoked: count },
+      })
+
+      return count
+    })
+
+    return apiResponse({ message: 'User logged out of all devices', revoked })
+  } catch (error) {
+    console.error('Revoke sessions error:', error)
+    return apiError('Failed to revoke sessions', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
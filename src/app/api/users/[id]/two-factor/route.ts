@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server'
+import { queryOne, withTransaction } from '@/lib/db'
+import { User } from '@/lib/auth'
+import { requireAuth } from '@/lib/auth-middleware'
+import { can, isGuildMaster } from '@/lib/permissions'
+import { getTwoFactorStatus, resetTwoFactor } from '@/lib/two-factor'
+import { recordAudit } from '@/lib/audit'
+import { apiResponse, apiError } from '@/lib/api-response'
+import { HttpStatus } from '@/lib/http-status'
+
+/**
+ * GET /api/users/[id]/two-factor
+ * 
+ * A user's two-factor status (requires users.manage)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to view two-factor status', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const user = await queryOne<User>(
+      'SELECT id, rank FROM users WHERE id = ?',
+      [params.id]
+    )
+
+    if (!user) {
+      return apiError('User not found', HttpStatus.NOT_FOUND)
+    }
+
+    return apiResponse(await getTwoFactorStatus(user.id, user.rank))
+  } catch (error) {
+    console.error('Get user two-factor error:', error)
+    return apiError('Failed to fetch two-factor status', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
+
+/**
+ * DELETE /api/users/[id]/two-factor
+ * 
+ * Reset a user's two-factor authentication (requires users.manage)
+ * For users who lost their authenticator and backup codes. Logs them out
+ * everywhere and resolves their pending two-factor recovery request.
+ * If their rank requires 2FA they will re-enroll at the next login.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authResult = requireAuth(request)
+  if (authResult.error) return authResult.error
+
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to reset two-factor authentication', HttpStatus.FORBIDDEN)
+  }
+
+  try {
+    const user = await queryOne<User>(
+      'SELECT id, rank FROM users WHERE id = ?',
+      [params.id]
+    )
+
+    if (!user) {
+      return apiError('User not found', HttpStatus.NOT_FOUND)
+    }
+
+    if (user.rank === 'GUILD_MASTER' && !isGuildMaster(authResult.user)) {
+      return apiError('Only Guild Master can manage Guild Master accounts', HttpStatus.FORBIDDEN)
+    }
+
+    if (user.id === authResult.user.userId) {
+      return apiError('Cannot reset your own two-factor authentication', HttpStatus.BAD_REQUEST)
+    }
+
+    await withTransaction(async () => {
+      await resetTwoFactor(user.id, authResult.user.userId)
+
+      await recordAudit(request, authResult.user, {
+        action: 'user.two_factor_reset',
+        targetType: 'user',
+        targetId: user.id,
+      })
+    })
+
+    return apiResponse({ message: 'Two-factor authentication reset' })
+  } catch (error) {
+    console.error('Reset two-factor error:', error)
+    return apiError('Failed to reset two-factor authentication', HttpStatus.INTERNAL_SERVER_ERROR)
+  }
+}
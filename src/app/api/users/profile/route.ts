@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { execute, queryOne } from '@/lib/db'
+import { isUniqueConstraintError } from '@/lib/sql-dialect'
 import { hashPassword, verifyPassword, User } from '@/lib/auth'
 import { requireAuth } from '@/lib/auth-middleware'
 import { apiResponse, apiError } from '@/lib/api-response'
@@ -112,7 +113,7 @@ export async function PATCH(request: NextRequest) {
   } catch (error: any) {
     console.error('Update profile error:', error)
 
-    if (error.message?.includes('UNIQUE')) {
+    if (isUniqueConstraintError(error)) {
       return apiError('Username already taken', HttpStatus.CONFLICT)
     }
 
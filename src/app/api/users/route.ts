@@ -1,15 +1,18 @@
 import { NextRequest } from 'next/server'
-import { query, execute } from '@/lib/db'
+import { query, withTransaction } from '@/lib/db'
+import { isUniqueConstraintError } from '@/lib/sql-dialect'
 import { hashPassword, User } from '@/lib/auth'
 import { requireAuth } from '@/lib/auth-middleware'
-import { canManageUsers } from '@/lib/permissions'
+import { can, isGuildMaster } from '@/lib/permissions'
+import { recordAudit } from '@/lib/audit'
+import { addTeamMember } from '@/lib/team-memberships'
 import { apiResponse, apiError } from '@/lib/api-response'
 import { HttpStatus } from '@/lib/http-status'
 
 /**
  * GET /api/users
  * 
- * Get all users (GUILD_MASTER only)
+ * Get all users (requires users.manage)
  * Returns list of all users without password hashes
  */
 export async function GET(request: NextRequest) {
@@ -18,8 +21,8 @@ export async function GET(request: NextRequest) {
   if (authResult.error) return authResult.error
 
   // Check permission
-  if (!canManageUsers(authResult.user)) {
-    return apiError('Only Guild Master can view users', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to view users', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -37,7 +40,7 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/users
  * 
- * Create a new user (GUILD_MASTER only)
+ * Create a new user (requires users.manage)
  * Body: { username, password, rank, teamId? }
  * 
  * Rules:
@@ -50,8 +53,8 @@ export async function POST(request: NextRequest) {
   if (authResult.error) return authResult.error
 
   // Check permission
-  if (!canManageUsers(authResult.user)) {
-    return apiError('Only Guild Master can create users', HttpStatus.FORBIDDEN)
+  if (!(await can(authResult.user, 'users.manage'))) {
+    return apiError('You do not have permission to create users', HttpStatus.FORBIDDEN)
   }
 
   try {
@@ -69,6 +72,11 @@ export async function POST(request: NextRequest) {
       return apiError('Invalid rank', HttpStatus.BAD_REQUEST)
     }
 
+    // users.manage can be granted by a guild role; the top rank can't be handed out that way
+    if (rank === 'GUILD_MASTER' && !isGuildMaster(authResult.user)) {
+      return apiError('Only Guild Master can create Guild Master accounts', HttpStatus.FORBIDDEN)
+    }
+
     // Validate teamId rules
     if (rank === 'TEAM_LEAD' && !teamId) {
       return apiError('Team Lead must have a team assigned', HttpStatus.BAD_REQUEST)
@@ -81,24 +89,40 @@ export async function POST(request: NextRequest) {
     // Hash password
     const passwordHash = await hashPassword(password)
 
-    // Insert user
-    const result = await execute(
-      'INSERT INTO users (username, password_hash, rank, team_id) VALUES (?, ?, ?, ?)',
-      [username, passwordHash, rank, teamId || null]
-    )
-
-    // Get the created user
-    const newUser = await query<User>(
-      'SELECT id, username, rank, team_id, created_at, updated_at FROM users WHERE id = ?',
-      [result.lastInsertRowid]
-    )
+    const newUser = await withTransaction(async (tx) => {
+      // Insert user
+      const result = await tx.execute(
+        'INSERT INTO users (username, password_hash, rank, team_id) VALUES (?, ?, ?, ?)',
+        [username, passwordHash, rank, teamId || null]
+      )
+
+      // Get the created user
+      const created = await tx.query<User>(
+        'SELECT id, username, rank, team_id, created_at, updated_at FROM users WHERE id = ?',
+        [result.lastInsertRowid]
+      )
+
+      // Their team becomes their first membership
+      if (teamId) {
+        await addTeamMember(Number(teamId), created[0].id, 'lead')
+      }
+
+      await recordAudit(request, authResult.user, {
+        action: 'user.create',
+        targetType: 'user',
+        targetId: created[0].id,
+        after: { username: created[0].username, rank: created[0].rank, team_id: created[0].team_id },
+      })
+
+      return created
+    })
 
     return apiResponse(newUser[0], HttpStatus.CREATED)
   } catch (error: any) {
     console.error('Create user error:', error)
     
     // Handle unique constraint violation
-    if (error.message?.includes('UNIQUE')) {
+    if (isUniqueConstraintError(error)) {
       return apiError('Username already exists', HttpStatus.CONFLICT)
     }
 
@@ -0,0 +1,162 @@
+/**
+ * Tests for application questionnaires
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/application-questions.test.ts
+ */
+
+import { checkAnswers, parseQuestionSet, validateQuestionSet } from '../application-questions'
+import type { ApplicationQuestion } from '../../types/application'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Application Questionnaire Tests\n')
+
+const questions: ApplicationQuestion[] = [
+  { id: 'logs', label: 'Link your best log', type: 'url', required: true },
+  { id: 'why', label: 'Why this team?', type: 'long_text', required: false },
+  { id: 'role', label: 'Main role', type: 'single_choice', required: true, options: ['Tank', 'Healer', 'DPS'] },
+  { id: 'nights', label: 'Nights you can raid', type: 'multi_choice', required: false, options: ['Tue', 'Wed', 'Thu'] },
+]
+
+test('accepts a well-formed questionnaire', () => {
+  assertEqual(validateQuestionSet(questions), {})
+  assertEqual(validateQuestionSet([]), {})
+})
+
+test('rejects bad ids, duplicates and unknown types', () => {
+  const errors = validateQuestionSet([
+    { id: 'Logs!', label: 'A', type: 'url', required: true },
+    { id: 'why', label: 'B', type: 'essay', required: false },
+    { id: 'why', label: '', type: 'short_text', required: 'yes' },
+  ])
+  assertEqual(Object.keys(errors).sort(), [
+    'questions[0].id',
+    'questions[1].type',
+    'questions[2].id',
+    'questions[2].label',
+    'questions[2].required',
+  ])
+})
+
+test('checks options against the question type', () => {
+  const errors = validateQuestionSet([
+    { id: 'a', label: 'A', type: 'single_choice', required: true, options: ['Only'] },
+    { id: 'b', label: 'B', type: 'multi_choice', required: true, options: ['X', 'X'] },
+    { id: 'c', label: 'C', type: 'short_text', required: true, options: ['X', 'Y'] },
+  ])
+  assertEqual(Object.keys(errors).sort(), ['questions[0].options', 'questions[1].options[1]', 'questions[2].options'])
+})
+
+test('rejects a questionnaire that is not an array', () => {
+  assertEqual(validateQuestionSet({ id: 'a' }), { questions: ['Must be an array'] })
+})
+
+test('returns answers in question order with their labels', () => {
+  const { answers, errors } = checkAnswers(questions, [
+    { questionId: 'nights', answer: ['Tue', 'Thu'] },
+    { questionId: 'role', answer: 'Healer' },
+    { questionId: 'logs', answer: ' https://www.warcraftlogs.com/reports/abc ' },
+  ])
+  assertEqual(errors, {})
+  assertEqual(answers, [
+    { questionId: 'logs', question: 'Link your best log', answer: 'https://www.warcraftlogs.com/reports/abc' },
+    { questionId: 'role', question: 'Main role', answer: 'Healer' },
+    { questionId: 'nights', question: 'Nights you can raid', answer: ['Tue', 'Thu'] },
+  ])
+})
+
+test('requires required questions and skips empty optional ones', () => {
+  const { answers, errors } = checkAnswers(questions, [{ questionId: 'why', answer: '  ' }])
+  assertEqual(Object.keys(errors).sort(), ['answers.logs', 'answers.role'])
+  assertEqual(answers, [])
+})
+
+test('rejects answers that do not fit the question', () => {
+  const { errors } = checkAnswers(questions, [
+    { questionId: 'logs', answer: 'not a url' },
+    { questionId: 'role', answer: 'Bard' },
+    { questionId: 'nights', answer: ['Tue', 'Tue'] },
+    { questionId: 'extra', answer: 'x' },
+    { questionId: 'why', answer: 42 },
+  ])
+  assertEqual(Object.keys(errors).sort(), [
+    'answers.logs',
+    'answers.nights',
+    'answers.role',
+    'answers.why',
+    'answers[3].questionId',
+  ])
+})
+
+test('reads stored questionnaires', () => {
+  assertEqual(parseQuestionSet(null), [])
+  assertEqual(parseQuestionSet('{}'), [])
+  assertEqual(parseQuestionSet(JSON.stringify(questions)), questions)
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
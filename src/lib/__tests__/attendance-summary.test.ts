@@ -0,0 +1,145 @@
+/**
+ * Tests for the attendance summary
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/attendance-summary.test.ts
+ */
+
+import { summarizeAttendance } from '../attendance-summary'
+import type { AttendanceRecord, AttendanceStatus } from '../../types/attendance'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Attendance Summary Tests\n')
+
+const now = new Date('2026-04-01T12:00:00Z')
+
+let nextId = 1
+function record(memberId: number, startsAt: string, status: AttendanceStatus): AttendanceRecord {
+  return {
+    id: nextId++,
+    team_id: 1,
+    event_id: 1,
+    occurrence_date: startsAt.slice(0, 10),
+    starts_at: startsAt,
+    member_id: memberId,
+    status,
+    recorded_by: null,
+    recorded_at: startsAt,
+  }
+}
+
+const members = [
+  { id: 1, character_name: 'Alpha', status: 'main' as const },
+  { id: 2, character_name: 'Beta', status: 'trial' as const },
+  { id: 3, character_name: 'Gamma', status: 'trial' as const },
+]
+
+const records = [
+  record(1, '2026-03-30 00:00:00', 'present'),
+  record(1, '2026-03-23 00:00:00', 'late'),
+  record(1, '2026-03-16 00:00:00', 'absent'),
+  record(1, '2026-02-01 00:00:00', 'absent'),
+  record(2, '2026-03-30 00:00:00', 'absent'),
+  record(2, '2026-03-23 00:00:00', 'bench'),
+  record(2, '2026-01-10 00:00:00', 'present'),
+]
+
+test('counts raids in each window', () => {
+  const [alpha] = summarizeAttendance(members, records, [90, 30], 80, now)
+
+  assertEqual(alpha.windows.map(window => window.days), [30, 90])
+  assertEqual(alpha.windows[0], { days: 30, raids: 3, attended: 2, late: 1, absent: 1, percent: 66.7 })
+  assertEqual(alpha.windows[1], { days: 90, raids: 4, attended: 2, late: 1, absent: 2, percent: 50 })
+})
+
+test('counts bench as attended', () => {
+  const [, beta] = summarizeAttendance(members, records, [30], 80, now)
+  assertEqual(beta.windows[0].attended, 1)
+  assertEqual(beta.windows[0].percent, 50)
+})
+
+test('flags trials below the threshold in the shortest window', () => {
+  const summary = summarizeAttendance(members, records, [30, 90], 80, now)
+  assertEqual(summary.map(member => member.flagged), [false, true, false])
+
+  const lenient = summarizeAttendance(members, records, [30, 90], 50, now)
+  assertEqual(lenient.map(member => member.flagged), [false, false, false])
+})
+
+test('has no percentage without recorded raids', () => {
+  const [, , gamma] = summarizeAttendance(members, records, [30], 80, now)
+  assertEqual(gamma.windows[0], { days: 30, raids: 0, attended: 0, late: 0, absent: 0, percent: null })
+})
+
+test('ignores raids after now', () => {
+  const future = [...records, record(1, '2026-04-06 00:00:00', 'absent')]
+  const [alpha] = summarizeAttendance(members, future, [30], 80, now)
+  assertEqual(alpha.windows[0].raids, 3)
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
@@ -0,0 +1,390 @@
+/**
+ * Tests for the Database Layer
+ *
+ * Runs the same repository tests against whichever engine the environment
+ * selects, so both drivers stay in step. Uses a scratch database - never
+ * point it at real data.
+ *
+ * SQLite:
+ *   DB_DRIVER=sqlite SQLITE_PATH=/tmp/eclipsed-test.db node --loader ts-node/esm src/lib/__tests__/db.test.ts
+ *
+ * MySQL / MariaDB (start the container from docker-compose.test.yml first):
+ *   DB_DRIVER=mysql DB_HOST=127.0.0.1 DB_PORT=3307 DB_USER=eclipsed DB_PASSWORD=eclipsed \
+ *   DB_NAME=eclipsed_test node --loader ts-node/esm src/lib/__tests__/db.test.ts
+ */
+
+import {
+  query,
+  queryOne,
+  execute,
+  withTransaction,
+  getDriver,
+  closePool,
+} from '../db'
+import { translateSql, isUniqueConstraintError } from '../sql-dialect'
+import { getMigrationStatus } from '../migration-runner'
+import {
+  createSeasonConfig,
+  updateSeasonConfig,
+  getActiveSeasonConfig,
+  deleteSeasonConfig,
+} from '../season-config'
+import {
+  upsertCacheEntry,
+  findCachedCharacter,
+  deleteCacheEntry,
+} from '../character-enrichment-cache'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({
+      name,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, expectedMessage?: string) {
+  let threw = false
+  let actualMessage = ''
+
+  try {
+    await fn()
+  } catch (error) {
+    threw = true
+    actualMessage = error instanceof Error ? error.message : String(error)
+  }
+
+  if (!threw) {
+    throw new Error('Expected promise to reject')
+  }
+
+  if (expectedMessage && !actualMessage.includes(expectedMessage)) {
+    throw new Error(
+      `Expected error message to include "${expectedMessage}", got "${actualMessage}"`
+    )
+  }
+}
+
+const TEST_TEAM = '__db_test_team__'
+const TEST_REALM = '__db-test-realm__'
+
+async function cleanup() {
+  await execute('DELETE FROM teams WHERE name LIKE ?', [`${TEST_TEAM}%`])
+  await execute("DELETE FROM season_config WHERE tier_name LIKE '__db_test%'")
+  await execute('DELETE FROM character_enrichment_cache WHERE realm = ?', [TEST_REALM])
+}
+
+async function countTestTeams(): Promise<number> {
+  const row = await queryOne<{ total: number }>(
+    'SELECT COUNT(*) as total FROM teams WHERE name LIKE ?',
+    [`${TEST_TEAM}%`]
+  )
+  return Number(row?.total ?? 0)
+}
+
+async function run() {
+  const dialect = getDriver().dialect
+  console.log(`\n🗄️  Running database tests against: ${dialect}\n`)
+
+  await cleanup()
+
+  // ==========================================================================
+  // SQL DIALECT
+  // ==========================================================================
+
+  console.log('\n📋 SQL Dialect\n')
+
+  await test('sqlite dialect leaves statements untouched', () => {
+    const sql = "SELECT * FROM site_content WHERE key = ? AND updated_at > datetime('now', '-24 hours')"
+    assertEqual(translateSql(sql, 'sqlite'), sql)
+  })
+
+  await test('translates relative datetime to DATE_SUB', () => {
+    assertEqual(
+      translateSql("SELECT 1 WHERE datetime(created_at) > datetime('now', '-24 hours')", 'mysql'),
+      'SELECT 1 WHERE created_at > DATE_SUB(CURRENT_TIMESTAMP, INTERVAL 24 HOUR)'
+    )
+  })
+
+  await test("translates DATETIME('now') to CURRENT_TIMESTAMP", () => {
+    assertEqual(
+      translateSql("UPDATE users SET updated_at = DATETIME('now') WHERE id = ?", 'mysql'),
+      'UPDATE users SET updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    )
+  })
+
+  await test('translates INSERT OR IGNORE / INSERT OR REPLACE', () => {
+    assertEqual(
+      translateSql('INSERT OR IGNORE INTO teams (name) VALUES (?)', 'mysql'),
+      'INSERT IGNORE INTO teams (name) VALUES (?)'
+    )
+    assertEqual(
+      translateSql('INSERT OR REPLACE INTO teams (name) VALUES (?)', 'mysql'),
+      'REPLACE INTO teams (name) VALUES (?)'
+    )
+  })
+
+  await test('quotes reserved column names but not keywords or literals', () => {
+    assertEqual(
+      translateSql("SELECT key, rank FROM t WHERE rank = 'rank key' AND id IN (SELECT id FROM u)", 'mysql'),
+      "SELECT `key`, `rank` FROM t WHERE `rank` = 'rank key' AND id IN (SELECT id FROM u)"
+    )
+    assertEqual(
+      translateSql('CREATE TABLE t (id INT PRIMARY KEY)', 'mysql'),
+      'CREATE TABLE t (id INT PRIMARY KEY)'
+    )
+  })
+
+  // ==========================================================================
+  // MIGRATIONS
+  // ==========================================================================
+
+  console.log('\n📋 Migrations\n')
+
+  await test('schema is fully migrated', async () => {
+    await query('SELECT 1')
+    const status = await getMigrationStatus(getDriver())
+    assertEqual(status.pending, [])
+  })
+
+  // ==========================================================================
+  // QUERY HELPERS
+  // ==========================================================================
+
+  console.log('\n📋 Query Helpers\n')
+
+  await test('execute returns changes and lastInsertRowid', async () => {
+    const result = await execute('INSERT INTO teams (name) VALUES (?)', [`${TEST_TEAM}insert`])
+    assertEqual(result.changes, 1)
+    const row = await queryOne<{ name: string }>('SELECT name FROM teams WHERE id = ?', [
+      result.lastInsertRowid,
+    ])
+    assertEqual(row?.name, `${TEST_TEAM}insert`)
+  })
+
+  await test('queryOne returns null when nothing matches', async () => {
+    assertEqual(await queryOne('SELECT id FROM teams WHERE id = ?', [-1]), null)
+  })
+
+  await test('unique violations are recognised', async () => {
+    let caught: unknown
+    try {
+      await execute('INSERT INTO teams (name) VALUES (?)', [`${TEST_TEAM}insert`])
+    } catch (error) {
+      caught = error
+    }
+    assertEqual(isUniqueConstraintError(caught), true)
+  })
+
+  await test('seeded site content is readable through the reserved key column', async () => {
+    const row = await queryOne<{ title: string }>(
+      'SELECT title FROM site_content WHERE key = ?',
+      ['about-us']
+    )
+    assertEqual(!!row?.title, true)
+  })
+
+  // ==========================================================================
+  // TRANSACTIONS
+  // ==========================================================================
+
+  console.log('\n📋 Transactions\n')
+
+  await test('withTransaction commits when the callback resolves', async () => {
+    const before = await countTestTeams()
+    await withTransaction(async (tx) => {
+      await tx.execute('INSERT INTO teams (name) VALUES (?)', [`${TEST_TEAM}commit`])
+    })
+    assertEqual(await countTestTeams(), before + 1)
+  })
+
+  await test('withTransaction rolls back when the callback throws', async () => {
+    const before = await countTestTeams()
+    await assertRejects(
+      () => withTransaction(async (tx) => {
+        await tx.execute('INSERT INTO teams (name) VALUES (?)', [`${TEST_TEAM}rollback`])
+        throw new Error('boom')
+      }),
+      'boom'
+    )
+    assertEqual(await countTestTeams(), before)
+  })
+
+  await test('global helpers join the open transaction', async () => {
+    const before = await countTestTeams()
+    await assertRejects(() => withTransaction(async () => {
+      await execute('INSERT INTO teams (name) VALUES (?)', [`${TEST_TEAM}joined`])
+      const inside = await queryOne('SELECT id FROM teams WHERE name = ?', [`${TEST_TEAM}joined`])
+      assertEqual(!!inside, true, 'Row should be visible inside the transaction')
+      throw new Error('undo')
+    }))
+    assertEqual(await countTestTeams(), before)
+  })
+
+  await test('nested withTransaction only undoes the inner work', async () => {
+    const before = await countTestTeams()
+    await withTransaction(async (tx) => {
+      await tx.execute('INSERT INTO teams (name) VALUES (?)', [`${TEST_TEAM}outer`])
+      await assertRejects(() => withTransaction(async (inner) => {
+        await inner.execute('INSERT INTO teams (name) VALUES (?)', [`${TEST_TEAM}inner`])
+        throw new Error('inner failure')
+      }))
+    })
+    assertEqual(await countTestTeams(), before + 1)
+    assertEqual(
+      await queryOne('SELECT id FROM teams WHERE name = ?', [`${TEST_TEAM}inner`]),
+      null
+    )
+  })
+
+  // ==========================================================================
+  // REPOSITORIES
+  // ==========================================================================
+
+  console.log('\n📋 Repositories\n')
+
+  await test('season config: only one config stays active', async () => {
+    const previouslyActive = await getActiveSeasonConfig()
+
+    const first = await createSeasonConfig({
+      tier_name: '__db_test_tier_1',
+      wcl_tier_url: 'https://www.warcraftlogs.com/zone/rankings/1',
+      wcl_zone_id: 1,
+      encounter_order: [101, 102],
+      encounter_names: [{ id: 101, name: 'A' }, { id: 102, name: 'B' }],
+      is_active: true,
+    })
+    const second = await createSeasonConfig({
+      tier_name: '__db_test_tier_2',
+      wcl_tier_url: 'https://www.warcraftlogs.com/zone/rankings/2',
+      wcl_zone_id: 2,
+      encounter_order: [],
+      encounter_names: [],
+      is_active: true,
+    })
+
+    assertEqual((await getActiveSeasonConfig())?.id, second.id)
+    assertEqual(first.encounter_order, [101, 102])
+
+    const updated = await updateSeasonConfig(first.id, { is_active: true, tier_name: '__db_test_tier_1b' })
+    assertEqual(updated.tier_name, '__db_test_tier_1b')
+    assertEqual((await getActiveSeasonConfig())?.id, first.id)
+
+    await deleteSeasonConfig(first.id)
+    await deleteSeasonConfig(second.id)
+
+    if (previouslyActive) {
+      await updateSeasonConfig(previouslyActive.id, { is_active: true })
+    }
+  })
+
+  await test('character cache: upsert inserts then updates', async () => {
+    const lookup = { region: 'us', realm: TEST_REALM, character_name: 'tester' }
+
+    const created = await upsertCacheEntry({
+      ...lookup,
+      player_card: { itemLevel: 600 } as any,
+      fetch_status: 'partial',
+    })
+    assertEqual(created.fetch_status, 'partial')
+
+    const updated = await upsertCacheEntry({
+      ...lookup,
+      player_card: { itemLevel: 610 } as any,
+      fetch_status: 'complete',
+    })
+    assertEqual(updated.id, created.id)
+    assertEqual(updated.fetch_status, 'complete')
+    assertEqual((await findCachedCharacter(lookup))?.player_card, { itemLevel: 610 })
+
+    assertEqual(await deleteCacheEntry(lookup), true)
+  })
+
+  await test('character cache: concurrent upserts create a single row', async () => {
+    const lookup = { region: 'eu', realm: TEST_REALM, character_name: 'racer' }
+
+    await Promise.all(
+      [1, 2, 3].map(n => upsertCacheEntry({
+        ...lookup,
+        player_card: { attempt: n } as any,
+      }))
+    )
+
+    const rows = await query('SELECT id FROM character_enrichment_cache WHERE realm = ? AND character_name = ?', [
+      TEST_REALM,
+      'racer',
+    ])
+    assertEqual(rows.length, 1)
+  })
+
+  await cleanup()
+}
+
+run()
+  .catch((error) => {
+    results.push({
+      name: 'test setup',
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ Test run aborted: ${error instanceof Error ? error.message : String(error)}`)
+  })
+  .finally(async () => {
+    await closePool()
+
+    // ============================================================================
+    // SUMMARY
+    // ============================================================================
+
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 Test Summary')
+    console.log('='.repeat(60))
+
+    const passed = results.filter(r => r.passed).length
+    const failed = results.filter(r => !r.passed).length
+    const total = results.length
+
+    console.log(`Total: ${total} tests`)
+    console.log(`✅ Passed: ${passed}`)
+    console.log(`❌ Failed: ${failed}`)
+
+    if (failed > 0) {
+      console.log('\n❌ Failed Tests:')
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`)
+        console.log(`    ${r.error}`)
+      })
+    }
+
+    console.log('\n' + '='.repeat(60) + '\n')
+
+    // Exit with error code if any tests failed
+    if (failed > 0) {
+      process.exit(1)
+    }
+  })
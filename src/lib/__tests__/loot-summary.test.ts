@@ -0,0 +1,156 @@
+/**
+ * Tests for the loot summary
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/loot-summary.test.ts
+ */
+
+import { summarizeLoot, tallyLootVotes } from '../loot-summary'
+import type { LootAward, LootResponse, LootVote } from '../../types/loot'
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Loot Summary Tests\n')
+
+let nextId = 1
+function award(memberId: number | null, response: LootResponse | null, awardedAt: string | null): LootAward {
+  return {
+    id: nextId++,
+    team_id: 1,
+    event_id: 1,
+    occurrence_date: '2026-03-02',
+    season_config_id: 1,
+    item_id: null,
+    item_name: 'Trinket',
+    encounter_name: null,
+    difficulty: 'Heroic',
+    member_id: memberId,
+    character_name: null,
+    response,
+    note: null,
+    awarded_by: memberId ? 1 : null,
+    awarded_at: awardedAt,
+    created_by: 1,
+    created_at: '2026-03-02 20:00:00',
+    updated_at: '2026-03-02 20:00:00',
+  }
+}
+
+function vote(userId: number, memberId: number, createdAt: string): LootVote {
+  return {
+    id: nextId++,
+    award_id: 1,
+    user_id: userId,
+    username: `user${userId}`,
+    member_id: memberId,
+    note: null,
+    created_at: createdAt,
+    updated_at: createdAt,
+  }
+}
+
+const members = [
+  { id: 1, character_name: 'Alpha', status: 'main' as const },
+  { id: 2, character_name: 'Beta', status: 'trial' as const },
+]
+
+test('counts items per member and response', () => {
+  const [alpha, beta] = summarizeLoot(members, [
+    award(1, 'bis', '2026-03-02 21:00:00'),
+    award(1, 'upgrade', '2026-03-09 21:00:00'),
+    award(1, 'bis', '2026-03-04 21:00:00'),
+    award(2, 'transmog', '2026-03-02 22:00:00'),
+  ])
+  assertEqual(alpha.total, 3)
+  assertEqual(alpha.byResponse, { bis: 2, upgrade: 1, offspec: 0, transmog: 0 })
+  assertEqual(alpha.lastAwardedAt, '2026-03-09 21:00:00')
+  assertEqual([beta.total, beta.byResponse.transmog], [1, 1])
+})
+
+test('leaves out items still being decided', () => {
+  const [alpha, beta] = summarizeLoot(members, [award(null, null, null)])
+  assertEqual([alpha.total, beta.total], [0, 0])
+  assertEqual(alpha.lastAwardedAt, null)
+})
+
+test('tallies votes per candidate, most first', () => {
+  const tally = tallyLootVotes([
+    vote(1, 2, '2026-03-02 20:01:00'),
+    vote(2, 1, '2026-03-02 20:02:00'),
+    vote(3, 1, '2026-03-02 20:03:00'),
+  ])
+  assertEqual(tally, [{ memberId: 1, votes: 2 }, { memberId: 2, votes: 1 }])
+})
+
+test('breaks ties by who was voted for first', () => {
+  const tally = tallyLootVotes([
+    vote(1, 2, '2026-03-02 20:05:00'),
+    vote(2, 1, '2026-03-02 20:02:00'),
+  ])
+  assertEqual(tally, [{ memberId: 1, votes: 1 }, { memberId: 2, votes: 1 }])
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
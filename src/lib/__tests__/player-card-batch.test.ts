@@ -0,0 +1,213 @@
+/**
+ * Tests for batch player-card enrichment
+ *
+ * Simple test runner without external dependencies. fetch is replaced with
+ * a fake WCL, so nothing goes over the network. Cached cards are written to
+ * the database, so it refuses to run without a scratch SQLITE_PATH:
+ *   SQLITE_PATH=/tmp/eclipsed-test.db node --loader ts-node/esm src/lib/__tests__/player-card-batch.test.ts
+ */
+
+import path from 'path'
+import { closePool, execute } from '../db'
+import { upsertCacheEntry } from '../character-enrichment-cache'
+import { BadRequestError } from '../errors'
+import { MAX_BATCH_SIZE, enrichPlayerCards } from '../player-card'
+import type { PlayerCard } from '../../types/player-card'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({
+      name,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+const sqlitePath = process.env.SQLITE_PATH
+if ((process.env.DB_DRIVER || 'sqlite').toLowerCase() !== 'sqlite' || !sqlitePath ||
+    path.resolve(sqlitePath) === path.resolve('database', 'app.db')) {
+  console.error('Set SQLITE_PATH to a scratch database, e.g. SQLITE_PATH=/tmp/eclipsed-test.db')
+  process.exit(1)
+}
+
+// A fake WCL: characters in `known` exist, everyone else isn't found.
+// Each character lookup is recorded in `lookedUp`; zone and other queries
+// get an empty answer.
+const REALM = 'batch-test-realm'
+const known = new Set(['alice', 'carol'])
+const lookedUp: string[] = []
+
+globalThis.fetch = (async (url: string, init?: RequestInit) => {
+  if (url.endsWith('/oauth/token')) {
+    return new Response(JSON.stringify({ access_token: 'token', expires_in: 3600, token_type: 'Bearer' }))
+  }
+
+  const body = JSON.parse(String(init?.body))
+  if (body.query.includes('rateLimitData')) {
+    return new Response(JSON.stringify({
+      data: { rateLimitData: { limitPerHour: 3600, pointsSpentThisHour: 0, pointsResetIn: 3600 } },
+    }))
+  }
+
+  if (!body.query.includes('classID')) {
+    return new Response(JSON.stringify({ data: {} }))
+  }
+
+  const name = String(body.variables.name).toLowerCase()
+  lookedUp.push(name)
+  const character = known.has(name)
+    ? { id: lookedUp.length, name, server: { name: REALM, region: { slug: 'us' } }, classID: 1, zoneRankings: null }
+    : null
+  return new Response(JSON.stringify({ data: { characterData: { character } } }))
+}) as typeof fetch
+
+process.env.WCL_CLIENT_ID = 'client'
+process.env.WCL_CLIENT_SECRET = 'secret'
+
+function characterUrl(name: string): string {
+  return `https://www.warcraftlogs.com/character/us/${REALM}/${name}`
+}
+
+async function cleanup() {
+  await execute('DELETE FROM character_enrichment_cache WHERE realm = ?', [REALM])
+}
+
+async function run() {
+  console.log('\n🧪 Running Player Card Batch Tests\n')
+
+  await cleanup()
+
+  await test('URLs for the same character are looked up once', async () => {
+    lookedUp.length = 0
+    const result = await enrichPlayerCards([
+      { warcraftLogsUrl: characterUrl('Alice'), memberId: 1 },
+      { warcraftLogsUrl: characterUrl('alice'), memberId: 2 },
+    ])
+    assertEqual(lookedUp, ['alice'])
+    assertEqual(result.results.length, 1)
+    assertEqual(result.results[0].warcraftLogsUrls, [characterUrl('Alice'), characterUrl('alice')])
+    assertEqual(result.results[0].memberIds, [1, 2])
+    assertEqual(result.counts, { requested: 2, unique: 1, cached: 0, fetched: 1, failed: 0 })
+  })
+
+  await test('fresh cache hits are served without asking WCL', async () => {
+    await upsertCacheEntry({
+      region: 'US',
+      realm: REALM,
+      character_name: 'Bob',
+      season_key: 'latest',
+      player_card: { characterName: 'Bob', fetchStatus: 'complete' } as PlayerCard,
+      fetch_status: 'complete',
+    })
+    lookedUp.length = 0
+
+    const result = await enrichPlayerCards([
+      { warcraftLogsUrl: characterUrl('Bob') },
+      { warcraftLogsUrl: characterUrl('Carol') },
+    ])
+    assertEqual(lookedUp, ['carol'])
+    assertEqual(result.results.map(item => [item.playerCard?.characterName, item.cached]), [['Bob', true], ['carol', false]])
+    assertEqual(result.counts, { requested: 2, unique: 2, cached: 1, fetched: 1, failed: 0 })
+  })
+
+  await test('a character that fails doesn\'t fail the batch', async () => {
+    const result = await enrichPlayerCards([
+      { warcraftLogsUrl: 'not a url' },
+      { warcraftLogsUrl: characterUrl('Nobody') },
+      { warcraftLogsUrl: characterUrl('Alice') },
+    ], { forceRefresh: true })
+    assertEqual(result.results.map(item => [item.fetchStatus, item.errorCode ?? null]), [
+      ['failed', 'INVALID_URL'],
+      ['failed', 'WCL_CHARACTER_NOT_FOUND'],
+      ['complete', null],
+    ])
+    assertEqual(result.counts, { requested: 3, unique: 3, cached: 0, fetched: 1, failed: 2 })
+  })
+
+  await test('more than MAX_BATCH_SIZE characters are rejected', async () => {
+    lookedUp.length = 0
+    const requests = Array.from({ length: MAX_BATCH_SIZE + 1 }, (_, index) => ({
+      warcraftLogsUrl: characterUrl(`Player${index}`),
+    }))
+
+    let error: unknown = null
+    try {
+      await enrichPlayerCards(requests)
+    } catch (caught) {
+      error = caught
+    }
+    assertEqual(error instanceof BadRequestError, true)
+    assertEqual((error as BadRequestError).statusCode, 400)
+    assertEqual(lookedUp, [])
+  })
+
+  await cleanup()
+}
+
+run()
+  .catch((error) => {
+    results.push({
+      name: 'test setup',
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ Test run aborted: ${error instanceof Error ? error.message : String(error)}`)
+  })
+  .finally(async () => {
+    await closePool()
+
+    // ============================================================================
+    // SUMMARY
+    // ============================================================================
+
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 Test Summary')
+    console.log('='.repeat(60))
+
+    const passed = results.filter(r => r.passed).length
+    const failed = results.filter(r => !r.passed).length
+    const total = results.length
+
+    console.log(`Total: ${total} tests`)
+    console.log(`✅ Passed: ${passed}`)
+    console.log(`❌ Failed: ${failed}`)
+
+    if (failed > 0) {
+      console.log('\n❌ Failed Tests:')
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`)
+        console.log(`    ${r.error}`)
+      })
+    }
+
+    console.log('\n' + '='.repeat(60) + '\n')
+
+    // Exit with error code if any tests failed
+    if (failed > 0) {
+      process.exit(1)
+    }
+  })
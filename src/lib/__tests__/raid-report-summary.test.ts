@@ -0,0 +1,195 @@
+/**
+ * Tests for raid report parsing and matching
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/raid-report-summary.test.ts
+ */
+
+import { parseWclReportUrl } from '../parse-wcl-report-url'
+import { firstKills, matchReportPlayers, reportAttendance, reportBossPulls } from '../raid-report-summary'
+import type { WclReport, WclReportFight } from '../../types/raid-report'
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Raid Report Tests\n')
+
+const start = Date.parse('2026-03-02T23:00:00Z')
+
+let nextFight = 1
+function fight(encounterId: number, difficulty: number | null, kill: boolean | null, minutes: number, playerIds = [1, 2, 3]): WclReportFight {
+  return {
+    id: nextFight++,
+    encounterId,
+    name: encounterId ? `Boss ${encounterId}` : 'Trash',
+    kill,
+    startTime: start + minutes * 60 * 1000,
+    endTime: start + (minutes + 5) * 60 * 1000,
+    difficulty,
+    fightPercentage: kill ? 0 : 42.5,
+    playerIds,
+  }
+}
+
+const report: WclReport = {
+  code: 'a1B2c3D4e5F6g7H8',
+  title: 'Heroic progression',
+  startTime: start,
+  endTime: start + 3 * 60 * 60 * 1000,
+  zone: { id: 44, name: 'Liberation of Undermine' },
+  fights: [
+    fight(0, null, null, 0),
+    fight(3009, 4, false, 10),
+    fight(3009, 4, true, 20),
+    fight(3010, 4, true, 40, [1, 2]),
+    fight(3010, 1, true, 60),
+  ],
+  players: [
+    { id: 1, name: 'Thrall', server: 'Area52' },
+    { id: 2, name: 'Jaina', server: "Kel'Thuzad" },
+    { id: 3, name: 'Pug', server: 'Illidan' },
+    { id: 4, name: 'Spectator', server: 'Area52' },
+  ],
+}
+
+test('parses report URLs and bare codes', () => {
+  assertEqual(parseWclReportUrl('a1B2c3D4e5F6g7H8').reportCode, 'a1B2c3D4e5F6g7H8')
+  const parsed = parseWclReportUrl('https://www.warcraftlogs.com/reports/a1B2c3D4e5F6g7H8#fight=12&type=damage-done')
+  assertEqual([parsed.reportCode, parsed.fightId], ['a1B2c3D4e5F6g7H8', 12])
+  assertEqual(parseWclReportUrl('https://www.warcraftlogs.com/reports/a1B2c3D4e5F6g7H8?fight=last').fightId, null)
+})
+
+test('rejects other URLs and codes', () => {
+  for (const input of [
+    'https://www.warcraftlogs.com/character/us/illidan/thrall',
+    'https://example.com/reports/a1B2c3D4e5F6g7H8',
+    'not-a-code',
+  ]) {
+    let threw = false
+    try {
+      parseWclReportUrl(input)
+    } catch {
+      threw = true
+    }
+    assertEqual(threw, true, `Expected ${input} to be rejected`)
+  }
+})
+
+test('matches players by name and realm, ignoring realm spacing', () => {
+  const match = matchReportPlayers(
+    [
+      { id: 10, character_name: 'thrall', realm: 'Area 52' },
+      { id: 11, character_name: 'Jaina', realm: "Kel'Thuzad" },
+      { id: 12, character_name: 'Pug', realm: 'Stormrage' },
+    ],
+    report
+  )
+  assertEqual(match.matchedMemberIds, [10, 11])
+  assertEqual(match.unmatchedPlayers, ['Pug-Illidan'])
+})
+
+test('matches by name alone only when it is unambiguous', () => {
+  const twoThralls = { ...report, players: [...report.players, { id: 5, name: 'Thrall', server: 'Illidan' }] }
+  twoThralls.fights = [...report.fights, fight(3011, 4, false, 80, [1, 5])]
+  assertEqual(matchReportPlayers([{ id: 10, character_name: 'Thrall', realm: '' }], twoThralls).matchedMemberIds, [])
+  assertEqual(matchReportPlayers([{ id: 10, character_name: 'Thrall', realm: '' }], report).matchedMemberIds, [10])
+})
+
+test('keeps boss pulls on Normal, Heroic and Mythic only', () => {
+  const pulls = reportBossPulls(report)
+  assertEqual(pulls.map(pull => [pull.encounterId, pull.difficulty, pull.kill]), [
+    [3009, 'Heroic', false],
+    [3009, 'Heroic', true],
+    [3010, 'Heroic', true],
+  ])
+})
+
+test('finds the first kill of each boss', () => {
+  const pulls = reportBossPulls({ ...report, fights: [...report.fights, fight(3009, 4, true, 90)] })
+  const kills = firstKills(pulls)
+  assertEqual(kills.map(kill => [kill.encounterId, kill.difficulty, kill.fightId]), [
+    [3009, 'Heroic', report.fights[2].id],
+    [3010, 'Heroic', report.fights[3].id],
+  ])
+})
+
+test('records attendance from the members seen', () => {
+  const members = [
+    { id: 10, status: 'main' as const },
+    { id: 11, status: 'trial' as const },
+    { id: 12, status: 'main' as const },
+    { id: 13, status: 'bench' as const },
+    { id: 14, status: 'main' as const },
+  ]
+  const recorded = new Map([[11, 'late' as const], [14, 'bench' as const]])
+  assertEqual(reportAttendance(members, new Set([10, 11]), recorded), [
+    { memberId: 10, status: 'present' },
+    { memberId: 11, status: 'late' },
+    { memberId: 12, status: 'absent' },
+    { memberId: 14, status: 'bench' },
+  ])
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
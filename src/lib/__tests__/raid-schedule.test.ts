@@ -0,0 +1,193 @@
+/**
+ * Tests for the raid schedule helpers
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/raid-schedule.test.ts
+ */
+
+import { addDays, buildICalendar, expandOccurrences, occursOn, zonedTimeToUtc } from '../raid-schedule'
+import type { RaidEventDetail } from '../../types/raid-event'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Raid Schedule Tests\n')
+
+function makeEvent(fields: Partial<RaidEventDetail>): RaidEventDetail {
+  return {
+    id: 1,
+    team_id: 7,
+    kind: 'weekly',
+    title: 'Raid',
+    description: null,
+    weekday: 'tuesday',
+    event_date: null,
+    start_time: '20:00',
+    duration_minutes: 180,
+    timezone: 'America/New_York',
+    starts_on: null,
+    ends_on: null,
+    created_by: null,
+    created_at: '2026-01-01 00:00:00',
+    updated_at: '2026-01-01 00:00:00',
+    cancellations: [],
+    ...fields,
+  }
+}
+
+const teamNames = new Map([[7, 'Alpha Team']])
+
+test('moves dates across month and year ends', () => {
+  assertEqual(addDays('2026-02-28', 1), '2026-03-01')
+  assertEqual(addDays('2026-12-31', 1), '2027-01-01')
+  assertEqual(addDays('2026-03-01', -1), '2026-02-28')
+})
+
+test('converts local times to UTC on either side of a DST change', () => {
+  assertEqual(zonedTimeToUtc('2026-03-03', '20:00', 'America/New_York').toISOString(), '2026-03-04T01:00:00.000Z')
+  assertEqual(zonedTimeToUtc('2026-03-10', '20:00', 'America/New_York').toISOString(), '2026-03-11T00:00:00.000Z')
+  assertEqual(zonedTimeToUtc('2026-07-01', '20:00', 'Europe/Berlin').toISOString(), '2026-07-01T18:00:00.000Z')
+  assertEqual(zonedTimeToUtc('2026-07-01', '20:00', 'UTC').toISOString(), '2026-07-01T20:00:00.000Z')
+})
+
+test('expands weekly events within their date range', () => {
+  const event = makeEvent({ starts_on: '2026-03-05', ends_on: '2026-03-24' })
+  const occurrences = expandOccurrences([event], teamNames, new Date('2026-03-01T00:00:00Z'), new Date('2026-04-01T00:00:00Z'))
+
+  assertEqual(occurrences.map(occurrence => occurrence.date), ['2026-03-10', '2026-03-17', '2026-03-24'])
+  assertEqual(occurrences[0].startsAt, '2026-03-11T00:00:00.000Z')
+  assertEqual(occurrences[0].endsAt, '2026-03-11T03:00:00.000Z')
+  assertEqual(occurrences[0].teamName, 'Alpha Team')
+})
+
+test('includes occurrences that overlap the window by UTC time', () => {
+  // Tuesday 20:00 New York is Wednesday 00:00-03:00 UTC in summer
+  const event = makeEvent({})
+  const occurrences = expandOccurrences([event], teamNames, new Date('2026-07-08T00:00:00Z'), new Date('2026-07-09T00:00:00Z'))
+
+  assertEqual(occurrences.map(occurrence => occurrence.date), ['2026-07-07'])
+})
+
+test('marks cancelled occurrences and sorts by start time', () => {
+  const weekly = makeEvent({
+    cancellations: [
+      { id: 1, event_id: 1, occurrence_date: '2026-03-17', reason: 'Patch day', created_by: null, created_at: '' },
+    ],
+  })
+  const oneOff = makeEvent({ id: 2, kind: 'one_off', weekday: null, event_date: '2026-03-15', title: 'Alt run' })
+
+  const occurrences = expandOccurrences(
+    [weekly, oneOff],
+    teamNames,
+    new Date('2026-03-15T00:00:00Z'),
+    new Date('2026-03-22T00:00:00Z')
+  )
+
+  assertEqual(occurrences.map(occurrence => [occurrence.eventId, occurrence.date, occurrence.cancelled]), [
+    [2, '2026-03-15', false],
+    [1, '2026-03-17', true],
+  ])
+  assertEqual(occurrences[1].cancellationReason, 'Patch day')
+})
+
+test('knows which dates an event happens on', () => {
+  const weekly = makeEvent({ ends_on: '2026-03-31' })
+  assertEqual(occursOn(weekly, '2026-03-17'), true)
+  assertEqual(occursOn(weekly, '2026-03-18'), false)
+  assertEqual(occursOn(weekly, '2026-04-07'), false)
+  assertEqual(occursOn(makeEvent({ kind: 'one_off', event_date: '2026-03-15' }), '2026-03-15'), true)
+})
+
+test('builds an iCalendar feed with escaped and folded text', () => {
+  const event = makeEvent({ title: 'Raid; Heroic, Mythic', description: 'Bring flasks.\nBe on time. '.repeat(5) })
+  const occurrences = expandOccurrences([event], teamNames, new Date('2026-03-10T00:00:00Z'), new Date('2026-03-12T00:00:00Z'))
+  const calendar = buildICalendar('Alpha Team Raids', occurrences, {
+    uidDomain: 'guild.example',
+    now: new Date('2026-03-01T12:00:00Z'),
+  })
+  const lines = calendar.split('\r\n')
+
+  assertEqual(lines[0], 'BEGIN:VCALENDAR')
+  assertEqual(lines.includes('UID:raid-event-1-2026-03-10@guild.example'), true)
+  assertEqual(lines.includes('DTSTART:20260311T000000Z'), true)
+  assertEqual(lines.includes('SUMMARY:Raid\\; Heroic\\, Mythic'), true)
+  assertEqual(lines.includes('STATUS:CONFIRMED'), true)
+  assertEqual(lines.every(line => Buffer.byteLength(line) <= 75), true)
+  assertEqual(calendar.endsWith('END:VCALENDAR\r\n'), true)
+})
+
+test('marks cancelled occurrences in the feed', () => {
+  const event = makeEvent({
+    cancellations: [{ id: 1, event_id: 1, occurrence_date: '2026-03-10', reason: null, created_by: null, created_at: '' }],
+  })
+  const occurrences = expandOccurrences([event], teamNames, new Date('2026-03-10T00:00:00Z'), new Date('2026-03-12T00:00:00Z'))
+  const lines = buildICalendar('Alpha', occurrences, { uidDomain: 'guild.example', now: new Date() }).split('\r\n')
+
+  assertEqual(lines.includes('SUMMARY:Cancelled: Raid'), true)
+  assertEqual(lines.includes('STATUS:CANCELLED'), true)
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for the roster CSV helpers
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/roster-csv.test.ts
+ */
+
+import { parseCsv, readRosterCsv, resolveColumns, rosterToCsv } from '../roster-csv'
+import type { RosterMember } from '../../types/roster'
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Roster CSV Tests\n')
+
+test('parseCsv reads quoted cells, doubled quotes and CRLF line ends', () => {
+  const rows = parseCsv('\uFEFFName,Notes\r\nThrall,"Warchief, retired"\r\n\r\nJaina,"Says ""hi"""\n"Anduin","two\nlines"')
+  assertEqual(rows, [
+    ['Name', 'Notes'],
+    ['Thrall', 'Warchief, retired'],
+    ['Jaina', 'Says "hi"'],
+    ['Anduin', 'two\nlines'],
+  ])
+})
+
+test('rosterToCsv writes a header row and survives a round trip', () => {
+  const member: RosterMember = {
+    id: 1,
+    team_id: 1,
+    character_name: 'Thrall',
+    realm: "Kel'Thuzad",
+    region: 'us',
+    class: 'Shaman',
+    spec: null,
+    role: 'healer',
+    status: 'main',
+    wcl_url: null,
+    joined_at: '2026-01-05',
+    notes: '=HYPERLINK("x"), "quoted"',
+    position: 0,
+    created_at: '2026-01-05 00:00:00',
+    updated_at: '2026-01-05 00:00:00',
+  }
+  const csv = rosterToCsv([member])
+
+  assertEqual(csv.split('\r\n')[0], 'Name,Realm,Region,Class,Spec,Role,Status,WCL URL,Joined,Notes')
+  assertEqual(parseCsv(csv)[1][9], '\'=HYPERLINK("x"), "quoted"', 'formula cells are escaped')
+
+  const { rows, errors } = readRosterCsv(csv)
+  assertEqual(errors, {})
+  assertEqual(rows[0].values.notes, '=HYPERLINK("x"), "quoted"')
+  assertEqual(rows[0].values.realm, "Kel'Thuzad")
+  assertEqual(rows[0].values.spec, '')
+})
+
+test('resolveColumns recognises headers by name and applies a mapping', () => {
+  const { columns, ignored, errors } = resolveColumns(
+    ['Character', 'Server', 'Main Spec', 'Discord'],
+    { 'Main Spec': 'spec', Discord: null }
+  )
+  assertEqual(errors, {})
+  assertEqual(columns, { characterName: 0, realm: 1, spec: 2 })
+  assertEqual(ignored, ['Discord'])
+})
+
+test('resolveColumns reports missing names, unknown fields and duplicates', () => {
+  assertEqual(resolveColumns(['Realm', 'Class'], {}).errors.mapping, [
+    'No column holds the character name; map one to characterName',
+  ])
+  assertEqual(resolveColumns(['Name', 'Alt'], { Alt: 'altName' }).errors.mapping?.length, 1)
+  assertEqual(resolveColumns(['Name', 'Player'], {}).errors.mapping, [
+    'More than one column is characterName: "Name" and "Player"',
+  ])
+  assertEqual(resolveColumns(['Name'], { Realm: 'realm' }).errors.mapping, ['There is no "Realm" column'])
+})
+
+test('readRosterCsv numbers rows as a spreadsheet does and leaves out unmapped fields', () => {
+  const { rows } = readRosterCsv('Name,Realm\nThrall , Area 52\nJaina,\n')
+  assertEqual(rows, [
+    { line: 2, values: { characterName: 'Thrall', realm: 'Area 52' } },
+    { line: 3, values: { characterName: 'Jaina', realm: '' } },
+  ])
+  assertEqual(readRosterCsv('').errors, { csv: ['The CSV is empty'] })
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
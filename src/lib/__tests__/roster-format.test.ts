@@ -0,0 +1,184 @@
+/**
+ * Tests for the roster format helpers
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/roster-format.test.ts
+ */
+
+import {
+  fromLegacyRosterEntry,
+  normalizeRosterRole,
+  normalizeRosterStatus,
+  rosterKey,
+  toLegacyRosterEntry,
+} from '../roster-format'
+import type { RosterMember } from '../../types/roster'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Roster Format Tests\n')
+
+test('normalizes role spellings', () => {
+  assertEqual(normalizeRosterRole('Tank'), 'tank')
+  assertEqual(normalizeRosterRole(' Heals '), 'healer')
+  assertEqual(normalizeRosterRole('Ranged'), 'dps')
+  assertEqual(normalizeRosterRole('Melee'), 'dps')
+  assertEqual(normalizeRosterRole('support'), null)
+  assertEqual(normalizeRosterRole(undefined), null)
+})
+
+test('normalizes status spellings', () => {
+  assertEqual(normalizeRosterStatus('Active'), 'main')
+  assertEqual(normalizeRosterStatus('Benched'), 'bench')
+  assertEqual(normalizeRosterStatus('Trialist'), 'trial')
+  assertEqual(normalizeRosterStatus('Inactive'), 'inactive')
+  assertEqual(normalizeRosterStatus('retired'), null)
+})
+
+test('reads a guide-style legacy entry', () => {
+  assertEqual(fromLegacyRosterEntry({ name: 'Player1', role: 'Tank', status: 'Active' }), {
+    characterName: 'Player1',
+    realm: '',
+    region: '',
+    class: null,
+    spec: null,
+    role: 'tank',
+    status: 'main',
+    wclUrl: null,
+    joinedAt: null,
+    notes: null,
+  })
+})
+
+test('reads alternate field names and lowercases the region', () => {
+  const member = fromLegacyRosterEntry({
+    character_name: ' Jaina ',
+    realm: 'Proudmoore',
+    region: 'US',
+    wcl_url: 'https://www.warcraftlogs.com/character/us/proudmoore/jaina',
+    joined_at: '2024-01-02',
+  })
+
+  assertEqual(member?.characterName, 'Jaina')
+  assertEqual(member?.region, 'us')
+  assertEqual(member?.wclUrl, 'https://www.warcraftlogs.com/character/us/proudmoore/jaina')
+  assertEqual(member?.joinedAt, '2024-01-02')
+})
+
+test('defaults an unknown status to main', () => {
+  assertEqual(fromLegacyRosterEntry({ name: 'Thrall', status: 'Alt' })?.status, 'main')
+})
+
+test('skips entries without a name', () => {
+  assertEqual(fromLegacyRosterEntry({ role: 'dps' }), null)
+  assertEqual(fromLegacyRosterEntry({ name: '   ' }), null)
+  assertEqual(fromLegacyRosterEntry('Thrall'), null)
+  assertEqual(fromLegacyRosterEntry(null), null)
+})
+
+test('converts a row back to the legacy shape', () => {
+  const row: RosterMember = {
+    id: 7,
+    team_id: 1,
+    character_name: 'Thrall',
+    realm: 'Area 52',
+    region: 'us',
+    class: 'Shaman',
+    spec: 'Enhancement',
+    role: 'dps',
+    status: 'trial',
+    wcl_url: null,
+    joined_at: '2026-01-10',
+    notes: 'Alt: Go\'el',
+    position: 0,
+    created_at: '2026-01-10 00:00:00',
+    updated_at: '2026-01-10 00:00:00',
+  }
+
+  assertEqual(toLegacyRosterEntry(row), {
+    id: 7,
+    name: 'Thrall',
+    realm: 'Area 52',
+    region: 'us',
+    class: 'Shaman',
+    spec: 'Enhancement',
+    role: 'dps',
+    status: 'trial',
+    wclUrl: null,
+    joinDate: '2026-01-10',
+    notes: 'Alt: Go\'el',
+  })
+})
+
+test('roster keys ignore case', () => {
+  assertEqual(rosterKey('Thrall', 'Area 52', 'us'), rosterKey('THRALL', 'area 52', 'US'))
+  if (rosterKey('Thrall', 'Area 52', 'us') === rosterKey('Thrall', 'Area 52', 'eu')) {
+    throw new Error('Different regions should give different keys')
+  }
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
@@ -0,0 +1,181 @@
+/**
+ * Tests for the team data schema
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/team-data-schema.test.ts
+ */
+
+import {
+  checkStoredTeamData,
+  defaultTeamProgress,
+  parseTeamProgress,
+  validateTeamInfo,
+  validateTeamProgress,
+} from '../team-data-schema'
+import type { TeamDataSeason } from '../../types/team-data'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Team Data Schema Tests\n')
+
+const season: TeamDataSeason = { tierName: 'Test Tier', encounterIds: [101, 102, 103] }
+
+test('accepts progress that matches the season', () => {
+  assertEqual(validateTeamProgress({ completed: 2, total: 3, difficulty: 'Heroic' }, season), {})
+  assertEqual(validateTeamProgress({
+    completed: 1,
+    total: 3,
+    difficulty: 'Mythic',
+    bosses: [
+      { encounterId: 101, difficulty: 'Mythic' },
+      { encounterId: 102, difficulty: 'Heroic' },
+      { encounterId: 103, difficulty: null },
+    ],
+  }, season), {})
+})
+
+test('ties the boss count to the active season', () => {
+  assertEqual(Object.keys(validateTeamProgress({ completed: 0, total: 9, difficulty: 'Normal' }, season)), ['progress.total'])
+  assertEqual(validateTeamProgress({ completed: 0, total: 9, difficulty: 'Normal' }, null), {})
+})
+
+test('reports each bad progress field', () => {
+  const errors = validateTeamProgress({ completed: 4, total: 3, difficulty: 'LFR', extra: true }, season)
+  assertEqual(Object.keys(errors).sort(), ['progress.completed', 'progress.difficulty', 'progress.extra'])
+  assertEqual(Object.keys(validateTeamProgress('9/9 H', season)), ['progress'])
+})
+
+test('checks bosses against the season and the completed count', () => {
+  const errors = validateTeamProgress({
+    completed: 2,
+    total: 3,
+    difficulty: 'Heroic',
+    bosses: [
+      { encounterId: 101, difficulty: 'Normal' },
+      { encounterId: 999, difficulty: 'Heroic' },
+      { encounterId: 101, difficulty: 'Heroic' },
+    ],
+  }, season)
+  assertEqual(Object.keys(errors).sort(), [
+    'progress.bosses[1].encounterId',
+    'progress.bosses[2].encounterId',
+    'progress.completed',
+  ])
+})
+
+test('accepts full team info', () => {
+  assertEqual(validateTeamInfo({
+    description: 'Heroic raiding',
+    timezone: 'America/New_York',
+    raidDays: [{ day: 'tuesday', startTime: '20:00', endTime: '23:00' }],
+    recruitment: { open: true, needs: [{ class: 'Evoker', role: 'healer', priority: 'high' }] },
+    contact: { name: 'Lead', battletag: 'Lead#1234', email: 'lead@example.com' },
+  }), {})
+  assertEqual(validateTeamInfo({}), {})
+})
+
+test('reports each bad team info field', () => {
+  const errors = validateTeamInfo({
+    timezone: 'Mars/Olympus',
+    raidDays: [
+      { day: 'Tues', startTime: '8pm', endTime: '23:00' },
+      { day: 'friday', startTime: '20:00', endTime: '23:00' },
+      { day: 'friday', startTime: '20:00', endTime: '23:00' },
+    ],
+    recruitment: { open: 'yes', needs: [{ class: 'Necromancer', role: 'support' }] },
+    contact: { battletag: 'nohash', email: 'nope' },
+  })
+  assertEqual(Object.keys(errors).sort(), [
+    'teamInfo.contact.battletag',
+    'teamInfo.contact.email',
+    'teamInfo.raidDays[0].day',
+    'teamInfo.raidDays[0].startTime',
+    'teamInfo.raidDays[2].day',
+    'teamInfo.recruitment.needs[0].class',
+    'teamInfo.recruitment.needs[0].role',
+    'teamInfo.recruitment.open',
+    'teamInfo.timezone',
+  ])
+})
+
+test('defaults progress to the season boss count', () => {
+  assertEqual(defaultTeamProgress(season), { completed: 0, total: 3, difficulty: 'Normal' })
+  assertEqual(defaultTeamProgress(null), { completed: 0, total: 0, difficulty: 'Normal' })
+  assertEqual(parseTeamProgress('{}', season), { completed: 0, total: 3, difficulty: 'Normal' })
+  assertEqual(parseTeamProgress(null, season), { completed: 0, total: 3, difficulty: 'Normal' })
+})
+
+test('checks stored columns', () => {
+  assertEqual(checkStoredTeamData('{}', '{}', season), {})
+  assertEqual(checkStoredTeamData(null, null, season), {})
+  assertEqual(Object.keys(checkStoredTeamData('{"completed":0,"total":9,"difficulty":"Normal"}', 'oops', season)).sort(), [
+    'progress.total',
+    'teamInfo',
+  ])
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
@@ -0,0 +1,227 @@
+/**
+ * Tests for the team progression summary
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/team-progression-summary.test.ts
+ */
+
+import {
+  defaultKillThreshold,
+  rankLeaderboard,
+  summarizeTeamKills,
+  toLeaderboardEntry,
+} from '../team-progression-summary'
+import type { BossKillStatus, MemberKills, TeamProgression } from '../../types/team-progression'
+import { validateTeamProgress } from '../team-data-schema'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running Team Progression Summary Tests\n')
+
+const encounters = [
+  { id: 1, name: 'First Boss' },
+  { id: 2, name: 'Second Boss' },
+  { id: 3, name: 'Third Boss' },
+]
+
+function member(memberId: number, kills: MemberKills['kills']): MemberKills {
+  return { memberId, characterName: `Player${memberId}`, kills }
+}
+
+test('defaults the threshold to half the members', () => {
+  assertEqual(defaultKillThreshold(20), 10)
+  assertEqual(defaultKillThreshold(5), 3)
+  assertEqual(defaultKillThreshold(0), 1)
+})
+
+test('counts a harder kill for easier difficulties', () => {
+  const { bosses } = summarizeTeamKills(encounters, [
+    member(1, [{ encounterId: 1, difficulty: 'Mythic' }]),
+    member(2, [{ encounterId: 1, difficulty: 'Heroic' }, { encounterId: 1, difficulty: 'Normal' }]),
+  ], 2)
+  assertEqual(bosses[0].kills, { Normal: 2, Heroic: 2, Mythic: 1 })
+  assertEqual(bosses[0].difficulty, 'Heroic')
+  assertEqual(bosses[1].difficulty, null)
+})
+
+test('needs the threshold for a boss to count', () => {
+  const members = [
+    member(1, [{ encounterId: 1, difficulty: 'Heroic' }, { encounterId: 2, difficulty: 'Heroic' }]),
+    member(2, [{ encounterId: 1, difficulty: 'Heroic' }]),
+    member(3, []),
+  ]
+  assertEqual(summarizeTeamKills(encounters, members, 2).bosses.map(boss => boss.difficulty), ['Heroic', null, null])
+  assertEqual(summarizeTeamKills(encounters, members, 1).bosses.map(boss => boss.difficulty), ['Heroic', 'Heroic', null])
+})
+
+test('reports progress on the hardest difficulty reached', () => {
+  const { progress } = summarizeTeamKills(encounters, [
+    member(1, [
+      { encounterId: 1, difficulty: 'Mythic' },
+      { encounterId: 2, difficulty: 'Heroic' },
+      { encounterId: 3, difficulty: 'Normal' },
+    ]),
+  ], 1)
+  assertEqual(progress, {
+    completed: 1,
+    total: 3,
+    difficulty: 'Mythic',
+    bosses: [
+      { encounterId: 1, difficulty: 'Mythic' },
+      { encounterId: 2, difficulty: 'Heroic' },
+      { encounterId: 3, difficulty: 'Normal' },
+    ],
+  })
+})
+
+test('produces progress that passes the schema', () => {
+  const season = { tierName: 'Test Tier', encounterIds: [1, 2, 3] }
+  const none = summarizeTeamKills(encounters, [], 1).progress
+  assertEqual(none.completed, 0)
+  assertEqual(none.difficulty, 'Normal')
+  assertEqual(validateTeamProgress(none, season), {})
+
+  const some = summarizeTeamKills(encounters, [
+    member(1, [{ encounterId: 2, difficulty: 'Heroic' }, { encounterId: 3, difficulty: 'Heroic' }]),
+  ], 1).progress
+  assertEqual(some.completed, 2)
+  assertEqual(validateTeamProgress(some, season), {})
+})
+
+test('dates a first kill by the kill that reached the threshold', () => {
+  const { bosses } = summarizeTeamKills(encounters, [
+    member(1, [{ encounterId: 1, difficulty: 'Mythic', killedAt: '2026-01-20 21:00:00' }]),
+    member(2, [
+      { encounterId: 1, difficulty: 'Heroic', killedAt: '2026-01-06 20:00:00' },
+      { encounterId: 1, difficulty: 'Mythic', killedAt: '2026-01-27 22:00:00' },
+    ]),
+    member(3, [{ encounterId: 1, difficulty: 'Heroic', killedAt: '2026-01-08 20:00:00' }]),
+  ], 2)
+  assertEqual(bosses[0].difficulty, 'Mythic')
+  assertEqual(bosses[0].firstKills, {
+    Normal: '2026-01-08 20:00:00',
+    Heroic: '2026-01-08 20:00:00',
+    Mythic: '2026-01-27 22:00:00',
+  })
+})
+
+test('leaves a first kill undated when a killer has no date', () => {
+  const { bosses } = summarizeTeamKills(encounters, [
+    member(1, [{ encounterId: 1, difficulty: 'Heroic', killedAt: '2026-01-06 20:00:00' }]),
+    member(2, [{ encounterId: 1, difficulty: 'Heroic', killedAt: null }]),
+  ], 1)
+  assertEqual(bosses[0].difficulty, 'Heroic')
+  assertEqual(bosses[0].firstKills, {})
+})
+
+function team(teamId: number, bosses: Array<Pick<BossKillStatus, 'difficulty' | 'firstKills'>>): TeamProgression {
+  const kills = { Normal: 0, Heroic: 0, Mythic: 0 }
+  return {
+    teamId,
+    seasonConfigId: 1,
+    tierName: 'Test Tier',
+    zoneId: 42,
+    threshold: 1,
+    membersCounted: 1,
+    skipped: [],
+    bosses: bosses.map((boss, index) => ({ encounterId: index + 1, name: `Boss ${index + 1}`, kills, ...boss })),
+    progress: { completed: 0, total: bosses.length, difficulty: 'Normal' },
+    computedAt: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+test('builds a leaderboard entry', () => {
+  const entry = toLeaderboardEntry('Alpha', team(1, [
+    { difficulty: 'Mythic', firstKills: { Normal: '2026-01-01 20:00:00', Heroic: '2026-01-08 20:00:00', Mythic: '2026-01-20 21:00:00' } },
+    { difficulty: 'Mythic', firstKills: { Mythic: '2026-01-27 22:00:00' } },
+    { difficulty: 'Heroic', firstKills: { Heroic: '2026-01-15 20:00:00' } },
+    { difficulty: null, firstKills: {} },
+  ]))
+  assertEqual(entry.killed, { Normal: 3, Heroic: 3, Mythic: 2 })
+  assertEqual(entry.summary, '2/4 M')
+  assertEqual(entry.reachedAt, '2026-01-27 22:00:00')
+  assertEqual(toLeaderboardEntry('Empty', team(2, [{ difficulty: null, firstKills: {} }])).summary, '0/1 N')
+})
+
+test('ranks by hardest kills, then who got there first', () => {
+  const ranked = rankLeaderboard([
+    toLeaderboardEntry('Heroic Team', team(1, [{ difficulty: 'Heroic', firstKills: { Heroic: '2026-01-02 20:00:00' } }, { difficulty: 'Heroic', firstKills: { Heroic: '2026-01-03 20:00:00' } }])),
+    toLeaderboardEntry('Late Mythic', team(2, [{ difficulty: 'Mythic', firstKills: { Mythic: '2026-02-01 20:00:00' } }, { difficulty: null, firstKills: {} }])),
+    toLeaderboardEntry('Early Mythic', team(3, [{ difficulty: 'Mythic', firstKills: { Mythic: '2026-01-20 20:00:00' } }, { difficulty: null, firstKills: {} }])),
+    toLeaderboardEntry('Nothing B', team(4, [{ difficulty: null, firstKills: {} }])),
+    toLeaderboardEntry('Nothing A', team(5, [{ difficulty: null, firstKills: {} }])),
+  ])
+  assertEqual(ranked.map(entry => [entry.rank, entry.teamName]), [
+    [1, 'Early Mythic'],
+    [2, 'Late Mythic'],
+    [3, 'Heroic Team'],
+    [4, 'Nothing A'],
+    [4, 'Nothing B'],
+  ])
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
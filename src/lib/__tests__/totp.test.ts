@@ -0,0 +1,182 @@
+/**
+ * Tests for TOTP (RFC 6238)
+ * 
+ * Simple test runner without external dependencies.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/totp.test.ts
+ */
+
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  getTimeStep,
+  buildOtpauthUri,
+} from '../totp'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+function test(name: string, fn: () => void) {
+  try {
+    fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({ 
+      name, 
+      passed: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+function assertThrows(fn: () => void, expectedMessage?: string) {
+  let threw = false
+  let actualMessage = ''
+  
+  try {
+    fn()
+  } catch (error) {
+    threw = true
+    actualMessage = error instanceof Error ? error.message : String(error)
+  }
+  
+  if (!threw) {
+    throw new Error('Expected function to throw an error')
+  }
+  
+  if (expectedMessage && !actualMessage.includes(expectedMessage)) {
+    throw new Error(
+      `Expected error message to include "${expectedMessage}", got: "${actualMessage}"`
+    )
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+console.log('\n🧪 Running TOTP Tests\n')
+
+// The RFC 6238 test key: ASCII "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+// Base32 Tests
+test('encodes the RFC test key as base32', () => {
+  assertEqual(RFC_SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+})
+
+test('round-trips bytes through base32', () => {
+  const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255])
+  assertEqual(base32Decode(base32Encode(bytes)).toString('hex'), bytes.toString('hex'))
+})
+
+test('decodes lowercase base32 with spaces and padding', () => {
+  assertEqual(base32Decode('gezd gnbv gy3t qojq======').toString(), '1234567890')
+})
+
+test('rejects characters outside the base32 alphabet', () => {
+  assertThrows(() => base32Decode('ABC1'), 'Invalid base32 character')
+})
+
+// RFC 6238 Appendix B vectors (SHA1), last 6 digits
+test('generates RFC 6238 code at T=59', () => {
+  assertEqual(generateTotp(RFC_SECRET, getTimeStep(59 * 1000)), '287082')
+})
+
+test('generates RFC 6238 code at T=1111111109', () => {
+  assertEqual(generateTotp(RFC_SECRET, getTimeStep(1111111109 * 1000)), '081804')
+})
+
+test('generates RFC 6238 code at T=1234567890', () => {
+  assertEqual(generateTotp(RFC_SECRET, getTimeStep(1234567890 * 1000)), '005924')
+})
+
+test('generates RFC 6238 code at T=2000000000', () => {
+  assertEqual(generateTotp(RFC_SECRET, getTimeStep(2000000000 * 1000)), '279037')
+})
+
+// Verification Tests
+test('accepts the current code and returns its step', () => {
+  const now = 1234567890 * 1000
+  assertEqual(verifyTotp(RFC_SECRET, '005924', now), getTimeStep(now))
+})
+
+test('accepts a code from the previous step (clock drift)', () => {
+  const now = 1234567890 * 1000
+  const previous = generateTotp(RFC_SECRET, getTimeStep(now) - 1)
+  assertEqual(verifyTotp(RFC_SECRET, previous, now), getTimeStep(now) - 1)
+})
+
+test('rejects a code two steps old', () => {
+  const now = 1234567890 * 1000
+  const old = generateTotp(RFC_SECRET, getTimeStep(now) - 2)
+  assertEqual(verifyTotp(RFC_SECRET, old, now), null)
+})
+
+test('ignores spaces in the entered code', () => {
+  assertEqual(verifyTotp(RFC_SECRET, '005 924', 1234567890 * 1000) !== null, true)
+})
+
+test('rejects malformed codes', () => {
+  const now = 1234567890 * 1000
+  assertEqual(verifyTotp(RFC_SECRET, '', now), null)
+  assertEqual(verifyTotp(RFC_SECRET, '12345', now), null)
+  assertEqual(verifyTotp(RFC_SECRET, 'abcdef', now), null)
+})
+
+// Provisioning URI Tests
+test('builds an otpauth provisioning URI', () => {
+  assertEqual(
+    buildOtpauthUri('JBSWY3DPEHPK3PXP', 'guild master', 'Eclipsed'),
+    'otpauth://totp/Eclipsed:guild%20master?secret=JBSWY3DPEHPK3PXP&issuer=Eclipsed&algorithm=SHA1&digits=6&period=30'
+  )
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+console.log('\n' + '='.repeat(60))
+console.log('📊 Test Summary')
+console.log('='.repeat(60))
+
+const passed = results.filter(r => r.passed).length
+const failed = results.filter(r => !r.passed).length
+const total = results.length
+
+console.log(`Total: ${total} tests`)
+console.log(`✅ Passed: ${passed}`)
+console.log(`❌ Failed: ${failed}`)
+
+if (failed > 0) {
+  console.log('\n❌ Failed Tests:')
+  results.filter(r => !r.passed).forEach(r => {
+    console.log(`  - ${r.name}`)
+    console.log(`    ${r.error}`)
+  })
+}
+
+console.log('\n' + '='.repeat(60) + '\n')
+
+// Exit with error code if any tests failed
+if (failed > 0) {
+  process.exit(1)
+}
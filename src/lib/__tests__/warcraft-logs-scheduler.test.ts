@@ -0,0 +1,194 @@
+/**
+ * Tests for the Warcraft Logs request scheduler
+ *
+ * Simple test runner without external dependencies. fetch is replaced with
+ * a fake WCL, so nothing goes over the network.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/warcraft-logs-scheduler.test.ts
+ */
+
+import { backoffDelay, getWclSchedulerStatus, scheduleWclRequest } from '../warcraft-logs-scheduler'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({
+      name,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// A fake WCL: the API records each request's `tag`, answers 429 once for
+// tags in `rateLimitedOnce`, and reports `pointsSpent` of 1000 points
+let pointsSpent = 0
+let pointsResetIn = 3600
+const rateLimitedOnce = new Set<string>()
+const served: string[] = []
+
+globalThis.fetch = (async (url: string, init?: RequestInit) => {
+  if (url.endsWith('/oauth/token')) {
+    return new Response(JSON.stringify({ access_token: 'token', expires_in: 3600, token_type: 'Bearer' }))
+  }
+
+  const body = JSON.parse(String(init?.body))
+  if (body.query.includes('rateLimitData')) {
+    return new Response(JSON.stringify({
+      data: { rateLimitData: { limitPerHour: 1000, pointsSpentThisHour: pointsSpent, pointsResetIn } },
+    }))
+  }
+
+  const tag = body.variables.tag
+  if (rateLimitedOnce.delete(tag)) {
+    return new Response('', { status: 429, headers: { 'Retry-After': '0' } })
+  }
+  served.push(tag)
+  return new Response('{}')
+}) as typeof fetch
+
+process.env.WCL_CLIENT_ID = 'client'
+process.env.WCL_CLIENT_SECRET = 'secret'
+Math.random = () => 0
+
+const API_URL = 'https://www.warcraftlogs.com/api/v2/client'
+
+function request(tag: string, priority: 'interactive' | 'background' = 'interactive') {
+  return scheduleWclRequest(API_URL, {
+    method: 'POST',
+    body: JSON.stringify({ query: 'query { }', variables: { tag } }),
+  }, {}, priority)
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function run() {
+  console.log('\n🧪 Running Warcraft Logs Scheduler Tests\n')
+
+  await test('backoff doubles per attempt, follows Retry-After and is capped', () => {
+    const noJitter = () => 0
+    assertEqual([0, 1, 2].map(attempt => backoffDelay(attempt, null, noJitter)), [1000, 2000, 4000])
+    assertEqual(backoffDelay(0, '5', noJitter), 5000)
+    assertEqual(backoffDelay(10, null, noJitter), 60000)
+    assertEqual(backoffDelay(0, null, () => 0.5), 1500)
+  })
+
+  await test('the budget is read from rateLimitData', async () => {
+    pointsSpent = 250
+    const status = await getWclSchedulerStatus({ refresh: true })
+    assertEqual(
+      [status.budget?.limitPerHour, status.budget?.pointsSpentThisHour, status.budget?.pointsRemaining],
+      [1000, 250, 750]
+    )
+    assertEqual(status.queued, { interactive: 0, background: 0 })
+  })
+
+  await test('a 429 is retried after backing off', async () => {
+    served.length = 0
+    rateLimitedOnce.add('retry')
+    const response = await request('retry')
+    assertEqual(response.status, 200)
+    assertEqual(served, ['retry'])
+  })
+
+  await test('background requests wait for the reset when only the reserve is left', async () => {
+    pointsSpent = 950
+    pointsResetIn = 1
+    await getWclSchedulerStatus({ refresh: true })
+    served.length = 0
+
+    const background = request('background', 'background')
+    await request('interactive')
+    assertEqual(served, ['interactive'])
+    assertEqual((await getWclSchedulerStatus()).queued.background, 1)
+
+    // Once the hour resets it goes through
+    pointsSpent = 0
+    await Promise.race([background, sleep(3000)])
+    assertEqual(served, ['interactive', 'background'])
+  })
+
+  await test('interactive requests fail straight away once the budget is spent', async () => {
+    pointsSpent = 1000
+    pointsResetIn = 3600
+    const status = await getWclSchedulerStatus({ refresh: true })
+    served.length = 0
+
+    void request('background', 'background')
+    const error: any = await Promise.race([
+      request('interactive').then(() => null, (error: unknown) => error),
+      sleep(1000).then(() => 'still waiting'),
+    ])
+    assertEqual(error?.code, 'WCL_RATE_LIMITED')
+    assertEqual(error?.resetsAt, status.budget?.resetsAt)
+
+    // Background work still waits for the reset
+    assertEqual(served, [])
+    assertEqual((await getWclSchedulerStatus()).queued, { interactive: 0, background: 1 })
+  })
+}
+
+run()
+  .catch((error) => {
+    results.push({
+      name: 'test setup',
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ Test run aborted: ${error instanceof Error ? error.message : String(error)}`)
+  })
+  .finally(() => {
+    // ============================================================================
+    // SUMMARY
+    // ============================================================================
+
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 Test Summary')
+    console.log('='.repeat(60))
+
+    const passed = results.filter(r => r.passed).length
+    const failed = results.filter(r => !r.passed).length
+    const total = results.length
+
+    console.log(`Total: ${total} tests`)
+    console.log(`✅ Passed: ${passed}`)
+    console.log(`❌ Failed: ${failed}`)
+
+    if (failed > 0) {
+      console.log('\n❌ Failed Tests:')
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`)
+        console.log(`    ${r.error}`)
+      })
+    }
+
+    console.log('\n' + '='.repeat(60) + '\n')
+
+    // Exit with error code if any tests failed
+    if (failed > 0) {
+      process.exit(1)
+    }
+  })
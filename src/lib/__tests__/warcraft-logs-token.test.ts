@@ -0,0 +1,177 @@
+/**
+ * Tests for the Warcraft Logs token manager
+ *
+ * Simple test runner without external dependencies. fetch is replaced with
+ * a fake WCL, so nothing goes over the network.
+ * Run with: node --loader ts-node/esm src/lib/__tests__/warcraft-logs-token.test.ts
+ */
+
+import { clearWclTokens, fetchWithWclToken, getWclToken } from '../warcraft-logs-token'
+
+// Simple test utilities
+interface TestResult {
+  name: string
+  passed: boolean
+  error?: string
+}
+
+const results: TestResult[] = []
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn()
+    results.push({ name, passed: true })
+    console.log(`✅ ${name}`)
+  } catch (error) {
+    results.push({
+      name,
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ ${name}`)
+    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function assertEqual(actual: any, expected: any, message?: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(
+      message || `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    )
+  }
+}
+
+// A fake WCL: each token request issues token-1, token-2, ...; the API
+// answers 401 to tokens in `rejected`
+let tokenRequests = 0
+let expiresIn = 3600
+const rejected = new Set<string>()
+const apiCalls: string[] = []
+
+globalThis.fetch = (async (url: string, init?: RequestInit) => {
+  if (url.endsWith('/oauth/token')) {
+    tokenRequests++
+    const accessToken = `token-${tokenRequests}`
+    await new Promise(resolve => setTimeout(resolve, 10))
+    return new Response(JSON.stringify({ access_token: accessToken, expires_in: expiresIn, token_type: 'Bearer' }))
+  }
+
+  const authorization = (init?.headers as Record<string, string>).Authorization
+  apiCalls.push(authorization)
+  return new Response('{}', { status: rejected.has(authorization.replace('Bearer ', '')) ? 401 : 200 })
+}) as typeof fetch
+
+function reset() {
+  clearWclTokens()
+  tokenRequests = 0
+  expiresIn = 3600
+  rejected.clear()
+  apiCalls.length = 0
+}
+
+const credentials = { clientId: 'client', clientSecret: 'secret' }
+const API_URL = 'https://www.warcraftlogs.com/api/v2/client'
+
+async function run() {
+  console.log('\n🧪 Running Warcraft Logs Token Tests\n')
+
+  await test('a token is reused until it nears expiry', async () => {
+    reset()
+    const first = await getWclToken(credentials)
+    const second = await getWclToken(credentials)
+    assertEqual([first.accessToken, second.accessToken, tokenRequests], ['token-1', 'token-1', 1])
+
+    // Inside the refresh margin, a new one is requested
+    reset()
+    expiresIn = 30
+    await getWclToken(credentials)
+    assertEqual((await getWclToken(credentials)).accessToken, 'token-2')
+  })
+
+  await test('concurrent requests share one token exchange', async () => {
+    reset()
+    const tokens = await Promise.all([1, 2, 3, 4, 5].map(() => getWclToken(credentials)))
+    assertEqual(tokens.map(token => token.accessToken), ['token-1', 'token-1', 'token-1', 'token-1', 'token-1'])
+    assertEqual(tokenRequests, 1)
+  })
+
+  await test('a 401 replaces the token and retries once', async () => {
+    reset()
+    rejected.add('token-1')
+    const response = await fetchWithWclToken(API_URL, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, credentials)
+    assertEqual(response.status, 200)
+    assertEqual(apiCalls, ['Bearer token-1', 'Bearer token-2'])
+
+    // Later calls use the replacement
+    await fetchWithWclToken(API_URL, { method: 'POST' }, credentials)
+    assertEqual(tokenRequests, 2)
+  })
+
+  await test('a second 401 is returned rather than retried again', async () => {
+    reset()
+    rejected.add('token-1')
+    rejected.add('token-2')
+    const response = await fetchWithWclToken(API_URL, { method: 'POST' }, credentials)
+    assertEqual(response.status, 401)
+    assertEqual(apiCalls.length, 2)
+  })
+
+  await test('missing credentials fail with WCL_CONFIG_MISSING', async () => {
+    reset()
+    const saved = [process.env.WCL_CLIENT_ID, process.env.WCL_CLIENT_SECRET]
+    delete process.env.WCL_CLIENT_ID
+    delete process.env.WCL_CLIENT_SECRET
+    try {
+      await getWclToken()
+      throw new Error('Expected getWclToken to reject')
+    } catch (error) {
+      assertEqual((error as any).code, 'WCL_CONFIG_MISSING')
+    } finally {
+      if (saved[0] !== undefined) process.env.WCL_CLIENT_ID = saved[0]
+      if (saved[1] !== undefined) process.env.WCL_CLIENT_SECRET = saved[1]
+    }
+    assertEqual(tokenRequests, 0)
+  })
+}
+
+run()
+  .catch((error) => {
+    results.push({
+      name: 'test setup',
+      passed: false,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    console.log(`❌ Test run aborted: ${error instanceof Error ? error.message : String(error)}`)
+  })
+  .finally(() => {
+    // ============================================================================
+    // SUMMARY
+    // ============================================================================
+
+    console.log('\n' + '='.repeat(60))
+    console.log('📊 Test Summary')
+    console.log('='.repeat(60))
+
+    const passed = results.filter(r => r.passed).length
+    const failed = results.filter(r => !r.passed).length
+    const total = results.length
+
+    console.log(`Total: ${total} tests`)
+    console.log(`✅ Passed: ${passed}`)
+    console.log(`❌ Failed: ${failed}`)
+
+    if (failed > 0) {
+      console.log('\n❌ Failed Tests:')
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`)
+        console.log(`    ${r.error}`)
+      })
+    }
+
+    console.log('\n' + '='.repeat(60) + '\n')
+
+    // Exit with error code if any tests failed
+    if (failed > 0) {
+      process.exit(1)
+    }
+  })
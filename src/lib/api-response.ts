@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { HttpStatus } from './http-status'
 import { handleError } from './errors'
+import { withETag } from './etag'
 
 // Standard API response interface
 export interface ApiResponse<T = any> {
@@ -74,6 +75,26 @@ export function notFoundResponse(message?: string): NextResponse<ApiResponse> {
   )
 }
 
+// Precondition failed (412) - the record changed since the client loaded it.
+// Includes the current copy and its ETag so the client can merge and retry
+export function preconditionFailedResponse<T>(
+  current: T,
+  version: number,
+  message?: string
+): NextResponse<ApiResponse<T>> {
+  return withETag(
+    NextResponse.json(
+      {
+        success: false,
+        message: message || 'This record was changed by someone else. Reload it and try again.',
+        data: current,
+      },
+      { status: HttpStatus.PRECONDITION_FAILED }
+    ),
+    version
+  )
+}
+
 // Paginated response helper
 export function paginatedResponse<T>(
   data: T[],
@@ -0,0 +1,249 @@
+/**
+ * Application Questionnaires
+ *
+ * Each team can set the questions its applicants answer
+ * (teams.application_questions), in order, each with a type and a required
+ * flag. This checks a questionnaire when a lead saves it, and checks an
+ * application's answers against it. Problems are collected per field
+ * ('questions[2].options', 'answers.raid-times') for a ValidationError.
+ *
+ * Kept free of database access like team-data-schema.ts.
+ */
+
+import type {
+  ApplicationAnswer,
+  ApplicationQuestion,
+  ApplicationQuestionType,
+} from '../types/application'
+
+export const QUESTION_TYPES: ApplicationQuestionType[] = [
+  'short_text',
+  'long_text',
+  'single_choice',
+  'multi_choice',
+  'url',
+]
+
+const CHOICE_TYPES: ApplicationQuestionType[] = ['single_choice', 'multi_choice']
+
+const MAX_QUESTIONS = 30
+const MAX_OPTIONS = 25
+const MAX_LABEL_LENGTH = 200
+const MAX_HELP_LENGTH = 500
+const MAX_OPTION_LENGTH = 100
+const QUESTION_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+// How long an answer may be, by question type
+const MAX_ANSWER_LENGTHS: Record<ApplicationQuestionType, number> = {
+  short_text: 200,
+  long_text: 4000,
+  single_choice: MAX_OPTION_LENGTH,
+  multi_choice: MAX_OPTION_LENGTH,
+  url: 512,
+}
+
+type Errors = Record<string, string[]>
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function addError(errors: Errors, field: string, message: string): void {
+  errors[field] = [...(errors[field] || []), message]
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check a questionnaire as a lead saves it
+ * Question ids must be unique; choice questions need at least two distinct
+ * options and other types can't have any.
+ */
+export function validateQuestionSet(value: unknown, path: string = 'questions'): Errors {
+  const errors: Errors = {}
+
+  if (!Array.isArray(value)) {
+    addError(errors, path, 'Must be an array')
+    return errors
+  }
+  if (value.length > MAX_QUESTIONS) {
+    addError(errors, path, `At most ${MAX_QUESTIONS} questions`)
+    return errors
+  }
+
+  const seenIds = new Set<string>()
+
+  value.forEach((question, index) => {
+    const at = `${path}[${index}]`
+
+    if (!isObject(question)) {
+      addError(errors, at, 'Must be an object')
+      return
+    }
+
+    for (const field of Object.keys(question)) {
+      if (!['id', 'label', 'type', 'required', 'options', 'help'].includes(field)) {
+        addError(errors, `${at}.${field}`, 'Unknown field')
+      }
+    }
+
+    if (typeof question.id !== 'string' || !QUESTION_ID_PATTERN.test(question.id)) {
+      addError(errors, `${at}.id`, 'Must be lowercase letters, digits, - or _ (at most 64)')
+    } else if (seenIds.has(question.id)) {
+      addError(errors, `${at}.id`, `Duplicate question id "${question.id}"`)
+    } else {
+      seenIds.add(question.id)
+    }
+
+    if (typeof question.label !== 'string' || !question.label.trim()) {
+      addError(errors, `${at}.label`, 'Label is required')
+    } else if (question.label.length > MAX_LABEL_LENGTH) {
+      addError(errors, `${at}.label`, `Must be at most ${MAX_LABEL_LENGTH} characters`)
+    }
+
+    const type = question.type as ApplicationQuestionType
+    if (!QUESTION_TYPES.includes(type)) {
+      addError(errors, `${at}.type`, `Must be one of: ${QUESTION_TYPES.join(', ')}`)
+    }
+
+    if (typeof question.required !== 'boolean') {
+      addError(errors, `${at}.required`, 'Must be true or false')
+    }
+
+    if (question.help !== undefined) {
+      if (typeof question.help !== 'string') {
+        addError(errors, `${at}.help`, 'Must be a string')
+      } else if (question.help.length > MAX_HELP_LENGTH) {
+        addError(errors, `${at}.help`, `Must be at most ${MAX_HELP_LENGTH} characters`)
+      }
+    }
+
+    const options = question.options
+    if (CHOICE_TYPES.includes(type)) {
+      if (!Array.isArray(options) || options.length < 2) {
+        addError(errors, `${at}.options`, 'Choice questions need at least 2 options')
+      } else if (options.length > MAX_OPTIONS) {
+        addError(errors, `${at}.options`, `At most ${MAX_OPTIONS} options`)
+      } else {
+        options.forEach((option, optionIndex) => {
+          if (typeof option !== 'string' || !option.trim()) {
+            addError(errors, `${at}.options[${optionIndex}]`, 'Must be a non-empty string')
+          } else if (option.length > MAX_OPTION_LENGTH) {
+            addError(errors, `${at}.options[${optionIndex}]`, `Must be at most ${MAX_OPTION_LENGTH} characters`)
+          } else if (options.indexOf(option) !== optionIndex) {
+            addError(errors, `${at}.options[${optionIndex}]`, `Duplicate option "${option}"`)
+          }
+        })
+      }
+    } else if (options !== undefined) {
+      addError(errors, `${at}.options`, 'Only choice questions have options')
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Read a stored questionnaire ([] when there is none)
+ */
+export function parseQuestionSet(raw: string | null): ApplicationQuestion[] {
+  const parsed = raw ? JSON.parse(raw) : null
+  return Array.isArray(parsed) ? (parsed as ApplicationQuestion[]) : []
+}
+
+/**
+ * Check an application's answers against the team's questionnaire
+ * Answers are { questionId, answer } and come back in question order with
+ * each question's label; unanswered optional questions are left out.
+ * multi_choice answers are arrays of options, everything else a string.
+ */
+export function checkAnswers(
+  questions: ApplicationQuestion[],
+  value: unknown,
+  path: string = 'answers'
+): { answers: ApplicationAnswer[]; errors: Errors } {
+  const errors: Errors = {}
+
+  if (value !== undefined && value !== null && !Array.isArray(value)) {
+    addError(errors, path, 'Must be an array')
+    return { answers: [], errors }
+  }
+
+  const given = new Map<string, unknown>()
+  ;(Array.isArray(value) ? value : []).forEach((entry, index) => {
+    if (!isObject(entry) || typeof entry.questionId !== 'string') {
+      addError(errors, `${path}[${index}].questionId`, 'questionId is required')
+    } else if (!questions.some(question => question.id === entry.questionId)) {
+      addError(errors, `${path}[${index}].questionId`, `Unknown question "${entry.questionId}"`)
+    } else if (given.has(entry.questionId)) {
+      addError(errors, `${path}[${index}].questionId`, `Question "${entry.questionId}" is answered twice`)
+    } else {
+      given.set(entry.questionId, entry.answer)
+    }
+  })
+
+  const answers: ApplicationAnswer[] = []
+
+  for (const question of questions) {
+    const field = `${path}.${question.id}`
+    const raw = given.get(question.id)
+    const maxLength = MAX_ANSWER_LENGTHS[question.type]
+
+    let answer: string | string[] | null = null
+
+    if (question.type === 'multi_choice') {
+      if (raw !== undefined && raw !== null && !Array.isArray(raw)) {
+        addError(errors, field, 'Must be a list of options')
+        continue
+      }
+      const picked = ((raw as unknown[] | undefined) ?? []).filter(option => option !== '')
+      const invalid = picked.filter(option => typeof option !== 'string' || !question.options?.includes(option))
+      if (invalid.length > 0) {
+        addError(errors, field, `Must be from: ${(question.options ?? []).join(', ')}`)
+        continue
+      }
+      if (new Set(picked).size !== picked.length) {
+        addError(errors, field, 'Options may only be picked once')
+        continue
+      }
+      answer = picked.length > 0 ? (picked as string[]) : null
+    } else {
+      if (raw !== undefined && raw !== null && typeof raw !== 'string') {
+        addError(errors, field, 'Must be a string')
+        continue
+      }
+      const text = typeof raw === 'string' ? raw.trim() : ''
+      if (text.length > maxLength) {
+        addError(errors, field, `Must be at most ${maxLength} characters`)
+        continue
+      }
+      if (text && question.type === 'single_choice' && !question.options?.includes(text)) {
+        addError(errors, field, `Must be one of: ${(question.options ?? []).join(', ')}`)
+        continue
+      }
+      if (text && question.type === 'url' && !isHttpUrl(text)) {
+        addError(errors, field, 'Must be an http(s) URL')
+        continue
+      }
+      answer = text || null
+    }
+
+    if (answer === null) {
+      if (question.required) {
+        addError(errors, field, `${question.label} is required`)
+      }
+      continue
+    }
+
+    answers.push({ questionId: question.id, question: question.label, answer })
+  }
+
+  return { answers, errors }
+}
@@ -0,0 +1,430 @@
+/**
+ * Applications Service
+ *
+ * Recruitment applications from the public Apply page. Each one is for a
+ * team and moves through new -> reviewing -> trial -> accepted, or is
+ * declined along the way. The team's reviewers comment and vote on it.
+ *
+ * The applicant's player card is filled in after submission through the
+ * same pipeline as /api/enrich-player-card (see player-card.ts); a failed
+ * lookup is recorded on the application and can be retried.
+ */
+
+import { query, queryOne, execute, withTransaction } from './db'
+import { isUniqueConstraintError } from './sql-dialect'
+import { BadRequestError, ConflictError, ValidationError } from './errors'
+import { enrichPlayerCard } from './player-card'
+import { checkAnswers, parseQuestionSet } from './application-questions'
+import { parseWarcraftLogsCharacterUrl } from './warcraft-logs-parser'
+import { WCL_CLASS_ID_TO_NAME } from './wcl-class-map'
+import { ROSTER_REGIONS } from './roster'
+import type { JWTPayload } from './auth'
+import type {
+  Application,
+  ApplicationComment,
+  ApplicationDetail,
+  ApplicationFilters,
+  ApplicationInput,
+  ApplicationQuestion,
+  ApplicationStatus,
+  ApplicationVote,
+  ApplicationVoteValue,
+} from '../types/application'
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['new', 'reviewing', 'trial', 'accepted', 'declined']
+export const APPLICATION_VOTES: ApplicationVoteValue[] = ['yes', 'no', 'abstain']
+
+// Where an application can go from each status
+const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  new: ['reviewing', 'declined'],
+  reviewing: ['trial', 'accepted', 'declined'],
+  trial: ['accepted', 'declined'],
+  accepted: ['reviewing'],
+  declined: ['reviewing'],
+}
+
+// Statuses that still need a decision; one of these per character and team
+const OPEN_STATUSES: ApplicationStatus[] = ['new', 'reviewing', 'trial']
+
+const CLASS_NAMES: string[] = Object.values(WCL_CLASS_ID_TO_NAME)
+const MAX_ANSWERS = 50
+const MAX_ANSWER_LENGTH = 4000
+const MAX_COMMENT_LENGTH = 4000
+
+function parseApplication(row: any): Application {
+  return {
+    ...row,
+    answers: row.answers ? JSON.parse(row.answers) : [],
+    player_card: row.player_card ? JSON.parse(row.player_card) : null,
+  }
+}
+
+/**
+ * Check and clean an application from the Apply page
+ * The character comes from the WCL URL; characterName, realm and region
+ * are only needed for WCL links by character id. Answers are checked
+ * against the team's questionnaire, or taken as free-form question/answer
+ * pairs if it has none. Throws ValidationError listing every problem.
+ */
+export function validateApplication(body: any, questions: ApplicationQuestion[] = []): ApplicationInput {
+  const errors: Record<string, string[]> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid application', { body: ['Expected an object'] })
+  }
+
+  const text = (field: string, maxLength: number, required: boolean): string | null => {
+    const value = body[field]
+    if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+      if (required) fail(field, `${field} is required`)
+      return null
+    }
+    if (typeof value !== 'string') {
+      fail(field, `${field} must be a string`)
+      return null
+    }
+    if (value.trim().length > maxLength) {
+      fail(field, `${field} must be at most ${maxLength} characters`)
+      return null
+    }
+    return value.trim()
+  }
+
+  const teamId = Number(body.teamId)
+  if (!Number.isInteger(teamId) || teamId <= 0) {
+    fail('teamId', 'teamId is required')
+  }
+
+  const wclUrl = text('wclUrl', 512, true)
+  let characterName = text('characterName', 64, false)
+  let realm = text('realm', 64, false) ?? ''
+  let region = (text('region', 8, false) ?? '').toLowerCase()
+
+  if (wclUrl) {
+    try {
+      const parsed = parseWarcraftLogsCharacterUrl(wclUrl)
+      if (parsed.type === 'slug') {
+        characterName = parsed.characterName
+        realm = parsed.realm
+        region = parsed.region.toLowerCase()
+      } else if (!characterName) {
+        fail('characterName', 'Character name is required with a WCL link by character id')
+      }
+    } catch (error) {
+      fail('wclUrl', error instanceof Error ? error.message : 'Invalid Warcraft Logs URL')
+    }
+  }
+
+  if (region && !ROSTER_REGIONS.includes(region)) {
+    fail('region', `region must be one of: ${ROSTER_REGIONS.join(', ')}`)
+  }
+
+  const characterClass = text('class', 32, true)
+  if (characterClass && !CLASS_NAMES.includes(characterClass)) {
+    fail('class', `class must be one of: ${CLASS_NAMES.join(', ')}`)
+  }
+
+  const spec = text('spec', 32, false)
+  const availability = text('availability', 500, false)
+  const discord = text('discord', 100, true)
+
+  const answers: ApplicationInput['answers'] = []
+  if (questions.length > 0) {
+    const checked = checkAnswers(questions, body.answers)
+    Object.entries(checked.errors).forEach(([field, messages]) => messages.forEach(message => fail(field, message)))
+    answers.push(...checked.answers)
+  } else if (body.answers !== undefined && body.answers !== null) {
+    if (!Array.isArray(body.answers)) {
+      fail('answers', 'answers must be an array')
+    } else if (body.answers.length > MAX_ANSWERS) {
+      fail('answers', `At most ${MAX_ANSWERS} answers`)
+    } else {
+      body.answers.forEach((entry: any, index: number) => {
+        if (!entry || typeof entry.question !== 'string' || !entry.question.trim()) {
+          fail(`answers[${index}].question`, 'Question is required')
+        } else if (typeof entry.answer !== 'string') {
+          fail(`answers[${index}].answer`, 'Answer must be a string')
+        } else if (entry.answer.length > MAX_ANSWER_LENGTH) {
+          fail(`answers[${index}].answer`, `Answer must be at most ${MAX_ANSWER_LENGTH} characters`)
+        } else {
+          answers.push({ question: entry.question.trim(), answer: entry.answer.trim() })
+        }
+      })
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid application', errors)
+  }
+
+  return {
+    teamId,
+    characterName: characterName!,
+    realm,
+    region,
+    wclUrl: wclUrl!,
+    class: characterClass!,
+    spec,
+    availability,
+    discord: discord!,
+    answers,
+  }
+}
+
+/**
+ * Save a new application
+ * Throws ConflictError if the character already has an open application
+ * to this team.
+ */
+export async function createApplication(input: ApplicationInput, ipAddress: string | null): Promise<Application> {
+  return withTransaction(async (tx) => {
+    const open = await tx.queryOne(
+      `SELECT id FROM applications
+       WHERE team_id = ? AND character_name = ? AND realm = ? AND region = ?
+         AND status IN (${OPEN_STATUSES.map(() => '?').join(', ')})`,
+      [input.teamId, input.characterName, input.realm, input.region, ...OPEN_STATUSES]
+    )
+    if (open) {
+      throw new ConflictError(`${input.characterName} already has an application to this team under review`)
+    }
+
+    const result = await tx.execute(
+      `INSERT INTO applications
+         (team_id, character_name, realm, region, wcl_url, class, spec, availability, discord, answers, ip_address)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.teamId,
+        input.characterName,
+        input.realm,
+        input.region,
+        input.wclUrl,
+        input.class,
+        input.spec,
+        input.availability,
+        input.discord,
+        JSON.stringify(input.answers),
+        ipAddress,
+      ]
+    )
+
+    const row = await tx.queryOne<any>('SELECT * FROM applications WHERE id = ?', [result.lastInsertRowid])
+    return parseApplication(row)
+  })
+}
+
+/**
+ * Look up the applicant's player card and store it on the application
+ * Failures are stored too (enrichment_status 'failed'), never thrown.
+ */
+export async function enrichApplication(applicationId: number): Promise<Application | null> {
+  const application = await getApplication(applicationId)
+  if (!application) return null
+
+  try {
+    const { playerCard } = await enrichPlayerCard(parseWarcraftLogsCharacterUrl(application.wcl_url))
+    await execute(
+      `UPDATE applications SET player_card = ?, enrichment_status = 'complete', enrichment_error = NULL
+       WHERE id = ?`,
+      [JSON.stringify(playerCard), applicationId]
+    )
+  } catch (error) {
+    console.error(`[applications] Could not enrich application ${applicationId}:`, error)
+    await execute(
+      `UPDATE applications SET enrichment_status = 'failed', enrichment_error = ? WHERE id = ?`,
+      [error instanceof Error ? error.message : String(error), applicationId]
+    )
+  }
+
+  return getApplication(applicationId)
+}
+
+/**
+ * A team's questionnaire (null if there's no such team)
+ */
+export async function getTeamApplicationQuestions(teamId: number): Promise<ApplicationQuestion[] | null> {
+  const team = await queryOne<{ application_questions: string | null }>(
+    'SELECT application_questions FROM teams WHERE id = ?',
+    [teamId]
+  )
+  return team ? parseQuestionSet(team.application_questions) : null
+}
+
+export async function getApplication(id: number): Promise<Application | null> {
+  const row = await queryOne<any>('SELECT * FROM applications WHERE id = ?', [id])
+  return row ? parseApplication(row) : null
+}
+
+/**
+ * An application with its team name, comments, votes and vote tally
+ */
+export async function getApplicationDetail(id: number): Promise<ApplicationDetail | null> {
+  const row = await queryOne<any>(
+    `SELECT a.*, t.name AS team_name
+     FROM applications a
+     JOIN teams t ON t.id = a.team_id
+     WHERE a.id = ?`,
+    [id]
+  )
+  if (!row) return null
+
+  const comments = await query<ApplicationComment>(
+    'SELECT * FROM application_comments WHERE application_id = ? ORDER BY created_at, id',
+    [id]
+  )
+  const votes = await query<ApplicationVote>(
+    'SELECT * FROM application_votes WHERE application_id = ? ORDER BY created_at, id',
+    [id]
+  )
+
+  const tally: Record<ApplicationVoteValue, number> = { yes: 0, no: 0, abstain: 0 }
+  for (const vote of votes) {
+    tally[vote.vote]++
+  }
+
+  return { ...parseApplication(row), team_name: row.team_name, comments, votes, tally }
+}
+
+/**
+ * Applications to the given teams, newest first
+ */
+export async function getApplications(
+  filters: ApplicationFilters
+): Promise<{ applications: Application[]; total: number }> {
+  const conditions: string[] = []
+  const params: any[] = []
+
+  if (filters.teamIds !== null) {
+    if (filters.teamIds.length === 0) {
+      return { applications: [], total: 0 }
+    }
+    conditions.push(`team_id IN (${filters.teamIds.map(() => '?').join(', ')})`)
+    params.push(...filters.teamIds)
+  }
+
+  if (filters.status) {
+    conditions.push('status = ?')
+    params.push(filters.status)
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  const countRow = await queryOne<{ total: number }>(
+    `SELECT COUNT(*) AS total FROM applications ${where}`,
+    params
+  )
+
+  const rows = await query<any>(
+    `SELECT * FROM applications ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+    [...params, filters.limit, (filters.page - 1) * filters.limit]
+  )
+
+  return {
+    applications: rows.map(parseApplication),
+    total: Number(countRow?.total ?? 0),
+  }
+}
+
+/**
+ * Move an application to a new status
+ * Throws BadRequestError if the workflow doesn't allow the move, and
+ * ConflictError if someone else changed the status since it was read.
+ */
+export async function updateApplicationStatus(
+  application: Application,
+  status: ApplicationStatus,
+  actor: JWTPayload
+): Promise<Application> {
+  if (!STATUS_TRANSITIONS[application.status].includes(status)) {
+    throw new BadRequestError(
+      `An application that is ${application.status} can only move to: ${STATUS_TRANSITIONS[application.status].join(', ')}`
+    )
+  }
+
+  // Only from the status the move was checked against
+  const updated = await execute(
+    `UPDATE applications
+     SET status = ?, status_changed_by = ?, status_changed_at = DATETIME('now'), updated_at = DATETIME('now')
+     WHERE id = ? AND status = ?`,
+    [status, actor.userId, application.id, application.status]
+  )
+  if (updated.changes === 0) {
+    throw new ConflictError('This application was updated by someone else; reload it and try again')
+  }
+
+  return (await getApplication(application.id))!
+}
+
+export async function addApplicationComment(
+  applicationId: number,
+  body: unknown,
+  actor: JWTPayload
+): Promise<ApplicationComment> {
+  const text = typeof body === 'string' ? body.trim() : ''
+  if (!text) {
+    throw new ValidationError('Invalid comment', { body: ['Comment is required'] })
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new ValidationError('Invalid comment', { body: [`Comment must be at most ${MAX_COMMENT_LENGTH} characters`] })
+  }
+
+  const result = await execute(
+    'INSERT INTO application_comments (application_id, user_id, username, body) VALUES (?, ?, ?, ?)',
+    [applicationId, actor.userId, actor.username, text]
+  )
+
+  return (await queryOne<ApplicationComment>(
+    'SELECT * FROM application_comments WHERE id = ?',
+    [result.lastInsertRowid]
+  ))!
+}
+
+/**
+ * Record a reviewer's vote, replacing any earlier vote of theirs
+ */
+export async function castApplicationVote(
+  applicationId: number,
+  vote: unknown,
+  actor: JWTPayload
+): Promise<ApplicationVote> {
+  if (!APPLICATION_VOTES.includes(vote as ApplicationVoteValue)) {
+    throw new ValidationError('Invalid vote', { vote: [`vote must be one of: ${APPLICATION_VOTES.join(', ')}`] })
+  }
+
+  const update = () => execute(
+    `UPDATE application_votes SET vote = ?, username = ?, updated_at = DATETIME('now')
+     WHERE application_id = ? AND user_id = ?`,
+    [vote, actor.username, applicationId, actor.userId]
+  )
+
+  const updated = await update()
+  if (updated.changes === 0) {
+    try {
+      await execute(
+        'INSERT INTO application_votes (application_id, user_id, username, vote) VALUES (?, ?, ?, ?)',
+        [applicationId, actor.userId, actor.username, vote]
+      )
+    } catch (error) {
+      // Voted twice at once; the other request inserted, so update it
+      if (!isUniqueConstraintError(error)) throw error
+      await update()
+    }
+  }
+
+  return (await queryOne<ApplicationVote>(
+    'SELECT * FROM application_votes WHERE application_id = ? AND user_id = ?',
+    [applicationId, actor.userId]
+  ))!
+}
+
+/**
+ * Remove a team's applications with their comments and votes
+ */
+export async function removeTeamApplications(teamId: number): Promise<void> {
+  const ids = 'SELECT id FROM applications WHERE team_id = ?'
+  await execute(`DELETE FROM application_votes WHERE application_id IN (${ids})`, [teamId])
+  await execute(`DELETE FROM application_comments WHERE application_id IN (${ids})`, [teamId])
+  await execute('DELETE FROM applications WHERE team_id = ?', [teamId])
+}
@@ -0,0 +1,77 @@
+/**
+ * Attendance Summary
+ *
+ * Works out roster members' attendance percentages over rolling windows
+ * (the last N days) from recorded attendance. Only raids a member has a
+ * record for count towards their percentage; present, late and bench all
+ * count as attended.
+ *
+ * Kept free of database access so it can be tested on its own.
+ */
+
+import type { RosterMember } from '../types/roster'
+import type {
+  AttendanceRecord,
+  AttendanceStatus,
+  AttendanceWindowStats,
+  MemberAttendance,
+} from '../types/attendance'
+
+export const DEFAULT_ATTENDANCE_WINDOWS = [30, 90]
+export const DEFAULT_TRIAL_THRESHOLD = 80
+
+const ATTENDED: AttendanceStatus[] = ['present', 'late', 'bench']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Stored UTC timestamps ('2026-03-02 18:00:00') to ms
+function toTime(timestamp: string): number {
+  return Date.parse(`${timestamp.replace(' ', 'T')}Z`)
+}
+
+function windowStats(records: AttendanceRecord[], days: number, now: Date): AttendanceWindowStats {
+  const since = now.getTime() - days * DAY_MS
+  const inWindow = records.filter(record => {
+    const time = toTime(record.starts_at)
+    return time >= since && time <= now.getTime()
+  })
+
+  const attended = inWindow.filter(record => ATTENDED.includes(record.status)).length
+
+  return {
+    days,
+    raids: inWindow.length,
+    attended,
+    late: inWindow.filter(record => record.status === 'late').length,
+    absent: inWindow.filter(record => record.status === 'absent').length,
+    percent: inWindow.length > 0 ? Math.round((attended / inWindow.length) * 1000) / 10 : null,
+  }
+}
+
+/**
+ * Attendance per roster member for each window (in days)
+ * Trials whose attendance in the shortest window is below `threshold`
+ * percent are flagged; trials with no raids recorded yet aren't.
+ */
+export function summarizeAttendance(
+  members: Pick<RosterMember, 'id' | 'character_name' | 'status'>[],
+  records: AttendanceRecord[],
+  windows: number[],
+  threshold: number,
+  now: Date
+): MemberAttendance[] {
+  const sortedWindows = [...windows].sort((a, b) => a - b)
+
+  return members.map(member => {
+    const memberRecords = records.filter(record => record.member_id === member.id)
+    const stats = sortedWindows.map(days => windowStats(memberRecords, days, now))
+    const shortest = stats[0]
+
+    return {
+      memberId: member.id,
+      characterName: member.character_name,
+      rosterStatus: member.status,
+      windows: stats,
+      flagged: member.status === 'trial' && !!shortest && shortest.percent !== null && shortest.percent < threshold,
+    }
+  })
+}
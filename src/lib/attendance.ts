@@ -0,0 +1,242 @@
+/**
+ * Attendance Service
+ *
+ * Signups (raid_signups) and recorded attendance (raid_attendance) for
+ * occurrences of a team's raid events, per roster member. Both are entered
+ * by the team's leads and officers, e.g. from the Discord signup post and
+ * the raid log. Percentages come from attendance-summary.ts.
+ */
+
+import { query, queryOne, execute, withTransaction } from './db'
+import { isUniqueConstraintError } from './sql-dialect'
+import { BadRequestError, ValidationError } from './errors'
+import { getRoster } from './roster'
+import { occursOn, zonedTimeToUtc } from './raid-schedule'
+import { summarizeAttendance } from './attendance-summary'
+import type { JWTPayload } from './auth'
+import type { RaidEventDetail } from '../types/raid-event'
+import type {
+  AttendanceRecord,
+  AttendanceStatus,
+  OccurrenceAttendance,
+  RaidSignup,
+  SignupStatus,
+  TeamAttendance,
+} from '../types/attendance'
+
+export const SIGNUP_STATUSES: SignupStatus[] = ['accepted', 'tentative', 'declined']
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'late', 'bench', 'absent']
+
+const MAX_REASON_LENGTH = 500
+
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+/**
+ * When an occurrence starts
+ * Throws BadRequestError if the event doesn't happen on that date or it's
+ * been cancelled.
+ */
+export function occurrenceStart(event: RaidEventDetail, date: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !occursOn(event, date)) {
+    throw new BadRequestError(`This event doesn't happen on ${date}`)
+  }
+  if (event.cancellations.some(cancellation => cancellation.occurrence_date === date)) {
+    throw new BadRequestError(`The ${date} occurrence is cancelled`)
+  }
+  return zonedTimeToUtc(date, event.start_time, event.timezone)
+}
+
+async function assertTeamMembers(teamId: number, memberIds: number[], field: string): Promise<void> {
+  const roster = new Set((await getRoster(teamId)).map(member => member.id))
+  const unknown = memberIds.filter(id => !roster.has(id))
+  if (unknown.length > 0) {
+    throw new ValidationError('Invalid attendance', {
+      [field]: [`Not on this team's roster: ${unknown.join(', ')}`],
+    })
+  }
+}
+
+/**
+ * Signups and attendance for one occurrence of an event
+ */
+export async function getOccurrenceAttendance(event: RaidEventDetail, date: string): Promise<OccurrenceAttendance> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !occursOn(event, date)) {
+    throw new BadRequestError(`This event doesn't happen on ${date}`)
+  }
+
+  const signups = await query<RaidSignup>(
+    'SELECT * FROM raid_signups WHERE event_id = ? AND occurrence_date = ? ORDER BY id',
+    [event.id, date]
+  )
+  const attendance = await query<AttendanceRecord>(
+    'SELECT * FROM raid_attendance WHERE event_id = ? AND occurrence_date = ? ORDER BY id',
+    [event.id, date]
+  )
+
+  return {
+    eventId: event.id,
+    date,
+    startsAt: zonedTimeToUtc(date, event.start_time, event.timezone).toISOString(),
+    cancelled: event.cancellations.some(cancellation => cancellation.occurrence_date === date),
+    signups,
+    attendance,
+  }
+}
+
+/**
+ * Record a member's signup for an occurrence, replacing any earlier one
+ * Body: { memberId, status, reason? }
+ */
+export async function recordSignup(
+  event: RaidEventDetail,
+  date: string,
+  body: any,
+  actor: JWTPayload
+): Promise<RaidSignup> {
+  occurrenceStart(event, date)
+
+  const errors: Record<string, string[]> = {}
+  const memberId = Number(body?.memberId)
+  if (!Number.isInteger(memberId) || memberId <= 0) {
+    errors.memberId = ['memberId is required']
+  }
+  if (!SIGNUP_STATUSES.includes(body?.status)) {
+    errors.status = [`status must be one of: ${SIGNUP_STATUSES.join(', ')}`]
+  }
+  const reason = body?.reason
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    errors.reason = ['reason must be a string']
+  } else if (typeof reason === 'string' && reason.length > MAX_REASON_LENGTH) {
+    errors.reason = [`reason must be at most ${MAX_REASON_LENGTH} characters`]
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid signup', errors)
+  }
+
+  await assertTeamMembers(event.team_id, [memberId], 'memberId')
+
+  const values = [body.status, (reason as string | undefined)?.trim() || null, actor.userId]
+  const update = () => execute(
+    `UPDATE raid_signups SET status = ?, reason = ?, recorded_by = ?, updated_at = DATETIME('now')
+     WHERE event_id = ? AND occurrence_date = ? AND member_id = ?`,
+    [...values, event.id, date, memberId]
+  )
+
+  const updated = await update()
+  if (updated.changes === 0) {
+    try {
+      await execute(
+        `INSERT INTO raid_signups (status, reason, recorded_by, team_id, event_id, occurrence_date, member_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [...values, event.team_id, event.id, date, memberId]
+      )
+    } catch (error) {
+      // Signed up twice at once; the other request inserted, so update it
+      if (!isUniqueConstraintError(error)) throw error
+      await update()
+    }
+  }
+
+  return (await queryOne<RaidSignup>(
+    'SELECT * FROM raid_signups WHERE event_id = ? AND occurrence_date = ? AND member_id = ?',
+    [event.id, date, memberId]
+  ))!
+}
+
+/**
+ * Record who came to an occurrence, replacing what was recorded before
+ * Body: { attendance: [{ memberId, status }] }. Members left out have no
+ * record for this raid and it doesn't count towards their percentage.
+ */
+export async function recordAttendance(
+  event: RaidEventDetail,
+  date: string,
+  body: any,
+  actor: JWTPayload
+): Promise<AttendanceRecord[]> {
+  const startsAt = occurrenceStart(event, date)
+  if (startsAt.getTime() > Date.now()) {
+    throw new BadRequestError('Attendance can only be recorded once the raid has started')
+  }
+
+  const errors: Record<string, string[]> = {}
+  const entries: { memberId: number; status: AttendanceStatus }[] = []
+
+  if (!Array.isArray(body?.attendance)) {
+    errors.attendance = ['attendance must be an array']
+  } else {
+    body.attendance.forEach((entry: any, index: number) => {
+      const memberId = Number(entry?.memberId)
+      if (!Number.isInteger(memberId) || memberId <= 0) {
+        errors[`attendance[${index}].memberId`] = ['memberId is required']
+      } else if (entries.some(existing => existing.memberId === memberId)) {
+        errors[`attendance[${index}].memberId`] = ['Member is listed twice']
+      }
+      if (!ATTENDANCE_STATUSES.includes(entry?.status)) {
+        errors[`attendance[${index}].status`] = [`status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`]
+      }
+      entries.push({ memberId, status: entry?.status })
+    })
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid attendance', errors)
+  }
+
+  await assertTeamMembers(event.team_id, entries.map(entry => entry.memberId), 'attendance')
+
+  await withTransaction(async (tx) => {
+    await tx.execute('DELETE FROM raid_attendance WHERE event_id = ? AND occurrence_date = ?', [event.id, date])
+
+    for (const entry of entries) {
+      await tx.execute(
+        `INSERT INTO raid_attendance (team_id, event_id, occurrence_date, starts_at, member_id, status, recorded_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [event.team_id, event.id, date, toSqlTimestamp(startsAt), entry.memberId, entry.status, actor.userId]
+      )
+    }
+  })
+
+  return query<AttendanceRecord>(
+    'SELECT * FROM raid_attendance WHERE event_id = ? AND occurrence_date = ? ORDER BY id',
+    [event.id, date]
+  )
+}
+
+/**
+ * Attendance percentages for a team's roster (inactive members left out)
+ */
+export async function getTeamAttendance(
+  teamId: number,
+  windows: number[],
+  threshold: number
+): Promise<TeamAttendance> {
+  const now = new Date()
+  const since = new Date(now.getTime() - Math.max(...windows) * 24 * 60 * 60 * 1000)
+
+  const members = (await getRoster(teamId)).filter(member => member.status !== 'inactive')
+  const records = await query<AttendanceRecord>(
+    'SELECT * FROM raid_attendance WHERE team_id = ? AND starts_at >= ? AND starts_at <= ?',
+    [teamId, toSqlTimestamp(since), toSqlTimestamp(now)]
+  )
+
+  const summary = summarizeAttendance(members, records, windows, threshold, now)
+
+  return {
+    teamId,
+    windows: [...windows].sort((a, b) => a - b),
+    threshold,
+    members: summary,
+    trialsToReview: summary.filter(member => member.flagged).map(member => member.memberId),
+    computedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Remove a team's signups and attendance
+ */
+export async function removeTeamAttendance(teamId: number): Promise<void> {
+  await execute('DELETE FROM raid_signups WHERE team_id = ?', [teamId])
+  await execute('DELETE FROM raid_attendance WHERE team_id = ?', [teamId])
+}
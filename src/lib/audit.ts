@@ -0,0 +1,153 @@
+/**
+ * Audit Log Service
+ *
+ * Routes that change teams, users, roles, site content or the season config
+ * call recordAudit() with the target's state before and after the change.
+ * Only the fields that differ are stored. Password hashes, secrets and tokens
+ * are never written to the log.
+ *
+ * recordAudit() uses the global query helpers, so calling it inside
+ * withTransaction() commits or rolls back the entry with the change itself.
+ */
+
+import type { NextRequest } from 'next/server'
+import { query, queryOne, execute } from './db'
+import { getClientIp } from './auth-middleware'
+import type { JWTPayload } from './auth'
+import type { AuditEntry, AuditLogEntry, AuditLogFilters } from '../types/audit'
+
+const REDACTED_FIELDS = /password|secret|token/i
+
+// Timestamps are stored as UTC 'YYYY-MM-DD HH:MM:SS', like DATETIME('now')
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+function redact(state: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [field, value] of Object.entries(state)) {
+    result[field] = REDACTED_FIELDS.test(field) ? '[redacted]' : value
+  }
+  return result
+}
+
+/**
+ * Reduce two full states to the fields that changed
+ * A create has no before and a delete has no after; those are kept whole
+ */
+export function diffStates(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  if (!before || !after) {
+    return {
+      before: before ? redact(before) : null,
+      after: after ? redact(after) : null,
+    }
+  }
+
+  const changedBefore: Record<string, unknown> = {}
+  const changedAfter: Record<string, unknown> = {}
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  for (const field of fields) {
+    if (field === 'updated_at') continue
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) continue
+
+    changedBefore[field] = before[field] ?? null
+    changedAfter[field] = after[field] ?? null
+  }
+
+  return { before: redact(changedBefore), after: redact(changedAfter) }
+}
+
+/**
+ * Write one entry to the audit log
+ */
+export async function recordAudit(
+  request: NextRequest,
+  actor: JWTPayload,
+  entry: AuditEntry
+): Promise<void> {
+  const diff = diffStates(entry.before, entry.after)
+
+  await execute(
+    `INSERT INTO audit_log
+       (actor_id, actor_username, action, target_type, target_id, before_data, after_data, ip_address)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      actor.userId,
+      actor.username,
+      entry.action,
+      entry.targetType,
+      entry.targetId === null ? null : String(entry.targetId),
+      diff.before ? JSON.stringify(diff.before) : null,
+      diff.after ? JSON.stringify(diff.after) : null,
+      getClientIp(request),
+    ]
+  )
+}
+
+/**
+ * Get the audit log, newest first
+ */
+export async function getAuditLog(
+  filters: AuditLogFilters
+): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const conditions: string[] = []
+  const values: any[] = []
+
+  if (filters.actorId !== undefined) {
+    conditions.push('actor_id = ?')
+    values.push(filters.actorId)
+  }
+
+  if (filters.action) {
+    conditions.push('action = ?')
+    values.push(filters.action)
+  }
+
+  if (filters.targetType) {
+    conditions.push('target_type = ?')
+    values.push(filters.targetType)
+  }
+
+  if (filters.targetId) {
+    conditions.push('target_id = ?')
+    values.push(filters.targetId)
+  }
+
+  if (filters.from) {
+    conditions.push('created_at >= ?')
+    values.push(toSqlTimestamp(new Date(filters.from)))
+  }
+
+  if (filters.to) {
+    conditions.push('created_at <= ?')
+    values.push(toSqlTimestamp(new Date(filters.to)))
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  const countRow = await queryOne<{ total: number }>(
+    `SELECT COUNT(*) as total FROM audit_log ${where}`,
+    values
+  )
+
+  const rows = await query<any>(
+    `SELECT * FROM audit_log
+     ${where}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ? OFFSET ?`,
+    [...values, filters.limit, (filters.page - 1) * filters.limit]
+  )
+
+  return {
+    entries: rows.map(({ before_data, after_data, ...row }) => ({
+      ...row,
+      before: before_data ? JSON.parse(before_data) : null,
+      after: after_data ? JSON.parse(after_data) : null,
+    })),
+    total: Number(countRow?.total ?? 0),
+  }
+}
@@ -44,3 +44,26 @@ export function requireAuth(request: NextRequest):
 
   return { user }
 }
+
+// Reverse proxies in front of the app (default: 0). Forwarded headers are
+// client-supplied, so they are only believed this many hops deep
+const TRUST_PROXY = parseInt(process.env.TRUST_PROXY || '0', 10)
+
+/**
+ * Client IP as seen by the nearest trusted proxy, or null when the app isn't
+ * behind one (TRUST_PROXY) and there's no trustworthy address to go on
+ */
+export function getClientIp(request: NextRequest): string | null {
+  if (!(TRUST_PROXY > 0)) {
+    return null
+  }
+
+  // Each proxy appends the address it saw, so the client is TRUST_PROXY
+  // hops from the right; anything further left could be forged
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) {
+    const hops = forwarded.split(',').map(hop => hop.trim())
+    return hops[Math.max(0, hops.length - TRUST_PROXY)] || null
+  }
+  return request.headers.get('x-real-ip')
+}
@@ -18,11 +18,16 @@ export interface JWTPayload {
   username: string
   rank: UserRank
   teamId: number | null
+  sessionId?: number
 }
 
 // Secret key for JWT (in production, use environment variable!)
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 
+// Access tokens are short-lived; clients renew them with a refresh token
+// (see sessions.ts), so revoked sessions lose access within this window
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m'
+
 /**
  * Hash a password using bcrypt
  * This is what you do when creating a new user
@@ -44,19 +49,21 @@ export async function verifyPassword(
 }
 
 /**
- * Generate a JWT token for a user
+ * Generate a JWT access token for a user
  * This token will be sent to the frontend and stored there
  */
-export function generateToken(user: User): string {
+export function generateToken(user: User, sessionId?: number): string {
   const payload: JWTPayload = {
     userId: user.id,
     username: user.username,
     rank: user.rank,
     teamId: user.team_id,
+    ...(sessionId !== undefined && { sessionId }),
   }
 
-  // Token expires in 7 days
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '7d' })
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn'],
+  })
 }
 
 /**
@@ -4,7 +4,8 @@
  * Provides database operations for the character enrichment cache.
  */
 
-import { query, queryOne, execute } from './db'
+import { query, queryOne, execute, withTransaction } from './db'
+import { isUniqueConstraintError } from './sql-dialect'
 import type {
   CharacterEnrichmentCache,
   CharacterEnrichmentCacheCreate,
@@ -35,6 +36,28 @@ export async function findCachedCharacter(
   }
 }
 
+/**
+ * Find a cached character by its WCL character ID and season
+ */
+export async function findCachedCharacterById(
+  characterId: string,
+  seasonKey: string = 'latest'
+): Promise<CharacterEnrichmentCache | null> {
+  const row = await queryOne<any>(
+    `SELECT * FROM character_enrichment_cache
+     WHERE character_id = ? AND season_key = ?
+     ORDER BY updated_at DESC`,
+    [characterId, seasonKey]
+  )
+
+  if (!row) return null
+
+  return {
+    ...row,
+    player_card: row.player_card ? JSON.parse(row.player_card) : {},
+  }
+}
+
 /**
  * Create a new cache entry
  */
@@ -146,13 +169,23 @@ export async function upsertCacheEntry(
     season_key: data.season_key,
   }
 
-  const existing = await findCachedCharacter(lookup)
-
-  if (existing) {
+  // Lookup and write run together so concurrent enrichments can't both insert
+  try {
+    return await withTransaction(async () => {
+      const existing = await findCachedCharacter(lookup)
+
+      if (existing) {
+        const updated = await updateCacheEntry(lookup, data)
+        return updated!
+      } else {
+        return createCacheEntry(data)
+      }
+    })
+  } catch (error) {
+    // On MySQL a concurrent request can still insert first; apply ours as an update
+    if (!isUniqueConstraintError(error)) throw error
     const updated = await updateCacheEntry(lookup, data)
     return updated!
-  } else {
-    return createCacheEntry(data)
   }
 }
 
@@ -0,0 +1,155 @@
+/**
+ * MySQL / MariaDB Driver (mysql2)
+ *
+ * Uses a connection pool. Statements are translated from the SQLite dialect
+ * used across the app (see sql-dialect.ts). Sessions run in UTC and return
+ * DATETIME columns as 'YYYY-MM-DD HH:MM:SS' strings, matching SQLite.
+ */
+
+import mysql from 'mysql2/promise'
+import { translateSql } from '../sql-dialect'
+import type {
+  DatabaseDriver,
+  DriverSession,
+  DriverTransaction,
+  ExecuteResult,
+} from './types'
+
+export interface MysqlDriverConfig {
+  host: string
+  port: number
+  user: string
+  password: string
+  database: string
+  connectionLimit?: number
+}
+
+type Queryable = Pick<mysql.Pool, 'query'> | Pick<mysql.PoolConnection, 'query'>
+
+function createSession(connection: Queryable): DriverSession {
+  async function query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    try {
+      const [rows] = await connection.query(translateSql(sql, 'mysql'), params)
+      return rows as T[]
+    } catch (error) {
+      console.error('Database query error:', error)
+      throw error
+    }
+  }
+
+  async function queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
+    const rows = await query<T>(sql, params)
+    return rows[0] ?? null
+  }
+
+  async function execute(sql: string, params?: any[]): Promise<ExecuteResult> {
+    try {
+      const [result] = await connection.query<mysql.ResultSetHeader>(
+        translateSql(sql, 'mysql'),
+        params
+      )
+      return {
+        changes: result.affectedRows,
+        lastInsertRowid: result.insertId,
+      }
+    } catch (error) {
+      console.error('Database execute error:', error)
+      throw error
+    }
+  }
+
+  return { query, queryOne, execute }
+}
+
+export function createMysqlDriver(config: MysqlDriverConfig): DatabaseDriver {
+  const pool = mysql.createPool({
+    host: config.host,
+    port: config.port,
+    user: config.user,
+    password: config.password,
+    database: config.database,
+    connectionLimit: config.connectionLimit ?? 10,
+    waitForConnections: true,
+    timezone: 'Z',
+    dateStrings: true,
+    charset: 'utf8mb4',
+  })
+
+  // CURRENT_TIMESTAMP must be UTC to match SQLite's DATETIME('now')
+  pool.on('connection', (connection) => {
+    connection.query("SET time_zone = '+00:00'")
+  })
+
+  const poolSession = createSession(pool)
+
+  return {
+    dialect: 'mysql',
+    ...poolSession,
+
+    async testConnection(): Promise<boolean> {
+      try {
+        await pool.query('SELECT 1')
+        return true
+      } catch (error) {
+        console.error('Database connection error:', error)
+        return false
+      }
+    },
+
+    async beginTransaction(): Promise<DriverTransaction> {
+      const connection = await pool.getConnection()
+
+      try {
+        await connection.beginTransaction()
+      } catch (error) {
+        connection.release()
+        throw error
+      }
+
+      let released = false
+      const release = () => {
+        if (!released) {
+          released = true
+          connection.release()
+        }
+      }
+
+      return {
+        ...createSession(connection),
+        async commit() {
+          await connection.commit()
+          release()
+        },
+        async rollback() {
+          try {
+            await connection.rollback()
+          } finally {
+            release()
+          }
+        },
+      }
+    },
+
+    async hasTable(table: string): Promise<boolean> {
+      const row = await poolSession.queryOne(
+        `SELECT TABLE_NAME FROM information_schema.TABLES
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?`,
+        [table]
+      )
+      return !!row
+    },
+
+    async hasColumn(table: string, column: string): Promise<boolean> {
+      const row = await poolSession.queryOne(
+        `SELECT COLUMN_NAME FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+        [table, column]
+      )
+      return !!row
+    },
+
+    async close(): Promise<void> {
+      await pool.end()
+    },
+  }
+}
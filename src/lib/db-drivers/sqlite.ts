@@ -0,0 +1,158 @@
+/**
+ * SQLite Driver (better-sqlite3)
+ *
+ * better-sqlite3 is synchronous and we share one connection, so a transaction
+ * owns the whole database: statements from outside it wait until it ends.
+ */
+
+import Database from 'better-sqlite3'
+import fs from 'fs'
+import path from 'path'
+import type {
+  DatabaseDriver,
+  DriverSession,
+  DriverTransaction,
+  ExecuteResult,
+} from './types'
+
+export function createSqliteDriver(dbPath: string): DatabaseDriver {
+  // Ensure directory exists
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+
+  // Single shared SQLite connection
+  const db = new Database(dbPath)
+
+  // Resolves when the open transaction finishes
+  let activeTransaction: Promise<void> | null = null
+
+  async function waitForActiveTransaction(): Promise<void> {
+    while (activeTransaction) {
+      await activeTransaction
+    }
+  }
+
+  function runQuery<T>(sql: string, params?: any[]): T[] {
+    try {
+      const stmt = db.prepare(sql)
+      const rows = params ? stmt.all(...params) : stmt.all()
+      return rows as T[]
+    } catch (error) {
+      console.error('Database query error:', error)
+      throw error
+    }
+  }
+
+  function runQueryOne<T>(sql: string, params?: any[]): T | null {
+    try {
+      const stmt = db.prepare(sql)
+      const row = params ? stmt.get(...params) : stmt.get()
+      return (row as T) ?? null
+    } catch (error) {
+      console.error('Database query error:', error)
+      throw error
+    }
+  }
+
+  function runExecute(sql: string, params?: any[]): ExecuteResult {
+    try {
+      const stmt = db.prepare(sql)
+      const result = params ? stmt.run(...params) : stmt.run()
+      return {
+        changes: result.changes,
+        lastInsertRowid: result.lastInsertRowid,
+      }
+    } catch (error) {
+      console.error('Database execute error:', error)
+      throw error
+    }
+  }
+
+  // Statements issued inside a transaction skip the wait
+  const transactionSession: DriverSession = {
+    query: async <T = any>(sql: string, params?: any[]) => runQuery<T>(sql, params),
+    queryOne: async <T = any>(sql: string, params?: any[]) => runQueryOne<T>(sql, params),
+    execute: async (sql: string, params?: any[]) => runExecute(sql, params),
+  }
+
+  return {
+    dialect: 'sqlite',
+
+    async query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+      await waitForActiveTransaction()
+      return runQuery<T>(sql, params)
+    },
+
+    async queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
+      await waitForActiveTransaction()
+      return runQueryOne<T>(sql, params)
+    },
+
+    async execute(sql: string, params?: any[]): Promise<ExecuteResult> {
+      await waitForActiveTransaction()
+      return runExecute(sql, params)
+    },
+
+    async testConnection(): Promise<boolean> {
+      try {
+        db.prepare('SELECT 1').get()
+        return true
+      } catch (error) {
+        console.error('Database connection error:', error)
+        return false
+      }
+    },
+
+    async beginTransaction(): Promise<DriverTransaction> {
+      // Check and claim the lock without an await in between, so two
+      // callers woken by the same commit can't both start a transaction
+      while (activeTransaction) {
+        await activeTransaction
+      }
+
+      let finish!: () => void
+      activeTransaction = new Promise<void>(resolve => (finish = resolve))
+
+      const end = (sql: string) => {
+        try {
+          if (db.inTransaction) {
+            runExecute(sql)
+          }
+        } finally {
+          activeTransaction = null
+          finish()
+        }
+      }
+
+      try {
+        runExecute('BEGIN IMMEDIATE')
+      } catch (error) {
+        activeTransaction = null
+        finish()
+        throw error
+      }
+
+      return {
+        ...transactionSession,
+        commit: async () => end('COMMIT'),
+        rollback: async () => end('ROLLBACK'),
+      }
+    },
+
+    async hasTable(table: string): Promise<boolean> {
+      const row = runQueryOne(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+        [table]
+      )
+      return !!row
+    },
+
+    async hasColumn(table: string, column: string): Promise<boolean> {
+      const columns = runQuery<{ name: string }>(`PRAGMA table_info(${table})`)
+      return columns.some(col => col.name === column)
+    },
+
+    async close(): Promise<void> {
+      db.close()
+    },
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Database Driver Types
+ *
+ * Every engine implements the same small async surface, so the rest of the
+ * app only ever talks to src/lib/db.ts.
+ */
+
+export type SqlDialect = 'sqlite' | 'mysql'
+
+export interface ExecuteResult {
+  changes: number
+  lastInsertRowid: number | bigint
+}
+
+// Anything that can run statements: the driver itself or an open transaction
+export interface DriverSession {
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>
+  queryOne<T = any>(sql: string, params?: any[]): Promise<T | null>
+  execute(sql: string, params?: any[]): Promise<ExecuteResult>
+}
+
+// A transaction pinned to one connection until commit/rollback
+export interface DriverTransaction extends DriverSession {
+  commit(): Promise<void>
+  rollback(): Promise<void>
+}
+
+export interface DatabaseDriver extends DriverSession {
+  readonly dialect: SqlDialect
+  testConnection(): Promise<boolean>
+  beginTransaction(): Promise<DriverTransaction>
+  hasTable(table: string): Promise<boolean>
+  hasColumn(table: string, column: string): Promise<boolean>
+  close(): Promise<void>
+}
@@ -1,302 +1,84 @@
-import Database from 'better-sqlite3'
-import fs from 'fs'
 import path from 'path'
+import { AsyncLocalStorage } from 'async_hooks'
+import { migrateUp } from './migration-runner'
+import { createSqliteDriver } from './db-drivers/sqlite'
+import { createMysqlDriver } from './db-drivers/mysql'
+import type {
+  DatabaseDriver,
+  DriverTransaction,
+  ExecuteResult,
+} from './db-drivers/types'
+
+export type { ExecuteResult, SqlDialect } from './db-drivers/types'
 
 // This module is our database abstraction layer.
-// It currently uses SQLite under the hood, but the API is generic
-// (async functions returning Promises), so we can swap engines later.
-
-const defaultDbPath = path.join(process.cwd(), 'database', 'app.db')
-const dbPath = process.env.SQLITE_PATH || defaultDbPath
-
-// Ensure directory exists
-fs.mkdirSync(path.dirname(dbPath), { recursive: true })
-
-// Single shared SQLite connection
-const db = new Database(dbPath)
-
-// Initialise schema (idempotent)
-function initSchema() {
-  // Items table (for /api/items)
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS items (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE,
-      description TEXT,
-      price REAL,
-      stock INTEGER DEFAULT 0,
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now'))
-    )
-  `).run()
-
-  // Test table (for /api/test)
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS test (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      transaction_id TEXT NOT NULL UNIQUE,
-      amount REAL NOT NULL,
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now'))
-    )
-  `).run()
-
-  // Teams table with team data fields
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS teams (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE,
-      description TEXT,
-      roster TEXT DEFAULT '[]',
-      progress TEXT DEFAULT '{}',
-      team_info TEXT DEFAULT '{}',
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now'))
-    )
-  `).run()
-
-  // Users table with rank-based access control
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      username TEXT NOT NULL UNIQUE,
-      password_hash TEXT NOT NULL,
-      rank TEXT NOT NULL CHECK(rank IN ('GUILD_MASTER', 'COUNCIL', 'TEAM_LEAD')),
-      team_id INTEGER,
-      warcraft_logs_url TEXT,
-      bio TEXT,
-      discord_username TEXT,
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now')),
-      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE SET NULL
-    )
-  `).run()
-
-  // Create index for faster lookups
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_users_username ON users(username)
-  `).run()
-
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_users_rank ON users(rank)
-  `).run()
-
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_users_team_id ON users(team_id)
-  `).run()
-
-  // Add new profile fields if they don't exist (migration)
-  try {
-    db.prepare(`ALTER TABLE users ADD COLUMN warcraft_logs_url TEXT`).run()
-  } catch (e) {
-    // Column already exists
-  }
-  
-  try {
-    db.prepare(`ALTER TABLE users ADD COLUMN bio TEXT`).run()
-  } catch (e) {
-    // Column already exists
-  }
-  
-  try {
-    db.prepare(`ALTER TABLE users ADD COLUMN discord_username TEXT`).run()
-  } catch (e) {
-    // Column already exists
+// Routes only use the async helpers below; the engine behind them is picked
+// with DB_DRIVER (sqlite by default, or mysql for MySQL/MariaDB).
+
+function createDriver(): DatabaseDriver {
+  const driverName = (process.env.DB_DRIVER || 'sqlite').toLowerCase()
+
+  if (driverName === 'mysql' || driverName === 'mariadb') {
+    return createMysqlDriver({
+      host: process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.DB_PORT || '3306', 10),
+      user: process.env.DB_USER || 'root',
+      password: process.env.DB_PASSWORD || '',
+      database: process.env.DB_NAME || 'eclipsed',
+      connectionLimit: process.env.DB_POOL_SIZE ? parseInt(process.env.DB_POOL_SIZE, 10) : undefined,
+    })
   }
 
-  // Add team_directive column to teams table (migration)
-  try {
-    db.prepare(`ALTER TABLE teams ADD COLUMN team_directive TEXT DEFAULT 'AOTC' CHECK(team_directive IN ('Mythic CE', 'Mythic Progression', 'AOTC / Light Mythic', 'AOTC', 'Learning / Casual'))`).run()
-  } catch (e) {
-    // Column already exists
+  if (driverName !== 'sqlite') {
+    throw new Error(`Unknown DB_DRIVER '${driverName}'. Expected 'sqlite' or 'mysql'`)
   }
 
-  // Site content table for editable public pages
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS site_content (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      key TEXT NOT NULL UNIQUE,
-      title TEXT NOT NULL,
-      content TEXT NOT NULL DEFAULT '',
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now'))
-    )
-  `).run()
-
-  // Create index for faster content lookups
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_site_content_key ON site_content(key)
-  `).run()
-
-  // Password recovery requests table
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS password_recovery_requests (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      user_id INTEGER NOT NULL,
-      status TEXT NOT NULL CHECK(status IN ('pending', 'resolved')) DEFAULT 'pending',
-      created_at TEXT DEFAULT (DATETIME('now')),
-      resolved_at TEXT,
-      resolved_by INTEGER,
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-      FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
-    )
-  `).run()
-
-  // Create indexes for recovery requests
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_recovery_user_id ON password_recovery_requests(user_id)
-  `).run()
-
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_recovery_status ON password_recovery_requests(status)
-  `).run()
-
-  // Guild roles table for command flow map
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS guild_roles (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE,
-      description TEXT DEFAULT '',
-      cluster_name TEXT NOT NULL,
-      cluster_level TEXT NOT NULL CHECK(cluster_level IN ('top-command', 'middle-management', 'recruiting-specialists', 'team-leadership')),
-      display_order INTEGER DEFAULT 0,
-      is_team_specific INTEGER DEFAULT 0,
-      team_id INTEGER,
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now')),
-      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
-    )
-  `).run()
-
-  // Role assignments table
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS role_assignments (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      role_id INTEGER NOT NULL,
-      user_id INTEGER NOT NULL,
-      created_at TEXT DEFAULT (DATETIME('now')),
-      FOREIGN KEY (role_id) REFERENCES guild_roles(id) ON DELETE CASCADE,
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-      UNIQUE(role_id, user_id)
-    )
-  `).run()
-
-  // Create indexes for roles
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_guild_roles_cluster ON guild_roles(cluster_level, cluster_name)
-  `).run()
-
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_role_assignments_role ON role_assignments(role_id)
-  `).run()
-
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_role_assignments_user ON role_assignments(user_id)
-  `).run()
-
-  // Character enrichment cache table for external API data
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS character_enrichment_cache (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      character_id TEXT,
-      region TEXT NOT NULL,
-      realm TEXT NOT NULL,
-      character_name TEXT NOT NULL,
-      season_key TEXT NOT NULL DEFAULT 'latest',
-      player_card TEXT DEFAULT '{}',
-      wcl_last_fetched_at TEXT,
-      blizzard_last_fetched_at TEXT,
-      fetch_status TEXT NOT NULL CHECK(fetch_status IN ('complete', 'partial', 'failed')) DEFAULT 'partial',
-      error_message TEXT,
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now')),
-      UNIQUE(region, realm, character_name, season_key)
-    )
-  `).run()
-  
-  // Add character_id column if it doesn't exist (migration)
-  try {
-    db.prepare(`ALTER TABLE character_enrichment_cache ADD COLUMN character_id TEXT`).run()
-    console.log('✅ Added character_id column to character_enrichment_cache')
-  } catch (error: any) {
-    // Column already exists or other error
-    if (!error.message?.includes('duplicate column')) {
-      console.log('ℹ️  character_id column already exists or migration not needed')
-    }
-  }
+  const defaultDbPath = path.join(process.cwd(), 'database', 'app.db')
+  return createSqliteDriver(process.env.SQLITE_PATH || defaultDbPath)
+}
 
-  // Create indexes for character enrichment cache
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_character_cache_lookup ON character_enrichment_cache(region, realm, character_name)
-  `).run()
-  
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_character_cache_id ON character_enrichment_cache(character_id)
-  `).run()
+const driver = createDriver()
 
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_character_cache_season ON character_enrichment_cache(season_key)
-  `).run()
+// Apply pending schema migrations (see src/lib/migrations).
+// Set DB_AUTO_MIGRATE=false to manage them from /api/admin/migrations instead.
+// Every helper waits for this, so nothing queries a half-migrated schema.
+const ready: Promise<void> = process.env.DB_AUTO_MIGRATE !== 'false'
+  ? migrateUp(driver).then(() => undefined)
+  : Promise.resolve()
 
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_character_cache_status ON character_enrichment_cache(fetch_status)
-  `).run()
+ready.catch((error) => {
+  console.error('Database migrations failed on startup:', error)
+})
 
-  // Season Config table for raid tier configuration
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS season_config (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      tier_name TEXT NOT NULL,
-      wcl_tier_url TEXT NOT NULL,
-      wcl_zone_id INTEGER NOT NULL,
-      encounter_order TEXT NOT NULL DEFAULT '[]',
-      encounter_names TEXT NOT NULL DEFAULT '[]',
-      is_active INTEGER NOT NULL DEFAULT 0,
-      created_at TEXT DEFAULT (DATETIME('now')),
-      updated_at TEXT DEFAULT (DATETIME('now'))
-    )
-  `).run()
+// The query helpers, as handed to a withTransaction callback
+export interface TransactionClient {
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>
+  queryOne<T = any>(sql: string, params?: any[]): Promise<T | null>
+  execute(sql: string, params?: any[]): Promise<ExecuteResult>
+}
 
-  // Create index for active season config
-  db.prepare(`
-    CREATE INDEX IF NOT EXISTS idx_season_config_active ON season_config(is_active)
-  `).run()
+// Transaction state for the async call chain currently inside withTransaction
+interface TransactionState {
+  transaction: DriverTransaction
+  savepointCounter: number
+}
 
-  // Insert default "about-us" content if not exists
-  db.prepare(`
-    INSERT OR IGNORE INTO site_content (key, title, content)
-    VALUES ('about-us', 'About Us', '<h1>Welcome to Eclipsed</h1><p>Edit this content from your dashboard!</p>')
-  `).run()
+const transactionStorage = new AsyncLocalStorage<TransactionState>()
 
-  // Migration: Add team data columns if they don't exist
-  try {
-    // Check if roster column exists
-    const columns = db.prepare('PRAGMA table_info(teams)').all() as any[]
-    const hasRoster = columns.some((col: any) => col.name === 'roster')
-    
-    if (!hasRoster) {
-      db.prepare(`ALTER TABLE teams ADD COLUMN roster TEXT DEFAULT '[]'`).run()
-      db.prepare(`ALTER TABLE teams ADD COLUMN progress TEXT DEFAULT '{}'`).run()
-      db.prepare(`ALTER TABLE teams ADD COLUMN team_info TEXT DEFAULT '{}'`).run()
-      console.log('✅ Team data columns added successfully')
-    }
-  } catch (error) {
-    // Columns might already exist, that's okay
-    console.log('Team data columns already exist or migration not needed')
-  }
+// Statements inside withTransaction go to the open transaction
+async function currentSession() {
+  await ready
+  return transactionStorage.getStore()?.transaction ?? driver
 }
 
-initSchema()
-
 // Health check
 export async function testConnection(): Promise<boolean> {
   try {
-    db.prepare('SELECT 1').get()
-    return true
-  } catch (error) {
-    console.error('Database connection error:', error)
+    await ready
+  } catch {
     return false
   }
+  return driver.testConnection()
 }
 
 // Execute a query that returns multiple rows
@@ -304,14 +86,8 @@ export async function query<T = any>(
   sql: string,
   params?: any[]
 ): Promise<T[]> {
-  try {
-    const stmt = db.prepare(sql)
-    const rows = params ? stmt.all(...params) : stmt.all()
-    return rows as T[]
-  } catch (error) {
-    console.error('Database query error:', error)
-    throw error
-  }
+  const session = await currentSession()
+  return session.query<T>(sql, params)
 }
 
 // Execute a query and return a single row
@@ -319,41 +95,79 @@ export async function queryOne<T = any>(
   sql: string,
   params?: any[]
 ): Promise<T | null> {
-  try {
-    const stmt = db.prepare(sql)
-    const row = params ? stmt.get(...params) : stmt.get()
-    return (row as T) ?? null
-  } catch (error) {
-    console.error('Database query error:', error)
-    throw error
-  }
+  const session = await currentSession()
+  return session.queryOne<T>(sql, params)
 }
 
 // Execute a statement (INSERT / UPDATE / DELETE)
 export async function execute(
   sql: string,
   params?: any[]
-): Promise<{ changes: number; lastInsertRowid: number | bigint }> {
-  try {
-    const stmt = db.prepare(sql)
-    const result = params ? stmt.run(...params) : stmt.run()
-    return {
-      changes: result.changes,
-      lastInsertRowid: result.lastInsertRowid,
+): Promise<ExecuteResult> {
+  const session = await currentSession()
+  return session.execute(sql, params)
+}
+
+/**
+ * Run several statements atomically
+ *
+ * Commits when the callback resolves and rolls back when it throws (the error
+ * is rethrown). Calls nested inside another withTransaction use a savepoint,
+ * so only the inner work is undone if the inner callback throws.
+ * The plain query/queryOne/execute helpers also join the open transaction
+ * when called from inside the callback.
+ *
+ * Usage:
+ * await withTransaction(async (tx) => {
+ *   await tx.execute('UPDATE users SET team_id = NULL WHERE team_id = ?', [id])
+ *   await tx.execute('DELETE FROM teams WHERE id = ?', [id])
+ * })
+ */
+export async function withTransaction<T>(
+  callback: (tx: TransactionClient) => Promise<T>
+): Promise<T> {
+  await ready
+  const parent = transactionStorage.getStore()
+
+  if (parent) {
+    const savepoint = `sp_${++parent.savepointCounter}`
+    const tx = parent.transaction
+    await tx.execute(`SAVEPOINT ${savepoint}`)
+    try {
+      const result = await callback(tx)
+      await tx.execute(`RELEASE SAVEPOINT ${savepoint}`)
+      return result
+    } catch (error) {
+      await tx.execute(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+      await tx.execute(`RELEASE SAVEPOINT ${savepoint}`)
+      throw error
     }
+  }
+
+  const transaction = await driver.beginTransaction()
+
+  try {
+    const state: TransactionState = { transaction, savepointCounter: 0 }
+    const result = await transactionStorage.run(state, () => callback(transaction))
+    await transaction.commit()
+    return result
   } catch (error) {
-    console.error('Database execute error:', error)
+    await transaction.rollback()
     throw error
   }
 }
 
-// For compatibility with previous API (no real pool/close needed for SQLite)
+// The active engine, for the migration runner and dialect-specific code.
+// Doesn't wait for startup migrations, so their status can still be inspected.
+export function getDriver(): DatabaseDriver {
+  return driver
+}
+
+// For compatibility with previous API
 export async function getConnection() {
-  return db
+  return driver
 }
 
 export async function closePool(): Promise<void> {
-  db.close()
+  await driver.close()
 }
-
-export default db
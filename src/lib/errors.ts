@@ -42,6 +42,19 @@ export class ConflictError extends AppError {
   }
 }
 
+export class PreconditionFailedError extends AppError {
+  // The record as it is now and its version, read where the conflict was
+  // found, for the 412 response
+  current: unknown
+  version: number
+
+  constructor(message: string = 'Resource has changed', current: unknown = null, version: number = 0) {
+    super(message, 412)
+    this.current = current
+    this.version = version
+  }
+}
+
 export class ValidationError extends AppError {
   errors: Record<string, string[]>
 
@@ -57,6 +70,15 @@ export class DatabaseError extends AppError {
   }
 }
 
+export class MigrationError extends DatabaseError {
+  version: number
+
+  constructor(version: number, message: string = 'Migration failed') {
+    super(message)
+    this.version = version
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'Internal server error') {
     super(message, 500)
@@ -0,0 +1,41 @@
+/**
+ * Optimistic Concurrency (ETag / If-Match)
+ *
+ * Editable records carry a version number that goes up with every change.
+ * GET sends it as the ETag header (and a `version` field); a PATCH/PUT that
+ * sends it back in If-Match is refused with 412 Precondition Failed if the
+ * record has changed since. Requests without If-Match are still accepted,
+ * so older clients keep working (the last save wins for them).
+ */
+
+import type { NextResponse } from 'next/server'
+
+export function formatETag(version: number): string {
+  return `"${version}"`
+}
+
+/**
+ * The version a request expects to be editing, from its If-Match header
+ * null when there's no condition (no header, or `*`). A header that isn't
+ * one of our ETags gives -1, which never matches.
+ */
+export function getExpectedVersion(request: Request): number | null {
+  const header = request.headers.get('if-match')?.trim()
+  if (!header || header === '*') return null
+
+  const match = header.match(/^(?:W\/)?"(\d+)"/)
+  return match ? parseInt(match[1], 10) : -1
+}
+
+/**
+ * Whether a request's If-Match allows editing a record at this version
+ */
+export function isCurrentVersion(request: Request, version: number): boolean {
+  const expected = getExpectedVersion(request)
+  return expected === null || expected === version
+}
+
+export function withETag<T extends NextResponse>(response: T, version: number): T {
+  response.headers.set('ETag', formatETag(version))
+  return response
+}
@@ -19,6 +19,7 @@ export enum HttpStatus {
   NOT_FOUND = 404,
   METHOD_NOT_ALLOWED = 405,
   CONFLICT = 409,
+  PRECONDITION_FAILED = 412,
   UNPROCESSABLE_ENTITY = 422,
   TOO_MANY_REQUESTS = 429,
 
@@ -0,0 +1,281 @@
+/**
+ * Login Throttling Service
+ *
+ * Counts failed logins per username and per client IP. Each failure makes the
+ * next attempt wait longer (1s, 2s, 4s, ...); after LOGIN_MAX_FAILURES the
+ * username is locked for LOGIN_LOCKOUT_MINUTES, doubling with every further
+ * failure. Counters reset after a successful login or a day without failures.
+ *
+ * Every attempt is also written to login_attempts for officers to review.
+ */
+
+import { query, queryOne, execute, withTransaction } from './db'
+import type {
+  LockoutScope,
+  LoginAttempt,
+  LoginAttemptFilters,
+  LoginAttemptReason,
+  LoginLockout,
+  LoginThrottleStatus,
+} from '../types/login-throttle'
+
+const MAX_FAILURES_PER_USERNAME = parseInt(process.env.LOGIN_MAX_FAILURES || '5', 10)
+const MAX_FAILURES_PER_IP = parseInt(process.env.LOGIN_MAX_FAILURES_PER_IP || '20', 10)
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10)
+
+const MAX_LOCKOUT_SECONDS = 24 * 60 * 60
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// Timestamps are stored as UTC 'YYYY-MM-DD HH:MM:SS', like DATETIME('now')
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+function fromSqlTimestamp(value: string): Date {
+  return new Date(value.replace(' ', 'T') + 'Z')
+}
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase()
+}
+
+/**
+ * How long to block after the given number of consecutive failures
+ */
+function delaySeconds(failureCount: number, maxFailures: number): number {
+  if (failureCount < maxFailures) {
+    return Math.min(2 ** (failureCount - 1), LOCKOUT_MINUTES * 60)
+  }
+
+  const lockout = LOCKOUT_MINUTES * 60 * 2 ** (failureCount - maxFailures)
+  return Math.min(lockout, MAX_LOCKOUT_SECONDS)
+}
+
+function secondsUntil(timestamp: string | null, now: Date): number {
+  if (!timestamp) return 0
+  return Math.max(0, Math.ceil((fromSqlTimestamp(timestamp).getTime() - now.getTime()) / 1000))
+}
+
+/**
+ * Check whether a login may be attempted right now
+ */
+export async function checkLoginThrottle(
+  username: string,
+  ipAddress: string | null
+): Promise<LoginThrottleStatus> {
+  const now = new Date()
+  const rows = await query<LoginLockout>(
+    `SELECT * FROM login_lockouts
+     WHERE (scope = 'username' AND identifier = ?) OR (scope = 'ip' AND identifier = ?)`,
+    [normalizeUsername(username), ipAddress ?? '']
+  )
+
+  let blocked: LoginThrottleStatus = { allowed: true }
+
+  for (const row of rows) {
+    const retryAfterSeconds = secondsUntil(row.locked_until, now)
+    if (retryAfterSeconds > (blocked.retryAfterSeconds ?? 0)) {
+      blocked = { allowed: false, scope: row.scope, retryAfterSeconds }
+    }
+  }
+
+  return blocked
+}
+
+/**
+ * Bump the failure counter for one username or IP and set its next allowed time
+ */
+async function registerFailure(
+  scope: LockoutScope,
+  identifier: string,
+  maxFailures: number
+): Promise<LoginLockout> {
+  const now = new Date()
+  const windowStart = toSqlTimestamp(new Date(now.getTime() - FAILURE_WINDOW_MS))
+
+  return withTransaction(async (tx) => {
+    await tx.execute(
+      'INSERT OR IGNORE INTO login_lockouts (scope, identifier) VALUES (?, ?)',
+      [scope, identifier]
+    )
+
+    // Increment in SQL so concurrent failures can't overwrite each other
+    await tx.execute(
+      `UPDATE login_lockouts
+       SET failure_count = CASE
+             WHEN last_failure_at IS NULL OR last_failure_at < ? THEN 1
+             ELSE failure_count + 1
+           END,
+           last_failure_at = ?
+       WHERE scope = ? AND identifier = ?`,
+      [windowStart, toSqlTimestamp(now), scope, identifier]
+    )
+
+    const row = await tx.queryOne<LoginLockout>(
+      'SELECT * FROM login_lockouts WHERE scope = ? AND identifier = ?',
+      [scope, identifier]
+    )
+
+    const delay = delaySeconds(row!.failure_count, maxFailures)
+    const lockedUntil = toSqlTimestamp(new Date(now.getTime() + delay * 1000))
+
+    await tx.execute(
+      'UPDATE login_lockouts SET locked_until = ? WHERE id = ?',
+      [lockedUntil, row!.id]
+    )
+
+    return { ...row!, locked_until: lockedUntil }
+  })
+}
+
+/**
+ * Write one entry to the login attempt log
+ */
+export async function recordLoginAttempt(
+  username: string,
+  ipAddress: string | null,
+  userId: number | null,
+  reason: LoginAttemptReason
+): Promise<void> {
+  await execute(
+    `INSERT INTO login_attempts (username, user_id, ip_address, success, reason)
+     VALUES (?, ?, ?, ?, ?)`,
+    [username.slice(0, 191), userId, ipAddress, reason === 'success' ? 1 : 0, reason]
+  )
+}
+
+/**
+ * Record a wrong password, unknown username or wrong 2FA code
+ * Returns the consecutive failure count for the username and whether it is now locked
+ */
+export async function recordFailedLogin(
+  username: string,
+  ipAddress: string | null,
+  userId: number | null,
+  reason: 'invalid_password' | 'unknown_user' | 'invalid_two_factor'
+): Promise<{ failedAttempts: number; lockedOut: boolean; retryAfterSeconds: number }> {
+  await recordLoginAttempt(username, ipAddress, userId, reason)
+
+  const usernameLockout = await registerFailure(
+    'username',
+    normalizeUsername(username),
+    MAX_FAILURES_PER_USERNAME
+  )
+
+  if (ipAddress) {
+    await registerFailure('ip', ipAddress, MAX_FAILURES_PER_IP)
+  }
+
+  if (usernameLockout.failure_count >= MAX_FAILURES_PER_USERNAME) {
+    console.warn(
+      `Login lockout: '${username}' locked after ${usernameLockout.failure_count} failed attempts (last from ${ipAddress ?? 'unknown IP'})`
+    )
+  }
+
+  return {
+    failedAttempts: usernameLockout.failure_count,
+    lockedOut: usernameLockout.failure_count >= MAX_FAILURES_PER_USERNAME,
+    retryAfterSeconds: secondsUntil(usernameLockout.locked_until, new Date()),
+  }
+}
+
+/**
+ * Record a successful login and reset the username's failure counter
+ */
+export async function recordSuccessfulLogin(
+  username: string,
+  ipAddress: string | null,
+  userId: number
+): Promise<void> {
+  await recordLoginAttempt(username, ipAddress, userId, 'success')
+  await execute(
+    `DELETE FROM login_lockouts WHERE scope = 'username' AND identifier = ?`,
+    [normalizeUsername(username)]
+  )
+}
+
+/**
+ * Get usernames and IPs that are locked or have recent failures
+ */
+export async function getLockouts(): Promise<
+  (LoginLockout & { locked: boolean; retry_after_seconds: number })[]
+> {
+  const now = new Date()
+  const rows = await query<LoginLockout>(
+    `SELECT * FROM login_lockouts
+     WHERE locked_until > ? OR last_failure_at > ?
+     ORDER BY locked_until DESC`,
+    [toSqlTimestamp(now), toSqlTimestamp(new Date(now.getTime() - FAILURE_WINDOW_MS))]
+  )
+
+  return rows.map(row => {
+    const maxFailures = row.scope === 'username' ? MAX_FAILURES_PER_USERNAME : MAX_FAILURES_PER_IP
+    const retryAfter = secondsUntil(row.locked_until, now)
+    return {
+      ...row,
+      locked: retryAfter > 0 && row.failure_count >= maxFailures,
+      retry_after_seconds: retryAfter,
+    }
+  })
+}
+
+/**
+ * Clear a lockout and its failure counter
+ * Returns the lockout as it was, or null if it didn't exist
+ */
+export async function clearLockout(id: number): Promise<LoginLockout | null> {
+  return withTransaction(async () => {
+    const lockout = await queryOne<LoginLockout>('SELECT * FROM login_lockouts WHERE id = ?', [id])
+    if (!lockout) return null
+
+    await execute('DELETE FROM login_lockouts WHERE id = ?', [id])
+    return lockout
+  })
+}
+
+/**
+ * Get the login attempt log, newest first, with the rank of the targeted account
+ */
+export async function getLoginAttempts(
+  filters: LoginAttemptFilters
+): Promise<{ attempts: (LoginAttempt & { user_rank: string | null })[]; total: number }> {
+  const conditions: string[] = []
+  const values: any[] = []
+
+  if (filters.username) {
+    conditions.push('la.username = ?')
+    values.push(filters.username)
+  }
+
+  if (filters.ipAddress) {
+    conditions.push('la.ip_address = ?')
+    values.push(filters.ipAddress)
+  }
+
+  if (filters.success !== undefined) {
+    conditions.push('la.success = ?')
+    values.push(filters.success ? 1 : 0)
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  const countRow = await queryOne<{ total: number }>(
+    `SELECT COUNT(*) as total FROM login_attempts la ${where}`,
+    values
+  )
+
+  const rows = await query<any>(
+    `SELECT la.*, u.rank AS user_rank
+     FROM login_attempts la
+     LEFT JOIN users u ON u.id = la.user_id
+     ${where}
+     ORDER BY la.created_at DESC, la.id DESC
+     LIMIT ? OFFSET ?`,
+    [...values, filters.limit, (filters.page - 1) * filters.limit]
+  )
+
+  return {
+    attempts: rows.map(row => ({ ...row, success: Boolean(row.success) })),
+    total: Number(countRow?.total ?? 0),
+  }
+}
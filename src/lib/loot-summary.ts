@@ -0,0 +1,67 @@
+/**
+ * Loot Summary
+ *
+ * Counts what each roster member has received (per response type) and
+ * tallies the loot council's votes on an item.
+ *
+ * Kept free of database access so it can be tested on its own.
+ */
+
+import type { RosterMember } from '../types/roster'
+import type {
+  LootAward,
+  LootResponse,
+  LootVote,
+  LootVoteTally,
+  MemberLootSummary,
+} from '../types/loot'
+
+export const LOOT_RESPONSES: LootResponse[] = ['bis', 'upgrade', 'offspec', 'transmog']
+
+/**
+ * Items each member has been awarded, in roster order
+ * Items still being decided aren't counted.
+ */
+export function summarizeLoot(
+  members: Pick<RosterMember, 'id' | 'character_name' | 'status'>[],
+  awards: LootAward[]
+): MemberLootSummary[] {
+  return members.map(member => {
+    const received = awards.filter(award => award.member_id === member.id && award.response)
+
+    const byResponse = Object.fromEntries(LOOT_RESPONSES.map(response => [response, 0])) as Record<LootResponse, number>
+    for (const award of received) {
+      byResponse[award.response!]++
+    }
+
+    const awardedAt = received.map(award => award.awarded_at).filter((value): value is string => !!value).sort()
+
+    return {
+      memberId: member.id,
+      characterName: member.character_name,
+      rosterStatus: member.status,
+      total: received.length,
+      byResponse,
+      lastAwardedAt: awardedAt.length > 0 ? awardedAt[awardedAt.length - 1] : null,
+    }
+  })
+}
+
+/**
+ * Votes per candidate, most first (ties by who was voted for first)
+ */
+export function tallyLootVotes(votes: LootVote[]): LootVoteTally[] {
+  const tally: LootVoteTally[] = []
+
+  for (const vote of [...votes].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)) {
+    const entry = tally.find(candidate => candidate.memberId === vote.member_id)
+    if (entry) {
+      entry.votes++
+    } else {
+      tally.push({ memberId: vote.member_id, votes: 1 })
+    }
+  }
+
+  // Array.prototype.sort is stable, so ties stay in first-vote order
+  return tally.sort((a, b) => b.votes - a.votes)
+}
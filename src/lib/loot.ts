@@ -0,0 +1,400 @@
+/**
+ * Loot Service
+ *
+ * Items a team's loot council hands out at its raids (loot_awards) and the
+ * council's votes on who should get them (loot_votes). An item is added
+ * when it drops and awarded once the council decides, or added already
+ * awarded. Totals per member come from loot-summary.ts.
+ */
+
+import { query, queryOne, execute } from './db'
+import { isUniqueConstraintError } from './sql-dialect'
+import { BadRequestError, ValidationError } from './errors'
+import { getRoster, getRosterMember } from './roster'
+import { getActiveSeasonConfig, getSeasonConfigById } from './season-config'
+import { getTeamEvent } from './raid-events'
+import { occurrenceStart } from './attendance'
+import { RAID_DIFFICULTIES } from './team-data-schema'
+import { LOOT_RESPONSES, summarizeLoot, tallyLootVotes } from './loot-summary'
+import type { JWTPayload } from './auth'
+import type { RaidDifficulty } from '../types/team-data'
+import type {
+  LootAward,
+  LootAwardDetail,
+  LootAwardInput,
+  LootFilters,
+  LootResponse,
+  LootVote,
+  TeamLootSummary,
+} from '../types/loot'
+
+const MAX_ITEM_NAME_LENGTH = 200
+const MAX_ENCOUNTER_NAME_LENGTH = 200
+const MAX_NOTE_LENGTH = 2000
+
+function toInput(award: LootAward): LootAwardInput {
+  return {
+    eventId: award.event_id,
+    date: award.occurrence_date,
+    itemId: award.item_id,
+    itemName: award.item_name,
+    encounterName: award.encounter_name,
+    difficulty: award.difficulty,
+    memberId: award.member_id,
+    response: award.response,
+    note: award.note,
+  }
+}
+
+function optionalText(
+  value: unknown,
+  field: string,
+  maxLength: number,
+  fail: (field: string, message: string) => void
+): string | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value !== 'string') {
+    fail(field, `${field} must be a string`)
+    return null
+  }
+  if (value.length > maxLength) {
+    fail(field, `${field} must be at most ${maxLength} characters`)
+    return null
+  }
+  return value.trim() || null
+}
+
+/**
+ * Check and clean an item from a request body
+ * When editing, pass the item as it is: the body's fields are applied on
+ * top of it. memberId and response go together; leave both out while the
+ * council is deciding. Throws ValidationError listing every problem.
+ */
+export function validateLootAward(body: any, existing: LootAward | null): LootAwardInput {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid loot', { body: ['Expected an object'] })
+  }
+
+  const errors: Record<string, string[]> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+
+  const merged: Record<string, any> = existing ? { ...toInput(existing) } : {}
+  for (const [field, value] of Object.entries(body)) {
+    if (value !== undefined) merged[field] = value
+  }
+
+  const eventId = Number(merged.eventId)
+  if (!Number.isInteger(eventId) || eventId <= 0) {
+    fail('eventId', 'eventId is required')
+  }
+  if (typeof merged.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(merged.date)) {
+    fail('date', 'date must be a date (YYYY-MM-DD)')
+  }
+
+  const itemName = typeof merged.itemName === 'string' ? merged.itemName.trim() : ''
+  if (!itemName) {
+    fail('itemName', 'itemName is required')
+  } else if (itemName.length > MAX_ITEM_NAME_LENGTH) {
+    fail('itemName', `itemName must be at most ${MAX_ITEM_NAME_LENGTH} characters`)
+  }
+
+  let itemId: number | null = null
+  if (merged.itemId !== undefined && merged.itemId !== null && merged.itemId !== '') {
+    itemId = Number(merged.itemId)
+    if (!Number.isInteger(itemId) || itemId <= 0) {
+      fail('itemId', 'itemId must be a WoW item id')
+    }
+  }
+
+  const encounterName = optionalText(merged.encounterName, 'encounterName', MAX_ENCOUNTER_NAME_LENGTH, fail)
+  const note = optionalText(merged.note, 'note', MAX_NOTE_LENGTH, fail)
+
+  const difficulty = merged.difficulty || null
+  if (difficulty !== null && !RAID_DIFFICULTIES.includes(difficulty)) {
+    fail('difficulty', `difficulty must be one of: ${RAID_DIFFICULTIES.join(', ')}`)
+  }
+
+  let memberId: number | null = null
+  if (merged.memberId !== undefined && merged.memberId !== null) {
+    memberId = Number(merged.memberId)
+    if (!Number.isInteger(memberId) || memberId <= 0) {
+      fail('memberId', 'memberId must be a roster member id')
+    }
+  }
+
+  const response = merged.response || null
+  if (response !== null && !LOOT_RESPONSES.includes(response)) {
+    fail('response', `response must be one of: ${LOOT_RESPONSES.join(', ')}`)
+  }
+  if ((memberId === null) !== (response === null)) {
+    fail(memberId === null ? 'memberId' : 'response', 'memberId and response must be given together')
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid loot', errors)
+  }
+
+  return {
+    eventId,
+    date: merged.date,
+    itemId,
+    itemName,
+    encounterName,
+    difficulty: difficulty as RaidDifficulty | null,
+    memberId,
+    response: response as LootResponse | null,
+    note,
+  }
+}
+
+/**
+ * Check an item's raid and recipient belong to the team
+ * Returns the recipient's character name, if there is one.
+ */
+async function checkLootTargets(teamId: number, input: LootAwardInput): Promise<string | null> {
+  const event = await getTeamEvent(teamId, input.eventId)
+  if (!event) {
+    throw new ValidationError('Invalid loot', { eventId: ['Event not found'] })
+  }
+  if (occurrenceStart(event, input.date).getTime() > Date.now()) {
+    throw new BadRequestError('Loot can only be recorded once the raid has started')
+  }
+
+  if (input.memberId == null) return null
+
+  const member = await getRosterMember(teamId, input.memberId)
+  if (!member) {
+    throw new ValidationError('Invalid loot', { memberId: ['Not on this team\'s roster'] })
+  }
+  return member.character_name
+}
+
+export async function getLootAward(teamId: number, awardId: number): Promise<LootAward | null> {
+  return queryOne<LootAward>('SELECT * FROM loot_awards WHERE id = ? AND team_id = ?', [awardId, teamId])
+}
+
+/**
+ * An item with the council's votes and the tally per candidate
+ */
+export async function getLootAwardDetail(teamId: number, awardId: number): Promise<LootAwardDetail | null> {
+  const award = await getLootAward(teamId, awardId)
+  if (!award) return null
+
+  const votes = await query<LootVote>(
+    'SELECT * FROM loot_votes WHERE award_id = ? ORDER BY created_at, id',
+    [awardId]
+  )
+
+  return { ...award, votes, tally: tallyLootVotes(votes) }
+}
+
+/**
+ * A team's items, most recent raid first
+ */
+export async function getTeamLoot(
+  teamId: number,
+  filters: LootFilters
+): Promise<{ awards: LootAward[]; total: number }> {
+  const conditions = ['team_id = ?']
+  const params: any[] = [teamId]
+
+  if (filters.memberId !== undefined) {
+    conditions.push('member_id = ?')
+    params.push(filters.memberId)
+  }
+  if (filters.eventId !== undefined) {
+    conditions.push('event_id = ?')
+    params.push(filters.eventId)
+  }
+  if (filters.seasonConfigId !== undefined) {
+    conditions.push('season_config_id = ?')
+    params.push(filters.seasonConfigId)
+  }
+
+  const where = `WHERE ${conditions.join(' AND ')}`
+
+  const countRow = await queryOne<{ total: number }>(
+    `SELECT COUNT(*) AS total FROM loot_awards ${where}`,
+    params
+  )
+
+  const awards = await query<LootAward>(
+    `SELECT * FROM loot_awards ${where} ORDER BY occurrence_date DESC, id DESC LIMIT ? OFFSET ?`,
+    [...params, filters.limit, (filters.page - 1) * filters.limit]
+  )
+
+  return { awards, total: Number(countRow?.total ?? 0) }
+}
+
+export async function createLootAward(
+  teamId: number,
+  input: LootAwardInput,
+  actor: JWTPayload
+): Promise<LootAward> {
+  const characterName = await checkLootTargets(teamId, input)
+  const season = await getActiveSeasonConfig()
+  const awarded = input.memberId != null
+
+  const result = await execute(
+    `INSERT INTO loot_awards
+       (team_id, event_id, occurrence_date, season_config_id, item_id, item_name, encounter_name, difficulty,
+        member_id, character_name, response, note, awarded_by, awarded_at, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${awarded ? "DATETIME('now')" : 'NULL'}, ?)`,
+    [
+      teamId,
+      input.eventId,
+      input.date,
+      season?.id ?? null,
+      input.itemId ?? null,
+      input.itemName,
+      input.encounterName ?? null,
+      input.difficulty ?? null,
+      input.memberId ?? null,
+      characterName,
+      input.response ?? null,
+      input.note ?? null,
+      awarded ? actor.userId : null,
+      actor.userId,
+    ]
+  )
+
+  return (await getLootAward(teamId, Number(result.lastInsertRowid)))!
+}
+
+/**
+ * Save an edited item
+ * Changing who it went to (or awarding it) records who decided and when.
+ */
+export async function updateLootAward(
+  existing: LootAward,
+  input: LootAwardInput,
+  actor: JWTPayload
+): Promise<LootAward> {
+  const characterName = await checkLootTargets(existing.team_id, input)
+  const recipientChanged = (input.memberId ?? null) !== existing.member_id
+
+  const awardedBy = recipientChanged ? (input.memberId != null ? actor.userId : null) : existing.awarded_by
+  const awardedAt = recipientChanged
+    ? (input.memberId != null ? "DATETIME('now')" : 'NULL')
+    : 'awarded_at'
+
+  await execute(
+    `UPDATE loot_awards
+     SET event_id = ?, occurrence_date = ?, item_id = ?, item_name = ?, encounter_name = ?, difficulty = ?,
+         member_id = ?, character_name = ?, response = ?, note = ?, awarded_by = ?, awarded_at = ${awardedAt},
+         updated_at = DATETIME('now')
+     WHERE id = ?`,
+    [
+      input.eventId,
+      input.date,
+      input.itemId ?? null,
+      input.itemName,
+      input.encounterName ?? null,
+      input.difficulty ?? null,
+      input.memberId ?? null,
+      characterName,
+      input.response ?? null,
+      input.note ?? null,
+      awardedBy,
+      existing.id,
+    ]
+  )
+
+  return (await getLootAward(existing.team_id, existing.id))!
+}
+
+export async function removeLootAward(award: LootAward): Promise<void> {
+  await execute('DELETE FROM loot_votes WHERE award_id = ?', [award.id])
+  await execute('DELETE FROM loot_awards WHERE id = ?', [award.id])
+}
+
+/**
+ * Record a council member's vote on who should get an item, replacing any
+ * earlier vote of theirs. Only while the item hasn't been awarded.
+ * Body: { memberId, note? }
+ */
+export async function castLootVote(award: LootAward, body: any, actor: JWTPayload): Promise<LootVote> {
+  if (award.member_id !== null) {
+    throw new BadRequestError('This item has already been awarded')
+  }
+
+  const errors: Record<string, string[]> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+
+  const memberId = Number(body?.memberId)
+  if (!Number.isInteger(memberId) || memberId <= 0) {
+    fail('memberId', 'memberId is required')
+  }
+  const note = optionalText(body?.note, 'note', MAX_NOTE_LENGTH, fail)
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid vote', errors)
+  }
+
+  if (!(await getRosterMember(award.team_id, memberId))) {
+    throw new ValidationError('Invalid vote', { memberId: ['Not on this team\'s roster'] })
+  }
+
+  const update = () => execute(
+    `UPDATE loot_votes SET member_id = ?, note = ?, username = ?, updated_at = DATETIME('now')
+     WHERE award_id = ? AND user_id = ?`,
+    [memberId, note, actor.username, award.id, actor.userId]
+  )
+
+  const updated = await update()
+  if (updated.changes === 0) {
+    try {
+      await execute(
+        'INSERT INTO loot_votes (award_id, user_id, username, member_id, note) VALUES (?, ?, ?, ?, ?)',
+        [award.id, actor.userId, actor.username, memberId, note]
+      )
+    } catch (error) {
+      // Voted twice at once; the other request inserted, so update it
+      if (!isUniqueConstraintError(error)) throw error
+      await update()
+    }
+  }
+
+  return (await queryOne<LootVote>(
+    'SELECT * FROM loot_votes WHERE award_id = ? AND user_id = ?',
+    [award.id, actor.userId]
+  ))!
+}
+
+/**
+ * What each roster member (except inactive ones) has received in a
+ * season, the active one by default
+ */
+export async function getTeamLootSummary(teamId: number, seasonConfigId?: number): Promise<TeamLootSummary> {
+  const season = seasonConfigId !== undefined
+    ? await getSeasonConfigById(seasonConfigId)
+    : await getActiveSeasonConfig()
+
+  const members = (await getRoster(teamId)).filter(member => member.status !== 'inactive')
+  const awards = season
+    ? await query<LootAward>(
+        'SELECT * FROM loot_awards WHERE team_id = ? AND season_config_id = ? AND member_id IS NOT NULL',
+        [teamId, season.id]
+      )
+    : []
+
+  return {
+    teamId,
+    seasonConfigId: season?.id ?? null,
+    tierName: season?.tier_name ?? null,
+    members: summarizeLoot(members, awards),
+    computedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Remove a team's loot history and votes
+ */
+export async function removeTeamLoot(teamId: number): Promise<void> {
+  await execute('DELETE FROM loot_votes WHERE award_id IN (SELECT id FROM loot_awards WHERE team_id = ?)', [teamId])
+  await execute('DELETE FROM loot_awards WHERE team_id = ?', [teamId])
+}
@@ -0,0 +1,267 @@
+/**
+ * Schema Migration Runner
+ *
+ * Applies the numbered migrations in src/lib/migrations and records each one
+ * in the schema_migrations table. A migration either runs completely inside
+ * a transaction or fails loudly - errors are never swallowed.
+ *
+ * Note: MySQL commits DDL implicitly, so a MySQL migration that fails halfway
+ * can leave its earlier statements applied. The failing version is still not
+ * recorded, and the error says which one it was.
+ */
+
+import { migrations } from './migrations'
+import { MigrationError } from './errors'
+import type { DatabaseDriver, SqlDialect } from './db-drivers/types'
+import type {
+  Migration,
+  MigrationDirection,
+  AppliedMigration,
+  MigrationStatus,
+  MigrationStep,
+  MigrationRunOptions,
+} from '../types/migration'
+
+const MIGRATIONS_TABLE_DDL: Record<SqlDialect, string> = {
+  sqlite: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      baselined INTEGER NOT NULL DEFAULT 0,
+      applied_at TEXT DEFAULT (DATETIME('now'))
+    )
+  `,
+  mysql: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT PRIMARY KEY,
+      name VARCHAR(191) NOT NULL,
+      baselined TINYINT NOT NULL DEFAULT 0,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+}
+
+/**
+ * Create the bookkeeping table if needed
+ */
+async function ensureMigrationsTable(db: DatabaseDriver): Promise<void> {
+  await db.execute(MIGRATIONS_TABLE_DDL[db.dialect])
+}
+
+async function getAppliedMigrations(db: DatabaseDriver): Promise<AppliedMigration[]> {
+  const rows = await db.query<any>(
+    'SELECT version, name, baselined, applied_at FROM schema_migrations ORDER BY version'
+  )
+
+  return rows.map(row => ({
+    version: row.version,
+    name: row.name,
+    applied_at: row.applied_at,
+    baselined: Boolean(row.baselined),
+  }))
+}
+
+/**
+ * Whether a legacy (pre-schema_migrations) database already has this change
+ */
+async function isPresentOnLegacy(db: DatabaseDriver, migration: Migration): Promise<boolean> {
+  if (!migration.legacyCheck) return false
+
+  const { table, column } = migration.legacyCheck
+  if (!(await db.hasTable(table))) return false
+  if (!column) return true
+
+  return db.hasColumn(table, column)
+}
+
+/**
+ * The statements for this engine
+ */
+function statementsFor(
+  migration: Migration,
+  direction: MigrationDirection,
+  dialect: SqlDialect
+): string[] {
+  if (dialect === 'mysql' && migration.mysql) {
+    return migration.mysql[direction]
+  }
+  return migration[direction]
+}
+
+/**
+ * Get applied, pending and unknown migrations
+ * "Unknown" are versions recorded in the database that this build doesn't ship
+ */
+export async function getMigrationStatus(db: DatabaseDriver): Promise<MigrationStatus> {
+  await ensureMigrationsTable(db)
+
+  const applied = await getAppliedMigrations(db)
+  const appliedVersions = new Set(applied.map(m => m.version))
+  const knownVersions = new Set(migrations.map(m => m.version))
+
+  return {
+    currentVersion: applied.length > 0 ? applied[applied.length - 1].version : 0,
+    applied: applied.filter(m => knownVersions.has(m.version)),
+    pending: migrations
+      .filter(m => !appliedVersions.has(m.version))
+      .map(m => ({ version: m.version, name: m.name })),
+    unknown: applied.filter(m => !knownVersions.has(m.version)),
+  }
+}
+
+/**
+ * Apply pending migrations in version order
+ *
+ * With dryRun the pending SQL is logged and returned without touching the
+ * schema. `steps` limits how many migrations are applied.
+ */
+export async function migrateUp(
+  db: DatabaseDriver,
+  options: MigrationRunOptions = {}
+): Promise<MigrationStep[]> {
+  await ensureMigrationsTable(db)
+
+  const applied = await getAppliedMigrations(db)
+  const appliedVersions = new Set(applied.map(m => m.version))
+
+  // A database with tables but no (non-baselined) migration history was built
+  // by the old initSchema(); changes it already has are recorded, not re-run
+  const adoptingLegacy = applied.every(m => m.baselined) && (await db.hasTable('users'))
+
+  let pending = migrations
+    .filter(m => !appliedVersions.has(m.version))
+    .sort((a, b) => a.version - b.version)
+
+  if (options.steps !== undefined) {
+    pending = pending.slice(0, options.steps)
+  }
+
+  const steps: MigrationStep[] = []
+
+  for (const migration of pending) {
+    const baselined = adoptingLegacy && (await isPresentOnLegacy(db, migration))
+    const step: MigrationStep = {
+      version: migration.version,
+      name: migration.name,
+      direction: 'up',
+      statements: baselined ? [] : statementsFor(migration, 'up', db.dialect),
+      transform: baselined ? undefined : migration.transform?.up,
+      baselined,
+    }
+    steps.push(step)
+
+    if (options.dryRun) {
+      logStep(step, true)
+      continue
+    }
+
+    await runStep(db, step, [
+      'INSERT INTO schema_migrations (version, name, baselined) VALUES (?, ?, ?)',
+      [migration.version, migration.name, baselined ? 1 : 0],
+    ])
+  }
+
+  return steps
+}
+
+/**
+ * Revert the most recently applied migrations (one by default)
+ */
+export async function migrateDown(
+  db: DatabaseDriver,
+  options: MigrationRunOptions = {}
+): Promise<MigrationStep[]> {
+  await ensureMigrationsTable(db)
+
+  const stepCount = options.steps ?? 1
+  const applied = (await getAppliedMigrations(db)).reverse().slice(0, stepCount)
+  const steps: MigrationStep[] = []
+
+  for (const record of applied) {
+    const migration = migrations.find(m => m.version === record.version)
+    if (!migration) {
+      throw new MigrationError(
+        record.version,
+        `Cannot roll back migration ${record.version} (${record.name}): it is not part of this build`
+      )
+    }
+
+    const step: MigrationStep = {
+      version: migration.version,
+      name: migration.name,
+      direction: 'down',
+      statements: statementsFor(migration, 'down', db.dialect),
+      transform: migration.transform?.down,
+      baselined: false,
+    }
+    steps.push(step)
+
+    if (options.dryRun) {
+      logStep(step, true)
+      continue
+    }
+
+    await runStep(db, step, [
+      'DELETE FROM schema_migrations WHERE version = ?',
+      [migration.version],
+    ])
+  }
+
+  return steps
+}
+
+/**
+ * Run one migration's statements plus its bookkeeping in a single transaction
+ */
+async function runStep(
+  db: DatabaseDriver,
+  step: MigrationStep,
+  [recordSql, recordParams]: [string, any[]]
+): Promise<void> {
+  logStep(step, false)
+
+  const transaction = await db.beginTransaction()
+
+  try {
+    if (step.transform && step.direction === 'down') {
+      await step.transform(transaction)
+    }
+    for (const sql of step.statements) {
+      await transaction.execute(sql)
+    }
+    if (step.transform && step.direction === 'up') {
+      await step.transform(transaction)
+    }
+    await transaction.execute(recordSql, recordParams)
+    await transaction.commit()
+  } catch (error) {
+    await transaction.rollback()
+
+    const reason = error instanceof Error ? error.message : String(error)
+    console.error(`[migrations] ❌ ${step.direction} ${step.version}_${step.name} failed:`, reason)
+    throw new MigrationError(
+      step.version,
+      `Migration ${step.version} (${step.name}) failed during ${step.direction}: ${reason}`
+    )
+  }
+}
+
+function logStep(step: MigrationStep, dryRun: boolean): void {
+  const label = `${step.direction} ${step.version}_${step.name}`
+
+  if (step.baselined) {
+    console.log(`[migrations] ${dryRun ? '(dry run) would baseline' : 'Baselining'} ${label} (already present)`)
+    return
+  }
+
+  console.log(`[migrations] ${dryRun ? '(dry run) would apply' : 'Applying'} ${label}`)
+
+  if (dryRun) {
+    for (const sql of step.statements) {
+      console.log(`${sql.trim()};`)
+    }
+    if (step.transform) {
+      console.log(`-- plus a data transform (${step.direction})`)
+    }
+  }
+}
@@ -0,0 +1,303 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Base schema as it existed before columns were bolted on with ALTERs
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  legacyCheck: { table: 'users' },
+  up: [
+    // Items table (for /api/items)
+    `CREATE TABLE IF NOT EXISTS items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      price REAL,
+      stock INTEGER DEFAULT 0,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+
+    // Test table (for /api/test)
+    `CREATE TABLE IF NOT EXISTS test (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_id TEXT NOT NULL UNIQUE,
+      amount REAL NOT NULL,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS teams (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+
+    // Users table with rank-based access control
+    `CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      rank TEXT NOT NULL CHECK(rank IN ('GUILD_MASTER', 'COUNCIL', 'TEAM_LEAD')),
+      team_id INTEGER,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE SET NULL
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_users_username ON users(username)`,
+    `CREATE INDEX IF NOT EXISTS idx_users_rank ON users(rank)`,
+    `CREATE INDEX IF NOT EXISTS idx_users_team_id ON users(team_id)`,
+
+    // Site content table for editable public pages
+    `CREATE TABLE IF NOT EXISTS site_content (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      key TEXT NOT NULL UNIQUE,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL DEFAULT '',
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_site_content_key ON site_content(key)`,
+
+    `INSERT OR IGNORE INTO site_content (key, title, content)
+     VALUES ('about-us', 'About Us', '<h1>Welcome to Eclipsed</h1><p>Edit this content from your dashboard!</p>')`,
+
+    // Password recovery requests table
+    `CREATE TABLE IF NOT EXISTS password_recovery_requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('pending', 'resolved')) DEFAULT 'pending',
+      created_at TEXT DEFAULT (DATETIME('now')),
+      resolved_at TEXT,
+      resolved_by INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_recovery_user_id ON password_recovery_requests(user_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_recovery_status ON password_recovery_requests(status)`,
+
+    // Guild roles table for command flow map
+    `CREATE TABLE IF NOT EXISTS guild_roles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT DEFAULT '',
+      cluster_name TEXT NOT NULL,
+      cluster_level TEXT NOT NULL CHECK(cluster_level IN ('top-command', 'middle-management', 'recruiting-specialists', 'team-leadership')),
+      display_order INTEGER DEFAULT 0,
+      is_team_specific INTEGER DEFAULT 0,
+      team_id INTEGER,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS role_assignments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      role_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (role_id) REFERENCES guild_roles(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(role_id, user_id)
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_guild_roles_cluster ON guild_roles(cluster_level, cluster_name)`,
+    `CREATE INDEX IF NOT EXISTS idx_role_assignments_role ON role_assignments(role_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_role_assignments_user ON role_assignments(user_id)`,
+
+    // Character enrichment cache table for external API data
+    `CREATE TABLE IF NOT EXISTS character_enrichment_cache (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      region TEXT NOT NULL,
+      realm TEXT NOT NULL,
+      character_name TEXT NOT NULL,
+      season_key TEXT NOT NULL DEFAULT 'latest',
+      player_card TEXT DEFAULT '{}',
+      wcl_last_fetched_at TEXT,
+      blizzard_last_fetched_at TEXT,
+      fetch_status TEXT NOT NULL CHECK(fetch_status IN ('complete', 'partial', 'failed')) DEFAULT 'partial',
+      error_message TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      UNIQUE(region, realm, character_name, season_key)
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_character_cache_lookup ON character_enrichment_cache(region, realm, character_name)`,
+    `CREATE INDEX IF NOT EXISTS idx_character_cache_season ON character_enrichment_cache(season_key)`,
+    `CREATE INDEX IF NOT EXISTS idx_character_cache_status ON character_enrichment_cache(fetch_status)`,
+
+    // Season Config table for raid tier configuration
+    `CREATE TABLE IF NOT EXISTS season_config (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tier_name TEXT NOT NULL,
+      wcl_tier_url TEXT NOT NULL,
+      wcl_zone_id INTEGER NOT NULL,
+      encounter_order TEXT NOT NULL DEFAULT '[]',
+      encounter_names TEXT NOT NULL DEFAULT '[]',
+      is_active INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_season_config_active ON season_config(is_active)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS season_config`,
+    `DROP TABLE IF EXISTS character_enrichment_cache`,
+    `DROP TABLE IF EXISTS role_assignments`,
+    `DROP TABLE IF EXISTS guild_roles`,
+    `DROP TABLE IF EXISTS password_recovery_requests`,
+    `DROP TABLE IF EXISTS site_content`,
+    `DROP TABLE IF EXISTS users`,
+    `DROP TABLE IF EXISTS teams`,
+    `DROP TABLE IF EXISTS test`,
+    `DROP TABLE IF EXISTS items`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS items (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(191) NOT NULL UNIQUE,
+        description TEXT,
+        price DOUBLE,
+        stock INT DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS test (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        transaction_id VARCHAR(191) NOT NULL UNIQUE,
+        amount DOUBLE NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS teams (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(191) NOT NULL UNIQUE,
+        description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS users (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        username VARCHAR(191) NOT NULL UNIQUE,
+        password_hash VARCHAR(255) NOT NULL,
+        \`rank\` VARCHAR(32) NOT NULL CHECK(\`rank\` IN ('GUILD_MASTER', 'COUNCIL', 'TEAM_LEAD')),
+        team_id INT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_users_username (username),
+        INDEX idx_users_rank (\`rank\`),
+        INDEX idx_users_team_id (team_id),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE SET NULL
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS site_content (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        \`key\` VARCHAR(191) NOT NULL UNIQUE,
+        title VARCHAR(255) NOT NULL,
+        content MEDIUMTEXT NOT NULL DEFAULT (''),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `INSERT IGNORE INTO site_content (\`key\`, title, content)
+       VALUES ('about-us', 'About Us', '<h1>Welcome to Eclipsed</h1><p>Edit this content from your dashboard!</p>')`,
+
+      `CREATE TABLE IF NOT EXISTS password_recovery_requests (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'resolved')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME,
+        resolved_by INT,
+        INDEX idx_recovery_user_id (user_id),
+        INDEX idx_recovery_status (status),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS guild_roles (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(191) NOT NULL UNIQUE,
+        description TEXT,
+        cluster_name VARCHAR(191) NOT NULL,
+        cluster_level VARCHAR(32) NOT NULL CHECK(cluster_level IN ('top-command', 'middle-management', 'recruiting-specialists', 'team-leadership')),
+        display_order INT DEFAULT 0,
+        is_team_specific TINYINT DEFAULT 0,
+        team_id INT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_guild_roles_cluster (cluster_level, cluster_name),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS role_assignments (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        role_id INT NOT NULL,
+        user_id INT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(role_id, user_id),
+        INDEX idx_role_assignments_role (role_id),
+        INDEX idx_role_assignments_user (user_id),
+        FOREIGN KEY (role_id) REFERENCES guild_roles(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS character_enrichment_cache (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        region VARCHAR(16) NOT NULL,
+        realm VARCHAR(64) NOT NULL,
+        character_name VARCHAR(64) NOT NULL,
+        season_key VARCHAR(64) NOT NULL DEFAULT 'latest',
+        player_card MEDIUMTEXT DEFAULT ('{}'),
+        wcl_last_fetched_at VARCHAR(32),
+        blizzard_last_fetched_at VARCHAR(32),
+        fetch_status VARCHAR(16) NOT NULL DEFAULT 'partial' CHECK(fetch_status IN ('complete', 'partial', 'failed')),
+        error_message TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(region, realm, character_name, season_key),
+        INDEX idx_character_cache_lookup (region, realm, character_name),
+        INDEX idx_character_cache_season (season_key),
+        INDEX idx_character_cache_status (fetch_status)
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS season_config (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        tier_name VARCHAR(191) NOT NULL,
+        wcl_tier_url VARCHAR(512) NOT NULL,
+        wcl_zone_id INT NOT NULL,
+        encounter_order TEXT NOT NULL DEFAULT ('[]'),
+        encounter_names TEXT NOT NULL DEFAULT ('[]'),
+        is_active TINYINT NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_season_config_active (is_active)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS season_config`,
+      `DROP TABLE IF EXISTS character_enrichment_cache`,
+      `DROP TABLE IF EXISTS role_assignments`,
+      `DROP TABLE IF EXISTS guild_roles`,
+      `DROP TABLE IF EXISTS password_recovery_requests`,
+      `DROP TABLE IF EXISTS site_content`,
+      `DROP TABLE IF EXISTS users`,
+      `DROP TABLE IF EXISTS teams`,
+      `DROP TABLE IF EXISTS test`,
+      `DROP TABLE IF EXISTS items`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,34 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Public profile fields edited from /api/users/profile
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'user_profile_fields',
+  legacyCheck: { table: 'users', column: 'discord_username' },
+  up: [
+    `ALTER TABLE users ADD COLUMN warcraft_logs_url TEXT`,
+    `ALTER TABLE users ADD COLUMN bio TEXT`,
+    `ALTER TABLE users ADD COLUMN discord_username TEXT`,
+  ],
+  down: [
+    `ALTER TABLE users DROP COLUMN discord_username`,
+    `ALTER TABLE users DROP COLUMN bio`,
+    `ALTER TABLE users DROP COLUMN warcraft_logs_url`,
+  ],
+  mysql: {
+    up: [
+      `ALTER TABLE users ADD COLUMN warcraft_logs_url VARCHAR(255)`,
+      `ALTER TABLE users ADD COLUMN bio TEXT`,
+      `ALTER TABLE users ADD COLUMN discord_username VARCHAR(64)`,
+    ],
+    down: [
+      `ALTER TABLE users DROP COLUMN discord_username`,
+      `ALTER TABLE users DROP COLUMN bio`,
+      `ALTER TABLE users DROP COLUMN warcraft_logs_url`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,34 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * JSON data columns edited from the Team Manager
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'team_data_columns',
+  legacyCheck: { table: 'teams', column: 'team_info' },
+  up: [
+    `ALTER TABLE teams ADD COLUMN roster TEXT DEFAULT '[]'`,
+    `ALTER TABLE teams ADD COLUMN progress TEXT DEFAULT '{}'`,
+    `ALTER TABLE teams ADD COLUMN team_info TEXT DEFAULT '{}'`,
+  ],
+  down: [
+    `ALTER TABLE teams DROP COLUMN team_info`,
+    `ALTER TABLE teams DROP COLUMN progress`,
+    `ALTER TABLE teams DROP COLUMN roster`,
+  ],
+  mysql: {
+    up: [
+      `ALTER TABLE teams ADD COLUMN roster MEDIUMTEXT DEFAULT ('[]')`,
+      `ALTER TABLE teams ADD COLUMN progress TEXT DEFAULT ('{}')`,
+      `ALTER TABLE teams ADD COLUMN team_info TEXT DEFAULT ('{}')`,
+    ],
+    down: [
+      `ALTER TABLE teams DROP COLUMN team_info`,
+      `ALTER TABLE teams DROP COLUMN progress`,
+      `ALTER TABLE teams DROP COLUMN roster`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,26 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Raid directive shown on the public teams page
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'team_directive',
+  legacyCheck: { table: 'teams', column: 'team_directive' },
+  up: [
+    `ALTER TABLE teams ADD COLUMN team_directive TEXT DEFAULT 'AOTC' CHECK(team_directive IN ('Mythic CE', 'Mythic Progression', 'AOTC / Light Mythic', 'AOTC', 'Learning / Casual'))`,
+  ],
+  down: [
+    `ALTER TABLE teams DROP COLUMN team_directive`,
+  ],
+  mysql: {
+    up: [
+      `ALTER TABLE teams ADD COLUMN team_directive VARCHAR(32) DEFAULT 'AOTC' CHECK(team_directive IN ('Mythic CE', 'Mythic Progression', 'AOTC / Light Mythic', 'AOTC', 'Learning / Casual'))`,
+    ],
+    down: [
+      `ALTER TABLE teams DROP COLUMN team_directive`,
+    ],
+  },
+}
+
+export default migration
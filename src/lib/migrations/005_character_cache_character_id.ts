@@ -0,0 +1,30 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Stable WCL character ID so renamed/transferred characters can be matched
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'character_cache_character_id',
+  legacyCheck: { table: 'character_enrichment_cache', column: 'character_id' },
+  up: [
+    `ALTER TABLE character_enrichment_cache ADD COLUMN character_id TEXT`,
+    `CREATE INDEX IF NOT EXISTS idx_character_cache_id ON character_enrichment_cache(character_id)`,
+  ],
+  down: [
+    `DROP INDEX IF EXISTS idx_character_cache_id`,
+    `ALTER TABLE character_enrichment_cache DROP COLUMN character_id`,
+  ],
+  mysql: {
+    up: [
+      `ALTER TABLE character_enrichment_cache ADD COLUMN character_id VARCHAR(32)`,
+      `CREATE INDEX idx_character_cache_id ON character_enrichment_cache(character_id)`,
+    ],
+    down: [
+      `DROP INDEX idx_character_cache_id ON character_enrichment_cache`,
+      `ALTER TABLE character_enrichment_cache DROP COLUMN character_id`,
+    ],
+  },
+}
+
+export default migration
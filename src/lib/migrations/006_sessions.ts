@@ -0,0 +1,55 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Server-side sessions backing rotating refresh tokens
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'sessions',
+  up: [
+    `CREATE TABLE IF NOT EXISTS sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      refresh_token_hash TEXT NOT NULL UNIQUE,
+      previous_token_hash TEXT,
+      user_agent TEXT,
+      ip_address TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      last_used_at TEXT DEFAULT (DATETIME('now')),
+      expires_at TEXT NOT NULL,
+      revoked_at TEXT,
+      revoked_reason TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_sessions_previous_token ON sessions(previous_token_hash)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS sessions`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+        previous_token_hash CHAR(64),
+        user_agent VARCHAR(512),
+        ip_address VARCHAR(64),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME,
+        revoked_reason VARCHAR(64),
+        INDEX idx_sessions_user_id (user_id),
+        INDEX idx_sessions_previous_token (previous_token_hash),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS sessions`,
+    ],
+  },
+}
+
+export default migration
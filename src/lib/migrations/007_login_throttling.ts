@@ -0,0 +1,69 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Login attempt log and per-username / per-IP lockout counters
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'login_throttling',
+  up: [
+    `CREATE TABLE IF NOT EXISTS login_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT NOT NULL,
+      user_id INTEGER,
+      ip_address TEXT,
+      success INTEGER NOT NULL DEFAULT 0,
+      reason TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_login_attempts_username ON login_attempts(username, created_at)`,
+    `CREATE INDEX IF NOT EXISTS idx_login_attempts_ip ON login_attempts(ip_address, created_at)`,
+
+    `CREATE TABLE IF NOT EXISTS login_lockouts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scope TEXT NOT NULL CHECK(scope IN ('username', 'ip')),
+      identifier TEXT NOT NULL,
+      failure_count INTEGER NOT NULL DEFAULT 0,
+      last_failure_at TEXT,
+      locked_until TEXT,
+      UNIQUE(scope, identifier)
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS login_lockouts`,
+    `DROP TABLE IF EXISTS login_attempts`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS login_attempts (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        username VARCHAR(191) NOT NULL,
+        user_id INT,
+        ip_address VARCHAR(64),
+        success TINYINT NOT NULL DEFAULT 0,
+        reason VARCHAR(32),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_login_attempts_username (username, created_at),
+        INDEX idx_login_attempts_ip (ip_address, created_at),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS login_lockouts (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        scope VARCHAR(16) NOT NULL CHECK(scope IN ('username', 'ip')),
+        identifier VARCHAR(191) NOT NULL,
+        failure_count INT NOT NULL DEFAULT 0,
+        last_failure_at DATETIME,
+        locked_until DATETIME,
+        UNIQUE(scope, identifier)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS login_lockouts`,
+      `DROP TABLE IF EXISTS login_attempts`,
+    ],
+  },
+}
+
+export default migration
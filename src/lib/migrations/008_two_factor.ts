@@ -0,0 +1,110 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * TOTP two-factor authentication: secrets, backup codes, per-rank policy,
+ * pending login challenges, and 2FA reset requests in the recovery queue
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'two_factor',
+  up: [
+    `CREATE TABLE IF NOT EXISTS user_two_factor (
+      user_id INTEGER PRIMARY KEY,
+      secret TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 0,
+      last_used_step INTEGER,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      enabled_at TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS two_factor_backup_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_backup_codes_user ON two_factor_backup_codes(user_id)`,
+
+    `CREATE TABLE IF NOT EXISTS two_factor_policies (
+      rank TEXT PRIMARY KEY CHECK(rank IN ('GUILD_MASTER', 'COUNCIL', 'TEAM_LEAD')),
+      required INTEGER NOT NULL DEFAULT 0,
+      updated_by INTEGER,
+      updated_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+
+    `CREATE TABLE IF NOT EXISTS login_challenges (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      purpose TEXT NOT NULL CHECK(purpose IN ('verify', 'setup')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )`,
+
+    `ALTER TABLE password_recovery_requests ADD COLUMN request_type TEXT NOT NULL DEFAULT 'password'`,
+  ],
+  down: [
+    `ALTER TABLE password_recovery_requests DROP COLUMN request_type`,
+    `DROP TABLE IF EXISTS login_challenges`,
+    `DROP TABLE IF EXISTS two_factor_policies`,
+    `DROP TABLE IF EXISTS two_factor_backup_codes`,
+    `DROP TABLE IF EXISTS user_two_factor`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS user_two_factor (
+        user_id INT PRIMARY KEY,
+        secret VARCHAR(255) NOT NULL,
+        enabled TINYINT NOT NULL DEFAULT 0,
+        last_used_step BIGINT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        enabled_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS two_factor_backup_codes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_backup_codes_user (user_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS two_factor_policies (
+        \`rank\` VARCHAR(32) PRIMARY KEY CHECK(\`rank\` IN ('GUILD_MASTER', 'COUNCIL', 'TEAM_LEAD')),
+        required TINYINT NOT NULL DEFAULT 0,
+        updated_by INT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS login_challenges (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        purpose VARCHAR(16) NOT NULL CHECK(purpose IN ('verify', 'setup')),
+        attempts INT NOT NULL DEFAULT 0,
+        expires_at DATETIME NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )`,
+
+      `ALTER TABLE password_recovery_requests ADD COLUMN request_type VARCHAR(16) NOT NULL DEFAULT 'password'`,
+    ],
+    down: [
+      `ALTER TABLE password_recovery_requests DROP COLUMN request_type`,
+      `DROP TABLE IF EXISTS login_challenges`,
+      `DROP TABLE IF EXISTS two_factor_policies`,
+      `DROP TABLE IF EXISTS two_factor_backup_codes`,
+      `DROP TABLE IF EXISTS user_two_factor`,
+    ],
+  },
+}
+
+export default migration
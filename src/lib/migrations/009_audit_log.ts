@@ -0,0 +1,54 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Audit log of privileged mutations: who changed what, from where, with the
+ * before/after values of the fields that changed
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'audit_log',
+  up: [
+    `CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      actor_id INTEGER,
+      actor_username TEXT,
+      action TEXT NOT NULL,
+      target_type TEXT NOT NULL,
+      target_id TEXT,
+      before_data TEXT,
+      after_data TEXT,
+      ip_address TEXT,
+      created_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at)`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id, created_at)`,
+    `CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_type, target_id)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS audit_log`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS audit_log (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        actor_id INT,
+        actor_username VARCHAR(191),
+        action VARCHAR(64) NOT NULL,
+        target_type VARCHAR(64) NOT NULL,
+        target_id VARCHAR(191),
+        before_data MEDIUMTEXT,
+        after_data MEDIUMTEXT,
+        ip_address VARCHAR(64),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_audit_log_created (created_at),
+        INDEX idx_audit_log_actor (actor_id, created_at),
+        INDEX idx_audit_log_target (target_type, target_id)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS audit_log`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,39 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Named permissions granted by guild roles, on top of each rank's defaults
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'role_permissions',
+  up: [
+    `CREATE TABLE IF NOT EXISTS role_permissions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      role_id INTEGER NOT NULL,
+      permission TEXT NOT NULL,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (role_id) REFERENCES guild_roles(id) ON DELETE CASCADE,
+      UNIQUE(role_id, permission)
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS role_permissions`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS role_permissions (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        role_id INT NOT NULL,
+        permission VARCHAR(64) NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (role_id) REFERENCES guild_roles(id) ON DELETE CASCADE,
+        UNIQUE(role_id, permission)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS role_permissions`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,53 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Team memberships: a user can lead, co-lead or be an officer of several
+ * teams, and a team can have several of each. Existing users.team_id
+ * assignments become 'lead' memberships.
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'team_memberships',
+  up: [
+    `CREATE TABLE IF NOT EXISTS team_memberships (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      role TEXT NOT NULL CHECK(role IN ('lead', 'co-lead', 'officer')),
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(team_id, user_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_team_memberships_user ON team_memberships(user_id)`,
+
+    `INSERT INTO team_memberships (team_id, user_id, role)
+     SELECT team_id, id, 'lead' FROM users WHERE team_id IS NOT NULL`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS team_memberships`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS team_memberships (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        user_id INT NOT NULL,
+        role VARCHAR(16) NOT NULL CHECK(role IN ('lead', 'co-lead', 'officer')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_team_memberships_user (user_id),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE(team_id, user_id)
+      )`,
+
+      `INSERT INTO team_memberships (team_id, user_id, role)
+       SELECT team_id, id, 'lead' FROM users WHERE team_id IS NOT NULL`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS team_memberships`,
+    ],
+  },
+}
+
+export default migration
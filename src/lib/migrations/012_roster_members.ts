@@ -0,0 +1,160 @@
+import type { Migration } from '../../types/migration'
+import type { DriverSession } from '../db-drivers/types'
+import { fromLegacyRosterEntry, rosterKey } from '../roster-format'
+
+/**
+ * Roster members: one row per character instead of the teams.roster JSON
+ * blob. Existing rosters are exploded into rows (entries without a name and
+ * duplicates are dropped); teams.roster is left in place but no longer
+ * written. Rolling back writes the rows back into teams.roster.
+ */
+
+async function explodeRosters(db: DriverSession): Promise<void> {
+  const teams = await db.query<{ id: number; roster: string | null }>(
+    'SELECT id, roster FROM teams'
+  )
+
+  for (const team of teams) {
+    let entries: unknown
+    try {
+      entries = JSON.parse(team.roster || '[]')
+    } catch {
+      console.warn(`[migrations] Team ${team.id} has an unreadable roster, skipping it`)
+      continue
+    }
+    if (!Array.isArray(entries)) continue
+
+    const seen = new Set<string>()
+    let position = 0
+
+    for (const entry of entries) {
+      const member = fromLegacyRosterEntry(entry)
+      if (!member) continue
+
+      const key = rosterKey(member.characterName, member.realm ?? '', member.region ?? '')
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      await db.execute(
+        `INSERT INTO roster_members
+           (team_id, character_name, realm, region, class, spec, role, status, wcl_url, joined_at, notes, position)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          team.id,
+          member.characterName,
+          member.realm ?? '',
+          member.region ?? '',
+          member.class ?? null,
+          member.spec ?? null,
+          member.role ?? null,
+          member.status ?? 'main',
+          member.wclUrl ?? null,
+          member.joinedAt ?? null,
+          member.notes ?? null,
+          position++,
+        ]
+      )
+    }
+  }
+}
+
+function isJson(value: string | null): boolean {
+  try {
+    JSON.parse(value || '[]')
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function collapseRosters(db: DriverSession): Promise<void> {
+  const teams = await db.query<{ id: number; roster: string | null }>('SELECT id, roster FROM teams')
+
+  for (const team of teams) {
+    const rows = await db.query<any>(
+      'SELECT * FROM roster_members WHERE team_id = ? ORDER BY position, id',
+      [team.id]
+    )
+
+    // Keep an unreadable roster that explodeRosters() skipped
+    if (rows.length === 0 && !isJson(team.roster)) continue
+
+    const roster = rows.map(row => ({
+      name: row.character_name,
+      realm: row.realm,
+      region: row.region,
+      class: row.class,
+      spec: row.spec,
+      role: row.role,
+      status: row.status,
+      wclUrl: row.wcl_url,
+      joinDate: row.joined_at,
+      notes: row.notes,
+    }))
+
+    await db.execute('UPDATE teams SET roster = ? WHERE id = ?', [JSON.stringify(roster), team.id])
+  }
+}
+
+const migration: Migration = {
+  version: 12,
+  name: 'roster_members',
+  up: [
+    `CREATE TABLE IF NOT EXISTS roster_members (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      character_name TEXT NOT NULL COLLATE NOCASE,
+      realm TEXT NOT NULL DEFAULT '' COLLATE NOCASE,
+      region TEXT NOT NULL DEFAULT '',
+      class TEXT,
+      spec TEXT,
+      role TEXT CHECK(role IN ('tank', 'healer', 'dps')),
+      status TEXT NOT NULL DEFAULT 'main' CHECK(status IN ('main', 'trial', 'bench', 'inactive')),
+      wcl_url TEXT,
+      joined_at TEXT,
+      notes TEXT,
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      UNIQUE(team_id, character_name, realm, region)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_roster_members_character ON roster_members(character_name)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS roster_members`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS roster_members (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        character_name VARCHAR(64) NOT NULL,
+        realm VARCHAR(64) NOT NULL DEFAULT '',
+        region VARCHAR(8) NOT NULL DEFAULT '',
+        class VARCHAR(32),
+        spec VARCHAR(32),
+        role VARCHAR(16) CHECK(role IN ('tank', 'healer', 'dps')),
+        status VARCHAR(16) NOT NULL DEFAULT 'main' CHECK(status IN ('main', 'trial', 'bench', 'inactive')),
+        wcl_url VARCHAR(512),
+        joined_at VARCHAR(32),
+        notes TEXT,
+        position INT NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_roster_members_character (character_name),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+        UNIQUE(team_id, character_name, realm, region)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS roster_members`,
+    ],
+  },
+  transform: {
+    up: explodeRosters,
+    down: collapseRosters,
+  },
+}
+
+export default migration
@@ -0,0 +1,77 @@
+import type { Migration } from '../../types/migration'
+import type { DriverSession } from '../db-drivers/types'
+
+/**
+ * Roster events: every add, edit and removal of a roster member, with who
+ * made it and the member's state, so past rosters can be rebuilt. Members
+ * already on a roster get an 'added' event dated by their join date (or
+ * when the row was created, if there is none).
+ */
+
+async function backfillAddedEvents(db: DriverSession): Promise<void> {
+  const members = await db.query<any>('SELECT * FROM roster_members ORDER BY team_id, position, id')
+
+  for (const member of members) {
+    const joinedAt = /^\d{4}-\d{2}-\d{2}$/.test(member.joined_at ?? '')
+      ? `${member.joined_at} 00:00:00`
+      : member.created_at
+
+    await db.execute(
+      `INSERT INTO roster_events (team_id, member_id, character_name, event_type, snapshot, created_at)
+       VALUES (?, ?, ?, 'added', ?, ?)`,
+      [member.team_id, member.id, member.character_name, JSON.stringify(member), joinedAt]
+    )
+  }
+}
+
+const migration: Migration = {
+  version: 13,
+  name: 'roster_events',
+  up: [
+    `CREATE TABLE IF NOT EXISTS roster_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      member_id INTEGER NOT NULL,
+      character_name TEXT NOT NULL,
+      event_type TEXT NOT NULL CHECK(event_type IN ('added', 'updated', 'removed')),
+      changes TEXT,
+      snapshot TEXT NOT NULL,
+      actor_id INTEGER,
+      actor_username TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_roster_events_team ON roster_events(team_id, created_at)`,
+    `CREATE INDEX IF NOT EXISTS idx_roster_events_member ON roster_events(member_id)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS roster_events`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS roster_events (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        member_id INT NOT NULL,
+        character_name VARCHAR(64) NOT NULL,
+        event_type VARCHAR(16) NOT NULL CHECK(event_type IN ('added', 'updated', 'removed')),
+        changes TEXT,
+        snapshot TEXT NOT NULL,
+        actor_id INT,
+        actor_username VARCHAR(191),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_roster_events_team (team_id, created_at),
+        INDEX idx_roster_events_member (member_id),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS roster_events`,
+    ],
+  },
+  transform: {
+    up: backfillAddedEvents,
+  },
+}
+
+export default migration
@@ -0,0 +1,30 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Version counters for optimistic concurrency: bumped on every change and
+ * sent as the ETag, so a save based on an old copy can be refused
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'row_versions',
+  up: [
+    `ALTER TABLE teams ADD COLUMN version INTEGER NOT NULL DEFAULT 1`,
+    `ALTER TABLE site_content ADD COLUMN version INTEGER NOT NULL DEFAULT 1`,
+  ],
+  down: [
+    `ALTER TABLE site_content DROP COLUMN version`,
+    `ALTER TABLE teams DROP COLUMN version`,
+  ],
+  mysql: {
+    up: [
+      `ALTER TABLE teams ADD COLUMN version INT NOT NULL DEFAULT 1`,
+      `ALTER TABLE site_content ADD COLUMN version INT NOT NULL DEFAULT 1`,
+    ],
+    down: [
+      `ALTER TABLE site_content DROP COLUMN version`,
+      `ALTER TABLE teams DROP COLUMN version`,
+    ],
+  },
+}
+
+export default migration
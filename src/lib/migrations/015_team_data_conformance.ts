@@ -0,0 +1,54 @@
+import type { Migration } from '../../types/migration'
+import type { DriverSession } from '../db-drivers/types'
+import { checkStoredTeamData } from '../team-data-schema'
+import type { TeamDataSeason } from '../../types/team-data'
+
+/**
+ * Team data conformance: no schema change. Saving progress and team info is
+ * now validated (see team-data-schema.ts), so this lists the teams whose
+ * stored data would be rejected. They keep working and are left as they are
+ * until someone saves them; GET /api/admin/team-data/report lists them later.
+ */
+
+async function reportNonConformingTeams(db: DriverSession): Promise<void> {
+  const config = await db.queryOne<any>(
+    'SELECT tier_name, encounter_order FROM season_config WHERE is_active = 1 LIMIT 1'
+  )
+
+  let season: TeamDataSeason | null = null
+  if (config) {
+    try {
+      season = { tierName: config.tier_name, encounterIds: JSON.parse(config.encounter_order || '[]') }
+    } catch {
+      season = null
+    }
+  }
+
+  const teams = await db.query<any>('SELECT id, name, progress, team_info FROM teams ORDER BY id')
+
+  for (const team of teams) {
+    const errors = checkStoredTeamData(team.progress, team.team_info, season)
+    if (Object.keys(errors).length === 0) continue
+
+    console.warn(`[migrations] Team ${team.id} (${team.name}) has data that doesn't match the schema:`)
+    for (const [field, messages] of Object.entries(errors)) {
+      console.warn(`[migrations]   ${field}: ${messages.join('; ')}`)
+    }
+  }
+}
+
+const migration: Migration = {
+  version: 15,
+  name: 'team_data_conformance',
+  up: [],
+  down: [],
+  mysql: {
+    up: [],
+    down: [],
+  },
+  transform: {
+    up: reportNonConformingTeams,
+  },
+}
+
+export default migration
@@ -0,0 +1,47 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Zone progression cache: each character's Warcraft Logs kills in a raid
+ * zone, one row per difficulty, so team progression can be recomputed
+ * without asking WCL about every roster member again
+ */
+const migration: Migration = {
+  version: 16,
+  name: 'zone_progression_cache',
+  up: [
+    `CREATE TABLE IF NOT EXISTS zone_progression_cache (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      region TEXT NOT NULL,
+      realm TEXT NOT NULL COLLATE NOCASE,
+      character_name TEXT NOT NULL COLLATE NOCASE,
+      zone_id INTEGER NOT NULL,
+      difficulty INTEGER NOT NULL,
+      encounters TEXT NOT NULL DEFAULT '[]',
+      fetched_at TEXT DEFAULT (DATETIME('now')),
+      UNIQUE(region, realm, character_name, zone_id, difficulty)
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS zone_progression_cache`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS zone_progression_cache (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        region VARCHAR(8) NOT NULL,
+        realm VARCHAR(64) NOT NULL,
+        character_name VARCHAR(64) NOT NULL,
+        zone_id INT NOT NULL,
+        difficulty INT NOT NULL,
+        encounters TEXT NOT NULL DEFAULT ('[]'),
+        fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(region, realm, character_name, zone_id, difficulty)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS zone_progression_cache`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,59 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Progression leaderboard: when each team was first seen with each boss
+ * down on each difficulty, and the leaderboard built from them, stored
+ * per season with the state of the data it was built from
+ */
+const migration: Migration = {
+  version: 17,
+  name: 'progression_leaderboard',
+  up: [
+    `CREATE TABLE IF NOT EXISTS team_boss_kills (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      season_config_id INTEGER NOT NULL,
+      encounter_id INTEGER NOT NULL,
+      difficulty TEXT NOT NULL CHECK(difficulty IN ('Normal', 'Heroic', 'Mythic')),
+      first_killed_at TEXT NOT NULL,
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+      UNIQUE(team_id, season_config_id, encounter_id, difficulty)
+    )`,
+    `CREATE TABLE IF NOT EXISTS progression_leaderboard (
+      season_config_id INTEGER PRIMARY KEY,
+      source_state TEXT NOT NULL,
+      standings TEXT NOT NULL DEFAULT '[]',
+      computed_at TEXT DEFAULT (DATETIME('now'))
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS progression_leaderboard`,
+    `DROP TABLE IF EXISTS team_boss_kills`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS team_boss_kills (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        season_config_id INT NOT NULL,
+        encounter_id INT NOT NULL,
+        difficulty VARCHAR(16) NOT NULL CHECK(difficulty IN ('Normal', 'Heroic', 'Mythic')),
+        first_killed_at DATETIME NOT NULL,
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+        UNIQUE(team_id, season_config_id, encounter_id, difficulty)
+      )`,
+      `CREATE TABLE IF NOT EXISTS progression_leaderboard (
+        season_config_id INT PRIMARY KEY,
+        source_state VARCHAR(255) NOT NULL,
+        standings MEDIUMTEXT NOT NULL DEFAULT ('[]'),
+        computed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS progression_leaderboard`,
+      `DROP TABLE IF EXISTS team_boss_kills`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,119 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Applications: recruitment applications from the public Apply page, with
+ * the applicant's player card, the review status, and officers' comments
+ * and votes
+ */
+const migration: Migration = {
+  version: 18,
+  name: 'applications',
+  up: [
+    `CREATE TABLE IF NOT EXISTS applications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      character_name TEXT NOT NULL COLLATE NOCASE,
+      realm TEXT NOT NULL DEFAULT '' COLLATE NOCASE,
+      region TEXT NOT NULL DEFAULT '',
+      wcl_url TEXT NOT NULL,
+      class TEXT NOT NULL,
+      spec TEXT,
+      availability TEXT,
+      discord TEXT NOT NULL,
+      answers TEXT NOT NULL DEFAULT '[]',
+      player_card TEXT,
+      enrichment_status TEXT NOT NULL DEFAULT 'pending' CHECK(enrichment_status IN ('pending', 'complete', 'failed')),
+      enrichment_error TEXT,
+      status TEXT NOT NULL DEFAULT 'new' CHECK(status IN ('new', 'reviewing', 'trial', 'accepted', 'declined')),
+      status_changed_by INTEGER,
+      status_changed_at TEXT,
+      ip_address TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_applications_team_status ON applications(team_id, status)`,
+    `CREATE TABLE IF NOT EXISTS application_comments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      application_id INTEGER NOT NULL,
+      user_id INTEGER,
+      username TEXT NOT NULL,
+      body TEXT NOT NULL,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (application_id) REFERENCES applications(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_application_comments_application ON application_comments(application_id)`,
+    `CREATE TABLE IF NOT EXISTS application_votes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      application_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      username TEXT NOT NULL,
+      vote TEXT NOT NULL CHECK(vote IN ('yes', 'no', 'abstain')),
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (application_id) REFERENCES applications(id) ON DELETE CASCADE,
+      UNIQUE(application_id, user_id)
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS application_votes`,
+    `DROP TABLE IF EXISTS application_comments`,
+    `DROP TABLE IF EXISTS applications`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS applications (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        character_name VARCHAR(64) NOT NULL,
+        realm VARCHAR(64) NOT NULL DEFAULT '',
+        region VARCHAR(8) NOT NULL DEFAULT '',
+        wcl_url VARCHAR(512) NOT NULL,
+        class VARCHAR(32) NOT NULL,
+        spec VARCHAR(32),
+        availability TEXT,
+        discord VARCHAR(100) NOT NULL,
+        answers MEDIUMTEXT NOT NULL DEFAULT ('[]'),
+        player_card MEDIUMTEXT,
+        enrichment_status VARCHAR(16) NOT NULL DEFAULT 'pending' CHECK(enrichment_status IN ('pending', 'complete', 'failed')),
+        enrichment_error TEXT,
+        status VARCHAR(16) NOT NULL DEFAULT 'new' CHECK(status IN ('new', 'reviewing', 'trial', 'accepted', 'declined')),
+        status_changed_by INT,
+        status_changed_at DATETIME,
+        ip_address VARCHAR(64),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_applications_team_status (team_id, status),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS application_comments (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        user_id INT,
+        username VARCHAR(191) NOT NULL,
+        body TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_application_comments_application (application_id),
+        FOREIGN KEY (application_id) REFERENCES applications(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS application_votes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        application_id INT NOT NULL,
+        user_id INT NOT NULL,
+        username VARCHAR(191) NOT NULL,
+        vote VARCHAR(8) NOT NULL CHECK(vote IN ('yes', 'no', 'abstain')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (application_id) REFERENCES applications(id) ON DELETE CASCADE,
+        UNIQUE(application_id, user_id)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS application_votes`,
+      `DROP TABLE IF EXISTS application_comments`,
+      `DROP TABLE IF EXISTS applications`,
+    ],
+  },
+}
+
+export default migration
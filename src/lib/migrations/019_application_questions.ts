@@ -0,0 +1,26 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Per-team application questionnaire: an ordered JSON list of questions
+ * (see application-questions.ts)
+ */
+const migration: Migration = {
+  version: 19,
+  name: 'application_questions',
+  up: [
+    `ALTER TABLE teams ADD COLUMN application_questions TEXT DEFAULT '[]'`,
+  ],
+  down: [
+    `ALTER TABLE teams DROP COLUMN application_questions`,
+  ],
+  mysql: {
+    up: [
+      `ALTER TABLE teams ADD COLUMN application_questions MEDIUMTEXT DEFAULT ('[]')`,
+    ],
+    down: [
+      `ALTER TABLE teams DROP COLUMN application_questions`,
+    ],
+  },
+}
+
+export default migration
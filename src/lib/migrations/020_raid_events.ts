@@ -0,0 +1,134 @@
+import type { Migration } from '../../types/migration'
+import type { DriverSession } from '../db-drivers/types'
+import { WEEKDAYS, isTime, isTimeZone } from '../team-data-schema'
+import type { Weekday } from '../../types/team-data'
+
+/**
+ * Raid events: each team's raid schedule as weekly raid nights and one-off
+ * events in the team's timezone, with cancelled occurrences. Raid days
+ * already in teams.team_info become weekly events for teams that have a
+ * timezone set; team_info is left as it is.
+ */
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+async function copyRaidDays(db: DriverSession): Promise<void> {
+  const teams = await db.query<{ id: number; name: string; team_info: string | null }>(
+    'SELECT id, name, team_info FROM teams ORDER BY id'
+  )
+
+  for (const team of teams) {
+    let info: any
+    try {
+      info = JSON.parse(team.team_info || '{}')
+    } catch {
+      continue
+    }
+    if (!Array.isArray(info?.raidDays) || info.raidDays.length === 0) continue
+
+    if (typeof info.timezone !== 'string' || !isTimeZone(info.timezone)) {
+      console.warn(`[migrations] Team ${team.id} (${team.name}) has raid days but no timezone; add its schedule by hand`)
+      continue
+    }
+
+    for (const raidDay of info.raidDays) {
+      if (!WEEKDAYS.includes(raidDay?.day as Weekday) || !isTime(raidDay.startTime) || !isTime(raidDay.endTime)) {
+        continue
+      }
+
+      // An end time before the start runs past midnight
+      const duration = (minutesOf(raidDay.endTime) - minutesOf(raidDay.startTime) + 24 * 60) % (24 * 60) || 24 * 60
+
+      await db.execute(
+        `INSERT INTO raid_events (team_id, kind, title, weekday, start_time, duration_minutes, timezone)
+         VALUES (?, 'weekly', 'Raid', ?, ?, ?, ?)`,
+        [team.id, raidDay.day, raidDay.startTime, duration, info.timezone]
+      )
+    }
+  }
+}
+
+const migration: Migration = {
+  version: 20,
+  name: 'raid_events',
+  up: [
+    `CREATE TABLE IF NOT EXISTS raid_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      kind TEXT NOT NULL CHECK(kind IN ('weekly', 'one_off')),
+      title TEXT NOT NULL,
+      description TEXT,
+      weekday TEXT CHECK(weekday IN ('monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday')),
+      event_date TEXT,
+      start_time TEXT NOT NULL,
+      duration_minutes INTEGER NOT NULL,
+      timezone TEXT NOT NULL,
+      starts_on TEXT,
+      ends_on TEXT,
+      created_by INTEGER,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_raid_events_team ON raid_events(team_id)`,
+    `CREATE TABLE IF NOT EXISTS raid_event_cancellations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id INTEGER NOT NULL,
+      occurrence_date TEXT NOT NULL,
+      reason TEXT,
+      created_by INTEGER,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (event_id) REFERENCES raid_events(id) ON DELETE CASCADE,
+      UNIQUE(event_id, occurrence_date)
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS raid_event_cancellations`,
+    `DROP TABLE IF EXISTS raid_events`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS raid_events (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        kind VARCHAR(16) NOT NULL CHECK(kind IN ('weekly', 'one_off')),
+        title VARCHAR(100) NOT NULL,
+        description TEXT,
+        weekday VARCHAR(16) CHECK(weekday IN ('monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday')),
+        event_date DATE,
+        start_time VARCHAR(5) NOT NULL,
+        duration_minutes INT NOT NULL,
+        timezone VARCHAR(64) NOT NULL,
+        starts_on DATE,
+        ends_on DATE,
+        created_by INT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_raid_events_team (team_id),
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS raid_event_cancellations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        event_id INT NOT NULL,
+        occurrence_date DATE NOT NULL,
+        reason VARCHAR(500),
+        created_by INT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (event_id) REFERENCES raid_events(id) ON DELETE CASCADE,
+        UNIQUE(event_id, occurrence_date)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS raid_event_cancellations`,
+      `DROP TABLE IF EXISTS raid_events`,
+    ],
+  },
+  transform: {
+    up: copyRaidDays,
+  },
+}
+
+export default migration
@@ -0,0 +1,81 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Raid attendance: roster members' signups for raid event occurrences and
+ * the attendance leads record afterwards. Attendance keeps the team and
+ * start time so it still counts after its event is removed.
+ */
+const migration: Migration = {
+  version: 21,
+  name: 'raid_attendance',
+  up: [
+    `CREATE TABLE IF NOT EXISTS raid_signups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      event_id INTEGER NOT NULL,
+      occurrence_date TEXT NOT NULL,
+      member_id INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('accepted', 'tentative', 'declined')),
+      reason TEXT,
+      recorded_by INTEGER,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (event_id) REFERENCES raid_events(id) ON DELETE CASCADE,
+      UNIQUE(event_id, occurrence_date, member_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS raid_attendance (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      event_id INTEGER NOT NULL,
+      occurrence_date TEXT NOT NULL,
+      starts_at TEXT NOT NULL,
+      member_id INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('present', 'late', 'bench', 'absent')),
+      recorded_by INTEGER,
+      recorded_at TEXT DEFAULT (DATETIME('now')),
+      UNIQUE(event_id, occurrence_date, member_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_raid_attendance_team_time ON raid_attendance(team_id, starts_at)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS raid_attendance`,
+    `DROP TABLE IF EXISTS raid_signups`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS raid_signups (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        event_id INT NOT NULL,
+        occurrence_date DATE NOT NULL,
+        member_id INT NOT NULL,
+        status VARCHAR(16) NOT NULL CHECK(status IN ('accepted', 'tentative', 'declined')),
+        reason VARCHAR(500),
+        recorded_by INT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (event_id) REFERENCES raid_events(id) ON DELETE CASCADE,
+        UNIQUE(event_id, occurrence_date, member_id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS raid_attendance (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        event_id INT NOT NULL,
+        occurrence_date DATE NOT NULL,
+        starts_at DATETIME NOT NULL,
+        member_id INT NOT NULL,
+        status VARCHAR(16) NOT NULL CHECK(status IN ('present', 'late', 'bench', 'absent')),
+        recorded_by INT,
+        recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_raid_attendance_team_time (team_id, starts_at),
+        UNIQUE(event_id, occurrence_date, member_id)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS raid_attendance`,
+      `DROP TABLE IF EXISTS raid_signups`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,95 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Raid reports: Warcraft Logs reports imported for raid event occurrences
+ * and the boss pulls in them. Like attendance, both keep the team so they
+ * still count after their event is removed.
+ */
+const migration: Migration = {
+  version: 22,
+  name: 'raid_reports',
+  up: [
+    `CREATE TABLE IF NOT EXISTS raid_report_imports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      event_id INTEGER NOT NULL,
+      occurrence_date TEXT NOT NULL,
+      report_code TEXT NOT NULL,
+      title TEXT NOT NULL,
+      zone_id INTEGER,
+      started_at TEXT NOT NULL,
+      ended_at TEXT NOT NULL,
+      matched_members TEXT NOT NULL DEFAULT '[]',
+      unmatched_players TEXT NOT NULL DEFAULT '[]',
+      imported_by INTEGER,
+      imported_at TEXT DEFAULT (DATETIME('now')),
+      UNIQUE(team_id, report_code)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_raid_report_imports_occurrence ON raid_report_imports(event_id, occurrence_date)`,
+    `CREATE TABLE IF NOT EXISTS raid_boss_pulls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      event_id INTEGER NOT NULL,
+      occurrence_date TEXT NOT NULL,
+      report_code TEXT NOT NULL,
+      fight_id INTEGER NOT NULL,
+      encounter_id INTEGER NOT NULL,
+      encounter_name TEXT NOT NULL,
+      difficulty TEXT NOT NULL CHECK(difficulty IN ('Normal', 'Heroic', 'Mythic')),
+      killed INTEGER NOT NULL DEFAULT 0,
+      fight_percentage REAL,
+      started_at TEXT NOT NULL,
+      ended_at TEXT NOT NULL,
+      UNIQUE(team_id, report_code, fight_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_raid_boss_pulls_occurrence ON raid_boss_pulls(event_id, occurrence_date)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS raid_boss_pulls`,
+    `DROP TABLE IF EXISTS raid_report_imports`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS raid_report_imports (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        event_id INT NOT NULL,
+        occurrence_date DATE NOT NULL,
+        report_code VARCHAR(32) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        zone_id INT,
+        started_at DATETIME NOT NULL,
+        ended_at DATETIME NOT NULL,
+        matched_members TEXT NOT NULL DEFAULT ('[]'),
+        unmatched_players TEXT NOT NULL DEFAULT ('[]'),
+        imported_by INT,
+        imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_raid_report_imports_occurrence (event_id, occurrence_date),
+        UNIQUE(team_id, report_code)
+      )`,
+      `CREATE TABLE IF NOT EXISTS raid_boss_pulls (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        event_id INT NOT NULL,
+        occurrence_date DATE NOT NULL,
+        report_code VARCHAR(32) NOT NULL,
+        fight_id INT NOT NULL,
+        encounter_id INT NOT NULL,
+        encounter_name VARCHAR(255) NOT NULL,
+        difficulty VARCHAR(16) NOT NULL CHECK(difficulty IN ('Normal', 'Heroic', 'Mythic')),
+        killed TINYINT(1) NOT NULL DEFAULT 0,
+        fight_percentage DOUBLE,
+        started_at DATETIME NOT NULL,
+        ended_at DATETIME NOT NULL,
+        INDEX idx_raid_boss_pulls_occurrence (event_id, occurrence_date),
+        UNIQUE(team_id, report_code, fight_id)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS raid_boss_pulls`,
+      `DROP TABLE IF EXISTS raid_report_imports`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,97 @@
+import type { Migration } from '../../types/migration'
+
+/**
+ * Loot: items handed out at a team's raids by its loot council, who they
+ * went to and why, and the council's votes. Like attendance, items keep
+ * the team so the history stays after their event is removed.
+ */
+const migration: Migration = {
+  version: 23,
+  name: 'loot',
+  up: [
+    `CREATE TABLE IF NOT EXISTS loot_awards (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      team_id INTEGER NOT NULL,
+      event_id INTEGER NOT NULL,
+      occurrence_date TEXT NOT NULL,
+      season_config_id INTEGER,
+      item_id INTEGER,
+      item_name TEXT NOT NULL,
+      encounter_name TEXT,
+      difficulty TEXT CHECK(difficulty IN ('Normal', 'Heroic', 'Mythic')),
+      member_id INTEGER,
+      character_name TEXT,
+      response TEXT CHECK(response IN ('bis', 'upgrade', 'offspec', 'transmog')),
+      note TEXT,
+      awarded_by INTEGER,
+      awarded_at TEXT,
+      created_by INTEGER,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_loot_awards_team_season ON loot_awards(team_id, season_config_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_loot_awards_member ON loot_awards(member_id)`,
+    `CREATE TABLE IF NOT EXISTS loot_votes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      award_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      username TEXT NOT NULL,
+      member_id INTEGER NOT NULL,
+      note TEXT,
+      created_at TEXT DEFAULT (DATETIME('now')),
+      updated_at TEXT DEFAULT (DATETIME('now')),
+      FOREIGN KEY (award_id) REFERENCES loot_awards(id) ON DELETE CASCADE,
+      UNIQUE(award_id, user_id)
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS loot_votes`,
+    `DROP TABLE IF EXISTS loot_awards`,
+  ],
+  mysql: {
+    up: [
+      `CREATE TABLE IF NOT EXISTS loot_awards (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        team_id INT NOT NULL,
+        event_id INT NOT NULL,
+        occurrence_date DATE NOT NULL,
+        season_config_id INT,
+        item_id INT,
+        item_name VARCHAR(200) NOT NULL,
+        encounter_name VARCHAR(200),
+        difficulty VARCHAR(16) CHECK(difficulty IN ('Normal', 'Heroic', 'Mythic')),
+        member_id INT,
+        character_name VARCHAR(64),
+        response VARCHAR(16) CHECK(response IN ('bis', 'upgrade', 'offspec', 'transmog')),
+        note TEXT,
+        awarded_by INT,
+        awarded_at DATETIME,
+        created_by INT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+        INDEX idx_loot_awards_team_season (team_id, season_config_id),
+        INDEX idx_loot_awards_member (member_id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS loot_votes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        award_id INT NOT NULL,
+        user_id INT NOT NULL,
+        username VARCHAR(191) NOT NULL,
+        member_id INT NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (award_id) REFERENCES loot_awards(id) ON DELETE CASCADE,
+        UNIQUE(award_id, user_id)
+      )`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS loot_votes`,
+      `DROP TABLE IF EXISTS loot_awards`,
+    ],
+  },
+}
+
+export default migration
@@ -0,0 +1,59 @@
+/**
+ * Migration Registry
+ *
+ * Every schema change lives in its own numbered file in this folder.
+ * To add one: create NNN_description.ts with the next version number,
+ * then append it to the list below. Never edit a migration that has
+ * already shipped - add a new one instead.
+ */
+
+import type { Migration } from '../../types/migration'
+import initialSchema from './001_initial_schema'
+import userProfileFields from './002_user_profile_fields'
+import teamDataColumns from './003_team_data_columns'
+import teamDirective from './004_team_directive'
+import characterCacheCharacterId from './005_character_cache_character_id'
+import sessions from './006_sessions'
+import loginThrottling from './007_login_throttling'
+import twoFactor from './008_two_factor'
+import auditLog from './009_audit_log'
+import rolePermissions from './010_role_permissions'
+import teamMemberships from './011_team_memberships'
+import rosterMembers from './012_roster_members'
+import rosterEvents from './013_roster_events'
+import rowVersions from './014_row_versions'
+import teamDataConformance from './015_team_data_conformance'
+import zoneProgressionCache from './016_zone_progression_cache'
+import progressionLeaderboard from './017_progression_leaderboard'
+import applications from './018_applications'
+import applicationQuestions from './019_application_questions'
+import raidEvents from './020_raid_events'
+import raidAttendance from './021_raid_attendance'
+import raidReports from './022_raid_reports'
+import loot from './023_loot'
+
+export const migrations: Migration[] = [
+  initialSchema,
+  userProfileFields,
+  teamDataColumns,
+  teamDirective,
+  characterCacheCharacterId,
+  sessions,
+  loginThrottling,
+  twoFactor,
+  auditLog,
+  rolePermissions,
+  teamMemberships,
+  rosterMembers,
+  rosterEvents,
+  rowVersions,
+  teamDataConformance,
+  zoneProgressionCache,
+  progressionLeaderboard,
+  applications,
+  applicationQuestions,
+  raidEvents,
+  raidAttendance,
+  raidReports,
+  loot,
+]
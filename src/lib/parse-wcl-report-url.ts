@@ -0,0 +1,76 @@
+/**
+ * WCL Report Code Parsing Utility
+ *
+ * Extracts report codes from Warcraft Logs report URLs
+ */
+
+export interface ParsedReportUrl {
+  reportCode: string
+  fightId: number | null  // From #fight=<id> or ?fight=<id>, when the link is to one fight
+  originalUrl: string
+}
+
+const REPORT_CODE_PATTERN = /^[a-zA-Z0-9]{16}$/
+
+/**
+ * Parse a WCL report code from a report URL or a bare code:
+ * - https://www.warcraftlogs.com/reports/a1B2c3D4e5F6g7H8
+ * - https://www.warcraftlogs.com/reports/a1B2c3D4e5F6g7H8#fight=12&type=damage-done
+ * - https://www.warcraftlogs.com/reports/a1B2c3D4e5F6g7H8?fight=last
+ * - a1B2c3D4e5F6g7H8
+ *
+ * @throws Error if the input isn't a report URL or code
+ */
+export function parseWclReportUrl(input: string): ParsedReportUrl {
+  const trimmed = input.trim()
+
+  if (validateReportCode(trimmed)) {
+    return {
+      reportCode: trimmed,
+      fightId: null,
+      originalUrl: input,
+    }
+  }
+
+  try {
+    const parsedUrl = new URL(trimmed)
+
+    // Check if it's a Warcraft Logs URL
+    if (!parsedUrl.hostname.includes('warcraftlogs.com')) {
+      throw new Error('URL must be from warcraftlogs.com')
+    }
+
+    const pathMatch = parsedUrl.pathname.match(/^\/reports\/([^/]+)\/?$/)
+    if (!pathMatch || !validateReportCode(pathMatch[1])) {
+      throw new Error(
+        'Could not extract report code from URL. ' +
+        'Accepted formats: ' +
+        'https://www.warcraftlogs.com/reports/<code> ' +
+        'or the 16-character report code on its own'
+      )
+    }
+
+    // The fight is in the fragment on links copied from the report page
+    const fightParam = new URLSearchParams(parsedUrl.hash.slice(1)).get('fight') ??
+      parsedUrl.searchParams.get('fight')
+    const fightId = fightParam && /^\d+$/.test(fightParam) ? parseInt(fightParam, 10) : null
+
+    return {
+      reportCode: pathMatch[1],
+      fightId,
+      originalUrl: input,
+    }
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new Error('Invalid report URL or code')
+    }
+    throw error
+  }
+}
+
+/**
+ * Validate that a report code looks like a WCL one (16 letters and digits)
+ */
+export function validateReportCode(code: string): boolean {
+  return REPORT_CODE_PATTERN.test(code)
+}
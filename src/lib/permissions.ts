@@ -1,4 +1,7 @@
 import { UserRank, JWTPayload } from './auth'
+import { query } from './db'
+import type { Permission, PermissionGrant, PermissionResource } from '../types/permission'
+import type { TeamMembershipRole } from '../types/team-membership'
 
 /**
  * PERMISSION SYSTEM - Beginner Friendly Guide
@@ -9,111 +12,203 @@ import { UserRank, JWTPayload } from './auth'
  * RANKS from highest to lowest:
  * 1. GUILD_MASTER - Can do everything
  * 2. COUNCIL - Can edit any team, but can't manage users
- * 3. TEAM_LEAD - Can only edit their assigned team
+ * 3. TEAM_LEAD - Can only edit the teams they are a member of
+ * 
+ * PERMISSIONS are named capabilities like 'team.roster.edit' or
+ * 'content.edit'. Each rank has a default set (RANK_PERMISSIONS below),
+ * team memberships grant team permissions for that team
+ * (MEMBERSHIP_PERMISSIONS), and guild roles can grant more through the
+ * role_permissions table. A user gets the union of all three, so a
+ * recruiting officer can be given exactly what they need without making
+ * them Council.
+ * 
+ * Routes should ask can(user, permission, resource) rather than check
+ * ranks themselves.
  */
 
 /**
- * Check if user is the Guild Master
- * Only Guild Master can manage users (create, delete, change passwords, etc.)
+ * Every permission, with what it allows
  */
-export function isGuildMaster(user: JWTPayload | null): boolean {
-  return user?.rank === 'GUILD_MASTER'
+export const PERMISSIONS: Record<Permission, string> = {
+  'team.view': 'View a team',
+  'team.edit': 'Edit a team\'s name, description and directive',
+  'team.roster.edit': 'Edit a team\'s roster, progress, team info and raid schedule',
+  'team.members.manage': 'Add and remove a team\'s leads, co-leads and officers',
+  'team.create': 'Create teams',
+  'team.delete': 'Delete teams',
+  'applications.review': 'Read a team\'s applications, comment and vote on them',
+  'applications.manage': 'Move a team\'s applications through the review workflow',
+  'loot.view': 'View a team\'s loot history and loot council votes',
+  'loot.manage': 'Award a team\'s loot and vote and take notes as its loot council',
+  'users.manage': 'Create, edit and delete accounts, reset passwords, sessions and 2FA',
+  'roles.manage': 'Create guild roles, assign them and choose their permissions',
+  'content.edit': 'Edit site content and upload images',
+  'season.manage': 'Change the season configuration',
+  'recovery.resolve': 'View and resolve account recovery requests',
+  'security.view': 'View the login attempt log',
+  'security.manage': 'Clear lockouts and set the two-factor policy',
+  'audit.view': 'View the audit log',
+  'system.migrate': 'Run database migrations',
 }
 
 /**
- * Check if user is Council or higher
- * Council and Guild Master can view/edit any team
+ * What each rank can do without any guild roles, on every team
+ * TEAM_LEAD gets nothing guild-wide; their access comes from memberships
  */
-export function isCouncilOrHigher(user: JWTPayload | null): boolean {
-  if (!user) return false
-  return user.rank === 'GUILD_MASTER' || user.rank === 'COUNCIL'
+const RANK_PERMISSIONS: Record<UserRank, Permission[]> = {
+  GUILD_MASTER: Object.keys(PERMISSIONS) as Permission[],
+  COUNCIL: [
+    'team.view',
+    'team.edit',
+    'team.roster.edit',
+    'team.members.manage',
+    'applications.review',
+    'applications.manage',
+    'loot.view',
+    'content.edit',
+    'security.view',
+  ],
+  TEAM_LEAD: [],
+}
+
+/**
+ * What a team membership allows, on that team only
+ */
+const MEMBERSHIP_PERMISSIONS: Record<TeamMembershipRole, Permission[]> = {
+  lead: [
+    'team.view',
+    'team.edit',
+    'team.roster.edit',
+    'team.members.manage',
+    'applications.review',
+    'applications.manage',
+    'loot.view',
+    'loot.manage',
+  ],
+  'co-lead': [
+    'team.view',
+    'team.edit',
+    'team.roster.edit',
+    'applications.review',
+    'applications.manage',
+    'loot.view',
+    'loot.manage',
+  ],
+  officer: ['team.view', 'team.roster.edit', 'applications.review', 'loot.view'],
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERMISSIONS, value)
 }
 
 /**
- * Check if user can access a specific team
+ * Get everything a user is allowed to do: their rank's defaults, their
+ * team memberships, and whatever their guild roles grant
  * 
- * Rules:
- * - GUILD_MASTER: Can access ALL teams
- * - COUNCIL: Can access ALL teams
- * - TEAM_LEAD: Can ONLY access their assigned team
+ * A team-specific guild role only grants its permissions for that team.
  */
-export function canAccessTeam(user: JWTPayload | null, teamId: number): boolean {
-  if (!user) return false
+export async function getUserPermissions(user: JWTPayload | null): Promise<PermissionGrant[]> {
+  if (!user) return []
+
+  const grants: PermissionGrant[] = []
 
-  // Guild Master and Council can access any team
-  if (user.rank === 'GUILD_MASTER' || user.rank === 'COUNCIL') {
-    return true
+  for (const permission of RANK_PERMISSIONS[user.rank] ?? []) {
+    grants.push({ permission, teamId: null })
   }
 
-  // Team Lead can only access their assigned team
-  if (user.rank === 'TEAM_LEAD') {
-    return user.teamId === teamId
+  const memberships = await query<{ team_id: number; role: TeamMembershipRole }>(
+    'SELECT team_id, role FROM team_memberships WHERE user_id = ?',
+    [user.userId]
+  )
+
+  for (const membership of memberships) {
+    for (const permission of MEMBERSHIP_PERMISSIONS[membership.role] ?? []) {
+      grants.push({ permission, teamId: Number(membership.team_id) })
+    }
   }
 
-  return false
-}
+  const rows = await query<{ permission: string; is_team_specific: number; team_id: number | null }>(
+    `SELECT rp.permission, r.is_team_specific, r.team_id
+     FROM role_assignments ra
+     JOIN guild_roles r ON r.id = ra.role_id
+     JOIN role_permissions rp ON rp.role_id = r.id
+     WHERE ra.user_id = ?`,
+    [user.userId]
+  )
 
-/**
- * Check if user can edit a specific team
- * Same rules as canAccessTeam (if you can access it, you can edit it)
- */
-export function canEditTeam(user: JWTPayload | null, teamId: number): boolean {
-  return canAccessTeam(user, teamId)
-}
+  for (const row of rows) {
+    if (!isPermission(row.permission)) continue
+    grants.push({
+      permission: row.permission,
+      teamId: row.is_team_specific && row.team_id ? Number(row.team_id) : null,
+    })
+  }
 
-/**
- * Check if user can manage other users
- * Only GUILD_MASTER can:
- * - Create new users
- * - Delete users
- * - Change user passwords
- * - Change user ranks
- * - Assign users to teams
- */
-export function canManageUsers(user: JWTPayload | null): boolean {
-  return isGuildMaster(user)
+  return grants
 }
 
 /**
- * Check if user can access the Account Manager page
- * Only GUILD_MASTER can access this page
+ * Check if user has a permission
+ * 
+ * Pass the team for team permissions: can(user, 'team.roster.edit', { teamId })
+ * A grant limited to one team only counts when that team is asked about.
  */
-export function canAccessAccountManager(user: JWTPayload | null): boolean {
-  return isGuildMaster(user)
+export async function can(
+  user: JWTPayload | null,
+  permission: Permission,
+  resource?: PermissionResource
+): Promise<boolean> {
+  const grants = await getUserPermissions(user)
+
+  return grants.some(grant =>
+    grant.permission === permission &&
+    (grant.teamId === null || grant.teamId === resource?.teamId)
+  )
 }
 
 /**
- * Get all team IDs that a user can access
+ * Get all team IDs that a user can view
  * Used for showing the list of teams on the frontend
  * 
  * Returns:
- * - GUILD_MASTER/COUNCIL: null (means "all teams")
- * - TEAM_LEAD: [their team ID]
- * - No user: []
+ * - null if they can view every team (GUILD_MASTER, COUNCIL, or a guild-wide role)
+ * - otherwise the IDs of the teams they can view: every team they are a
+ *   member of, plus any their guild roles cover (may be empty)
  */
-export function getAccessibleTeamIds(user: JWTPayload | null): number[] | null {
-  if (!user) return []
+export async function getAccessibleTeamIds(user: JWTPayload | null): Promise<number[] | null> {
+  return getPermittedTeamIds(user, 'team.view')
+}
+
+/**
+ * Get the team IDs a user holds a team permission for
+ * null means every team, like getAccessibleTeamIds
+ */
+export async function getPermittedTeamIds(
+  user: JWTPayload | null,
+  permission: Permission
+): Promise<number[] | null> {
+  const grants = (await getUserPermissions(user)).filter(grant => grant.permission === permission)
 
-  // Guild Master and Council can see all teams
-  if (user.rank === 'GUILD_MASTER' || user.rank === 'COUNCIL') {
+  if (grants.some(grant => grant.teamId === null)) {
     return null // null means "all teams"
   }
 
-  // Team Lead can only see their team
-  if (user.rank === 'TEAM_LEAD' && user.teamId) {
-    return [user.teamId]
-  }
+  return Array.from(new Set(grants.map(grant => grant.teamId as number)))
+}
 
-  return []
+
+/**
+ * Check if user is the Guild Master
+ * Only Guild Master can manage users (create, delete, change passwords, etc.)
+ */
+export function isGuildMaster(user: JWTPayload | null): boolean {
+  return user?.rank === 'GUILD_MASTER'
 }
 
 /**
- * Validate that a Team Lead has a team assigned
- * Team Leads MUST have a team, otherwise something is wrong
+ * Check if user can access the Account Manager page
+ * Only GUILD_MASTER can access this page
  */
-export function validateTeamLeadHasTeam(user: JWTPayload): boolean {
-  if (user.rank === 'TEAM_LEAD') {
-    return user.teamId !== null && user.teamId !== undefined
-  }
-  return true // Other ranks don't need a team
+export function canAccessAccountManager(user: JWTPayload | null): boolean {
+  return isGuildMaster(user)
 }
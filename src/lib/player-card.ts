@@ -0,0 +1,619 @@
+/**
+ * Player Card Service
+ *
+ * Builds a character's player card from Warcraft Logs: class, spec, avatar
+ * and best boss kill in the active season. Cards are cached per character
+ * and season key in character_enrichment_cache for CACHE_TTL_HOURS.
+ *
+ * WCL failures are thrown as they come from warcraft-logs-client (with a
+ * `code`); when WCL isn't configured and nothing is cached the error's code
+ * is WCL_NOT_CONFIGURED. Callers decide how to report them, except in
+ * batches, where each character's failure is reported with its result.
+ */
+
+import { parseWarcraftLogsCharacterUrl, type ParsedWarcraftLogsUrl } from './warcraft-logs-parser'
+import {
+  findCachedCharacter,
+  findCachedCharacterById,
+  upsertCacheEntry,
+  isCacheStale
+} from './character-enrichment-cache'
+import { getActiveSeasonConfig } from './season-config'
+import { BadRequestError } from './errors'
+import {
+  fetchWarcraftLogsCharacter,
+  fetchWarcraftLogsCharacterById,
+  fetchCharacterZoneProgression,
+  isWarcraftLogsConfigured
+} from './warcraft-logs-client'
+import type {
+  PlayerCard,
+  PlayerCardBatchItem,
+  PlayerCardBatchRequest,
+  PlayerCardBatchResult,
+  PlayerCardOptions,
+  PlayerCardResult,
+} from '../types/player-card'
+
+// TTL for cache in hours
+const CACHE_TTL_HOURS = 6
+
+// How many characters a batch fetches from WCL at a time
+const BATCH_CONCURRENCY = 4
+
+// Most characters one batch can list
+export const MAX_BATCH_SIZE = 100
+
+type SeasonConfig = Awaited<ReturnType<typeof getActiveSeasonConfig>> | null
+
+// Difficulty mapping (WCL uses numeric difficulty values)
+const DIFFICULTY_MAP: { [key: number]: 'Mythic' | 'Heroic' | 'Normal' } = {
+  5: 'Mythic',
+  4: 'Heroic',
+  3: 'Normal',
+}
+
+const DIFFICULTY_RANK = {
+  'Mythic': 3,
+  'Heroic': 2,
+  'Normal': 1,
+}
+
+/**
+ * Compute the best boss kill from zone progression data
+ * Returns the deepest boss kill with the hardest difficulty
+ */
+function computeBestBossKill(
+  progression: {
+    encounters: Array<{
+      encounterId: number
+      encounterName: string
+      kills: Array<{ difficulty: number; killDate?: number }>
+    }>
+  },
+  encounterOrder: number[],
+  encounterNames: Array<{ id: number; name: string }>
+): PlayerCard['bestKillLatestSeason'] {
+  if (!progression.encounters || progression.encounters.length === 0) {
+    console.log('[Best Kill] No encounters found in progression data')
+    return null
+  }
+
+  console.log('[Best Kill] Processing encounters:', progression.encounters.map(e => `${e.encounterName} (${e.encounterId})`).join(', '))
+  console.log('[Best Kill] Encounter order:', encounterOrder)
+  console.log('[Best Kill] Encounter names:', encounterNames)
+
+  let bestKill: {
+    bossId: number
+    bossName: string
+    difficulty: 'Mythic' | 'Heroic' | 'Normal'
+    orderIndex: number
+  } | null = null
+
+  // Iterate through encounter order (deepest boss = highest orderIndex)
+  for (let orderIndex = encounterOrder.length - 1; orderIndex >= 0; orderIndex--) {
+    const encounterId = encounterOrder[orderIndex]
+    const encounter = progression.encounters.find(e => e.encounterId === encounterId)
+
+    console.log(`[Best Kill] Checking orderIndex ${orderIndex}, encounterId ${encounterId}:`, encounter ? `Found ${encounter.encounterName} with ${encounter.kills.length} kills` : 'Not found')
+
+    if (!encounter || encounter.kills.length === 0) {
+      continue // No kill for this boss
+    }
+
+    // Find hardest difficulty killed
+    let hardestDifficulty: 'Mythic' | 'Heroic' | 'Normal' | null = null
+    for (const kill of encounter.kills) {
+      const difficultyName = DIFFICULTY_MAP[kill.difficulty]
+      console.log(`[Best Kill]   Kill difficulty: ${kill.difficulty} => ${difficultyName}`)
+      if (difficultyName) {
+        if (!hardestDifficulty || DIFFICULTY_RANK[difficultyName] > DIFFICULTY_RANK[hardestDifficulty]) {
+          hardestDifficulty = difficultyName
+        }
+      }
+    }
+
+    if (hardestDifficulty) {
+      // Found a kill! This is the deepest boss (we iterate from deepest to first)
+      const bossNameEntry = encounterNames.find(e => e.id === encounterId)
+      bestKill = {
+        bossId: encounterId,
+        bossName: bossNameEntry?.name || `Boss ${encounterId}`,
+        difficulty: hardestDifficulty,
+        orderIndex,
+      }
+      console.log(`[Best Kill] ✅ Selected best kill: ${hardestDifficulty} ${bestKill.bossName} (orderIndex: ${orderIndex})`)
+      break
+    }
+  }
+
+  if (!bestKill) {
+    console.log('[Best Kill] No valid kills found')
+  }
+
+  return bestKill
+}
+
+
+function notConfiguredError(message: string): Error {
+  const error = new Error(message)
+  ;(error as any).code = 'WCL_NOT_CONFIGURED'
+  return error
+}
+
+/**
+ * Load the active season config (optional, won't block if missing)
+ */
+async function loadActiveSeasonConfig(): Promise<SeasonConfig> {
+  try {
+    const activeSeasonConfig = await getActiveSeasonConfig()
+    if (activeSeasonConfig) {
+      console.log(`[enrich-player-card] Active season config: ${activeSeasonConfig.tier_name} (Zone ${activeSeasonConfig.wcl_zone_id})`)
+    } else {
+      console.log('[enrich-player-card] No active season config found')
+    }
+    return activeSeasonConfig
+  } catch (seasonConfigError) {
+    console.warn('[enrich-player-card] Failed to load season config (non-fatal):', seasonConfigError)
+    return null
+  }
+}
+
+/**
+ * Get a character's player card, from the cache while it's fresh
+ *
+ * If WCL fails or isn't configured, a stale cached card is returned with an
+ * explanation instead of failing.
+ */
+export async function enrichPlayerCard(
+  parsed: ParsedWarcraftLogsUrl,
+  options: PlayerCardOptions = {}
+): Promise<PlayerCardResult> {
+  return enrichWithSeason(parsed, options, await loadActiveSeasonConfig())
+}
+
+async function enrichWithSeason(
+  parsed: ParsedWarcraftLogsUrl,
+  options: PlayerCardOptions,
+  activeSeasonConfig: SeasonConfig
+): Promise<PlayerCardResult> {
+  const { seasonKey = 'latest', forceRefresh = false } = options
+  const seasonConfigUpdatedAt = activeSeasonConfig?.updated_at
+
+  // Check if this is an ID-based URL
+  if (parsed.type === 'id') {
+    // Handle ID-based URL
+    console.log(`🔍 Detected ID-based URL for character ID: ${parsed.characterId}`)
+
+    // Check if WCL API is configured
+    if (!isWarcraftLogsConfigured()) {
+      throw notConfiguredError('Warcraft Logs API is not configured. Cannot resolve character ID.')
+    }
+
+    // Fetch character data by ID from WCL
+    console.log(`🔄 Fetching character data by ID: ${parsed.characterId}`)
+    const wclData = await fetchWarcraftLogsCharacterById(parsed.characterId)
+
+    // Check cache (unless forceRefresh is true)
+    let cachedData = null
+    if (!forceRefresh) {
+      try {
+        cachedData = await findCachedCharacter({
+          region: wclData.region,
+          realm: wclData.realm,
+          character_name: wclData.characterName,
+          season_key: seasonKey,
+        })
+      } catch (dbError) {
+        console.error('[enrich] DB_READ_FAILED:', dbError)
+        // Continue without cache
+      }
+    } else {
+      console.log('🔄 forceRefresh=true, skipping cache check')
+    }
+
+    // If we have fresh cache, return it
+    if (cachedData && !isCacheStale(cachedData, CACHE_TTL_HOURS)) {
+      console.log(`✅ Cache hit for ${wclData.characterName}-${wclData.realm}-${wclData.region}`)
+      return { playerCard: buildPlayerCardFromCache(cachedData, parsed.originalUrl, seasonConfigUpdatedAt) }
+    }
+
+    // Fetch best boss kill from active season tier
+    const bestKill = await fetchBestBossKill(
+      wclData.region,
+      wclData.realm,
+      wclData.characterName,
+      activeSeasonConfig
+    )
+
+    // Build player card from fresh WCL data
+    const playerCard: PlayerCard = {
+      warcraftLogsUrl: parsed.originalUrl,
+      characterName: wclData.characterName,
+      realm: wclData.realm,
+      region: wclData.region,
+      class: wclData.class,
+      spec: wclData.spec,
+      avatarUrl: wclData.avatarUrl,
+      bestKillLatestSeason: bestKill,
+      classSpec: wclData.classSpec,
+      updatedAt: new Date().toISOString(),
+      fetchStatus: 'complete',
+    }
+
+    if (seasonConfigUpdatedAt) {
+      playerCard.seasonConfigUpdatedAt = seasonConfigUpdatedAt
+    }
+
+    // Update cache with characterId
+    try {
+      await upsertCacheEntry({
+        character_id: wclData.characterId,
+        region: wclData.region,
+        realm: wclData.realm,
+        character_name: wclData.characterName,
+        season_key: seasonKey,
+        player_card: playerCard,
+        wcl_last_fetched_at: new Date().toISOString(),
+        fetch_status: 'complete',
+        error_message: null,
+      })
+    } catch (dbError) {
+      console.error('[enrich] DB_WRITE_FAILED:', dbError)
+      // Continue, we can still return the data
+    }
+
+    console.log(`✅ Successfully enriched ${wclData.characterName}-${wclData.realm}-${wclData.region} from ID`)
+    return { playerCard, message: 'Player card enriched successfully' }
+  }
+
+  // Full format URL (region/realm/character)
+  const { region, realm, characterName, originalUrl } = parsed
+
+  // Look up cache (unless forceRefresh is true)
+  let cachedData = null
+  if (!forceRefresh) {
+    cachedData = await findCachedCharacter({
+      region,
+      realm,
+      character_name: characterName,
+      season_key: seasonKey,
+    })
+  } else {
+    console.log('🔄 forceRefresh=true, skipping cache check')
+  }
+
+  // Check if cache is fresh
+  if (cachedData && !isCacheStale(cachedData, CACHE_TTL_HOURS)) {
+    console.log(`✅ Cache hit for ${characterName}-${realm}-${region} (age: ${getAgeInHours(cachedData.updated_at).toFixed(1)}h)`)
+
+    // Return cached player card
+    return {
+      playerCard: buildPlayerCardFromCache(cachedData, originalUrl, seasonConfigUpdatedAt),
+      message: 'Player card returned from cache',
+    }
+  }
+
+  // Check if WCL API is configured
+  if (!isWarcraftLogsConfigured()) {
+    console.warn('⚠️  Warcraft Logs API credentials not configured')
+
+    // Return cached data if available, even if stale
+    if (cachedData) {
+      return {
+        playerCard: buildPlayerCardFromCache(cachedData, originalUrl, seasonConfigUpdatedAt),
+        message: 'WCL API not configured. Returning stale cached data.',
+      }
+    }
+
+    // No cache and no API access
+    throw notConfiguredError('Warcraft Logs API is not configured and no cached data is available')
+  }
+
+  // Fetch fresh data from Warcraft Logs
+  console.log(`🔄 Fetching fresh data for ${characterName}-${realm}-${region}`)
+
+  try {
+    const wclData = await fetchWarcraftLogsCharacter(region, realm, characterName)
+
+    // Fetch best boss kill from active season tier
+    const bestKill = await fetchBestBossKill(
+      region,
+      realm,
+      characterName,
+      activeSeasonConfig
+    )
+
+    // Build player card
+    const playerCard: PlayerCard = {
+      warcraftLogsUrl: originalUrl,
+      characterName: wclData.characterName,
+      realm: wclData.realm,
+      region: wclData.region,
+      class: wclData.class,
+      spec: wclData.spec,
+      avatarUrl: wclData.avatarUrl,
+      bestKillLatestSeason: bestKill,
+      classSpec: wclData.classSpec,
+      updatedAt: new Date().toISOString(),
+      fetchStatus: 'complete',
+    }
+
+    if (seasonConfigUpdatedAt) {
+      playerCard.seasonConfigUpdatedAt = seasonConfigUpdatedAt
+    }
+
+    // Update cache with characterId if available
+    await upsertCacheEntry({
+      character_id: wclData.characterId,
+      region,
+      realm,
+      character_name: characterName,
+      season_key: seasonKey,
+      player_card: playerCard,
+      wcl_last_fetched_at: new Date().toISOString(),
+      fetch_status: 'complete',
+      error_message: null,
+    })
+
+    console.log(`✅ Successfully enriched ${characterName}-${realm}-${region}`)
+
+    return { playerCard, message: 'Player card enriched successfully' }
+  } catch (wclError) {
+    const errorMessage = wclError instanceof Error ? wclError.message : 'Unknown error fetching from Warcraft Logs'
+
+    // If we have cached data, return it even though fetch failed
+    if (!cachedData) {
+      throw wclError
+    }
+
+    console.error(`[enrich] ${(wclError as any).code || 'UNKNOWN'}:`, errorMessage)
+    console.log('[enrich] Returning stale cached data due to fetch failure')
+
+    // Update cache with error info
+    try {
+      await upsertCacheEntry({
+        region,
+        realm,
+        character_name: characterName,
+        season_key: seasonKey,
+        fetch_status: 'failed',
+        error_message: errorMessage,
+      })
+    } catch (dbError) {
+      console.error('[enrich] DB_UPDATE_FAILED:', dbError)
+    }
+
+    const playerCard = buildPlayerCardFromCache(cachedData, originalUrl, seasonConfigUpdatedAt)
+    playerCard.errorMessage = `Failed to fetch fresh data: ${errorMessage}. Returning cached data.`
+
+    return { playerCard, message: 'Returning cached data (fetch failed)' }
+  }
+}
+
+/**
+ * Run `fn` over `items`, at most `limit` at a time, keeping their order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/**
+ * Player cards for many characters at once, e.g. a whole roster
+ *
+ * URLs for the same character are looked up once. Fresh cache hits are
+ * served without asking WCL; the rest are fetched BATCH_CONCURRENCY at a
+ * time. A character that can't be enriched comes back with fetchStatus
+ * 'failed' and its error code instead of failing the batch.
+ *
+ * Throws BadRequestError for more than MAX_BATCH_SIZE requests.
+ */
+export async function enrichPlayerCards(
+  requests: PlayerCardBatchRequest[],
+  options: PlayerCardOptions = {}
+): Promise<PlayerCardBatchResult> {
+  const { seasonKey = 'latest', forceRefresh = false } = options
+
+  if (requests.length > MAX_BATCH_SIZE) {
+    throw new BadRequestError(`A batch can list at most ${MAX_BATCH_SIZE} characters`)
+  }
+
+  const results: PlayerCardBatchItem[] = []
+  const pending: { item: PlayerCardBatchItem; parsed: ParsedWarcraftLogsUrl }[] = []
+  const byKey = new Map<string, PlayerCardBatchItem>()
+
+  for (const request of requests) {
+    let parsed: ParsedWarcraftLogsUrl
+    try {
+      parsed = parseWarcraftLogsCharacterUrl(request.warcraftLogsUrl)
+    } catch (error) {
+      results.push({
+        warcraftLogsUrls: [request.warcraftLogsUrl],
+        memberIds: request.memberId !== undefined ? [request.memberId] : [],
+        playerCard: null,
+        fetchStatus: 'failed',
+        cached: false,
+        errorCode: 'INVALID_URL',
+        errorMessage: `Invalid Warcraft Logs URL: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      })
+      continue
+    }
+
+    const key = parsed.type === 'id'
+      ? `id:${parsed.characterId}`
+      : [parsed.region, parsed.realm, parsed.characterName].join('|').toLowerCase()
+
+    const existing = byKey.get(key)
+    if (existing) {
+      if (!existing.warcraftLogsUrls.includes(request.warcraftLogsUrl)) {
+        existing.warcraftLogsUrls.push(request.warcraftLogsUrl)
+      }
+      if (request.memberId !== undefined) existing.memberIds.push(request.memberId)
+      continue
+    }
+
+    const item: PlayerCardBatchItem = {
+      warcraftLogsUrls: [request.warcraftLogsUrl],
+      memberIds: request.memberId !== undefined ? [request.memberId] : [],
+      playerCard: null,
+      fetchStatus: 'failed',
+      cached: false,
+    }
+    byKey.set(key, item)
+    results.push(item)
+    pending.push({ item, parsed })
+  }
+
+  const activeSeasonConfig = await loadActiveSeasonConfig()
+  const seasonConfigUpdatedAt = activeSeasonConfig?.updated_at
+
+  // Serve fresh cache hits first, so only misses wait on WCL
+  const misses: typeof pending = []
+  for (const entry of pending) {
+    const { item, parsed } = entry
+    let cachedData = null
+    if (!forceRefresh) {
+      try {
+        cachedData = parsed.type === 'id'
+          ? await findCachedCharacterById(parsed.characterId, seasonKey)
+          : await findCachedCharacter({
+            region: parsed.region,
+            realm: parsed.realm,
+            character_name: parsed.characterName,
+            season_key: seasonKey,
+          })
+      } catch (dbError) {
+        console.error('[enrich] DB_READ_FAILED:', dbError)
+      }
+    }
+
+    if (cachedData && !isCacheStale(cachedData, CACHE_TTL_HOURS)) {
+      item.playerCard = buildPlayerCardFromCache(cachedData, parsed.originalUrl, seasonConfigUpdatedAt)
+      item.fetchStatus = item.playerCard.fetchStatus
+      item.cached = true
+    } else {
+      misses.push(entry)
+    }
+  }
+
+  await mapWithConcurrency(misses, BATCH_CONCURRENCY, async ({ item, parsed }) => {
+    try {
+      const { playerCard } = await enrichWithSeason(parsed, options, activeSeasonConfig)
+      item.playerCard = playerCard
+      item.fetchStatus = playerCard.fetchStatus
+      if (playerCard.errorMessage) item.errorMessage = playerCard.errorMessage
+    } catch (wclError) {
+      item.errorCode = (wclError as any).code || 'UNKNOWN'
+      item.errorMessage = wclError instanceof Error ? wclError.message : 'Unknown error fetching from Warcraft Logs'
+      console.error(`[enrich] ${item.errorCode}:`, item.errorMessage)
+    }
+  })
+
+  return {
+    results,
+    counts: {
+      requested: requests.length,
+      unique: results.length,
+      cached: results.filter(item => item.cached).length,
+      fetched: misses.filter(({ item }) => item.playerCard).length,
+      failed: results.filter(item => !item.playerCard).length,
+    },
+  }
+}
+
+/**
+ * Fetch zone progression and compute best boss kill for a character
+ * Returns null if no active season config or if fetching fails
+ */
+async function fetchBestBossKill(
+  region: string,
+  realm: string,
+  characterName: string,
+  activeSeasonConfig: SeasonConfig
+): Promise<PlayerCard['bestKillLatestSeason']> {
+  if (!activeSeasonConfig) {
+    console.log('[Best Kill] No active season config, skipping zone progression fetch')
+    return null
+  }
+
+  try {
+    console.log(`[Best Kill] Fetching zone progression for ${characterName}-${realm}-${region} (Zone ${activeSeasonConfig.wcl_zone_id})`)
+    
+    const progression = await fetchCharacterZoneProgression(
+      region,
+      realm,
+      characterName,
+      activeSeasonConfig.wcl_zone_id
+    )
+
+    const bestKill = computeBestBossKill(
+      progression,
+      activeSeasonConfig.encounter_order,
+      activeSeasonConfig.encounter_names
+    )
+
+    if (bestKill) {
+      console.log(`[Best Kill] ✅ Found: ${bestKill.difficulty} ${bestKill.bossName}`)
+    } else {
+      console.log(`[Best Kill] ⚠️  No kills found in current tier`)
+    }
+
+    return bestKill
+  } catch (error) {
+    console.error('[Best Kill] ❌ Failed to fetch zone progression:', error)
+    // Non-fatal: return null so the rest of the player card still works
+    return null
+  }
+}
+
+/**
+ * Build player card from cached data
+ */
+function buildPlayerCardFromCache(cached: any, warcraftLogsUrl: string, seasonConfigUpdatedAt?: string): PlayerCard {
+  const playerCard = cached.player_card || {}
+  
+  const result: PlayerCard = {
+    warcraftLogsUrl,
+    characterName: cached.character_name,
+    realm: cached.realm,
+    region: cached.region,
+    class: playerCard.class || null,
+    spec: playerCard.spec || null,
+    avatarUrl: playerCard.avatarUrl || null,
+    bestKillLatestSeason: playerCard.bestKillLatestSeason || null,
+    classSpec: playerCard.classSpec || null,
+    updatedAt: cached.updated_at,
+    fetchStatus: cached.fetch_status || 'partial',
+    errorMessage: cached.error_message || undefined,
+  }
+
+  if (seasonConfigUpdatedAt) {
+    result.seasonConfigUpdatedAt = seasonConfigUpdatedAt
+  }
+
+  return result
+}
+
+/**
+ * Get cache age in hours
+ */
+function getAgeInHours(updatedAt: string): number {
+  const updated = new Date(updatedAt)
+  const now = new Date()
+  return (now.getTime() - updated.getTime()) / (1000 * 60 * 60)
+}
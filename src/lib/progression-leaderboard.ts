@@ -0,0 +1,109 @@
+/**
+ * Progression Leaderboard Service
+ *
+ * Ranks every team by bosses down in the active season. Built from the
+ * kills already cached for team progression (it never asks WCL itself) and
+ * the first-kill dates already recorded, and stored in
+ * progression_leaderboard; it's rebuilt when the data it came
+ * from changes: cached kills, rosters, imported raid reports, teams or
+ * the season config.
+ */
+
+import { query, queryOne, execute } from './db'
+import { NotFoundError } from './errors'
+import { getActiveSeasonConfig } from './season-config'
+import { getFirstKills, getTeamProgression } from './team-progression'
+import { rankLeaderboard, toLeaderboardEntry } from './team-progression-summary'
+import type { SeasonConfig } from '../types/season-config'
+import type { LeaderboardEntry, ProgressionLeaderboard } from '../types/team-progression'
+
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+/**
+ * A fingerprint of everything the leaderboard is built from
+ */
+async function getSourceState(season: SeasonConfig): Promise<string> {
+  const state = await queryOne<Record<string, string | number | null>>(
+    `SELECT
+       (SELECT MAX(fetched_at) FROM zone_progression_cache WHERE zone_id = ?) AS kills_fetched,
+       (SELECT COUNT(*) FROM zone_progression_cache WHERE zone_id = ?) AS kills_count,
+       (SELECT MAX(id) FROM roster_events) AS roster_event,
+       (SELECT MAX(imported_at) FROM raid_report_imports) AS reports_imported,
+       (SELECT MAX(updated_at) FROM teams) AS teams_updated,
+       (SELECT COUNT(*) FROM teams) AS teams_count`,
+    [season.wcl_zone_id, season.wcl_zone_id]
+  )
+
+  return [
+    state?.kills_fetched,
+    state?.kills_count,
+    state?.roster_event,
+    state?.reports_imported,
+    state?.teams_updated,
+    state?.teams_count,
+    season.updated_at,
+  ].join('|')
+}
+
+/**
+ * The leaderboard for the active season, rebuilt if anything changed
+ */
+export async function getProgressionLeaderboard(): Promise<ProgressionLeaderboard> {
+  const season = await getActiveSeasonConfig()
+  if (!season) {
+    throw new NotFoundError('No active season is configured')
+  }
+
+  const sourceState = await getSourceState(season)
+
+  const stored = await queryOne<{ source_state: string; standings: string; computed_at: string }>(
+    'SELECT source_state, standings, computed_at FROM progression_leaderboard WHERE season_config_id = ?',
+    [season.id]
+  )
+
+  if (stored && stored.source_state === sourceState) {
+    return {
+      seasonConfigId: season.id,
+      tierName: season.tier_name,
+      computedAt: stored.computed_at,
+      teams: JSON.parse(stored.standings),
+    }
+  }
+
+  const teams = await query<{ id: number; name: string }>('SELECT id, name FROM teams ORDER BY name')
+  const entries: LeaderboardEntry[] = []
+  for (const team of teams) {
+    const progression = await getTeamProgression(team.id, { cachedOnly: true })
+
+    // Only recorded first kills count, not ones worked out from a partial roster
+    const firstKills = await getFirstKills(team.id, season.id)
+    for (const boss of progression.bosses) {
+      boss.firstKills = firstKills.get(boss.encounterId) ?? {}
+    }
+
+    entries.push(toLeaderboardEntry(team.name, progression))
+  }
+
+  const standings = rankLeaderboard(entries)
+  const computedAt = toSqlTimestamp(new Date())
+
+  const updated = await execute(
+    'UPDATE progression_leaderboard SET source_state = ?, standings = ?, computed_at = ? WHERE season_config_id = ?',
+    [sourceState, JSON.stringify(standings), computedAt, season.id]
+  )
+  if (updated.changes === 0) {
+    await execute(
+      'INSERT INTO progression_leaderboard (season_config_id, source_state, standings, computed_at) VALUES (?, ?, ?, ?)',
+      [season.id, sourceState, JSON.stringify(standings), computedAt]
+    )
+  }
+
+  return {
+    seasonConfigId: season.id,
+    tierName: season.tier_name,
+    computedAt,
+    teams: standings,
+  }
+}
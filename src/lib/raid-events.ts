@@ -0,0 +1,385 @@
+/**
+ * Raid Events Service
+ *
+ * Each team's raid schedule: weekly raid nights and one-off events in
+ * raid_events, and occurrences that won't happen in
+ * raid_event_cancellations. Occurrences, the guild calendar and the .ics
+ * feeds are worked out from these (see raid-schedule.ts).
+ */
+
+import { query, queryOne, execute, withTransaction } from './db'
+import { isUniqueConstraintError } from './sql-dialect'
+import { BadRequestError, ConflictError, ValidationError } from './errors'
+import { WEEKDAYS, isTime, isTimeZone, parseTeamInfo } from './team-data-schema'
+import { expandOccurrences, occursOn } from './raid-schedule'
+import type { JWTPayload } from './auth'
+import type { Weekday } from '../types/team-data'
+import type {
+  CalendarOccurrence,
+  RaidEvent,
+  RaidEventCancellation,
+  RaidEventDetail,
+  RaidEventInput,
+  RaidEventKind,
+} from '../types/raid-event'
+
+export const RAID_EVENT_KINDS: RaidEventKind[] = ['weekly', 'one_off']
+
+const MAX_TITLE_LENGTH = 100
+const MAX_DESCRIPTION_LENGTH = 2000
+const MAX_REASON_LENGTH = 500
+const MAX_DURATION_MINUTES = 24 * 60
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+}
+
+function toInput(event: RaidEvent): RaidEventInput {
+  return {
+    kind: event.kind,
+    title: event.title,
+    description: event.description,
+    weekday: event.weekday,
+    date: event.event_date,
+    startTime: event.start_time,
+    durationMinutes: event.duration_minutes,
+    timezone: event.timezone,
+    startsOn: event.starts_on,
+    endsOn: event.ends_on,
+  }
+}
+
+/**
+ * Check and clean an event from a request body
+ * When editing, pass the event as it is: the body's fields are applied on
+ * top of it. New events default to the team's timezone from its team info.
+ * Fields that don't apply to the kind of event are dropped. Throws
+ * ValidationError listing every problem.
+ */
+export function validateRaidEvent(
+  body: any,
+  existing: RaidEvent | null,
+  defaultTimezone: string | null
+): RaidEventInput {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid event', { body: ['Expected an object'] })
+  }
+
+  const errors: Record<string, string[]> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+
+  const base: Partial<RaidEventInput> = existing ? toInput(existing) : { timezone: defaultTimezone ?? undefined }
+  const merged: Record<string, any> = { ...base }
+  for (const [field, value] of Object.entries(body)) {
+    if (value !== undefined) merged[field] = value
+  }
+
+  const kind = merged.kind as RaidEventKind
+  if (!RAID_EVENT_KINDS.includes(kind)) {
+    fail('kind', `kind must be one of: ${RAID_EVENT_KINDS.join(', ')}`)
+  }
+
+  const title = typeof merged.title === 'string' ? merged.title.trim() : ''
+  if (!title) {
+    fail('title', 'Title is required')
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    fail('title', `Title must be at most ${MAX_TITLE_LENGTH} characters`)
+  }
+
+  let description: string | null = null
+  if (merged.description !== undefined && merged.description !== null && merged.description !== '') {
+    if (typeof merged.description !== 'string') {
+      fail('description', 'description must be a string')
+    } else if (merged.description.length > MAX_DESCRIPTION_LENGTH) {
+      fail('description', `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`)
+    } else {
+      description = merged.description.trim() || null
+    }
+  }
+
+  if (!isTime(merged.startTime)) {
+    fail('startTime', 'startTime must be a time (HH:MM)')
+  }
+
+  const duration = merged.durationMinutes
+  if (!Number.isInteger(duration) || duration < 1 || duration > MAX_DURATION_MINUTES) {
+    fail('durationMinutes', `durationMinutes must be a whole number from 1 to ${MAX_DURATION_MINUTES}`)
+  }
+
+  if (typeof merged.timezone !== 'string' || !isTimeZone(merged.timezone)) {
+    fail('timezone', 'timezone must be a time zone name like America/New_York')
+  }
+
+  const event: RaidEventInput = {
+    kind,
+    title,
+    description,
+    weekday: null,
+    date: null,
+    startTime: merged.startTime,
+    durationMinutes: duration,
+    timezone: merged.timezone,
+    startsOn: null,
+    endsOn: null,
+  }
+
+  if (kind === 'weekly') {
+    if (!WEEKDAYS.includes(merged.weekday as Weekday)) {
+      fail('weekday', `weekday must be one of: ${WEEKDAYS.join(', ')}`)
+    }
+    for (const field of ['startsOn', 'endsOn'] as const) {
+      const value = merged[field]
+      if (value !== undefined && value !== null && value !== '' && !isValidDate(value)) {
+        fail(field, `${field} must be a date (YYYY-MM-DD)`)
+      }
+    }
+    event.weekday = merged.weekday
+    event.startsOn = merged.startsOn || null
+    event.endsOn = merged.endsOn || null
+    if (event.startsOn && event.endsOn && event.endsOn < event.startsOn) {
+      fail('endsOn', 'endsOn must not be before startsOn')
+    }
+  } else if (kind === 'one_off') {
+    if (!isValidDate(merged.date)) {
+      fail('date', 'date must be a date (YYYY-MM-DD)')
+    }
+    event.date = merged.date
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid event', errors)
+  }
+
+  return event
+}
+
+/**
+ * The timezone in a team's team info, if it has one
+ */
+export async function getTeamTimezone(teamId: number): Promise<string | null> {
+  const team = await queryOne<{ team_info: string | null }>('SELECT team_info FROM teams WHERE id = ?', [teamId])
+  const timezone = team ? parseTeamInfo(team.team_info).timezone : undefined
+  return timezone && isTimeZone(timezone) ? timezone : null
+}
+
+async function withCancellations(events: RaidEvent[]): Promise<RaidEventDetail[]> {
+  if (events.length === 0) return []
+
+  const cancellations = await query<RaidEventCancellation>(
+    `SELECT * FROM raid_event_cancellations
+     WHERE event_id IN (${events.map(() => '?').join(', ')})
+     ORDER BY occurrence_date`,
+    events.map(event => event.id)
+  )
+
+  return events.map(event => ({
+    ...event,
+    cancellations: cancellations.filter(cancellation => cancellation.event_id === event.id),
+  }))
+}
+
+/**
+ * A team's events: weekly ones by weekday and time, then one-offs by date
+ */
+export async function getTeamEvents(teamId: number): Promise<RaidEventDetail[]> {
+  const events = await query<RaidEvent>('SELECT * FROM raid_events WHERE team_id = ? ORDER BY id', [teamId])
+
+  // Weekly: weekday, then one-off: date; then start time
+  const sortKey = (event: RaidEvent) => event.kind === 'weekly'
+    ? `0 ${WEEKDAYS.indexOf(event.weekday!)} ${event.start_time}`
+    : `1 ${event.event_date} ${event.start_time}`
+  events.sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+
+  return withCancellations(events)
+}
+
+export async function getTeamEvent(teamId: number, eventId: number): Promise<RaidEventDetail | null> {
+  const event = await queryOne<RaidEvent>(
+    'SELECT * FROM raid_events WHERE id = ? AND team_id = ?',
+    [eventId, teamId]
+  )
+  return event ? (await withCancellations([event]))[0] : null
+}
+
+export async function createTeamEvent(
+  teamId: number,
+  input: RaidEventInput,
+  actor: JWTPayload
+): Promise<RaidEventDetail> {
+  const result = await execute(
+    `INSERT INTO raid_events
+       (team_id, kind, title, description, weekday, event_date, start_time, duration_minutes, timezone,
+        starts_on, ends_on, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      teamId,
+      input.kind,
+      input.title,
+      input.description ?? null,
+      input.weekday ?? null,
+      input.date ?? null,
+      input.startTime,
+      input.durationMinutes,
+      input.timezone,
+      input.startsOn ?? null,
+      input.endsOn ?? null,
+      actor.userId,
+    ]
+  )
+
+  return (await getTeamEvent(teamId, Number(result.lastInsertRowid)))!
+}
+
+/**
+ * Save an edited event
+ * Cancellations for dates the event no longer falls on are dropped.
+ */
+export async function updateTeamEvent(
+  teamId: number,
+  eventId: number,
+  input: RaidEventInput
+): Promise<RaidEventDetail> {
+  return withTransaction(async () => {
+    await execute(
+      `UPDATE raid_events SET kind = ?, title = ?, description = ?, weekday = ?, event_date = ?, start_time = ?,
+         duration_minutes = ?, timezone = ?, starts_on = ?, ends_on = ?, updated_at = DATETIME('now')
+       WHERE id = ? AND team_id = ?`,
+      [
+        input.kind,
+        input.title,
+        input.description ?? null,
+        input.weekday ?? null,
+        input.date ?? null,
+        input.startTime,
+        input.durationMinutes,
+        input.timezone,
+        input.startsOn ?? null,
+        input.endsOn ?? null,
+        eventId,
+        teamId,
+      ]
+    )
+
+    const event = (await getTeamEvent(teamId, eventId))!
+    for (const cancellation of event.cancellations) {
+      if (!occursOn(event, cancellation.occurrence_date)) {
+        await execute('DELETE FROM raid_event_cancellations WHERE id = ?', [cancellation.id])
+      }
+    }
+
+    return (await getTeamEvent(teamId, eventId))!
+  })
+}
+
+/**
+ * Remove an event with its cancellations and signups
+ * Attendance already recorded for it is kept.
+ */
+export async function removeTeamEvent(teamId: number, eventId: number): Promise<void> {
+  await withTransaction(async () => {
+    await execute('DELETE FROM raid_signups WHERE event_id = ?', [eventId])
+    await execute('DELETE FROM raid_event_cancellations WHERE event_id = ?', [eventId])
+    await execute('DELETE FROM raid_events WHERE id = ? AND team_id = ?', [eventId, teamId])
+  })
+}
+
+/**
+ * Remove a team's events with their cancellations
+ */
+export async function removeTeamEvents(teamId: number): Promise<void> {
+  await execute(
+    'DELETE FROM raid_event_cancellations WHERE event_id IN (SELECT id FROM raid_events WHERE team_id = ?)',
+    [teamId]
+  )
+  await execute('DELETE FROM raid_events WHERE team_id = ?', [teamId])
+}
+
+/**
+ * Call off one occurrence of an event
+ * Throws BadRequestError if the event doesn't happen on that date and
+ * ConflictError if it's already cancelled.
+ */
+export async function cancelOccurrence(
+  event: RaidEvent,
+  date: unknown,
+  reason: unknown,
+  actor: JWTPayload
+): Promise<RaidEventCancellation> {
+  const errors: Record<string, string[]> = {}
+  if (!isValidDate(date)) {
+    errors.date = ['date must be a date (YYYY-MM-DD)']
+  }
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    errors.reason = ['reason must be a string']
+  } else if (typeof reason === 'string' && reason.length > MAX_REASON_LENGTH) {
+    errors.reason = [`reason must be at most ${MAX_REASON_LENGTH} characters`]
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid cancellation', errors)
+  }
+
+  if (!occursOn(event, date as string)) {
+    throw new BadRequestError(`This event doesn't happen on ${date}`)
+  }
+
+  const existing = await queryOne(
+    'SELECT id FROM raid_event_cancellations WHERE event_id = ? AND occurrence_date = ?',
+    [event.id, date]
+  )
+  if (existing) {
+    throw new ConflictError(`The ${date} occurrence is already cancelled`)
+  }
+
+  try {
+    const result = await execute(
+      'INSERT INTO raid_event_cancellations (event_id, occurrence_date, reason, created_by) VALUES (?, ?, ?, ?)',
+      [event.id, date, (reason as string | undefined)?.trim() || null, actor.userId]
+    )
+
+    return (await queryOne<RaidEventCancellation>(
+      'SELECT * FROM raid_event_cancellations WHERE id = ?',
+      [result.lastInsertRowid]
+    ))!
+  } catch (error) {
+    // Cancelled twice at once
+    if (isUniqueConstraintError(error)) {
+      throw new ConflictError(`The ${date} occurrence is already cancelled`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Put a cancelled occurrence back on the schedule
+ */
+export async function restoreOccurrence(eventId: number, date: string): Promise<void> {
+  await execute(
+    'DELETE FROM raid_event_cancellations WHERE event_id = ? AND occurrence_date = ?',
+    [eventId, date]
+  )
+}
+
+/**
+ * Occurrences of every team's events (or one team's) overlapping [from, to)
+ */
+export async function getCalendar(from: Date, to: Date, teamId?: number): Promise<CalendarOccurrence[]> {
+  const teams = await query<{ id: number; name: string }>(
+    `SELECT id, name FROM teams${teamId !== undefined ? ' WHERE id = ?' : ''}`,
+    teamId !== undefined ? [teamId] : []
+  )
+  if (teams.length === 0) return []
+
+  const events = await query<RaidEvent>(
+    `SELECT * FROM raid_events WHERE team_id IN (${teams.map(() => '?').join(', ')})`,
+    teams.map(team => team.id)
+  )
+
+  return expandOccurrences(
+    await withCancellations(events),
+    new Map(teams.map(team => [team.id, team.name])),
+    from,
+    to
+  )
+}
@@ -0,0 +1,152 @@
+/**
+ * Raid Report Summary
+ *
+ * Works out what a Warcraft Logs report says about a raid night: which
+ * roster members were in it, the boss pulls on Normal, Heroic and Mythic,
+ * and the attendance to record from them. Players are matched to roster
+ * members by character name and realm; realms compare without case, spaces
+ * or punctuation, since WCL gives "Area52" where the roster has "Area 52".
+ *
+ * Kept free of database access so it can be tested on its own.
+ */
+
+import { WCL_DIFFICULTY_IDS } from './team-progression-summary'
+import type { RosterMember } from '../types/roster'
+import type { AttendanceStatus } from '../types/attendance'
+import type { RaidDifficulty } from '../types/team-data'
+import type { ReportPlayerMatch, WclReport } from '../types/raid-report'
+
+export interface ReportBossPull {
+  fightId: number
+  encounterId: number
+  encounterName: string
+  difficulty: RaidDifficulty
+  kill: boolean
+  fightPercentage: number | null
+  startTime: number
+  endTime: number
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLocaleLowerCase()
+}
+
+function normalizeRealm(realm: string): string {
+  return realm.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+/**
+ * Players who took part in the report's fights
+ * Reports from before WCL listed fight players fall back to everyone in it.
+ */
+function participants(report: WclReport): WclReport['players'] {
+  const ids = new Set(report.fights.flatMap(fight => fight.playerIds))
+  if (ids.size === 0) return report.players
+
+  return report.players.filter(player => ids.has(player.id))
+}
+
+/**
+ * Roster members who were in a report, and the players who aren't on it
+ * A member without a realm matches by name only if one player has it.
+ */
+export function matchReportPlayers(
+  members: Pick<RosterMember, 'id' | 'character_name' | 'realm'>[],
+  report: WclReport
+): ReportPlayerMatch {
+  const players = participants(report)
+  const matchedPlayers = new Set<number>()
+  const matchedMemberIds: number[] = []
+
+  for (const member of members) {
+    const named = players.filter(player => normalizeName(player.name) === normalizeName(member.character_name))
+    const realm = member.realm ? normalizeRealm(member.realm) : ''
+
+    const match = realm
+      ? named.find(player => !player.server || normalizeRealm(player.server) === realm)
+      : named.length === 1 ? named[0] : undefined
+
+    if (match) {
+      matchedPlayers.add(match.id)
+      matchedMemberIds.push(member.id)
+    }
+  }
+
+  return {
+    matchedMemberIds,
+    unmatchedPlayers: players
+      .filter(player => !matchedPlayers.has(player.id))
+      .map(player => (player.server ? `${player.name}-${player.server}` : player.name))
+      .sort(),
+  }
+}
+
+/**
+ * Boss pulls in a report, in order (trash and other difficulties left out)
+ */
+export function reportBossPulls(report: WclReport): ReportBossPull[] {
+  const difficulties = Object.entries(WCL_DIFFICULTY_IDS) as [RaidDifficulty, number][]
+
+  return report.fights
+    .filter(fight => fight.encounterId > 0)
+    .flatMap(fight => {
+      const difficulty = difficulties.find(([, id]) => id === fight.difficulty)?.[0]
+      if (!difficulty) return []
+
+      return [{
+        fightId: fight.id,
+        encounterId: fight.encounterId,
+        encounterName: fight.name,
+        difficulty,
+        kill: fight.kill === true,
+        fightPercentage: fight.fightPercentage,
+        startTime: fight.startTime,
+        endTime: fight.endTime,
+      }]
+    })
+    .sort((a, b) => a.startTime - b.startTime || a.fightId - b.fightId)
+}
+
+/**
+ * The first kill of each boss on each difficulty among some pulls
+ */
+export function firstKills(pulls: ReportBossPull[]): ReportBossPull[] {
+  const first = new Map<string, ReportBossPull>()
+
+  for (const pull of pulls) {
+    if (!pull.kill) continue
+    const key = `${pull.encounterId}:${pull.difficulty}`
+    const existing = first.get(key)
+    if (!existing || pull.endTime < existing.endTime) {
+      first.set(key, pull)
+    }
+  }
+
+  return [...first.values()].sort((a, b) => a.endTime - b.endTime)
+}
+
+/**
+ * Attendance for a raid night from the members seen in its reports
+ * Members seen are present, or keep 'late' if a lead marked them late.
+ * Main and trial members not seen are absent unless a lead benched them;
+ * bench and inactive members not seen keep whatever was recorded, if
+ * anything.
+ */
+export function reportAttendance(
+  members: Pick<RosterMember, 'id' | 'status'>[],
+  seenMemberIds: Set<number>,
+  recorded: Map<number, AttendanceStatus>
+): { memberId: number; status: AttendanceStatus }[] {
+  return members.flatMap(member => {
+    const current = recorded.get(member.id)
+
+    if (seenMemberIds.has(member.id)) {
+      return [{ memberId: member.id, status: current === 'late' ? 'late' : 'present' }]
+    }
+    if (member.status === 'main' || member.status === 'trial') {
+      return [{ memberId: member.id, status: current === 'bench' ? 'bench' : 'absent' }]
+    }
+
+    return current ? [{ memberId: member.id, status: current }] : []
+  })
+}
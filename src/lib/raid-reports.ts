@@ -0,0 +1,291 @@
+/**
+ * Raid Reports Service
+ *
+ * Imports Warcraft Logs reports for occurrences of a team's raid events.
+ * A report's players are matched against the roster to record attendance,
+ * its boss pulls go in raid_boss_pulls, and kills of the active season's
+ * bosses set the team's first-kill dates when they're earlier than the
+ * ones already known. See raid-report-summary.ts for the matching.
+ *
+ * A night can have several reports (e.g. when the logger changed partway
+ * through); members seen in any of them count as present. Importing a
+ * report again replaces what was imported from it before.
+ */
+
+import { query, queryOne, execute, withTransaction } from './db'
+import { BadRequestError, ConflictError, ValidationError } from './errors'
+import { getRoster } from './roster'
+import { getActiveSeasonConfig } from './season-config'
+import { RAID_DIFFICULTIES } from './team-data-schema'
+import { occurrenceStart, recordAttendance } from './attendance'
+import { occursOn } from './raid-schedule'
+import { firstKills, matchReportPlayers, reportAttendance, reportBossPulls } from './raid-report-summary'
+import { parseWclReportUrl } from './parse-wcl-report-url'
+import { fetchWarcraftLogsReport } from './warcraft-logs-client'
+import type { JWTPayload } from './auth'
+import type { RaidEventDetail } from '../types/raid-event'
+import type { AttendanceRecord, AttendanceStatus } from '../types/attendance'
+import type { RaidDifficulty } from '../types/team-data'
+import type {
+  OccurrenceReports,
+  RaidBossPull,
+  RaidReportImport,
+  ReportImportResult,
+  WclReport,
+} from '../types/raid-report'
+
+// How far a report's start can be from the raid's scheduled start
+const MAX_START_DIFFERENCE_HOURS = 12
+
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+function rowToImport(row: any): RaidReportImport {
+  return {
+    ...row,
+    matched_members: JSON.parse(row.matched_members || '[]'),
+    unmatched_players: JSON.parse(row.unmatched_players || '[]'),
+  }
+}
+
+function rowToPull(row: any): RaidBossPull {
+  return { ...row, killed: !!row.killed }
+}
+
+async function getReportImports(eventId: number, date: string): Promise<RaidReportImport[]> {
+  const rows = await query(
+    'SELECT * FROM raid_report_imports WHERE event_id = ? AND occurrence_date = ? ORDER BY started_at, id',
+    [eventId, date]
+  )
+  return rows.map(rowToImport)
+}
+
+async function getBossPulls(eventId: number, date: string): Promise<RaidBossPull[]> {
+  const rows = await query(
+    'SELECT * FROM raid_boss_pulls WHERE event_id = ? AND occurrence_date = ? ORDER BY started_at, id',
+    [eventId, date]
+  )
+  return rows.map(rowToPull)
+}
+
+/**
+ * Reports imported for one occurrence of an event, with their boss pulls
+ */
+export async function getOccurrenceReports(event: RaidEventDetail, date: string): Promise<OccurrenceReports> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !occursOn(event, date)) {
+    throw new BadRequestError(`This event doesn't happen on ${date}`)
+  }
+
+  return {
+    eventId: event.id,
+    date,
+    reports: await getReportImports(event.id, date),
+    pulls: await getBossPulls(event.id, date),
+  }
+}
+
+/**
+ * Set first-kill dates from a report's kills of the active season's bosses
+ * (a boss down on Mythic is also down on Heroic and Normal). Returns the
+ * dates that were added or moved earlier.
+ */
+async function recordReportKills(
+  teamId: number,
+  kills: { encounterId: number; difficulty: RaidDifficulty; killedAt: string }[]
+): Promise<{ encounterId: number; difficulty: RaidDifficulty }[]> {
+  const season = await getActiveSeasonConfig()
+  if (!season) return []
+
+  const recorded: { encounterId: number; difficulty: RaidDifficulty }[] = []
+
+  await withTransaction(async (tx) => {
+    for (const kill of kills) {
+      if (!season.encounter_order.includes(kill.encounterId)) continue
+
+      for (const difficulty of RAID_DIFFICULTIES.slice(0, RAID_DIFFICULTIES.indexOf(kill.difficulty) + 1)) {
+        const existing = await tx.queryOne<{ id: number; first_killed_at: string }>(
+          `SELECT id, first_killed_at FROM team_boss_kills
+           WHERE team_id = ? AND season_config_id = ? AND encounter_id = ? AND difficulty = ?`,
+          [teamId, season.id, kill.encounterId, difficulty]
+        )
+
+        if (!existing) {
+          await tx.execute(
+            `INSERT INTO team_boss_kills (team_id, season_config_id, encounter_id, difficulty, first_killed_at)
+             VALUES (?, ?, ?, ?, ?)`,
+            [teamId, season.id, kill.encounterId, difficulty, kill.killedAt]
+          )
+        } else if (existing.first_killed_at > kill.killedAt) {
+          await tx.execute('UPDATE team_boss_kills SET first_killed_at = ? WHERE id = ?', [kill.killedAt, existing.id])
+        } else {
+          continue
+        }
+
+        if (!recorded.some(entry => entry.encounterId === kill.encounterId && entry.difficulty === difficulty)) {
+          recorded.push({ encounterId: kill.encounterId, difficulty })
+        }
+      }
+    }
+  })
+
+  return recorded
+}
+
+/**
+ * Fetch the WCL report to import for an occurrence
+ * Body: { report } - a report URL or code. Throws ValidationError for
+ * something that isn't one, ConflictError if the report was imported for
+ * another raid, and BadRequestError if it wasn't logged around the time
+ * of this one. Kept apart from importRaidReport so no transaction is held
+ * open while WCL answers.
+ */
+export async function fetchRaidReport(event: RaidEventDetail, date: string, body: any): Promise<WclReport> {
+  const startsAt = occurrenceStart(event, date)
+
+  if (typeof body?.report !== 'string' || body.report.trim() === '') {
+    throw new ValidationError('Invalid report', { report: ['report must be a Warcraft Logs report URL or code'] })
+  }
+
+  let reportCode: string
+  try {
+    reportCode = parseWclReportUrl(body.report).reportCode
+  } catch (error) {
+    throw new ValidationError('Invalid report', {
+      report: [error instanceof Error ? error.message : 'Invalid report URL or code'],
+    })
+  }
+
+  const existing = await queryOne<{ event_id: number; occurrence_date: string }>(
+    'SELECT event_id, occurrence_date FROM raid_report_imports WHERE team_id = ? AND report_code = ?',
+    [event.team_id, reportCode]
+  )
+  if (existing && (existing.event_id !== event.id || existing.occurrence_date !== date)) {
+    throw new ConflictError(`Report ${reportCode} is already imported for the ${existing.occurrence_date} raid`)
+  }
+
+  const report = await fetchWarcraftLogsReport(reportCode)
+
+  const difference = Math.abs(report.startTime - startsAt.getTime())
+  if (difference > MAX_START_DIFFERENCE_HOURS * 60 * 60 * 1000) {
+    throw new BadRequestError(
+      `Report ${reportCode} started ${new Date(report.startTime).toISOString()}, ` +
+      `more than ${MAX_START_DIFFERENCE_HOURS} hours from this raid`
+    )
+  }
+
+  return report
+}
+
+/**
+ * Record a fetched report for an occurrence: the import itself, its boss
+ * pulls, the night's attendance and any earlier first kills
+ */
+export async function importRaidReport(
+  event: RaidEventDetail,
+  date: string,
+  report: WclReport,
+  actor: JWTPayload
+): Promise<ReportImportResult> {
+  const reportCode = report.code
+
+  const roster = await getRoster(event.team_id)
+  const match = matchReportPlayers(roster, report)
+  const pulls = reportBossPulls(report)
+
+  return withTransaction(async (tx) => {
+    await tx.execute('DELETE FROM raid_report_imports WHERE team_id = ? AND report_code = ?', [event.team_id, reportCode])
+    await tx.execute('DELETE FROM raid_boss_pulls WHERE team_id = ? AND report_code = ?', [event.team_id, reportCode])
+
+    await tx.execute(
+      `INSERT INTO raid_report_imports
+         (team_id, event_id, occurrence_date, report_code, title, zone_id, started_at, ended_at,
+          matched_members, unmatched_players, imported_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        event.team_id,
+        event.id,
+        date,
+        reportCode,
+        report.title,
+        report.zone?.id ?? null,
+        toSqlTimestamp(new Date(report.startTime)),
+        toSqlTimestamp(new Date(report.endTime)),
+        JSON.stringify(match.matchedMemberIds),
+        JSON.stringify(match.unmatchedPlayers),
+        actor.userId,
+      ]
+    )
+
+    for (const pull of pulls) {
+      await tx.execute(
+        `INSERT INTO raid_boss_pulls
+           (team_id, event_id, occurrence_date, report_code, fight_id, encounter_id, encounter_name,
+            difficulty, killed, fight_percentage, started_at, ended_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.team_id,
+          event.id,
+          date,
+          reportCode,
+          pull.fightId,
+          pull.encounterId,
+          pull.encounterName,
+          pull.difficulty,
+          pull.kill ? 1 : 0,
+          pull.fightPercentage,
+          toSqlTimestamp(new Date(pull.startTime)),
+          toSqlTimestamp(new Date(pull.endTime)),
+        ]
+      )
+    }
+
+    // Members seen in any of the night's reports
+    const seen = new Set((await getReportImports(event.id, date)).flatMap(entry => entry.matched_members))
+    const recorded = await tx.query<AttendanceRecord>(
+      'SELECT * FROM raid_attendance WHERE event_id = ? AND occurrence_date = ?',
+      [event.id, date]
+    )
+    const attendance = await recordAttendance(
+      event,
+      date,
+      {
+        attendance: reportAttendance(
+          roster,
+          seen,
+          new Map<number, AttendanceStatus>(recorded.map(record => [record.member_id, record.status]))
+        ),
+      },
+      actor
+    )
+
+    const firstKillsRecorded = await recordReportKills(
+      event.team_id,
+      firstKills(pulls).map(pull => ({
+        encounterId: pull.encounterId,
+        difficulty: pull.difficulty,
+        killedAt: toSqlTimestamp(new Date(pull.endTime)),
+      }))
+    )
+
+    const imported = await tx.queryOne(
+      'SELECT * FROM raid_report_imports WHERE team_id = ? AND report_code = ?',
+      [event.team_id, reportCode]
+    )
+
+    return {
+      report: rowToImport(imported),
+      pulls: (await getBossPulls(event.id, date)).filter(pull => pull.report_code === reportCode),
+      attendance,
+      firstKillsRecorded,
+    }
+  })
+}
+
+/**
+ * Remove a team's imported reports and boss pulls
+ */
+export async function removeTeamReports(teamId: number): Promise<void> {
+  await execute('DELETE FROM raid_boss_pulls WHERE team_id = ?', [teamId])
+  await execute('DELETE FROM raid_report_imports WHERE team_id = ?', [teamId])
+}
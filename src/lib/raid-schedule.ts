@@ -0,0 +1,222 @@
+/**
+ * Raid Schedule Helpers
+ *
+ * Turns a team's raid events into dated occurrences and an iCalendar feed.
+ * Events are stored in the team's local time (a weekday or date, a start
+ * time and an IANA timezone), so each occurrence is converted to UTC on its
+ * own date and raid nights stay at the same local time across DST changes.
+ *
+ * Kept free of database access so it can be tested on its own.
+ */
+
+import { WEEKDAYS } from './team-data-schema'
+import type { CalendarOccurrence, RaidEvent, RaidEventDetail } from '../types/raid-event'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Date.getUTCDay() order
+const DAY_INDEX_WEEKDAYS = [
+  WEEKDAYS[6],
+  ...WEEKDAYS.slice(0, 6),
+]
+
+/**
+ * A YYYY-MM-DD date moved by some days
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function weekdayOf(date: string) {
+  const [year, month, day] = date.split('-').map(Number)
+  return DAY_INDEX_WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]
+}
+
+// How far ahead of UTC the timezone's clock is at an instant, in ms
+function timeZoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'))
+
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * The instant a local date and time happen in a timezone
+ * A time skipped by a DST change comes out shifted by the change.
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // The offset at the guess can differ from the offset at the answer
+  // when a DST change falls in between, so check it once more
+  const firstOffset = timeZoneOffset(wallClock, timezone)
+  const secondOffset = timeZoneOffset(wallClock - firstOffset, timezone)
+
+  return new Date(wallClock - secondOffset)
+}
+
+/**
+ * Local dates an event happens on between two dates (inclusive)
+ */
+function eventDates(event: RaidEvent, fromDate: string, toDate: string): string[] {
+  if (event.kind === 'one_off') {
+    return event.event_date && event.event_date >= fromDate && event.event_date <= toDate
+      ? [event.event_date]
+      : []
+  }
+
+  const dates: string[] = []
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    if (weekdayOf(date) !== event.weekday) continue
+    if (event.starts_on && date < event.starts_on) continue
+    if (event.ends_on && date > event.ends_on) continue
+    dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Whether an event happens on a local date
+ */
+export function occursOn(event: RaidEvent, date: string): boolean {
+  return eventDates(event, date, date).length > 0
+}
+
+/**
+ * Occurrences of some events that overlap [from, to), by start time
+ * Cancelled occurrences are included and marked.
+ */
+export function expandOccurrences(
+  events: RaidEventDetail[],
+  teamNames: Map<number, string>,
+  from: Date,
+  to: Date
+): CalendarOccurrence[] {
+  // Local dates can be a day either side of the UTC ones
+  const fromDate = addDays(from.toISOString().slice(0, 10), -1)
+  const toDate = addDays(to.toISOString().slice(0, 10), 1)
+
+  const occurrences: CalendarOccurrence[] = []
+
+  for (const event of events) {
+    for (const date of eventDates(event, fromDate, toDate)) {
+      const startsAt = zonedTimeToUtc(date, event.start_time, event.timezone)
+      const endsAt = new Date(startsAt.getTime() + event.duration_minutes * 60 * 1000)
+      if (startsAt >= to || endsAt <= from) continue
+
+      const cancellation = event.cancellations.find(cancelled => cancelled.occurrence_date === date)
+
+      occurrences.push({
+        eventId: event.id,
+        teamId: event.team_id,
+        teamName: teamNames.get(event.team_id) ?? '',
+        kind: event.kind,
+        title: event.title,
+        description: event.description,
+        date,
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+        timezone: event.timezone,
+        cancelled: !!cancellation,
+        cancellationReason: cancellation?.reason ?? null,
+      })
+    }
+  }
+
+  return occurrences.sort((a, b) => a.startsAt.localeCompare(b.startsAt) || a.eventId - b.eventId)
+}
+
+// 2026-03-02T18:00:00.000Z -> 20260302T180000Z
+function icsTimestamp(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 bytes continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const pieces: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    const limit = pieces.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      pieces.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  pieces.push(current)
+
+  return pieces.join('\r\n ')
+}
+
+/**
+ * An iCalendar (RFC 5545) feed of occurrences
+ * Times are in UTC, so calendar apps show them in the subscriber's own
+ * timezone. Cancelled occurrences stay in the feed as cancelled, so
+ * subscribers see them disappear instead of keeping a stale copy.
+ */
+export function buildICalendar(
+  calendarName: string,
+  occurrences: CalendarOccurrence[],
+  options: { uidDomain: string; now: Date }
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Guild Team Manager//Raid Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+  ]
+
+  const stamp = icsTimestamp(options.now.toISOString())
+
+  for (const occurrence of occurrences) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:raid-event-${occurrence.eventId}-${occurrence.date}@${options.uidDomain}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsTimestamp(occurrence.startsAt)}`,
+      `DTEND:${icsTimestamp(occurrence.endsAt)}`,
+      `SUMMARY:${icsText(occurrence.cancelled ? `Cancelled: ${occurrence.title}` : occurrence.title)}`
+    )
+
+    const description = [occurrence.cancellationReason, occurrence.description].filter(Boolean).join('\n\n')
+    if (description) {
+      lines.push(`DESCRIPTION:${icsText(description)}`)
+    }
+
+    lines.push(`STATUS:${occurrence.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
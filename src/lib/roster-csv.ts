@@ -0,0 +1,204 @@
+/**
+ * Roster CSV Helpers
+ *
+ * Reading and writing rosters as CSV (RFC 4180: quoted fields, doubled
+ * quotes, CRLF or LF line ends) for leads who keep them in spreadsheets.
+ * Columns are found by header name, or by a mapping from header to roster
+ * field when a sheet uses its own names.
+ *
+ * Kept free of database access so it can be tested on its own.
+ */
+
+import type { RosterMember, RosterMemberInput } from '../types/roster'
+
+export type RosterField = keyof RosterMemberInput
+
+// Export order, with the header names each field is recognised by
+export const ROSTER_CSV_COLUMNS: { field: RosterField; header: string; aliases: string[] }[] = [
+  { field: 'characterName', header: 'Name', aliases: ['name', 'character', 'character name', 'charactername', 'player'] },
+  { field: 'realm', header: 'Realm', aliases: ['realm', 'server'] },
+  { field: 'region', header: 'Region', aliases: ['region'] },
+  { field: 'class', header: 'Class', aliases: ['class'] },
+  { field: 'spec', header: 'Spec', aliases: ['spec', 'specialization'] },
+  { field: 'role', header: 'Role', aliases: ['role'] },
+  { field: 'status', header: 'Status', aliases: ['status', 'rank'] },
+  { field: 'wclUrl', header: 'WCL URL', aliases: ['wcl url', 'wclurl', 'wcl', 'warcraft logs', 'logs'] },
+  { field: 'joinedAt', header: 'Joined', aliases: ['joined', 'joined at', 'joinedat', 'join date', 'joindate'] },
+  { field: 'notes', header: 'Notes', aliases: ['notes', 'note', 'comments'] },
+]
+
+const ROSTER_FIELDS = ROSTER_CSV_COLUMNS.map(column => column.field)
+
+// Cells a spreadsheet would run as a formula
+const FORMULA_START = /^[=+\-@\t\r]/
+
+function headerKey(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\s]+/g, ' ')
+}
+
+/**
+ * Split CSV text into rows of cells
+ * Blank lines are dropped; a byte order mark at the start is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * Write rows of cells as CSV
+ * Cells that would start a formula get a leading apostrophe, which
+ * readRosterCsv takes off again.
+ */
+export function toCsv(rows: (string | null)[][]): string {
+  return rows
+    .map(row => row
+      .map(value => {
+        let cell = value ?? ''
+        if (FORMULA_START.test(cell)) cell = `'${cell}`
+        return /[",\r\n]/.test(cell) || cell !== cell.trim() ? `"${cell.replace(/"/g, '""')}"` : cell
+      })
+      .join(','))
+    .join('\r\n') + '\r\n'
+}
+
+/**
+ * A roster as CSV, in display order, with a header row
+ */
+export function rosterToCsv(members: RosterMember[]): string {
+  return toCsv([
+    ROSTER_CSV_COLUMNS.map(column => column.header),
+    ...members.map(member => [
+      member.character_name,
+      member.realm,
+      member.region,
+      member.class,
+      member.spec,
+      member.role,
+      member.status,
+      member.wcl_url,
+      member.joined_at,
+      member.notes,
+    ]),
+  ])
+}
+
+/**
+ * Work out which column holds which field
+ * `mapping` maps header names to fields (null skips a column); headers it
+ * doesn't mention are recognised by name.
+ */
+export function resolveColumns(
+  headers: string[],
+  mapping?: Record<string, unknown> | null
+): { columns: Partial<Record<RosterField, number>>; ignored: string[]; errors: Record<string, string[]> } {
+  const errors: Record<string, string[]> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+
+  const mapped = new Map<string, unknown>()
+  for (const [header, field] of Object.entries(mapping ?? {})) {
+    if (!headers.some(candidate => headerKey(candidate) === headerKey(header))) {
+      fail('mapping', `There is no "${header}" column`)
+    } else if (field !== null && field !== '' && !ROSTER_FIELDS.includes(field as RosterField)) {
+      fail('mapping', `"${header}" maps to an unknown field; fields are: ${ROSTER_FIELDS.join(', ')}`)
+    }
+    mapped.set(headerKey(header), field)
+  }
+
+  const columns: Partial<Record<RosterField, number>> = {}
+  const ignored: string[] = []
+
+  headers.forEach((header, index) => {
+    const key = headerKey(header)
+    const field = mapped.has(key)
+      ? (mapped.get(key) || null) as RosterField | null
+      : ROSTER_CSV_COLUMNS.find(column => column.aliases.includes(key))?.field ?? null
+
+    if (!field || !ROSTER_FIELDS.includes(field)) {
+      ignored.push(header)
+    } else if (columns[field] !== undefined) {
+      fail('mapping', `More than one column is ${field}: "${headers[columns[field]!]}" and "${header}"`)
+    } else {
+      columns[field] = index
+    }
+  })
+
+  if (columns.characterName === undefined) {
+    fail('mapping', 'No column holds the character name; map one to characterName')
+  }
+
+  return { columns, ignored, errors }
+}
+
+/**
+ * Read a roster CSV into one set of values per data row
+ * Fields without a column are left out, so they can keep their current
+ * values; empty cells are ''.
+ */
+export function readRosterCsv(
+  text: string,
+  mapping?: Record<string, unknown> | null
+): {
+  rows: { line: number; values: Partial<Record<RosterField, string>> }[]
+  ignored: string[]
+  errors: Record<string, string[]>
+} {
+  const [headers, ...lines] = parseCsv(text)
+  if (!headers) {
+    return { rows: [], ignored: [], errors: { csv: ['The CSV is empty'] } }
+  }
+
+  const { columns, ignored, errors } = resolveColumns(headers, mapping)
+
+  const rows = lines.map((cells, index) => {
+    const values: Partial<Record<RosterField, string>> = {}
+    for (const [field, column] of Object.entries(columns) as [RosterField, number][]) {
+      const cell = (cells[column] ?? '').trim()
+      values[field] = /^'[=+\-@]/.test(cell) ? cell.slice(1) : cell
+    }
+    return { line: index + 2, values }
+  })
+
+  return { rows, ignored, errors }
+}
@@ -0,0 +1,109 @@
+/**
+ * Roster Format Helpers
+ *
+ * Conversion between roster_members rows and the old teams.roster JSON
+ * entries. Kept free of database access so migrations can use it too.
+ */
+
+import type {
+  LegacyRosterEntry,
+  RosterMember,
+  RosterMemberInput,
+  RosterRole,
+  RosterStatus,
+} from '../types/roster'
+
+export const ROSTER_ROLES: RosterRole[] = ['tank', 'healer', 'dps']
+export const ROSTER_STATUSES: RosterStatus[] = ['main', 'trial', 'bench', 'inactive']
+
+// Spellings seen in hand-edited rosters
+const ROLE_ALIASES: Record<string, RosterRole> = {
+  tank: 'tank',
+  healer: 'healer',
+  heal: 'healer',
+  heals: 'healer',
+  dps: 'dps',
+  damage: 'dps',
+  melee: 'dps',
+  ranged: 'dps',
+}
+
+const STATUS_ALIASES: Record<string, RosterStatus> = {
+  main: 'main',
+  active: 'main',
+  raider: 'main',
+  trial: 'trial',
+  trialist: 'trial',
+  bench: 'bench',
+  benched: 'bench',
+  inactive: 'inactive',
+}
+
+function text(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const trimmed = String(value).trim()
+  return trimmed === '' ? null : trimmed
+}
+
+export function normalizeRosterRole(value: unknown): RosterRole | null {
+  const key = text(value)?.toLowerCase()
+  return key ? ROLE_ALIASES[key] ?? null : null
+}
+
+export function normalizeRosterStatus(value: unknown): RosterStatus | null {
+  const key = text(value)?.toLowerCase()
+  return key ? STATUS_ALIASES[key] ?? null : null
+}
+
+/**
+ * Read one entry of an old-style roster array
+ * Accepts the legacy field names and loose role/status spellings
+ * ("Tank", "Active"). Returns null for entries without a character name.
+ */
+export function fromLegacyRosterEntry(entry: unknown): RosterMemberInput | null {
+  if (!entry || typeof entry !== 'object') return null
+  const raw = entry as Record<string, unknown>
+
+  const characterName = text(raw.name ?? raw.characterName ?? raw.character_name)
+  if (!characterName) return null
+
+  return {
+    characterName,
+    realm: text(raw.realm) ?? '',
+    region: text(raw.region)?.toLowerCase() ?? '',
+    class: text(raw.class),
+    spec: text(raw.spec),
+    role: normalizeRosterRole(raw.role),
+    status: normalizeRosterStatus(raw.status) ?? 'main',
+    wclUrl: text(raw.wclUrl ?? raw.wcl_url),
+    joinedAt: text(raw.joinDate ?? raw.joinedAt ?? raw.joined_at),
+    notes: text(raw.notes),
+  }
+}
+
+/**
+ * A roster row in the shape GET responses have always returned
+ */
+export function toLegacyRosterEntry(member: RosterMember): LegacyRosterEntry {
+  return {
+    id: member.id,
+    name: member.character_name,
+    realm: member.realm,
+    region: member.region,
+    class: member.class,
+    spec: member.spec,
+    role: member.role,
+    status: member.status,
+    wclUrl: member.wcl_url,
+    joinDate: member.joined_at,
+    notes: member.notes,
+  }
+}
+
+/**
+ * The key that makes a character unique on a team
+ * Character names are case-insensitive in game
+ */
+export function rosterKey(characterName: string, realm: string, region: string): string {
+  return [characterName, realm, region].map(part => part.toLowerCase()).join('|')
+}
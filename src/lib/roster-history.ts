@@ -0,0 +1,180 @@
+/**
+ * Roster History
+ *
+ * roster.ts records an event for every member added, edited or removed,
+ * together with who did it and the member's full state. The timeline is read
+ * back from those events, and the roster on any past date is the latest
+ * snapshot of every member whose last event by then wasn't a removal.
+ *
+ * Events use the global query helpers, so they commit or roll back with the
+ * roster change that caused them.
+ */
+
+import { query, queryOne, execute } from './db'
+import type { JWTPayload } from './auth'
+import type {
+  RosterEvent,
+  RosterEventType,
+  RosterFieldChange,
+  RosterHistoryFilters,
+  RosterMember,
+} from '../types/roster'
+
+// Fields whose changes show up in the timeline (position is display order only)
+const TRACKED_FIELDS: (keyof RosterMember)[] = [
+  'character_name',
+  'realm',
+  'region',
+  'class',
+  'spec',
+  'role',
+  'status',
+  'wcl_url',
+  'joined_at',
+  'notes',
+]
+
+// Timestamps are stored as UTC 'YYYY-MM-DD HH:MM:SS', like DATETIME('now')
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+/**
+ * Turn a date or timestamp into a stored timestamp
+ * A plain date (YYYY-MM-DD) means the end of that day, UTC
+ */
+export function toHistoryTimestamp(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${value} 23:59:59`
+  }
+  return toSqlTimestamp(new Date(value))
+}
+
+function parseEvent(row: any): RosterEvent {
+  return {
+    ...row,
+    changes: row.changes ? JSON.parse(row.changes) : null,
+    snapshot: JSON.parse(row.snapshot),
+  }
+}
+
+/**
+ * The tracked fields that differ between two states of a member
+ */
+export function diffRosterMember(
+  before: RosterMember,
+  after: RosterMember
+): Record<string, RosterFieldChange> {
+  const changes: Record<string, RosterFieldChange> = {}
+  for (const field of TRACKED_FIELDS) {
+    if ((before[field] ?? null) !== (after[field] ?? null)) {
+      changes[field] = { from: before[field] ?? null, to: after[field] ?? null }
+    }
+  }
+  return changes
+}
+
+/**
+ * Record one roster change
+ * 'updated' events with no tracked changes (e.g. a reorder) are skipped.
+ */
+export async function recordRosterEvent(
+  type: RosterEventType,
+  before: RosterMember | null,
+  after: RosterMember | null,
+  actor: JWTPayload | null
+): Promise<void> {
+  const member = (after ?? before)!
+  let changes: Record<string, RosterFieldChange> | null = null
+
+  if (type === 'updated') {
+    changes = diffRosterMember(before!, after!)
+    if (Object.keys(changes).length === 0) return
+  }
+
+  await execute(
+    `INSERT INTO roster_events
+       (team_id, member_id, character_name, event_type, changes, snapshot, actor_id, actor_username)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      member.team_id,
+      member.id,
+      member.character_name,
+      type,
+      changes ? JSON.stringify(changes) : null,
+      JSON.stringify(member),
+      actor?.userId ?? null,
+      actor?.username ?? null,
+    ]
+  )
+}
+
+/**
+ * A team's roster changes, newest first
+ */
+export async function getRosterHistory(
+  teamId: number,
+  filters: RosterHistoryFilters
+): Promise<{ events: RosterEvent[]; total: number }> {
+  const conditions = ['team_id = ?']
+  const values: any[] = [teamId]
+
+  if (filters.memberId !== undefined) {
+    conditions.push('member_id = ?')
+    values.push(filters.memberId)
+  }
+
+  if (filters.from) {
+    conditions.push('created_at >= ?')
+    values.push(toSqlTimestamp(new Date(filters.from)))
+  }
+
+  if (filters.to) {
+    conditions.push('created_at <= ?')
+    values.push(toHistoryTimestamp(filters.to))
+  }
+
+  const where = `WHERE ${conditions.join(' AND ')}`
+
+  const countRow = await queryOne<{ total: number }>(
+    `SELECT COUNT(*) as total FROM roster_events ${where}`,
+    values
+  )
+
+  const rows = await query<any>(
+    `SELECT * FROM roster_events
+     ${where}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ? OFFSET ?`,
+    [...values, filters.limit, (filters.page - 1) * filters.limit]
+  )
+
+  return {
+    events: rows.map(parseEvent),
+    total: Number(countRow?.total ?? 0),
+  }
+}
+
+/**
+ * Rebuild a team's roster as it was at a point in time
+ * `at` is a stored timestamp (see toHistoryTimestamp). Members are sorted
+ * by their position as of their last recorded change.
+ */
+export async function getRosterAt(teamId: number, at: string): Promise<RosterMember[]> {
+  const rows = await query<any>(
+    `SELECT e.* FROM roster_events e
+     WHERE e.team_id = ? AND e.created_at <= ?
+       AND e.id = (
+         SELECT e2.id FROM roster_events e2
+         WHERE e2.member_id = e.member_id AND e2.team_id = e.team_id AND e2.created_at <= ?
+         ORDER BY e2.created_at DESC, e2.id DESC
+         LIMIT 1
+       )`,
+    [teamId, at, at]
+  )
+
+  return rows
+    .filter(row => row.event_type !== 'removed')
+    .map(row => parseEvent(row).snapshot)
+    .sort((a, b) => a.position - b.position || a.id - b.id)
+}
@@ -0,0 +1,326 @@
+/**
+ * Roster Import
+ *
+ * Brings in a roster kept in a spreadsheet (CSV) or exported from another
+ * team (JSON). Every row is checked first and a preview says what would be
+ * added, updated or removed, with each row's problems, so leads can fix the
+ * sheet before anything is saved. Saving goes through replaceRoster(), so
+ * the roster history records each change like any other edit.
+ *
+ * Character names and realms are held to the same rules as Warcraft Logs
+ * character URLs, so every imported member can be looked up there.
+ */
+
+import { ValidationError } from './errors'
+import { getRoster, replaceRoster, validateRosterMember } from './roster'
+import { normalizeRosterRole, normalizeRosterStatus, toLegacyRosterEntry } from './roster-format'
+import { ROSTER_CSV_COLUMNS, readRosterCsv, type RosterField } from './roster-csv'
+import { normalizeCharacterName, normalizeRealmSlug, toRealmSlug } from './warcraft-logs-parser'
+import type { JWTPayload } from './auth'
+import type {
+  LegacyRosterEntry,
+  RosterImportMode,
+  RosterImportPreview,
+  RosterImportRow,
+  RosterMember,
+  RosterMemberInput,
+} from '../types/roster'
+
+export const ROSTER_IMPORT_MODES: RosterImportMode[] = ['merge', 'replace']
+
+export const MAX_IMPORT_ROWS = 500
+
+const ROSTER_FIELDS = ROSTER_CSV_COLUMNS.map(column => column.field)
+
+export interface RosterImportRequest {
+  mode: RosterImportMode
+  preview: boolean
+  rows: { line: number; values: Partial<Record<RosterField, unknown>> }[]
+  ignoredColumns: string[]
+}
+
+/**
+ * Read an import request body
+ * Body: { csv, mapping? } or { members: [...] } (the JSON export's shape),
+ * plus mode? ('merge', the default, or 'replace') and preview?.
+ * Throws ValidationError when the file itself can't be read; problems
+ * with single rows are left to previewRosterImport.
+ */
+export function readRosterImport(body: any): RosterImportRequest {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid roster import', { body: ['Expected an object'] })
+  }
+
+  const errors: Record<string, string[]> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+
+  const mode = body.mode ?? 'merge'
+  if (!ROSTER_IMPORT_MODES.includes(mode)) {
+    fail('mode', `mode must be one of: ${ROSTER_IMPORT_MODES.join(', ')}`)
+  }
+
+  if (body.preview !== undefined && typeof body.preview !== 'boolean') {
+    fail('preview', 'preview must be a boolean')
+  }
+
+  let rows: RosterImportRequest['rows'] = []
+  let ignoredColumns: string[] = []
+
+  if (typeof body.csv === 'string') {
+    if (body.mapping !== undefined && body.mapping !== null
+      && (typeof body.mapping !== 'object' || Array.isArray(body.mapping))) {
+      fail('mapping', 'mapping must be an object of column name to field')
+    } else {
+      const csv = readRosterCsv(body.csv, body.mapping)
+      Object.entries(csv.errors).forEach(([field, messages]) => messages.forEach(message => fail(field, message)))
+      rows = csv.rows
+      ignoredColumns = csv.ignored
+    }
+  } else if (Array.isArray(body.members)) {
+    rows = body.members.map((entry: unknown, index: number) => {
+      const values: Partial<Record<RosterField, unknown>> = {}
+      if (entry && typeof entry === 'object') {
+        for (const field of ROSTER_FIELDS) {
+          if ((entry as any)[field] !== undefined) values[field] = (entry as any)[field]
+        }
+      }
+      return { line: index + 1, values }
+    })
+  } else {
+    fail('body', 'Send the roster as csv (a string) or members (an array)')
+  }
+
+  if (rows.length === 0 && !errors.body && !errors.csv) {
+    fail('rows', 'There are no members to import')
+  } else if (rows.length > MAX_IMPORT_ROWS) {
+    fail('rows', `At most ${MAX_IMPORT_ROWS} members can be imported at once`)
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid roster import', errors)
+  }
+
+  return { mode, preview: body.preview === true, rows, ignoredColumns }
+}
+
+/**
+ * A roster member as it's exported, and read back by an import
+ */
+export function toRosterExport(member: RosterMember): RosterMemberInput {
+  return {
+    characterName: member.character_name,
+    realm: member.realm,
+    region: member.region,
+    class: member.class,
+    spec: member.spec,
+    role: member.role,
+    status: member.status,
+    wclUrl: member.wcl_url,
+    joinedAt: member.joined_at,
+    notes: member.notes,
+  }
+}
+
+/**
+ * Check one row and work out which member, if any, it updates
+ * Fields the file doesn't have keep the member's current values.
+ */
+function checkRow(
+  values: Partial<Record<RosterField, unknown>>,
+  existing: RosterMember[]
+): { member: RosterMemberInput | null; match: RosterMember | null; errors: Record<string, string[]> } {
+  const errors: Record<string, string[]> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+  const body: Record<string, unknown> = { ...values }
+
+  let characterName: string | null = null
+  try {
+    characterName = normalizeCharacterName(typeof values.characterName === 'string' ? values.characterName : '')
+  } catch (error) {
+    fail('characterName', (error as Error).message)
+  }
+
+  const realm = typeof values.realm === 'string' ? values.realm.trim() : ''
+  let realmSlug: string | null = null
+  try {
+    realmSlug = normalizeRealmSlug(toRealmSlug(realm))
+  } catch (error) {
+    fail('realm', (error as Error).message)
+  }
+
+  // Spreadsheets spell roles and statuses loosely ("Heals", "Trialist")
+  for (const [field, normalize] of [['role', normalizeRosterRole], ['status', normalizeRosterStatus]] as const) {
+    const value = values[field]
+    if (value === undefined || value === null) continue
+    if (String(value).trim() === '') {
+      if (field === 'role') body.role = null
+      else delete body.status
+    } else if (normalize(value)) {
+      body[field] = normalize(value)
+    } else {
+      fail(field, `Unknown ${field} "${value}"`)
+    }
+  }
+
+  let input: Partial<RosterMemberInput> = {}
+  try {
+    input = validateRosterMember(body, true)
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error
+    for (const [field, messages] of Object.entries(error.errors)) {
+      if (!errors[field]) errors[field] = messages
+    }
+  }
+
+  if (!characterName || realmSlug === null) {
+    return { member: null, match: null, errors }
+  }
+
+  const region = input.region || null
+  const candidates = existing.filter(member =>
+    member.character_name.toLowerCase() === characterName!.toLowerCase()
+    && toRealmSlug(member.realm) === realmSlug
+    && (!region || member.region === region)
+  )
+  if (candidates.length > 1) {
+    fail('region', `${characterName}-${realm} is on the roster for more than one region; give the region`)
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { member: null, match: null, errors }
+  }
+
+  const match = candidates[0] ?? null
+  const member: RosterMemberInput = {
+    ...(match ? toRosterExport(match) : { status: 'main' as const }),
+    ...input,
+    // Keep the roster's spelling of a matched member
+    characterName: match ? match.character_name : characterName,
+    realm: match ? match.realm : realm,
+  }
+
+  return { member, match, errors }
+}
+
+/**
+ * What an import would do to a team's roster
+ */
+export async function previewRosterImport(
+  teamId: number,
+  request: RosterImportRequest
+): Promise<RosterImportPreview> {
+  const existing = await getRoster(teamId)
+  const claimed = new Map<number, number>()
+  const seen = new Map<string, number>()
+
+  const rows: RosterImportRow[] = request.rows.map(({ line, values }, index) => {
+    const { member, match, errors } = checkRow(values, existing)
+
+    if (member) {
+      const key = [member.characterName, toRealmSlug(member.realm ?? ''), member.region ?? '']
+        .join('|').toLowerCase()
+      const earlier = seen.get(key) ?? (match ? claimed.get(match.id) : undefined)
+      if (earlier !== undefined) {
+        errors.characterName = [`${member.characterName} is already on row ${request.rows[earlier].line}`]
+      } else {
+        seen.set(key, index)
+        if (match) claimed.set(match.id, index)
+      }
+    }
+
+    if (!member || Object.keys(errors).length > 0) {
+      return { index, line, action: 'invalid', memberId: null, member: null, changes: [], errors }
+    }
+
+    const changes = match
+      ? ROSTER_FIELDS.filter(field => (member[field] ?? null) !== (toRosterExport(match)[field] ?? null))
+      : []
+
+    return {
+      index,
+      line,
+      action: !match ? 'add' : changes.length > 0 ? 'update' : 'unchanged',
+      memberId: match?.id ?? null,
+      member,
+      changes,
+      errors,
+    }
+  })
+
+  const listed = new Set(rows.map(row => row.memberId))
+  const removed = request.mode === 'replace'
+    ? existing
+      .filter(member => !listed.has(member.id))
+      .map(member => ({ memberId: member.id, characterName: member.character_name }))
+    : []
+
+  const counts = { add: 0, update: 0, unchanged: 0, invalid: 0, remove: removed.length }
+  rows.forEach(row => counts[row.action]++)
+
+  return {
+    mode: request.mode,
+    valid: counts.invalid === 0,
+    rows,
+    removed,
+    ignoredColumns: request.ignoredColumns,
+    counts,
+  }
+}
+
+/**
+ * Save a previewed import
+ * merge keeps the current order and adds new members at the end; replace
+ * takes the file's order and removes members it doesn't list. Nothing is
+ * saved if any row is invalid (ValidationError keyed rows[i].field).
+ */
+export async function applyRosterImport(
+  teamId: number,
+  preview: RosterImportPreview,
+  actor: JWTPayload | null
+): Promise<RosterMember[]> {
+  if (!preview.valid) {
+    const errors: Record<string, string[]> = {}
+    for (const row of preview.rows) {
+      for (const [field, messages] of Object.entries(row.errors)) {
+        errors[`rows[${row.index}].${field}`] = messages.map(message => `Row ${row.line}: ${message}`)
+      }
+    }
+    throw new ValidationError('Invalid roster import', errors)
+  }
+
+  const toEntry = (row: RosterImportRow): LegacyRosterEntry => {
+    const member = row.member!
+    return {
+      id: row.memberId ?? 0,
+      name: member.characterName,
+      realm: member.realm ?? '',
+      region: member.region ?? '',
+      class: member.class ?? null,
+      spec: member.spec ?? null,
+      role: member.role ?? null,
+      status: member.status ?? 'main',
+      wclUrl: member.wclUrl ?? null,
+      joinDate: member.joinedAt ?? null,
+      notes: member.notes ?? null,
+    }
+  }
+
+  let entries: LegacyRosterEntry[]
+  if (preview.mode === 'replace') {
+    entries = preview.rows.map(toEntry)
+  } else {
+    const updates = new Map(preview.rows.filter(row => row.memberId !== null).map(row => [row.memberId!, row]))
+    entries = [
+      ...(await getRoster(teamId)).map(member =>
+        updates.has(member.id) ? toEntry(updates.get(member.id)!) : toLegacyRosterEntry(member)
+      ),
+      ...preview.rows.filter(row => row.action === 'add').map(toEntry),
+    ]
+  }
+
+  return replaceRoster(teamId, entries, actor)
+}
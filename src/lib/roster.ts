@@ -0,0 +1,472 @@
+/**
+ * Roster Service
+ *
+ * A team's roster lives in roster_members, one row per character. Members
+ * are added, edited and removed individually, so two leads editing
+ * different characters no longer overwrite each other.
+ *
+ * The old `roster` array in team responses is built from these rows (see
+ * toLegacyRosterEntry). Clients that still save a whole array go through
+ * replaceRoster(), which keeps the rows of characters that are still there.
+ *
+ * Every change is also recorded as a roster event (see roster-history.ts),
+ * attributed to the acting user, and bumps the team's version (its ETag).
+ */
+
+import { query, queryOne, execute, withTransaction } from './db'
+import { isUniqueConstraintError } from './sql-dialect'
+import { ConflictError, ValidationError } from './errors'
+import { recordRosterEvent } from './roster-history'
+import {
+  ROSTER_ROLES,
+  ROSTER_STATUSES,
+  fromLegacyRosterEntry,
+  rosterKey,
+  toLegacyRosterEntry,
+} from './roster-format'
+import type { JWTPayload } from './auth'
+import type { LegacyRosterEntry, RosterMember, RosterMemberInput } from '../types/roster'
+
+export const ROSTER_REGIONS = ['us', 'eu', 'kr', 'tw', 'cn']
+
+const MAX_NAME_LENGTH = 64
+const MAX_NOTES_LENGTH = 1000
+
+// Input field -> column
+const COLUMNS: Record<keyof RosterMemberInput, string> = {
+  characterName: 'character_name',
+  realm: 'realm',
+  region: 'region',
+  class: 'class',
+  spec: 'spec',
+  role: 'role',
+  status: 'status',
+  wclUrl: 'wcl_url',
+  joinedAt: 'joined_at',
+  notes: 'notes',
+}
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// The roster is part of the team's data, so its version moves with it
+async function touchTeam(teamId: number): Promise<void> {
+  await execute(
+    "UPDATE teams SET version = version + 1, updated_at = DATETIME('now') WHERE id = ?",
+    [teamId]
+  )
+}
+
+/**
+ * Check and clean a member from a request body
+ * With `partial` only the fields present are checked (for edits).
+ * Throws ValidationError listing every problem.
+ */
+export function validateRosterMember(body: any, partial = false): Partial<RosterMemberInput> {
+  const errors: Record<string, string[]> = {}
+  const member: Partial<RosterMemberInput> = {}
+  const fail = (field: string, message: string) => {
+    errors[field] = [...(errors[field] || []), message]
+  }
+
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid roster member', { body: ['Expected an object'] })
+  }
+
+  const optionalText = (field: 'class' | 'spec' | 'notes' | 'wclUrl' | 'joinedAt', maxLength: number) => {
+    const value = body[field]
+    if (value === undefined) return
+    if (value === null || value === '') {
+      member[field] = null
+    } else if (typeof value !== 'string') {
+      fail(field, `${field} must be a string`)
+    } else if (value.trim().length > maxLength) {
+      fail(field, `${field} must be at most ${maxLength} characters`)
+    } else {
+      member[field] = value.trim()
+    }
+  }
+
+  if (body.characterName !== undefined || !partial) {
+    const name = typeof body.characterName === 'string' ? body.characterName.trim() : ''
+    if (!name) {
+      fail('characterName', 'Character name is required')
+    } else if (name.length > MAX_NAME_LENGTH) {
+      fail('characterName', `Character name must be at most ${MAX_NAME_LENGTH} characters`)
+    } else {
+      member.characterName = name
+    }
+  }
+
+  if (body.realm !== undefined) {
+    if (body.realm !== null && typeof body.realm !== 'string') {
+      fail('realm', 'realm must be a string')
+    } else {
+      member.realm = (body.realm ?? '').trim()
+    }
+  }
+
+  if (body.region !== undefined) {
+    const region = typeof body.region === 'string' ? body.region.trim().toLowerCase() : body.region
+    if (region !== null && region !== '' && !ROSTER_REGIONS.includes(region)) {
+      fail('region', `region must be one of: ${ROSTER_REGIONS.join(', ')}`)
+    } else {
+      member.region = region ?? ''
+    }
+  }
+
+  optionalText('class', 32)
+  optionalText('spec', 32)
+  optionalText('notes', MAX_NOTES_LENGTH)
+
+  if (body.role !== undefined) {
+    if (body.role !== null && !ROSTER_ROLES.includes(body.role)) {
+      fail('role', `role must be one of: ${ROSTER_ROLES.join(', ')}`)
+    } else {
+      member.role = body.role
+    }
+  }
+
+  if (body.status !== undefined) {
+    if (!ROSTER_STATUSES.includes(body.status)) {
+      fail('status', `status must be one of: ${ROSTER_STATUSES.join(', ')}`)
+    } else {
+      member.status = body.status
+    }
+  }
+
+  optionalText('wclUrl', 512)
+  if (member.wclUrl && !isHttpUrl(member.wclUrl)) {
+    fail('wclUrl', 'wclUrl must be an http(s) URL')
+  }
+
+  optionalText('joinedAt', 10)
+  if (member.joinedAt && !isValidDate(member.joinedAt)) {
+    fail('joinedAt', 'joinedAt must be a date (YYYY-MM-DD)')
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid roster member', errors)
+  }
+
+  return member
+}
+
+/**
+ * A team's roster in display order
+ */
+export async function getRoster(teamId: number): Promise<RosterMember[]> {
+  return query<RosterMember>(
+    'SELECT * FROM roster_members WHERE team_id = ? ORDER BY position, id',
+    [teamId]
+  )
+}
+
+/**
+ * The old-style roster arrays for several teams at once, keyed by team id
+ */
+export async function getLegacyRosters(teamIds: number[]): Promise<Map<number, LegacyRosterEntry[]>> {
+  const rosters = new Map<number, LegacyRosterEntry[]>(teamIds.map(id => [id, []]))
+  if (teamIds.length === 0) return rosters
+
+  const rows = await query<RosterMember>(
+    `SELECT * FROM roster_members WHERE team_id IN (${teamIds.map(() => '?').join(',')})
+     ORDER BY team_id, position, id`,
+    teamIds
+  )
+  for (const row of rows) {
+    rosters.get(row.team_id)?.push(toLegacyRosterEntry(row))
+  }
+  return rosters
+}
+
+export async function getLegacyRoster(teamId: number): Promise<LegacyRosterEntry[]> {
+  return (await getRoster(teamId)).map(toLegacyRosterEntry)
+}
+
+export async function getRosterMember(teamId: number, memberId: number): Promise<RosterMember | null> {
+  return queryOne<RosterMember>(
+    'SELECT * FROM roster_members WHERE id = ? AND team_id = ?',
+    [memberId, teamId]
+  )
+}
+
+/**
+ * Add a character to the end of a team's roster
+ * Throws ConflictError if the character is already on it
+ */
+export async function addRosterMember(
+  teamId: number,
+  input: RosterMemberInput,
+  actor: JWTPayload | null
+): Promise<RosterMember> {
+  try {
+    return await withTransaction(async (tx) => {
+      const last = await tx.queryOne<{ position: number | null }>(
+        'SELECT MAX(position) AS position FROM roster_members WHERE team_id = ?',
+        [teamId]
+      )
+
+      const result = await tx.execute(
+        `INSERT INTO roster_members
+           (team_id, character_name, realm, region, class, spec, role, status, wcl_url, joined_at, notes, position)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          teamId,
+          input.characterName,
+          input.realm ?? '',
+          input.region ?? '',
+          input.class ?? null,
+          input.spec ?? null,
+          input.role ?? null,
+          input.status ?? 'main',
+          input.wclUrl ?? null,
+          input.joinedAt ?? null,
+          input.notes ?? null,
+          last?.position === null || last?.position === undefined ? 0 : Number(last.position) + 1,
+        ]
+      )
+
+      const member = (await tx.queryOne<RosterMember>(
+        'SELECT * FROM roster_members WHERE id = ?',
+        [result.lastInsertRowid]
+      ))!
+
+      await recordRosterEvent('added', null, member, actor)
+      await touchTeam(teamId)
+      return member
+    })
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ConflictError(`${input.characterName} is already on this roster`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Change some fields of a roster member
+ * Returns null if the member isn't on this team's roster
+ */
+export async function updateRosterMember(
+  teamId: number,
+  memberId: number,
+  changes: Partial<RosterMemberInput>,
+  actor: JWTPayload | null
+): Promise<RosterMember | null> {
+  const fields = (Object.keys(changes) as (keyof RosterMemberInput)[])
+    .filter(field => changes[field] !== undefined)
+
+  const before = await getRosterMember(teamId, memberId)
+  if (!before || fields.length === 0) return before
+
+  try {
+    return await withTransaction(async (tx) => {
+      await tx.execute(
+        `UPDATE roster_members
+         SET ${fields.map(field => `${COLUMNS[field]} = ?`).join(', ')}, updated_at = DATETIME('now')
+         WHERE id = ? AND team_id = ?`,
+        [...fields.map(field => changes[field]), memberId, teamId]
+      )
+
+      const after = (await getRosterMember(teamId, memberId))!
+      await recordRosterEvent('updated', before, after, actor)
+      await touchTeam(teamId)
+      return after
+    })
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ConflictError('Another roster member already has that character name and realm')
+    }
+    throw error
+  }
+}
+
+/**
+ * Take a character off a team's roster
+ * Returns false if it wasn't on it
+ */
+export async function removeRosterMember(
+  teamId: number,
+  memberId: number,
+  actor: JWTPayload | null
+): Promise<boolean> {
+  const before = await getRosterMember(teamId, memberId)
+  if (!before) return false
+
+  await withTransaction(async (tx) => {
+    await tx.execute('DELETE FROM roster_members WHERE id = ?', [memberId])
+    await recordRosterEvent('removed', before, null, actor)
+    await touchTeam(teamId)
+  })
+  return true
+}
+
+// Old-style roster entries name these fields differently
+const LEGACY_FIELDS: Record<string, string> = {
+  characterName: 'name',
+  joinedAt: 'joinDate',
+}
+
+/**
+ * Save a whole old-style roster array
+ * Entries are matched to existing rows by id, then by character name, realm
+ * and region; matched rows are updated in place, the rest are inserted and
+ * rows missing from the array are removed. Array order becomes the display
+ * order. Throws ValidationError if an entry fails validateRosterMember(),
+ * keyed by entry, e.g. roster[2].region.
+ */
+export async function replaceRoster(
+  teamId: number,
+  entries: unknown,
+  actor: JWTPayload | null
+): Promise<RosterMember[]> {
+  if (!Array.isArray(entries)) {
+    throw new ValidationError('Invalid roster', { roster: ['roster must be an array'] })
+  }
+
+  const errors: Record<string, string[]> = {}
+  const parsed = entries.map((entry, index) => {
+    let member = fromLegacyRosterEntry(entry)
+    if (!member) {
+      errors[`roster[${index}].name`] = ['Character name is required']
+    } else {
+      // Same checks as a member saved on its own
+      try {
+        member = validateRosterMember(member) as RosterMemberInput
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error
+        for (const [field, messages] of Object.entries(error.errors)) {
+          errors[`roster[${index}].${LEGACY_FIELDS[field] ?? field}`] = messages
+        }
+      }
+    }
+    return {
+      id: entry && typeof entry === 'object' ? Number((entry as any).id) || null : null,
+      member,
+    }
+  })
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid roster', errors)
+  }
+
+  return withTransaction(async (tx) => {
+    const existing = await tx.query<RosterMember>(
+      'SELECT * FROM roster_members WHERE team_id = ?',
+      [teamId]
+    )
+    const byId = new Map(existing.map(row => [row.id, row]))
+    const byKey = new Map(existing.map(row => [rosterKey(row.character_name, row.realm, row.region), row]))
+    const kept = new Set<number>()
+    const seenKeys = new Set<string>()
+    const saved: { id: number | null; member: RosterMemberInput; position: number }[] = []
+
+    parsed.forEach(({ id, member }, position) => {
+      const key = rosterKey(member!.characterName, member!.realm ?? '', member!.region ?? '')
+      if (seenKeys.has(key)) {
+        throw new ValidationError('Invalid roster', {
+          [`roster[${position}].name`]: [`${member!.characterName} is listed more than once`],
+        })
+      }
+      seenKeys.add(key)
+
+      const match = (id !== null && byId.get(id)) || byKey.get(key)
+      const matchId = match && !kept.has(match.id) ? match.id : null
+      if (matchId !== null) kept.add(matchId)
+      saved.push({ id: matchId, member: member!, position })
+    })
+
+    // Remove first, so a renamed character can take a removed one's name
+    for (const row of existing) {
+      if (!kept.has(row.id)) {
+        await tx.execute('DELETE FROM roster_members WHERE id = ?', [row.id])
+        await recordRosterEvent('removed', row, null, actor)
+      }
+    }
+
+    for (const { id, member, position } of saved) {
+      const values = [
+        member.characterName,
+        member.realm ?? '',
+        member.region ?? '',
+        member.class ?? null,
+        member.spec ?? null,
+        member.role ?? null,
+        member.status ?? 'main',
+        member.wclUrl ?? null,
+        member.joinedAt ?? null,
+        member.notes ?? null,
+        position,
+      ]
+
+      if (id !== null) {
+        await tx.execute(
+          `UPDATE roster_members
+           SET character_name = ?, realm = ?, region = ?, class = ?, spec = ?, role = ?, status = ?,
+               wcl_url = ?, joined_at = ?, notes = ?, position = ?, updated_at = DATETIME('now')
+           WHERE id = ?`,
+          [...values, id]
+        )
+        const after = await tx.queryOne<RosterMember>('SELECT * FROM roster_members WHERE id = ?', [id])
+        await recordRosterEvent('updated', byId.get(id)!, after, actor)
+      } else {
+        const result = await tx.execute(
+          `INSERT INTO roster_members
+             (character_name, realm, region, class, spec, role, status, wcl_url, joined_at, notes, position, team_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [...values, teamId]
+        )
+        const added = await tx.queryOne<RosterMember>(
+          'SELECT * FROM roster_members WHERE id = ?',
+          [result.lastInsertRowid]
+        )
+        await recordRosterEvent('added', null, added, actor)
+      }
+    }
+
+    await touchTeam(teamId)
+
+    return tx.query<RosterMember>(
+      'SELECT * FROM roster_members WHERE team_id = ? ORDER BY position, id',
+      [teamId]
+    )
+  })
+}
+
+/**
+ * Which teams a character is on
+ * Names and realms compare case-insensitively (column collation); realm
+ * narrows it down when given
+ */
+export async function findCharacterTeams(
+  characterName: string,
+  realm?: string
+): Promise<(RosterMember & { team_name: string })[]> {
+  const conditions = ['rm.character_name = ?']
+  const values: any[] = [characterName.trim()]
+
+  if (realm) {
+    conditions.push('rm.realm = ?')
+    values.push(realm.trim())
+  }
+
+  return query<RosterMember & { team_name: string }>(
+    `SELECT rm.*, t.name AS team_name
+     FROM roster_members rm
+     JOIN teams t ON t.id = rm.team_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY t.name`,
+    values
+  )
+}
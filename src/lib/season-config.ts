@@ -4,7 +4,7 @@
  * Database operations for raid tier season configuration
  */
 
-import { query, queryOne, execute } from './db'
+import { query, queryOne, execute, withTransaction } from './db'
 import type {
   SeasonConfig,
   SeasonConfigCreate,
@@ -60,24 +60,26 @@ export async function createSeasonConfig(
   const encounterNames = JSON.stringify(data.encounter_names || [])
   const isActive = data.is_active ? 1 : 0
 
-  // If this should be active, deactivate all others first
-  if (data.is_active) {
-    await execute(`UPDATE season_config SET is_active = 0 WHERE is_active = 1`)
-  }
-
-  const result = await execute(
-    `INSERT INTO season_config 
-     (tier_name, wcl_tier_url, wcl_zone_id, encounter_order, encounter_names, is_active, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, DATETIME('now'))`,
-    [data.tier_name, data.wcl_tier_url, data.wcl_zone_id, encounterOrder, encounterNames, isActive]
-  )
-
-  const newConfig = await getSeasonConfigById(result.lastInsertRowid as number)
-  if (!newConfig) {
-    throw new Error('Failed to retrieve created season config')
-  }
-
-  return newConfig
+  return withTransaction(async (tx) => {
+    // If this should be active, deactivate all others first
+    if (data.is_active) {
+      await tx.execute(`UPDATE season_config SET is_active = 0 WHERE is_active = 1`)
+    }
+
+    const result = await tx.execute(
+      `INSERT INTO season_config 
+       (tier_name, wcl_tier_url, wcl_zone_id, encounter_order, encounter_names, is_active, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, DATETIME('now'))`,
+      [data.tier_name, data.wcl_tier_url, data.wcl_zone_id, encounterOrder, encounterNames, isActive]
+    )
+
+    const newConfig = await getSeasonConfigById(result.lastInsertRowid as number)
+    if (!newConfig) {
+      throw new Error('Failed to retrieve created season config')
+    }
+
+    return newConfig
+  })
 }
 
 /**
@@ -92,11 +94,6 @@ export async function updateSeasonConfig(
     throw new Error(`Season config with id ${id} not found`)
   }
 
-  // If setting this as active, deactivate all others first
-  if (data.is_active) {
-    await execute(`UPDATE season_config SET is_active = 0 WHERE is_active = 1 AND id != ?`, [id])
-  }
-
   const updates: string[] = []
   const values: any[] = []
 
@@ -137,10 +134,17 @@ export async function updateSeasonConfig(
   updates.push('updated_at = DATETIME(\'now\')')
   values.push(id)
 
-  await execute(
-    `UPDATE season_config SET ${updates.join(', ')} WHERE id = ?`,
-    values
-  )
+  await withTransaction(async (tx) => {
+    // If setting this as active, deactivate all others first
+    if (data.is_active) {
+      await tx.execute(`UPDATE season_config SET is_active = 0 WHERE is_active = 1 AND id != ?`, [id])
+    }
+
+    await tx.execute(
+      `UPDATE season_config SET ${updates.join(', ')} WHERE id = ?`,
+      values
+    )
+  })
 
   const updated = await getSeasonConfigById(id)
   if (!updated) {
@@ -0,0 +1,219 @@
+/**
+ * Session Service
+ *
+ * Refresh tokens are random strings handed to the client once; only their
+ * SHA-256 hash is stored. Every refresh rotates the token, and replaying a
+ * token that was already rotated away revokes the whole session.
+ */
+
+import crypto from 'crypto'
+import { query, queryOne, execute, withTransaction } from './db'
+import { UnauthorizedError } from './errors'
+import { generateToken, User } from './auth'
+import type {
+  Session,
+  SessionMetadata,
+  SessionRevokeReason,
+  IssuedSession,
+  RotatedSession,
+} from '../types/session'
+
+function readTtlDays(): number {
+  const raw = process.env.REFRESH_TOKEN_TTL_DAYS || '30'
+  const days = Number(raw)
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error(`REFRESH_TOKEN_TTL_DAYS must be a positive whole number of days, got '${raw}'`)
+  }
+  return days
+}
+
+export const REFRESH_TOKEN_TTL_DAYS = readTtlDays()
+
+const SESSION_COLUMNS = `id, user_id, user_agent, ip_address, created_at, last_used_at,
+  expires_at, revoked_at, revoked_reason`
+
+// Timestamps are stored as UTC 'YYYY-MM-DD HH:MM:SS', like DATETIME('now')
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url')
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Start a session for a user who just logged in
+ */
+export async function createSession(
+  userId: number,
+  metadata: SessionMetadata = {}
+): Promise<IssuedSession> {
+  const refreshToken = generateRefreshToken()
+
+  // Drop this user's dead sessions so the table doesn't grow forever
+  await execute(
+    `DELETE FROM sessions
+     WHERE user_id = ? AND (expires_at < DATETIME('now') OR revoked_at < datetime('now', '-30 days'))`,
+    [userId]
+  )
+
+  const result = await execute(
+    `INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [
+      userId,
+      hashToken(refreshToken),
+      metadata.userAgent?.slice(0, 512) || null,
+      metadata.ipAddress || null,
+      toSqlTimestamp(new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)),
+    ]
+  )
+
+  return { sessionId: Number(result.lastInsertRowid), refreshToken }
+}
+
+/**
+ * Start a session for a completed login and issue its token pair
+ */
+export async function startLoginSession(
+  user: User,
+  metadata: SessionMetadata = {}
+): Promise<{ token: string; refreshToken: string }> {
+  const session = await createSession(user.id, metadata)
+  return {
+    token: generateToken(user, session.sessionId),
+    refreshToken: session.refreshToken,
+  }
+}
+
+/**
+ * Exchange a refresh token for a new one
+ * Returns the user as currently stored, so new access tokens carry fresh claims
+ * Throws UnauthorizedError if the token is unknown, expired or revoked
+ */
+export async function rotateSession(
+  refreshToken: string,
+  metadata: SessionMetadata = {}
+): Promise<RotatedSession> {
+  const tokenHash = hashToken(refreshToken)
+
+  const rotated = await withTransaction(async (tx) => {
+    const session = await tx.queryOne<Session>(
+      `SELECT ${SESSION_COLUMNS} FROM sessions
+       WHERE refresh_token_hash = ? AND revoked_at IS NULL AND expires_at > DATETIME('now')`,
+      [tokenHash]
+    )
+
+    if (!session) return null
+
+    const newToken = generateRefreshToken()
+    const result = await tx.execute(
+      `UPDATE sessions
+       SET refresh_token_hash = ?, previous_token_hash = ?, last_used_at = DATETIME('now'),
+           user_agent = COALESCE(?, user_agent), ip_address = COALESCE(?, ip_address)
+       WHERE id = ? AND refresh_token_hash = ?`,
+      [
+        hashToken(newToken),
+        tokenHash,
+        metadata.userAgent?.slice(0, 512) || null,
+        metadata.ipAddress || null,
+        session.id,
+        tokenHash,
+      ]
+    )
+
+    // Someone else rotated it between our read and write
+    if (result.changes === 0) return null
+
+    return { session, refreshToken: newToken }
+  })
+
+  if (!rotated) {
+    const reused = await queryOne<{ id: number; user_id: number }>(
+      'SELECT id, user_id FROM sessions WHERE previous_token_hash = ? AND revoked_at IS NULL',
+      [tokenHash]
+    )
+
+    if (reused) {
+      console.warn(`Refresh token reuse detected for session ${reused.id} (user ${reused.user_id}), revoking`)
+      await revokeSession(reused.id, 'token_reuse')
+    }
+
+    throw new UnauthorizedError('Invalid or expired refresh token')
+  }
+
+  const user = await queryOne<User>(
+    'SELECT id, username, rank, team_id, created_at, updated_at FROM users WHERE id = ?',
+    [rotated.session.user_id]
+  )
+
+  if (!user) {
+    await revokeSession(rotated.session.id, 'user_deleted')
+    throw new UnauthorizedError('Invalid or expired refresh token')
+  }
+
+  return { user, sessionId: rotated.session.id, refreshToken: rotated.refreshToken }
+}
+
+/**
+ * Get a user's active sessions (most recently used first)
+ */
+export async function getActiveSessions(userId: number): Promise<Session[]> {
+  return query<Session>(
+    `SELECT ${SESSION_COLUMNS} FROM sessions
+     WHERE user_id = ? AND revoked_at IS NULL AND expires_at > DATETIME('now')
+     ORDER BY last_used_at DESC`,
+    [userId]
+  )
+}
+
+/**
+ * Revoke one session
+ * Returns false if it didn't exist or was already revoked
+ */
+export async function revokeSession(
+  sessionId: number,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const result = await execute(
+    `UPDATE sessions SET revoked_at = DATETIME('now'), revoked_reason = ?
+     WHERE id = ? AND revoked_at IS NULL`,
+    [reason, sessionId]
+  )
+  return result.changes > 0
+}
+
+/**
+ * Revoke the session a refresh token belongs to
+ */
+export async function revokeSessionByToken(
+  refreshToken: string,
+  reason: SessionRevokeReason
+): Promise<boolean> {
+  const result = await execute(
+    `UPDATE sessions SET revoked_at = DATETIME('now'), revoked_reason = ?
+     WHERE refresh_token_hash = ? AND revoked_at IS NULL`,
+    [reason, hashToken(refreshToken)]
+  )
+  return result.changes > 0
+}
+
+/**
+ * Revoke every active session of a user ("log out all devices")
+ * Returns how many sessions were revoked
+ */
+export async function revokeUserSessions(
+  userId: number,
+  reason: SessionRevokeReason
+): Promise<number> {
+  const result = await execute(
+    `UPDATE sessions SET revoked_at = DATETIME('now'), revoked_reason = ?
+     WHERE user_id = ? AND revoked_at IS NULL`,
+    [reason, userId]
+  )
+  return result.changes
+}
@@ -0,0 +1,86 @@
+/**
+ * SQL Dialect Helpers
+ *
+ * Queries across the app are written in the SQLite dialect. The MySQL driver
+ * runs every statement through translateSql() so routes don't need to know
+ * which engine is underneath.
+ */
+
+import type { SqlDialect } from './db-drivers/types'
+
+// Column names we use that are reserved words in MySQL
+const MYSQL_RESERVED_IDENTIFIERS = ['key', 'rank']
+
+const INTERVAL_UNITS: Record<string, string> = {
+  second: 'SECOND',
+  minute: 'MINUTE',
+  hour: 'HOUR',
+  day: 'DAY',
+  month: 'MONTH',
+  year: 'YEAR',
+}
+
+/**
+ * Rewrite one SQLite-dialect statement for the target engine
+ *
+ * Handles:
+ * - DATETIME('now') / datetime('now', '-24 hours') -> CURRENT_TIMESTAMP / DATE_SUB(...)
+ * - datetime(column) -> column
+ * - INSERT OR IGNORE -> INSERT IGNORE, INSERT OR REPLACE -> REPLACE
+ * - reserved column names (key, rank) -> backtick-quoted
+ */
+export function translateSql(sql: string, dialect: SqlDialect): string {
+  if (dialect === 'sqlite') return sql
+
+  // Date functions first, while their quoted arguments are still intact
+  let translated = sql.replace(
+    /datetime\(\s*'now'\s*,\s*'([+-])(\d+) (second|minute|hour|day|month|year)s?'\s*\)/gi,
+    (_match, sign: string, amount: string, unit: string) => {
+      const fn = sign === '-' ? 'DATE_SUB' : 'DATE_ADD'
+      return `${fn}(CURRENT_TIMESTAMP, INTERVAL ${amount} ${INTERVAL_UNITS[unit.toLowerCase()]})`
+    }
+  )
+  translated = translated.replace(/datetime\(\s*'now'\s*\)/gi, 'CURRENT_TIMESTAMP')
+
+  // Everything else only applies outside string literals
+  return mapOutsideStrings(translated, (code) => {
+    let result = code
+      .replace(/datetime\(\s*([a-z_][a-z0-9_.]*)\s*\)/gi, '$1')
+      .replace(/\bINSERT\s+OR\s+IGNORE\b/gi, 'INSERT IGNORE')
+      .replace(/\bINSERT\s+OR\s+REPLACE\b/gi, 'REPLACE')
+
+    for (const identifier of MYSQL_RESERVED_IDENTIFIERS) {
+      // Lowercase only (keywords like PRIMARY KEY are uppercase), not already
+      // quoted and not a function call such as rank()
+      const pattern = new RegExp(`(?<![\`\\w])${identifier}(?![\`\\w]|\\s*\\()`, 'g')
+      result = result.replace(pattern, (match) => `\`${match}\``)
+    }
+
+    return result
+  })
+}
+
+/**
+ * Apply a transform to the parts of a statement outside '...' literals
+ */
+function mapOutsideStrings(sql: string, transform: (code: string) => string): string {
+  const parts = sql.split(/('(?:[^']|'')*')/)
+  return parts
+    .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+    .join('')
+}
+
+/**
+ * Check if an error is a unique constraint violation on either engine
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false
+
+  const err = error as { code?: string; message?: string }
+  return (
+    err.code === 'ER_DUP_ENTRY' ||
+    err.code === 'SQLITE_CONSTRAINT_UNIQUE' ||
+    err.code === 'SQLITE_CONSTRAINT_PRIMARYKEY' ||
+    !!err.message?.includes('UNIQUE constraint failed')
+  )
+}
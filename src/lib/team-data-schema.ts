@@ -0,0 +1,387 @@
+/**
+ * Team Data Schema
+ *
+ * Validation for the teams.progress and teams.team_info JSON. Problems are
+ * collected per field ('progress.completed', 'teamInfo.raidDays[1].day')
+ * so they can be returned in a ValidationError's `errors` map.
+ *
+ * Progress is checked against the active season config: `total` must be its
+ * boss count and `bosses` may only name its encounters. Without an active
+ * config only the shape is checked.
+ *
+ * Kept free of database access so migrations can use it too.
+ */
+
+import { WCL_CLASS_ID_TO_NAME } from './wcl-class-map'
+import type { RosterRole } from '../types/roster'
+import type {
+  RaidDifficulty,
+  RecruitmentPriority,
+  TeamDataSeason,
+  TeamInfo,
+  TeamProgress,
+  Weekday,
+} from '../types/team-data'
+
+export const RAID_DIFFICULTIES: RaidDifficulty[] = ['Normal', 'Heroic', 'Mythic']
+export const WEEKDAYS: Weekday[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+]
+
+const ROLES: RosterRole[] = ['tank', 'healer', 'dps']
+const PRIORITIES: RecruitmentPriority[] = ['low', 'medium', 'high']
+const CLASS_NAMES: string[] = Object.values(WCL_CLASS_ID_TO_NAME)
+
+const MAX_TEXT_LENGTH = 2000
+const MAX_SHORT_TEXT_LENGTH = 100
+
+type Errors = Record<string, string[]>
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function addError(errors: Errors, field: string, message: string): void {
+  errors[field] = [...(errors[field] || []), message]
+}
+
+function checkKnownFields(
+  errors: Errors,
+  path: string,
+  value: Record<string, unknown>,
+  allowed: string[]
+): void {
+  for (const field of Object.keys(value)) {
+    if (!allowed.includes(field)) {
+      addError(errors, `${path}.${field}`, 'Unknown field')
+    }
+  }
+}
+
+function checkText(
+  errors: Errors,
+  field: string,
+  value: unknown,
+  maxLength: number = MAX_TEXT_LENGTH
+): void {
+  if (value === undefined) return
+  if (typeof value !== 'string') {
+    addError(errors, field, 'Must be a string')
+  } else if (value.length > maxLength) {
+    addError(errors, field, `Must be at most ${maxLength} characters`)
+  }
+}
+
+function isWholeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+export function isTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+}
+
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check a progress object
+ * Returns per-field errors (empty when valid)
+ */
+export function validateTeamProgress(
+  progress: unknown,
+  season: TeamDataSeason | null,
+  path: string = 'progress'
+): Errors {
+  const errors: Errors = {}
+
+  if (!isObject(progress)) {
+    addError(errors, path, 'Must be an object')
+    return errors
+  }
+
+  checkKnownFields(errors, path, progress, ['completed', 'total', 'difficulty', 'bosses', 'notes'])
+
+  const { completed, total, difficulty, bosses, notes } = progress
+
+  if (!RAID_DIFFICULTIES.includes(difficulty as RaidDifficulty)) {
+    addError(errors, `${path}.difficulty`, `Must be one of: ${RAID_DIFFICULTIES.join(', ')}`)
+  }
+
+  if (!isWholeNumber(total)) {
+    addError(errors, `${path}.total`, 'Must be a whole number')
+  } else if (season && total !== season.encounterIds.length) {
+    addError(
+      errors,
+      `${path}.total`,
+      `Must be ${season.encounterIds.length}, the number of bosses in ${season.tierName}`
+    )
+  }
+
+  if (!isWholeNumber(completed)) {
+    addError(errors, `${path}.completed`, 'Must be a whole number')
+  } else if (isWholeNumber(total) && completed > total) {
+    addError(errors, `${path}.completed`, 'Cannot be more than total')
+  }
+
+  if (bosses !== undefined) {
+    if (!Array.isArray(bosses)) {
+      addError(errors, `${path}.bosses`, 'Must be an array')
+    } else {
+      const seen = new Set<number>()
+      let killed = 0
+
+      bosses.forEach((boss, index) => {
+        const bossPath = `${path}.bosses[${index}]`
+        if (!isObject(boss)) {
+          addError(errors, bossPath, 'Must be an object')
+          return
+        }
+        checkKnownFields(errors, bossPath, boss, ['encounterId', 'difficulty'])
+
+        const known = isWholeNumber(boss.encounterId) && !seen.has(boss.encounterId) &&
+          (!season || season.encounterIds.includes(boss.encounterId))
+
+        if (!isWholeNumber(boss.encounterId)) {
+          addError(errors, `${bossPath}.encounterId`, 'Must be an encounter id')
+        } else if (seen.has(boss.encounterId)) {
+          addError(errors, `${bossPath}.encounterId`, 'Listed more than once')
+        } else if (season && !season.encounterIds.includes(boss.encounterId)) {
+          addError(errors, `${bossPath}.encounterId`, `Not a boss in ${season.tierName}`)
+        } else {
+          seen.add(boss.encounterId)
+        }
+
+        if (boss.difficulty !== null && !RAID_DIFFICULTIES.includes(boss.difficulty as RaidDifficulty)) {
+          addError(
+            errors,
+            `${bossPath}.difficulty`,
+            `Must be null or one of: ${RAID_DIFFICULTIES.join(', ')}`
+          )
+        } else if (
+          known &&
+          boss.difficulty !== null &&
+          RAID_DIFFICULTIES.includes(difficulty as RaidDifficulty) &&
+          RAID_DIFFICULTIES.indexOf(boss.difficulty as RaidDifficulty) >=
+            RAID_DIFFICULTIES.indexOf(difficulty as RaidDifficulty)
+        ) {
+          killed++
+        }
+      })
+
+      if (isWholeNumber(completed) && !errors[`${path}.difficulty`] && killed !== completed) {
+        addError(
+          errors,
+          `${path}.completed`,
+          `Must match bosses: ${killed} killed on ${difficulty} or higher`
+        )
+      }
+    }
+  }
+
+  checkText(errors, `${path}.notes`, notes, 500)
+
+  return errors
+}
+
+/**
+ * Check a team info object
+ * Returns per-field errors (empty when valid)
+ */
+export function validateTeamInfo(teamInfo: unknown, path: string = 'teamInfo'): Errors {
+  const errors: Errors = {}
+
+  if (!isObject(teamInfo)) {
+    addError(errors, path, 'Must be an object')
+    return errors
+  }
+
+  checkKnownFields(errors, path, teamInfo, [
+    'description',
+    'goals',
+    'timezone',
+    'raidDays',
+    'recruitment',
+    'contact',
+  ])
+
+  const { description, goals, timezone, raidDays, recruitment, contact } = teamInfo
+
+  checkText(errors, `${path}.description`, description)
+  checkText(errors, `${path}.goals`, goals)
+
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isTimeZone(timezone))) {
+    addError(errors, `${path}.timezone`, 'Must be a time zone name like America/New_York')
+  }
+
+  if (raidDays !== undefined) {
+    if (!Array.isArray(raidDays)) {
+      addError(errors, `${path}.raidDays`, 'Must be an array')
+    } else {
+      const seen = new Set<unknown>()
+
+      raidDays.forEach((raidDay, index) => {
+        const dayPath = `${path}.raidDays[${index}]`
+        if (!isObject(raidDay)) {
+          addError(errors, dayPath, 'Must be an object')
+          return
+        }
+        checkKnownFields(errors, dayPath, raidDay, ['day', 'startTime', 'endTime'])
+
+        if (!WEEKDAYS.includes(raidDay.day as Weekday)) {
+          addError(errors, `${dayPath}.day`, `Must be one of: ${WEEKDAYS.join(', ')}`)
+        } else if (seen.has(raidDay.day)) {
+          addError(errors, `${dayPath}.day`, 'Listed more than once')
+        }
+        seen.add(raidDay.day)
+
+        if (!isTime(raidDay.startTime)) {
+          addError(errors, `${dayPath}.startTime`, 'Must be a time (HH:MM)')
+        }
+        if (!isTime(raidDay.endTime)) {
+          addError(errors, `${dayPath}.endTime`, 'Must be a time (HH:MM)')
+        }
+      })
+    }
+  }
+
+  if (recruitment !== undefined) {
+    const recruitmentPath = `${path}.recruitment`
+    if (!isObject(recruitment)) {
+      addError(errors, recruitmentPath, 'Must be an object')
+    } else {
+      checkKnownFields(errors, recruitmentPath, recruitment, ['open', 'needs', 'notes'])
+
+      if (typeof recruitment.open !== 'boolean') {
+        addError(errors, `${recruitmentPath}.open`, 'Must be true or false')
+      }
+      checkText(errors, `${recruitmentPath}.notes`, recruitment.notes, 500)
+
+      if (recruitment.needs !== undefined) {
+        if (!Array.isArray(recruitment.needs)) {
+          addError(errors, `${recruitmentPath}.needs`, 'Must be an array')
+        } else {
+          recruitment.needs.forEach((need, index) => {
+            const needPath = `${recruitmentPath}.needs[${index}]`
+            if (!isObject(need)) {
+              addError(errors, needPath, 'Must be an object')
+              return
+            }
+            checkKnownFields(errors, needPath, need, ['class', 'spec', 'role', 'priority'])
+
+            if (!CLASS_NAMES.includes(need.class as string)) {
+              addError(errors, `${needPath}.class`, `Must be one of: ${CLASS_NAMES.join(', ')}`)
+            }
+            checkText(errors, `${needPath}.spec`, need.spec, 32)
+            if (need.role !== undefined && !ROLES.includes(need.role as RosterRole)) {
+              addError(errors, `${needPath}.role`, `Must be one of: ${ROLES.join(', ')}`)
+            }
+            if (need.priority !== undefined && !PRIORITIES.includes(need.priority as RecruitmentPriority)) {
+              addError(errors, `${needPath}.priority`, `Must be one of: ${PRIORITIES.join(', ')}`)
+            }
+          })
+        }
+      }
+    }
+  }
+
+  if (contact !== undefined) {
+    const contactPath = `${path}.contact`
+    if (!isObject(contact)) {
+      addError(errors, contactPath, 'Must be an object')
+    } else {
+      checkKnownFields(errors, contactPath, contact, ['name', 'discord', 'battletag', 'email'])
+
+      checkText(errors, `${contactPath}.name`, contact.name, MAX_SHORT_TEXT_LENGTH)
+      checkText(errors, `${contactPath}.discord`, contact.discord, MAX_SHORT_TEXT_LENGTH)
+
+      if (
+        contact.battletag !== undefined &&
+        (typeof contact.battletag !== 'string' || !/^[^\s#]{2,12}#\d{4,6}$/.test(contact.battletag))
+      ) {
+        addError(errors, `${contactPath}.battletag`, 'Must be a BattleTag like Name#1234')
+      }
+
+      if (
+        contact.email !== undefined &&
+        (typeof contact.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contact.email))
+      ) {
+        addError(errors, `${contactPath}.email`, 'Must be an email address')
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Progress for a team that hasn't recorded any yet
+ */
+export function defaultTeamProgress(season: TeamDataSeason | null): TeamProgress {
+  return {
+    completed: 0,
+    total: season ? season.encounterIds.length : 0,
+    difficulty: 'Normal',
+  }
+}
+
+/**
+ * Read stored progress, falling back to the default when there is none
+ * Stored values are returned as they are, even if they don't conform.
+ */
+export function parseTeamProgress(raw: string | null, season: TeamDataSeason | null): TeamProgress {
+  const parsed = raw ? JSON.parse(raw) : null
+  if (!isObject(parsed) || Object.keys(parsed).length === 0) {
+    return defaultTeamProgress(season)
+  }
+  return parsed as unknown as TeamProgress
+}
+
+export function parseTeamInfo(raw: string | null): TeamInfo {
+  const parsed = raw ? JSON.parse(raw) : null
+  return isObject(parsed) ? (parsed as TeamInfo) : {}
+}
+
+/**
+ * Check a team's stored progress and team_info columns
+ * Empty progress counts as valid (it reads as the default).
+ */
+export function checkStoredTeamData(
+  progress: string | null,
+  teamInfo: string | null,
+  season: TeamDataSeason | null
+): Errors {
+  const errors: Errors = {}
+
+  const read = (field: string, raw: string | null): unknown => {
+    try {
+      return raw ? JSON.parse(raw) : {}
+    } catch {
+      addError(errors, field, 'Is not valid JSON')
+      return undefined
+    }
+  }
+
+  const storedProgress = read('progress', progress)
+  if (isObject(storedProgress) && Object.keys(storedProgress).length > 0) {
+    Object.assign(errors, validateTeamProgress(storedProgress, season))
+  }
+
+  const storedInfo = read('teamInfo', teamInfo)
+  if (storedInfo !== undefined) {
+    Object.assign(errors, validateTeamInfo(storedInfo))
+  }
+
+  return errors
+}
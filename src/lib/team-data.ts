@@ -0,0 +1,65 @@
+/**
+ * Team Data Service
+ *
+ * Checks teams.progress and teams.team_info against the schema in
+ * team-data-schema.ts, using the active season config for boss counts.
+ */
+
+import { query } from './db'
+import { ValidationError } from './errors'
+import { getActiveSeasonConfig } from './season-config'
+import { checkStoredTeamData, validateTeamInfo, validateTeamProgress } from './team-data-schema'
+import type { NonConformingTeam, TeamDataSeason } from '../types/team-data'
+
+/**
+ * The season progress is checked against (null if none is active)
+ */
+export async function getTeamDataSeason(): Promise<TeamDataSeason | null> {
+  const config = await getActiveSeasonConfig()
+  if (!config) return null
+
+  return {
+    tierName: config.tier_name,
+    encounterIds: config.encounter_order,
+  }
+}
+
+/**
+ * Reject progress / team info that doesn't match the schema
+ * Fields left undefined aren't being changed and aren't checked.
+ * `teamInfoField` is the name the request body uses for team info.
+ */
+export function assertValidTeamData(
+  data: { progress?: unknown; teamInfo?: unknown },
+  season: TeamDataSeason | null,
+  teamInfoField: string = 'teamInfo'
+): void {
+  const errors: Record<string, string[]> = {
+    ...(data.progress !== undefined ? validateTeamProgress(data.progress, season) : {}),
+    ...(data.teamInfo !== undefined ? validateTeamInfo(data.teamInfo, teamInfoField) : {}),
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid team data', errors)
+  }
+}
+
+/**
+ * Teams whose stored progress or team info doesn't match the schema
+ */
+export async function findNonConformingTeams(): Promise<NonConformingTeam[]> {
+  const season = await getTeamDataSeason()
+  const teams = await query<{ id: number; name: string; progress: string | null; team_info: string | null }>(
+    'SELECT id, name, progress, team_info FROM teams ORDER BY id'
+  )
+
+  const nonConforming: NonConformingTeam[] = []
+  for (const team of teams) {
+    const errors = checkStoredTeamData(team.progress, team.team_info, season)
+    if (Object.keys(errors).length > 0) {
+      nonConforming.push({ id: team.id, name: team.name, errors })
+    }
+  }
+
+  return nonConforming
+}
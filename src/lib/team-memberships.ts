@@ -0,0 +1,219 @@
+/**
+ * Team Membership Service
+ *
+ * team_memberships says who leads which team. users.team_id is kept as the
+ * user's primary team (shown in the UI and carried in the JWT) and always
+ * points at one of their memberships, or is NULL if they have none.
+ *
+ * Access checks go through permissions.ts, which reads memberships directly,
+ * so changes here apply immediately without a new login.
+ */
+
+import { query, queryOne, execute, withTransaction } from './db'
+import { isUniqueConstraintError } from './sql-dialect'
+import { BadRequestError, ConflictError } from './errors'
+import type {
+  TeamMember,
+  TeamMembership,
+  TeamMembershipRole,
+  UserTeam,
+} from '../types/team-membership'
+
+export const TEAM_MEMBERSHIP_ROLES: TeamMembershipRole[] = ['lead', 'co-lead', 'officer']
+
+// Leads first when picking a primary team
+const ROLE_ORDER = `CASE role WHEN 'lead' THEN 0 WHEN 'co-lead' THEN 1 ELSE 2 END`
+
+export function isTeamMembershipRole(value: unknown): value is TeamMembershipRole {
+  return TEAM_MEMBERSHIP_ROLES.includes(value as TeamMembershipRole)
+}
+
+/**
+ * Every team a user belongs to
+ */
+export async function getUserTeams(userId: number): Promise<UserTeam[]> {
+  return query<UserTeam>(
+    `SELECT tm.*, t.name AS team_name
+     FROM team_memberships tm
+     JOIN teams t ON t.id = tm.team_id
+     WHERE tm.user_id = ?
+     ORDER BY ${ROLE_ORDER}, t.name`,
+    [userId]
+  )
+}
+
+/**
+ * Everyone who leads or helps lead a team
+ */
+export async function getTeamMembers(teamId: number): Promise<TeamMember[]> {
+  return query<TeamMember>(
+    `SELECT tm.*, u.username, u.rank
+     FROM team_memberships tm
+     JOIN users u ON u.id = tm.user_id
+     WHERE tm.team_id = ?
+     ORDER BY ${ROLE_ORDER}, u.username`,
+    [teamId]
+  )
+}
+
+export async function getTeamMembership(
+  teamId: number,
+  userId: number
+): Promise<TeamMembership | null> {
+  return queryOne<TeamMembership>(
+    'SELECT * FROM team_memberships WHERE team_id = ? AND user_id = ?',
+    [teamId, userId]
+  )
+}
+
+/**
+ * Point a Team Lead's users.team_id at one of their memberships (or NULL)
+ * Leaves it alone if it already points at one. Other ranks never have a
+ * primary team.
+ */
+async function syncPrimaryTeam(userId: number): Promise<void> {
+  const user = await queryOne<{ rank: string; team_id: number | null }>(
+    'SELECT rank, team_id FROM users WHERE id = ?',
+    [userId]
+  )
+  if (!user || user.rank !== 'TEAM_LEAD') return
+
+  const memberships = await query<{ team_id: number }>(
+    `SELECT team_id FROM team_memberships WHERE user_id = ? ORDER BY ${ROLE_ORDER}, id`,
+    [userId]
+  )
+
+  if (memberships.some(m => m.team_id === user.team_id)) return
+
+  await execute(
+    `UPDATE users SET team_id = ?, updated_at = DATETIME('now') WHERE id = ?`,
+    [memberships[0]?.team_id ?? null, userId]
+  )
+}
+
+/**
+ * Add a user to a team
+ * Throws ConflictError if they are already a member
+ */
+export async function addTeamMember(
+  teamId: number,
+  userId: number,
+  role: TeamMembershipRole
+): Promise<TeamMembership> {
+  try {
+    return await withTransaction(async (tx) => {
+      await tx.execute(
+        'INSERT INTO team_memberships (team_id, user_id, role) VALUES (?, ?, ?)',
+        [teamId, userId, role]
+      )
+      await syncPrimaryTeam(userId)
+
+      return (await getTeamMembership(teamId, userId))!
+    })
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new ConflictError('User is already a member of this team')
+    }
+    throw error
+  }
+}
+
+/**
+ * Change a member's role on a team
+ * Returns null if they aren't a member
+ */
+export async function updateTeamMemberRole(
+  teamId: number,
+  userId: number,
+  role: TeamMembershipRole
+): Promise<TeamMembership | null> {
+  return withTransaction(async (tx) => {
+    const result = await tx.execute(
+      'UPDATE team_memberships SET role = ? WHERE team_id = ? AND user_id = ?',
+      [role, teamId, userId]
+    )
+    if (result.changes === 0) return null
+
+    return getTeamMembership(teamId, userId)
+  })
+}
+
+/**
+ * Remove a user from a team
+ * A Team Lead has to keep at least one team, so their last membership
+ * can't be removed (change their rank or give them another team first)
+ * Returns false if they weren't a member
+ */
+export async function removeTeamMember(teamId: number, userId: number): Promise<boolean> {
+  return withTransaction(async (tx) => {
+    const membership = await getTeamMembership(teamId, userId)
+    if (!membership) return false
+
+    const user = await tx.queryOne<{ rank: string }>('SELECT rank FROM users WHERE id = ?', [userId])
+    const others = await tx.queryOne<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM team_memberships WHERE user_id = ? AND team_id <> ?',
+      [userId, teamId]
+    )
+
+    if (user?.rank === 'TEAM_LEAD' && Number(others?.total ?? 0) === 0) {
+      throw new BadRequestError('Team Lead must have a team assigned')
+    }
+
+    await tx.execute(
+      'DELETE FROM team_memberships WHERE team_id = ? AND user_id = ?',
+      [teamId, userId]
+    )
+    await syncPrimaryTeam(userId)
+
+    return true
+  })
+}
+
+/**
+ * Follow a change of users.team_id (from the Account Manager) in the
+ * memberships: the user leaves the old team and leads the new one
+ */
+export async function movePrimaryTeam(
+  userId: number,
+  fromTeamId: number | null,
+  toTeamId: number | null
+): Promise<void> {
+  await withTransaction(async (tx) => {
+    if (fromTeamId) {
+      await tx.execute(
+        'DELETE FROM team_memberships WHERE team_id = ? AND user_id = ?',
+        [fromTeamId, userId]
+      )
+    }
+
+    if (toTeamId && !(await getTeamMembership(toTeamId, userId))) {
+      await tx.execute(
+        `INSERT INTO team_memberships (team_id, user_id, role) VALUES (?, ?, 'lead')`,
+        [toTeamId, userId]
+      )
+    }
+
+    // toTeamId is already in users.team_id (or NULL), so this only fixes up
+    // a NULL when the user still has other teams
+    await syncPrimaryTeam(userId)
+  })
+}
+
+/**
+ * Drop every membership of a team that is being deleted
+ * Members whose primary team it was get another of their teams, if any
+ */
+export async function removeTeamMemberships(teamId: number): Promise<void> {
+  await withTransaction(async (tx) => {
+    const members = await tx.query<{ user_id: number }>(
+      'SELECT user_id FROM team_memberships WHERE team_id = ?',
+      [teamId]
+    )
+
+    await tx.execute('DELETE FROM team_memberships WHERE team_id = ?', [teamId])
+
+    for (const member of members) {
+      await syncPrimaryTeam(member.user_id)
+    }
+  })
+}
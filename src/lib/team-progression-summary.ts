@@ -0,0 +1,162 @@
+/**
+ * Team Progression Summary
+ *
+ * Turns roster members' kills into per-boss kill status and team progress.
+ * A boss counts as killed on a difficulty once `threshold` members have
+ * killed it on that difficulty or a harder one, and it was first killed
+ * when the threshold-th of them got the kill.
+ *
+ * Kept free of database access so it can be tested on its own.
+ */
+
+import { RAID_DIFFICULTIES } from './team-data-schema'
+import type { EncounterInfo } from '../types/season-config'
+import type { RaidDifficulty, TeamProgress } from '../types/team-data'
+import type {
+  BossKillStatus,
+  LeaderboardEntry,
+  MemberKills,
+  TeamProgression,
+} from '../types/team-progression'
+
+// WCL difficulty ids
+export const WCL_DIFFICULTY_IDS: Record<RaidDifficulty, number> = {
+  Normal: 3,
+  Heroic: 4,
+  Mythic: 5,
+}
+
+/**
+ * The threshold used when none is given: half the members, rounded up
+ */
+export function defaultKillThreshold(memberCount: number): number {
+  return Math.max(1, Math.ceil(memberCount / 2))
+}
+
+/**
+ * Count each boss's killers per difficulty and work out team progress
+ * Bosses are listed in the order of `encounters` (the season's order).
+ */
+export function summarizeTeamKills(
+  encounters: EncounterInfo[],
+  members: MemberKills[],
+  threshold: number
+): { bosses: BossKillStatus[]; progress: TeamProgress } {
+  const bosses: BossKillStatus[] = encounters.map(encounter => {
+    const kills: Record<RaidDifficulty, number> = { Normal: 0, Heroic: 0, Mythic: 0 }
+    // Each killer's first kill on the difficulty or a harder one (null if undated)
+    const killDates: Record<RaidDifficulty, (string | null)[]> = { Normal: [], Heroic: [], Mythic: [] }
+
+    for (const member of members) {
+      const memberKills = member.kills.filter(kill => kill.encounterId === encounter.id)
+
+      RAID_DIFFICULTIES.forEach((difficulty, index) => {
+        const counted = memberKills.filter(kill => RAID_DIFFICULTIES.indexOf(kill.difficulty) >= index)
+        if (counted.length === 0) return
+
+        kills[difficulty]++
+        const dates = counted.map(kill => kill.killedAt ?? null)
+        killDates[difficulty].push(
+          dates.includes(null) ? null : (dates as string[]).sort()[0]
+        )
+      })
+    }
+
+    const killed = RAID_DIFFICULTIES.filter(difficulty => kills[difficulty] >= threshold)
+
+    // Only dated when every killer is, or an undated one could have been earlier
+    const firstKills: BossKillStatus['firstKills'] = {}
+    for (const difficulty of killed) {
+      const dates = killDates[difficulty]
+      if (dates.includes(null)) continue
+      firstKills[difficulty] = (dates as string[]).sort()[threshold - 1]
+    }
+
+    return {
+      encounterId: encounter.id,
+      name: encounter.name,
+      kills,
+      difficulty: killed.length > 0 ? killed[killed.length - 1] : null,
+      firstKills,
+    }
+  })
+
+  // Progress is reported on the hardest difficulty with any boss down
+  const reached = bosses
+    .map(boss => (boss.difficulty ? RAID_DIFFICULTIES.indexOf(boss.difficulty) : -1))
+    .reduce((best, index) => Math.max(best, index), -1)
+  const difficulty = reached >= 0 ? RAID_DIFFICULTIES[reached] : 'Normal'
+
+  return {
+    bosses,
+    progress: {
+      completed: bosses.filter(boss =>
+        boss.difficulty && RAID_DIFFICULTIES.indexOf(boss.difficulty) >= RAID_DIFFICULTIES.indexOf(difficulty)
+      ).length,
+      total: encounters.length,
+      difficulty,
+      bosses: bosses.map(boss => ({ encounterId: boss.encounterId, difficulty: boss.difficulty })),
+    },
+  }
+}
+
+/**
+ * A team's leaderboard entry (unranked) from its progression
+ */
+export function toLeaderboardEntry(teamName: string, progression: TeamProgression): LeaderboardEntry {
+  const killed: Record<RaidDifficulty, number> = { Normal: 0, Heroic: 0, Mythic: 0 }
+  for (const boss of progression.bosses) {
+    RAID_DIFFICULTIES.forEach((difficulty, index) => {
+      if (boss.difficulty && index <= RAID_DIFFICULTIES.indexOf(boss.difficulty)) killed[difficulty]++
+    })
+  }
+
+  const top = [...RAID_DIFFICULTIES].reverse().find(difficulty => killed[difficulty] > 0) ?? null
+  const dates = top
+    ? progression.bosses.map(boss => boss.firstKills[top]).filter((date): date is string => !!date)
+    : []
+
+  return {
+    rank: 0,
+    teamId: progression.teamId,
+    teamName,
+    killed,
+    total: progression.bosses.length,
+    summary: `${top ? killed[top] : 0}/${progression.bosses.length} ${(top ?? 'Normal')[0]}`,
+    reachedAt: dates.length > 0 ? dates.sort()[dates.length - 1] : null,
+    bosses: progression.bosses.map(boss => ({
+      encounterId: boss.encounterId,
+      name: boss.name,
+      difficulty: boss.difficulty,
+      firstKills: boss.firstKills,
+    })),
+  }
+}
+
+/**
+ * Order teams by Mythic, then Heroic, then Normal bosses down; ties go to
+ * whoever got there first, and teams still tied share a rank
+ */
+export function rankLeaderboard(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  const compare = (a: LeaderboardEntry, b: LeaderboardEntry): number => {
+    for (const difficulty of [...RAID_DIFFICULTIES].reverse()) {
+      if (a.killed[difficulty] !== b.killed[difficulty]) {
+        return b.killed[difficulty] - a.killed[difficulty]
+      }
+    }
+    if (a.reachedAt !== b.reachedAt) {
+      if (a.reachedAt === null) return 1
+      if (b.reachedAt === null) return -1
+      return a.reachedAt < b.reachedAt ? -1 : 1
+    }
+    return 0
+  }
+
+  const sorted = [...entries].sort((a, b) => compare(a, b) || a.teamName.localeCompare(b.teamName))
+
+  let rank = 0
+  return sorted.map((entry, index) => {
+    if (index === 0 || compare(sorted[index - 1], entry) !== 0) rank = index + 1
+    return { ...entry, rank }
+  })
+}
@@ -0,0 +1,295 @@
+/**
+ * Team Progression Service
+ *
+ * Works out a team's progress in the active season from its roster members'
+ * Warcraft Logs kills. Each member's kills are read per difficulty from
+ * zone_progression_cache, and fetched from WCL when missing or older than
+ * CACHE_MAX_AGE_HOURS.
+ *
+ * Inactive members aren't counted. Members are looked up by their WCL URL,
+ * or by name, realm and region when it doesn't name the character.
+ *
+ * With `recordFirstKills`, bosses the team has down at the default
+ * threshold, with every active member looked up, are recorded in
+ * team_boss_kills with the date WCL has for the kill that reached the
+ * threshold. Those give the first-kill dates on the progression leaderboard.
+ */
+
+import { query, queryOne, execute } from './db'
+import { NotFoundError } from './errors'
+import { getActiveSeasonConfig } from './season-config'
+import { getRoster } from './roster'
+import { mapWithConcurrency } from './player-card'
+import { RAID_DIFFICULTIES } from './team-data-schema'
+import { WCL_DIFFICULTY_IDS, defaultKillThreshold, summarizeTeamKills } from './team-progression-summary'
+import { fetchCharacterZoneProgression } from './warcraft-logs-client'
+import { buildWarcraftLogsCharacterUrl, parseWarcraftLogsCharacterUrl, toRealmSlug } from './warcraft-logs-parser'
+import type { RosterMember } from '../types/roster'
+import type { RaidDifficulty } from '../types/team-data'
+import type {
+  BossKillStatus,
+  MemberKills,
+  SkippedMember,
+  TeamProgression,
+  TeamProgressionOptions,
+} from '../types/team-progression'
+
+const CACHE_MAX_AGE_HOURS = 6
+
+// Members looked up at once; each is one WCL request per difficulty
+const MEMBER_CONCURRENCY = 4
+
+interface WclCharacter {
+  region: string
+  realm: string
+  characterName: string
+}
+
+interface ZoneKill {
+  encounterId: number
+  killedAt: string | null
+}
+
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ')
+}
+
+/**
+ * Where to find a member on WCL (throws with the reason if we can't tell)
+ */
+function resolveCharacter(member: RosterMember): WclCharacter {
+  if (member.wcl_url) {
+    const parsed = parseWarcraftLogsCharacterUrl(member.wcl_url)
+    if (parsed.type === 'slug') {
+      return { region: parsed.region, realm: parsed.realm, characterName: parsed.characterName }
+    }
+  }
+
+  if (!member.realm || !member.region) {
+    throw new Error('No realm and region, and no WCL character URL')
+  }
+
+  const parsed = parseWarcraftLogsCharacterUrl(
+    buildWarcraftLogsCharacterUrl(member.region, toRealmSlug(member.realm), member.character_name)
+  )
+  if (parsed.type !== 'slug') {
+    throw new Error('Could not work out the WCL character')
+  }
+
+  return { region: parsed.region, realm: parsed.realm, characterName: parsed.characterName }
+}
+
+/**
+ * Cached kills: [{ encounterId, killedAt }], or bare encounter ids in rows
+ * written before kill dates were kept
+ */
+function parseZoneKills(encounters: string): ZoneKill[] {
+  return (JSON.parse(encounters) as Array<number | ZoneKill>).map(kill =>
+    typeof kill === 'number' ? { encounterId: kill, killedAt: null } : kill
+  )
+}
+
+/**
+ * Encounters a character has killed on one difficulty, with their first kill
+ */
+async function getZoneKills(
+  character: WclCharacter,
+  zoneId: number,
+  encounterIds: number[],
+  difficulty: RaidDifficulty,
+  options: TeamProgressionOptions
+): Promise<ZoneKill[]> {
+  const key = [character.region, character.realm, character.characterName, zoneId, WCL_DIFFICULTY_IDS[difficulty]]
+
+  if (!options.refresh) {
+    const cutoff = toSqlTimestamp(new Date(Date.now() - CACHE_MAX_AGE_HOURS * 60 * 60 * 1000))
+    const cached = await queryOne<{ encounters: string }>(
+      `SELECT encounters FROM zone_progression_cache
+       WHERE region = ? AND realm = ? AND character_name = ? AND zone_id = ? AND difficulty = ?
+         ${options.cachedOnly ? '' : 'AND fetched_at >= ?'}`,
+      options.cachedOnly ? key : [...key, cutoff]
+    )
+    if (cached) {
+      return parseZoneKills(cached.encounters)
+    }
+  }
+
+  if (options.cachedOnly) {
+    throw new Error('No kills cached yet')
+  }
+
+  const progression = await fetchCharacterZoneProgression(
+    character.region,
+    character.realm,
+    character.characterName,
+    zoneId,
+    // A whole roster's worth of lookups; player cards go first
+    { priority: 'background' },
+    WCL_DIFFICULTY_IDS[difficulty],
+    encounterIds
+  )
+
+  const kills: ZoneKill[] = []
+  for (const encounter of progression.encounters) {
+    const dates = encounter.kills
+      .filter(kill => kill.difficulty === WCL_DIFFICULTY_IDS[difficulty])
+      .map(kill => kill.killDate)
+    if (dates.length === 0) continue
+
+    const killDate = dates.every(date => date !== undefined) ? Math.min(...(dates as number[])) : null
+    kills.push({
+      encounterId: encounter.encounterId,
+      killedAt: killDate !== null ? toSqlTimestamp(new Date(killDate)) : null,
+    })
+  }
+
+  const now = toSqlTimestamp(new Date())
+  const updated = await execute(
+    `UPDATE zone_progression_cache SET encounters = ?, fetched_at = ?
+     WHERE region = ? AND realm = ? AND character_name = ? AND zone_id = ? AND difficulty = ?`,
+    [JSON.stringify(kills), now, ...key]
+  )
+  if (updated.changes === 0) {
+    await execute(
+      `INSERT INTO zone_progression_cache (region, realm, character_name, zone_id, difficulty, encounters, fetched_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [...key, JSON.stringify(kills), now]
+    )
+  }
+
+  return kills
+}
+
+/**
+ * Note when the team got its bosses down, on the date WCL has for the kill,
+ * unless an earlier one is already known (a boss down on Mythic is also
+ * down on Heroic and Normal). Kills without a date are left for a later
+ * refresh.
+ */
+async function recordFirstKills(teamId: number, seasonConfigId: number, bosses: BossKillStatus[]): Promise<void> {
+  for (const boss of bosses) {
+    if (!boss.difficulty) continue
+
+    for (const difficulty of RAID_DIFFICULTIES.slice(0, RAID_DIFFICULTIES.indexOf(boss.difficulty) + 1)) {
+      const killedAt = boss.firstKills[difficulty]
+      if (!killedAt) continue
+
+      const existing = await queryOne<{ id: number; first_killed_at: string }>(
+        `SELECT id, first_killed_at FROM team_boss_kills
+         WHERE team_id = ? AND season_config_id = ? AND encounter_id = ? AND difficulty = ?`,
+        [teamId, seasonConfigId, boss.encounterId, difficulty]
+      )
+
+      if (!existing) {
+        await execute(
+          `INSERT INTO team_boss_kills (team_id, season_config_id, encounter_id, difficulty, first_killed_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [teamId, seasonConfigId, boss.encounterId, difficulty, killedAt]
+        )
+      } else if (existing.first_killed_at > killedAt) {
+        await execute('UPDATE team_boss_kills SET first_killed_at = ? WHERE id = ?', [killedAt, existing.id])
+      }
+    }
+  }
+}
+
+/**
+ * A team's first-kill dates in a season, by encounter
+ */
+export async function getFirstKills(
+  teamId: number,
+  seasonConfigId: number
+): Promise<Map<number, Partial<Record<RaidDifficulty, string>>>> {
+  const rows = await query<{ encounter_id: number; difficulty: RaidDifficulty; first_killed_at: string }>(
+    `SELECT encounter_id, difficulty, first_killed_at FROM team_boss_kills
+     WHERE team_id = ? AND season_config_id = ?`,
+    [teamId, seasonConfigId]
+  )
+
+  const firstKills = new Map<number, Partial<Record<RaidDifficulty, string>>>()
+  for (const row of rows) {
+    firstKills.set(row.encounter_id, {
+      ...firstKills.get(row.encounter_id),
+      [row.difficulty]: row.first_killed_at,
+    })
+  }
+
+  return firstKills
+}
+
+/**
+ * Work out a team's progress in the active season from its roster's kills
+ * Members are looked up MEMBER_CONCURRENCY at a time. Members that can't be
+ * looked up are listed in `skipped` and count as not having any kills.
+ */
+export async function getTeamProgression(
+  teamId: number,
+  options: TeamProgressionOptions = {}
+): Promise<TeamProgression> {
+  const season = await getActiveSeasonConfig()
+  if (!season) {
+    throw new NotFoundError('No active season is configured')
+  }
+
+  const encounters = season.encounter_order.map(id =>
+    season.encounter_names.find(encounter => encounter.id === id) ?? { id, name: `Encounter ${id}` }
+  )
+
+  const roster = (await getRoster(teamId)).filter(member => member.status !== 'inactive')
+  const lookups = await mapWithConcurrency(roster, MEMBER_CONCURRENCY, async member => {
+    try {
+      const character = resolveCharacter(member)
+      const kills: MemberKills['kills'] = []
+
+      for (const difficulty of RAID_DIFFICULTIES) {
+        const zoneKills = await getZoneKills(character, season.wcl_zone_id, season.encounter_order, difficulty, options)
+        for (const { encounterId, killedAt } of zoneKills) {
+          kills.push({ encounterId, difficulty, killedAt })
+        }
+      }
+
+      return { member: { memberId: member.id, characterName: member.character_name, kills } }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      if (!options.cachedOnly) {
+        console.warn(`[Team Progression] Skipping ${member.character_name}: ${reason}`)
+      }
+      return { skipped: { memberId: member.id, characterName: member.character_name, reason } }
+    }
+  })
+
+  const members: MemberKills[] = []
+  const skipped: SkippedMember[] = []
+  for (const lookup of lookups) {
+    if (lookup.member) members.push(lookup.member)
+    if (lookup.skipped) skipped.push(lookup.skipped)
+  }
+
+  const threshold = options.threshold ?? defaultKillThreshold(members.length + skipped.length)
+  const { bosses, progress } = summarizeTeamKills(encounters, members, threshold)
+
+  // A custom threshold is a what-if, and without every member the threshold
+  // may have been reached earlier, so neither sets first-kill dates
+  if (options.recordFirstKills && options.threshold === undefined && skipped.length === 0) {
+    await recordFirstKills(teamId, season.id, bosses)
+  }
+
+  // Recorded dates stand; the others are as worked out from this roster
+  const firstKills = await getFirstKills(teamId, season.id)
+  for (const boss of bosses) {
+    boss.firstKills = { ...boss.firstKills, ...firstKills.get(boss.encounterId) }
+  }
+
+  return {
+    teamId,
+    seasonConfigId: season.id,
+    tierName: season.tier_name,
+    zoneId: season.wcl_zone_id,
+    threshold,
+    membersCounted: members.length,
+    skipped,
+    bosses,
+    progress,
+    computedAt: new Date().toISOString(),
+  }
+}
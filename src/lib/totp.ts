@@ -0,0 +1,143 @@
+/**
+ * TOTP (RFC 6238) helpers
+ *
+ * Time-based one-time passwords as used by Google Authenticator, Authy,
+ * 1Password etc: HMAC-SHA1, 6 digits, 30 second steps.
+ */
+
+import crypto from 'crypto'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const TOTP_DIGITS = 6
+export const TOTP_PERIOD_SECONDS = 30
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32 (the format authenticator apps expect)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ * Throws on characters outside the base32 alphabet
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+
+    value = (value << 5) | index
+    bits += 5
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generate a new random secret (160 bits, base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+/**
+ * The time step a timestamp falls in
+ */
+export function getTimeStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/**
+ * Generate the code for a given time step (RFC 4226 HOTP)
+ */
+export function generateTotp(secret: string, step: number = getTimeStep()): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Check a code, allowing one step of clock drift either way
+ * Returns the matching time step (store it to reject replays), or null
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  timestampMs: number = Date.now(),
+  window: number = 1
+): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null
+  }
+
+  const currentStep = getTimeStep(timestampMs)
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset
+    const expected = generateTotp(secret, step)
+
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build the otpauth:// provisioning URI that authenticator apps scan as a QR code
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+
+  return `otpauth://totp/${label}?${params.toString()}`
+}
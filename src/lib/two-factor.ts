@@ -0,0 +1,348 @@
+/**
+ * Two-Factor Authentication Service
+ *
+ * TOTP secrets are stored encrypted (AES-256-GCM, key from
+ * TWO_FACTOR_ENCRYPTION_KEY or JWT_SECRET). Backup codes are stored hashed
+ * and each works once.
+ *
+ * Logins that need a second factor get a short-lived challenge token instead
+ * of a JWT. The challenge is either 'verify' (enter a code) or 'setup' (the
+ * rank requires 2FA but the user hasn't enrolled yet).
+ */
+
+import crypto from 'crypto'
+import { query, queryOne, execute, withTransaction } from './db'
+import { BadRequestError, ConflictError } from './errors'
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from './totp'
+import { revokeUserSessions } from './sessions'
+import type { UserRank } from './auth'
+import type {
+  LoginChallenge,
+  LoginChallengePurpose,
+  TwoFactorEnrollment,
+  TwoFactorPolicy,
+  TwoFactorStatus,
+} from '../types/two-factor'
+
+const TOTP_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Eclipsed'
+const BACKUP_CODE_COUNT = 10
+const CHALLENGE_TTL_MINUTES = 5
+const MAX_CHALLENGE_ATTEMPTS = 5
+
+const RANKS: UserRank[] = ['GUILD_MASTER', 'COUNCIL', 'TEAM_LEAD']
+
+interface TwoFactorRow {
+  user_id: number
+  secret: string
+  enabled: number
+  last_used_step: number | null
+}
+
+// ============================================
+// SECRET STORAGE
+// ============================================
+
+function encryptionKey(): Buffer {
+  const keySource =
+    process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+    process.env.JWT_SECRET ||
+    'your-secret-key-change-in-production'
+  return crypto.createHash('sha256').update(keySource).digest()
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.')
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'))
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+}
+
+function hashValue(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex')
+}
+
+function normalizeBackupCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+async function getTwoFactorRow(userId: number): Promise<TwoFactorRow | null> {
+  return queryOne<TwoFactorRow>(
+    'SELECT user_id, secret, enabled, last_used_step FROM user_two_factor WHERE user_id = ?',
+    [userId]
+  )
+}
+
+// ============================================
+// POLICY
+// ============================================
+
+/**
+ * Which ranks must use 2FA
+ */
+export async function getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+  const rows = await query<{ rank: UserRank; required: number }>(
+    'SELECT rank, required FROM two_factor_policies'
+  )
+
+  const policy = { GUILD_MASTER: false, COUNCIL: false, TEAM_LEAD: false }
+  for (const row of rows) {
+    policy[row.rank] = Boolean(row.required)
+  }
+  return policy
+}
+
+/**
+ * Update which ranks must use 2FA (ranks not mentioned are left as they are)
+ */
+export async function setTwoFactorPolicy(
+  changes: Partial<TwoFactorPolicy>,
+  updatedBy: number
+): Promise<TwoFactorPolicy> {
+  await withTransaction(async (tx) => {
+    for (const rank of RANKS) {
+      if (changes[rank] === undefined) continue
+
+      await tx.execute('DELETE FROM two_factor_policies WHERE rank = ?', [rank])
+      await tx.execute(
+        'INSERT INTO two_factor_policies (rank, required, updated_by) VALUES (?, ?, ?)',
+        [rank, changes[rank] ? 1 : 0, updatedBy]
+      )
+    }
+  })
+
+  return getTwoFactorPolicy()
+}
+
+export async function isTwoFactorRequired(rank: UserRank): Promise<boolean> {
+  const row = await queryOne<{ required: number }>(
+    'SELECT required FROM two_factor_policies WHERE rank = ?',
+    [rank]
+  )
+  return Boolean(row?.required)
+}
+
+// ============================================
+// ENROLLMENT
+// ============================================
+
+export async function getTwoFactorStatus(
+  userId: number,
+  rank: UserRank
+): Promise<TwoFactorStatus> {
+  const row = await getTwoFactorRow(userId)
+  const codes = await queryOne<{ remaining: number }>(
+    'SELECT COUNT(*) as remaining FROM two_factor_backup_codes WHERE user_id = ? AND used_at IS NULL',
+    [userId]
+  )
+
+  return {
+    enabled: Boolean(row?.enabled),
+    required: await isTwoFactorRequired(rank),
+    pendingEnrollment: !!row && !row.enabled,
+    backupCodesRemaining: row?.enabled ? Number(codes?.remaining ?? 0) : 0,
+  }
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const row = await getTwoFactorRow(userId)
+  return Boolean(row?.enabled)
+}
+
+/**
+ * Start (or restart) enrollment with a fresh secret
+ * 2FA stays off until confirmEnrollment() sees a valid code
+ */
+export async function startEnrollment(
+  userId: number,
+  username: string
+): Promise<TwoFactorEnrollment> {
+  const existing = await getTwoFactorRow(userId)
+  if (existing?.enabled) {
+    throw new ConflictError('Two-factor authentication is already enabled')
+  }
+
+  const secret = generateTotpSecret()
+
+  await withTransaction(async (tx) => {
+    await tx.execute('DELETE FROM user_two_factor WHERE user_id = ?', [userId])
+    await tx.execute(
+      'INSERT INTO user_two_factor (user_id, secret, enabled) VALUES (?, ?, 0)',
+      [userId, encryptSecret(secret)]
+    )
+  })
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, username, TOTP_ISSUER),
+  }
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app
+ * Returns the backup codes - the only time they are shown in plain text
+ */
+export async function confirmEnrollment(userId: number, code: string): Promise<string[]> {
+  const row = await getTwoFactorRow(userId)
+  if (!row) {
+    throw new BadRequestError('Start two-factor enrollment first')
+  }
+  if (row.enabled) {
+    throw new ConflictError('Two-factor authentication is already enabled')
+  }
+
+  const step = verifyTotp(decryptSecret(row.secret), code)
+  if (step === null) {
+    throw new BadRequestError('Invalid verification code')
+  }
+
+  return withTransaction(async (tx) => {
+    await tx.execute(
+      `UPDATE user_two_factor SET enabled = 1, last_used_step = ?, enabled_at = DATETIME('now')
+       WHERE user_id = ?`,
+      [step, userId]
+    )
+    return replaceBackupCodes(userId)
+  })
+}
+
+/**
+ * Invalidate all backup codes and issue a new set
+ */
+export async function replaceBackupCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex')
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+
+  await withTransaction(async (tx) => {
+    await tx.execute('DELETE FROM two_factor_backup_codes WHERE user_id = ?', [userId])
+    for (const code of codes) {
+      await tx.execute(
+        'INSERT INTO two_factor_backup_codes (user_id, code_hash) VALUES (?, ?)',
+        [userId, hashValue(normalizeBackupCode(code))]
+      )
+    }
+  })
+
+  return codes
+}
+
+/**
+ * Check a TOTP code or unused backup code for a user with 2FA enabled
+ * A TOTP code is accepted once; a backup code is used up
+ */
+export async function verifyTwoFactorCode(
+  userId: number,
+  code: string
+): Promise<'totp' | 'backup' | null> {
+  const row = await getTwoFactorRow(userId)
+  if (!row?.enabled || !code) return null
+
+  const step = verifyTotp(decryptSecret(row.secret), code)
+  if (step !== null) {
+    // Only move forward, so a code can't be replayed within its window
+    const result = await execute(
+      `UPDATE user_two_factor SET last_used_step = ?
+       WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`,
+      [step, userId, step]
+    )
+    return result.changes > 0 ? 'totp' : null
+  }
+
+  const result = await execute(
+    `UPDATE two_factor_backup_codes SET used_at = DATETIME('now')
+     WHERE user_id = ? AND code_hash = ? AND used_at IS NULL`,
+    [userId, hashValue(normalizeBackupCode(code))]
+  )
+  return result.changes > 0 ? 'backup' : null
+}
+
+/**
+ * Turn 2FA off for a user and drop their secret and backup codes
+ */
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await withTransaction(async (tx) => {
+    await tx.execute('DELETE FROM two_factor_backup_codes WHERE user_id = ?', [userId])
+    await tx.execute('DELETE FROM user_two_factor WHERE user_id = ?', [userId])
+    await tx.execute('DELETE FROM login_challenges WHERE user_id = ?', [userId])
+  })
+}
+
+/**
+ * Guild Master reset for a user who lost their authenticator
+ * Disables 2FA, logs the user out everywhere and resolves any pending
+ * two_factor recovery request for them
+ */
+export async function resetTwoFactor(userId: number, resolvedBy: number): Promise<void> {
+  await withTransaction(async (tx) => {
+    await disableTwoFactor(userId)
+    await revokeUserSessions(userId, 'two_factor_reset')
+    await tx.execute(
+      `UPDATE password_recovery_requests
+       SET status = 'resolved', resolved_at = DATETIME('now'), resolved_by = ?
+       WHERE user_id = ? AND request_type = 'two_factor' AND status = 'pending'`,
+      [resolvedBy, userId]
+    )
+  })
+}
+
+// ============================================
+// LOGIN CHALLENGES
+// ============================================
+
+/**
+ * Issue a challenge token for the second login step
+ */
+export async function createLoginChallenge(
+  userId: number,
+  purpose: LoginChallengePurpose
+): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url')
+
+  await execute(
+    `DELETE FROM login_challenges WHERE user_id = ? OR expires_at < DATETIME('now')`,
+    [userId]
+  )
+  await execute(
+    `INSERT INTO login_challenges (user_id, token_hash, purpose, expires_at)
+     VALUES (?, ?, ?, datetime('now', '+${CHALLENGE_TTL_MINUTES} minutes'))`,
+    [userId, hashValue(token), purpose]
+  )
+
+  return token
+}
+
+/**
+ * Look up a live challenge token
+ */
+export async function getLoginChallenge(
+  token: string,
+  purpose: LoginChallengePurpose
+): Promise<LoginChallenge | null> {
+  return queryOne<LoginChallenge>(
+    `SELECT id, user_id, purpose, attempts, expires_at, created_at FROM login_challenges
+     WHERE token_hash = ? AND purpose = ? AND expires_at > DATETIME('now')
+       AND attempts < ${MAX_CHALLENGE_ATTEMPTS}`,
+    [hashValue(token), purpose]
+  )
+}
+
+/**
+ * Count a wrong code against a challenge
+ * Returns how many attempts are left before the user has to log in again
+ */
+export async function recordChallengeFailure(challenge: LoginChallenge): Promise<number> {
+  await execute('UPDATE login_challenges SET attempts = attempts + 1 WHERE id = ?', [challenge.id])
+  return Math.max(0, MAX_CHALLENGE_ATTEMPTS - challenge.attempts - 1)
+}
+
+export async function deleteLoginChallenge(challengeId: number): Promise<void> {
+  await execute('DELETE FROM login_challenges WHERE id = ?', [challengeId])
+}
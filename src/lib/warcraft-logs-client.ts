@@ -1,21 +1,20 @@
 /**
  * Warcraft Logs API Client
  * 
- * Handles fetching character data from Warcraft Logs API v2 (GraphQL)
+ * Handles fetching character, zone and report data from Warcraft Logs API v2 (GraphQL)
+ * Requests are authenticated through the shared token manager (warcraft-logs-token.ts)
+ * and queued by the rate-limit scheduler (warcraft-logs-scheduler.ts)
  */
 
 import { getWCLClassName } from './wcl-class-map'
+import { scheduleWclRequest, type WclRequestPriority } from './warcraft-logs-scheduler'
+import type { WclReport } from '../types/raid-report'
 
 interface WarcraftLogsConfig {
   clientId?: string
   clientSecret?: string
   apiUrl?: string
-}
-
-interface WarcraftLogsToken {
-  access_token: string
-  expires_in: number
-  token_type: string
+  priority?: WclRequestPriority  // Default: 'interactive'
 }
 
 interface WarcraftLogsCharacterData {
@@ -56,69 +55,6 @@ interface ParsedWarcraftLogsData {
   avatarUrl: string | null
 }
 
-/**
- * Get OAuth token for Warcraft Logs API
- */
-async function getWarcraftLogsToken(config: WarcraftLogsConfig): Promise<string> {
-  const clientId = config.clientId || process.env.WCL_CLIENT_ID
-  const clientSecret = config.clientSecret || process.env.WCL_CLIENT_SECRET
-  
-  if (!clientId || !clientSecret) {
-    const error = new Error('Warcraft Logs API credentials not configured')
-    ;(error as any).code = 'WCL_CONFIG_MISSING'
-    throw error
-  }
-  
-  const tokenUrl = 'https://www.warcraftlogs.com/oauth/token'
-  
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[WCL OAuth] Requesting token from:', tokenUrl)
-  }
-  
-  try {
-    const response = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'client_credentials',
-        client_id: clientId,
-        client_secret: clientSecret,
-      }),
-    })
-    
-    if (!response.ok) {
-      const responseText = await response.text()
-      console.error('[WCL OAuth] Failed:', {
-        status: response.status,
-        statusText: response.statusText,
-        body: responseText.substring(0, 500)
-      })
-      const error = new Error(`WCL OAuth failed: ${response.status} ${response.statusText}`)
-      ;(error as any).code = 'WCL_OAUTH_FAILED'
-      ;(error as any).status = response.status
-      throw error
-    }
-    
-    const data: WarcraftLogsToken = await response.json()
-    
-    if (process.env.NODE_ENV === 'development') {
-      console.log('[WCL OAuth] Token obtained successfully')
-    }
-    
-    return data.access_token
-  } catch (fetchError) {
-    if (fetchError instanceof Error && (fetchError as any).code) {
-      throw fetchError
-    }
-    console.error('[WCL OAuth] Network error:', fetchError)
-    const error = new Error('Network error connecting to Warcraft Logs OAuth')
-    ;(error as any).code = 'WCL_OAUTH_NETWORK_ERROR'
-    throw error
-  }
-}
-
 /**
  * Fetch character data from Warcraft Logs API
  */
@@ -130,9 +66,6 @@ export async function fetchWarcraftLogsCharacter(
 ): Promise<ParsedWarcraftLogsData> {
   const apiUrl = config.apiUrl || 'https://www.warcraftlogs.com/api/v2/client'
   
-  // Get OAuth token
-  const token = await getWarcraftLogsToken(config)
-  
   // GraphQL query to fetch character rankings
   const query = `
     query ($name: String!, $serverSlug: String!, $serverRegion: String!) {
@@ -168,17 +101,16 @@ export async function fetchWarcraftLogsCharacter(
   }
   
   try {
-    const response = await fetch(apiUrl, {
+    const response = await scheduleWclRequest(apiUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
       body: JSON.stringify({
         query,
         variables,
       }),
-    })
+    }, config, config.priority)
     
     if (!response.ok) {
       const responseText = await response.text()
@@ -329,7 +261,6 @@ export async function fetchWarcraftLogsCharacterById(
   config: WarcraftLogsConfig = {}
 ): Promise<ParsedWarcraftLogsData> {
   const apiUrl = config.apiUrl || 'https://www.warcraftlogs.com/api/v2/client'
-  const token = await getWarcraftLogsToken(config)
   
   // GraphQL query to fetch character by ID
   const query = `
@@ -351,11 +282,10 @@ export async function fetchWarcraftLogsCharacterById(
     }
   `
   
-  const response = await fetch(apiUrl, {
+  const response = await scheduleWclRequest(apiUrl, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
     },
     body: JSON.stringify({
       query,
@@ -363,7 +293,7 @@ export async function fetchWarcraftLogsCharacterById(
         characterId: parseInt(characterId, 10),
       },
     }),
-  })
+  }, config, config.priority)
   
   if (!response.ok) {
     throw new Error(`WCL API request failed: ${response.status} ${response.statusText}`)
@@ -395,7 +325,6 @@ export async function fetchWarcraftLogsZoneEncounters(
   zoneName: string
   encounters: Array<{ id: number; name: string }>
 }> {
-  const token = await getWarcraftLogsToken(wclConfig)
   const apiUrl = wclConfig.apiUrl || 'https://www.warcraftlogs.com/api/v2/client'
 
   const query = `
@@ -418,11 +347,10 @@ export async function fetchWarcraftLogsZoneEncounters(
   }
 
   try {
-    const response = await fetch(apiUrl, {
+    const response = await scheduleWclRequest(apiUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
       body: JSON.stringify({
         query,
@@ -430,7 +358,7 @@ export async function fetchWarcraftLogsZoneEncounters(
           zoneId,
         },
       }),
-    })
+    }, wclConfig, wclConfig.priority)
 
     if (!response.ok) {
       const responseText = await response.text()
@@ -484,16 +412,164 @@ export async function fetchWarcraftLogsZoneEncounters(
   }
 }
 
+/**
+ * Fetch a report's fights and the players in it
+ * Fight times come back from WCL relative to the report's start and are
+ * returned here as epoch ms.
+ */
+export async function fetchWarcraftLogsReport(
+  reportCode: string,
+  wclConfig: WarcraftLogsConfig = {}
+): Promise<WclReport> {
+  const apiUrl = wclConfig.apiUrl || 'https://www.warcraftlogs.com/api/v2/client'
+
+  const query = `
+    query ($code: String!) {
+      reportData {
+        report(code: $code) {
+          code
+          title
+          startTime
+          endTime
+          zone {
+            id
+            name
+          }
+          fights {
+            id
+            encounterID
+            name
+            kill
+            startTime
+            endTime
+            difficulty
+            fightPercentage
+            friendlyPlayers
+          }
+          masterData {
+            actors(type: "Player") {
+              id
+              name
+              server
+            }
+          }
+        }
+      }
+    }
+  `
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`[WCL GraphQL] Fetching report ${reportCode}`)
+  }
+
+  try {
+    const response = await scheduleWclRequest(apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query,
+        variables: {
+          code: reportCode,
+        },
+      }),
+    }, wclConfig, wclConfig.priority)
+
+    if (!response.ok) {
+      const responseText = await response.text()
+      console.error('[WCL GraphQL] Report query HTTP error:', {
+        status: response.status,
+        statusText: response.statusText,
+        body: responseText.substring(0, 500)
+      })
+      const error = new Error(`WCL GraphQL request failed: ${response.status}`)
+      ;(error as any).code = 'WCL_GRAPHQL_FAILED'
+      ;(error as any).status = response.status
+      throw error
+    }
+
+    const result: any = await response.json()
+
+    if (process.env.NODE_ENV === 'development') {
+      const responseText = JSON.stringify(result, null, 2)
+      console.log('[WCL GraphQL] Report response (first 500 chars):', responseText.substring(0, 500))
+    }
+
+    const report = result.data?.reportData?.report
+
+    // Missing and private reports come back as an error with no report
+    if (!report) {
+      const errorMessages = Array.isArray(result.errors)
+        ? result.errors.map((e: any) => e.message).join(', ')
+        : ''
+      console.error('[WCL GraphQL] Report not found:', reportCode, errorMessages)
+      const error = new Error(`Report ${reportCode} not found on Warcraft Logs`)
+      ;(error as any).code = 'WCL_REPORT_NOT_FOUND'
+      throw error
+    }
+
+    if (result.errors && Array.isArray(result.errors)) {
+      const errorMessages = result.errors.map((e: any) => e.message).join(', ')
+      console.error('[WCL GraphQL] Report query returned errors:', errorMessages)
+      const error = new Error(`WCL API error: ${errorMessages}`)
+      ;(error as any).code = 'WCL_GRAPHQL_ERROR'
+      throw error
+    }
+
+    return {
+      code: report.code,
+      title: report.title || reportCode,
+      startTime: report.startTime,
+      endTime: report.endTime,
+      zone: report.zone ? { id: report.zone.id, name: report.zone.name } : null,
+      fights: (report.fights || []).map((fight: any) => ({
+        id: fight.id,
+        encounterId: fight.encounterID || 0,
+        name: fight.name,
+        kill: fight.kill ?? null,
+        startTime: report.startTime + fight.startTime,
+        endTime: report.startTime + fight.endTime,
+        difficulty: fight.difficulty ?? null,
+        fightPercentage: fight.fightPercentage ?? null,
+        playerIds: fight.friendlyPlayers || [],
+      })),
+      players: (report.masterData?.actors || []).map((actor: any) => ({
+        id: actor.id,
+        name: actor.name,
+        server: actor.server || null,
+      })),
+    }
+  } catch (fetchError) {
+    if (fetchError instanceof Error && (fetchError as any).code) {
+      throw fetchError
+    }
+    console.error('[WCL GraphQL] Network error:', fetchError)
+    const error = new Error('Network error connecting to Warcraft Logs API')
+    ;(error as any).code = 'WCL_GRAPHQL_NETWORK_ERROR'
+    throw error
+  }
+}
+
 /**
  * Fetch character progression for a specific zone
  * Returns kills organized by encounter and difficulty
+ *
+ * Without a difficulty WCL picks one (the highest the character has ranked
+ * on); pass 3, 4 or 5 to get Normal, Heroic or Mythic kills.
+ *
+ * For the `encounterIds` given, the same request also asks for the
+ * character's ranked kills, and each kill gets the `killDate` (epoch ms)
+ * of the earliest one.
  */
 export async function fetchCharacterZoneProgression(
   region: string,
   realm: string,
   characterName: string,
   zoneId: number,
-  config: WarcraftLogsConfig = {}
+  config: WarcraftLogsConfig = {},
+  difficulty?: number,
+  encounterIds: number[] = []
 ): Promise<{
   encounters: Array<{
     encounterId: number
@@ -505,14 +581,20 @@ export async function fetchCharacterZoneProgression(
   }>
 }> {
   const apiUrl = config.apiUrl || 'https://www.warcraftlogs.com/api/v2/client'
-  const token = await getWarcraftLogsToken(config)
+
+  // One aliased encounterRankings per encounter that needs kill dates
+  const datedEncounters = encounterIds.filter(id => Number.isInteger(id) && id > 0)
+  const encounterRankings = datedEncounters
+    .map(id => `encounter${id}: encounterRankings(encounterID: ${id}, difficulty: $difficulty)`)
+    .join('\n          ')
 
   // GraphQL query to fetch character's zone rankings/kills
   const query = `
-    query ($name: String!, $serverSlug: String!, $serverRegion: String!, $zoneID: Int!) {
+    query ($name: String!, $serverSlug: String!, $serverRegion: String!, $zoneID: Int!, $difficulty: Int) {
       characterData {
         character(name: $name, serverSlug: $serverSlug, serverRegion: $serverRegion) {
-          zoneRankings(zoneID: $zoneID)
+          zoneRankings(zoneID: $zoneID, difficulty: $difficulty)
+          ${encounterRankings}
         }
       }
     }
@@ -523,6 +605,7 @@ export async function fetchCharacterZoneProgression(
     serverSlug: realm,
     serverRegion: region.toUpperCase(),
     zoneID: zoneId,
+    difficulty: difficulty ?? null,
   }
 
   if (process.env.NODE_ENV === 'development') {
@@ -533,17 +616,16 @@ export async function fetchCharacterZoneProgression(
   }
 
   try {
-    const response = await fetch(apiUrl, {
+    const response = await scheduleWclRequest(apiUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
       },
       body: JSON.stringify({
         query,
         variables,
       }),
-    })
+    }, config, config.priority)
 
     if (!response.ok) {
       const responseText = await response.text()
@@ -571,7 +653,8 @@ export async function fetchCharacterZoneProgression(
       throw error
     }
 
-    const zoneRankings = result.data?.characterData?.character?.zoneRankings
+    const character = result.data?.characterData?.character
+    const zoneRankings = character?.zoneRankings
 
     if (process.env.NODE_ENV === 'development') {
       console.log('[WCL Zone Progression] Full zoneRankings object:', JSON.stringify(zoneRankings, null, 2))
@@ -620,10 +703,15 @@ export async function fetchCharacterZoneProgression(
             })
           }
 
+          // Earliest ranked kill, when this encounter's kills were asked for
+          const killTimes: number[] = (character[`encounter${encounterId}`]?.ranks ?? [])
+            .map((rank: any) => Number(rank?.startTime))
+            .filter((time: number) => Number.isFinite(time) && time > 0)
+
           // Use the zone-level difficulty since all rankings are filtered by this difficulty
           encounters.get(encounterId)!.kills.push({
             difficulty: zoneDifficulty,
-            killDate: undefined // We could parse this from rankings if needed
+            killDate: killTimes.length > 0 ? Math.min(...killTimes) : undefined
           })
         }
       }
@@ -46,7 +46,7 @@ function normalizeRegion(region: string): string {
  * Validate and normalize realm slug
  * Realm slugs should be lowercase, alphanumeric with hyphens
  */
-function normalizeRealmSlug(realm: string): string {
+export function normalizeRealmSlug(realm: string): string {
   if (!realm || realm.trim() === '') {
     throw new Error('Realm cannot be empty')
   }
@@ -64,10 +64,18 @@ function normalizeRealmSlug(realm: string): string {
   return normalized
 }
 
+/**
+ * Turn a realm name into its slug, e.g. "Area 52" -> area-52,
+ * "Kel'Thuzad" -> kelthuzad (slugs are left as they are)
+ */
+export function toRealmSlug(realm: string): string {
+  return realm.trim().toLowerCase().replace(/'/g, '').replace(/\s+/g, '-')
+}
+
 /**
  * Validate and normalize character name
  */
-function normalizeCharacterName(name: string): string {
+export function normalizeCharacterName(name: string): string {
   if (!name || name.trim() === '') {
     throw new Error('Character name cannot be empty')
   }
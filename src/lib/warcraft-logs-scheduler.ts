@@ -0,0 +1,287 @@
+/**
+ * Warcraft Logs Request Scheduler
+ *
+ * WCL's API gives each client a budget of points per hour; once it's spent
+ * every request fails until the hour resets. All API requests go through
+ * this queue, which:
+ *
+ * - runs at most MAX_CONCURRENT at a time, interactive requests (someone is
+ *   waiting on the page) ahead of background ones (roster refreshes)
+ * - keeps track of the points left, from the `rateLimitData` query, and
+ *   holds background requests back once only BACKGROUND_RESERVE of the
+ *   budget is left, so player cards keep working; once it's spent,
+ *   background requests wait for the reset and interactive ones fail
+ *   straight away with WCL_RATE_LIMITED rather than wait up to an hour
+ * - pauses the queue on a 429 and retries with exponential backoff and
+ *   jitter (or as long as Retry-After says)
+ *
+ * The queue and budget are kept in memory, so each server process has
+ * its own.
+ */
+
+import { fetchWithWclToken, type WclCredentials } from './warcraft-logs-token'
+
+export type WclRequestPriority = 'interactive' | 'background'
+
+export interface WclBudget {
+  limitPerHour: number
+  pointsSpentThisHour: number
+  pointsRemaining: number
+  resetsAt: string  // ISO timestamp
+  updatedAt: string
+}
+
+export interface WclSchedulerStatus {
+  budget: WclBudget | null  // null until WCL has been asked
+  queued: Record<WclRequestPriority, number>
+  active: number
+  pausedUntil: string | null  // Backing off after a 429
+}
+
+const MAX_CONCURRENT = 4
+
+// Share of the hourly budget kept for interactive requests
+const BACKGROUND_RESERVE = 0.1
+
+// How often the budget is asked for again while requests are being made
+const BUDGET_MAX_AGE_MS = 60 * 1000
+
+const MAX_RETRIES = 3
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 60 * 1000
+
+const DEFAULT_API_URL = 'https://www.warcraftlogs.com/api/v2/client'
+
+interface QueuedRequest {
+  priority: WclRequestPriority
+  run: () => Promise<void>
+  reject: (error: Error) => void
+}
+
+const queue: QueuedRequest[] = []
+let active = 0
+let pausedUntil = 0
+let budget: WclBudget | null = null
+let budgetFetchedAt = 0
+let budgetResetAt = 0
+let budgetRequest: Promise<void> | null = null
+let wakeTimer: ReturnType<typeof setTimeout> | null = null
+let wakeAt = 0
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// What an interactive request rejects with once the hourly budget is spent
+export interface WclRateLimitedError extends Error {
+  code: 'WCL_RATE_LIMITED'
+  resetsAt: string  // ISO timestamp
+}
+
+export function isWclRateLimitedError(error: unknown): error is WclRateLimitedError {
+  return error instanceof Error && (error as { code?: unknown }).code === 'WCL_RATE_LIMITED'
+}
+
+function rateLimitedError(resetsAt: string): WclRateLimitedError {
+  const error = new Error(`Warcraft Logs rate limit reached; it resets at ${resetsAt}`)
+  return Object.assign(error, { code: 'WCL_RATE_LIMITED' as const, resetsAt })
+}
+
+/**
+ * How long to wait before retry `attempt` (0-based) after a 429
+ */
+export function backoffDelay(attempt: number, retryAfter: string | null, random: () => number = Math.random): number {
+  const seconds = retryAfter !== null ? Number(retryAfter) : NaN
+  const base = Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : BASE_BACKOFF_MS * 2 ** attempt
+
+  // Jitter, so requests that were paused together don't all retry together
+  return Math.min(MAX_BACKOFF_MS, base + Math.floor(random() * BASE_BACKOFF_MS))
+}
+
+/**
+ * Ask WCL how much of this hour's budget is left
+ * Failures are logged and leave the last known budget in place.
+ */
+async function refreshBudget(credentials: WclCredentials, apiUrl: string): Promise<void> {
+  if (budgetRequest) return budgetRequest
+
+  budgetRequest = (async () => {
+    try {
+      const response = await fetchWithWclToken(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          query: 'query { rateLimitData { limitPerHour pointsSpentThisHour pointsResetIn } }',
+        }),
+      }, credentials)
+
+      if (!response.ok) {
+        console.warn(`[WCL Scheduler] Rate limit query failed: ${response.status}`)
+        return
+      }
+
+      const data = (await response.json())?.data?.rateLimitData
+      if (!data) {
+        console.warn('[WCL Scheduler] Rate limit query returned no data')
+        return
+      }
+
+      const now = Date.now()
+      const resetAt = now + (Number(data.pointsResetIn) || 0) * 1000
+      budget = {
+        limitPerHour: data.limitPerHour,
+        pointsSpentThisHour: data.pointsSpentThisHour,
+        pointsRemaining: Math.max(0, data.limitPerHour - data.pointsSpentThisHour),
+        resetsAt: new Date(resetAt).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      }
+      budgetFetchedAt = now
+      budgetResetAt = resetAt
+    } catch (error) {
+      console.warn('[WCL Scheduler] Could not check the rate limit:', error instanceof Error ? error.message : error)
+    } finally {
+      budgetRequest = null
+    }
+  })()
+
+  return budgetRequest
+}
+
+function wakeIn(ms: number) {
+  const at = Date.now() + ms
+  if (wakeTimer && wakeAt <= at) return
+  if (wakeTimer) clearTimeout(wakeTimer)
+
+  wakeAt = at
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null
+    pump()
+  }, ms)
+  // Don't keep the process alive just to drain the queue
+  wakeTimer.unref?.()
+}
+
+/**
+ * Start queued requests while there's room and budget for them
+ */
+function pump() {
+  while (active < MAX_CONCURRENT && queue.length > 0) {
+    const now = Date.now()
+
+    if (now < pausedUntil) {
+      wakeIn(pausedUntil - now)
+      return
+    }
+
+    // A budget from before the last reset says nothing about this hour
+    const known = budget && now < budgetResetAt ? budget : null
+    let index = 0
+
+    if (known) {
+      const reserve = known.limitPerHour * BACKGROUND_RESERVE
+      if (known.pointsRemaining <= 0) {
+        // Nobody should wait on a page until the reset; background work can
+        for (let i = queue.length - 1; i >= 0; i--) {
+          if (queue[i].priority !== 'interactive') continue
+          const [request] = queue.splice(i, 1)
+          request.reject(rateLimitedError(known.resetsAt))
+        }
+        if (queue.length > 0) wakeIn(budgetResetAt - now)
+        return
+      }
+      if (known.pointsRemaining <= reserve) {
+        index = queue.findIndex(request => request.priority === 'interactive')
+        if (index === -1) {
+          wakeIn(budgetResetAt - now)
+          return
+        }
+      }
+    }
+
+    const [request] = queue.splice(index, 1)
+    active++
+    request.run().finally(() => {
+      active--
+      pump()
+    })
+  }
+}
+
+/**
+ * Send a WCL API request through the queue
+ * Resolves with WCL's response, which is still a 429 if it was rate
+ * limited MAX_RETRIES more times. An interactive request made while the
+ * budget is spent rejects with code WCL_RATE_LIMITED and `resetsAt`.
+ */
+export function scheduleWclRequest(
+  url: string,
+  init: RequestInit,
+  credentials: WclCredentials = {},
+  priority: WclRequestPriority = 'interactive'
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const run = async () => {
+      try {
+        if (!budget || Date.now() - budgetFetchedAt > BUDGET_MAX_AGE_MS) {
+          void refreshBudget(credentials, url)
+        }
+
+        for (let attempt = 0; ; attempt++) {
+          const response = await fetchWithWclToken(url, init, credentials)
+          if (response.status !== 429 || attempt >= MAX_RETRIES) {
+            if (response.status === 429) {
+              console.error(`[WCL Scheduler] Still rate limited after ${MAX_RETRIES} retries`)
+            }
+            resolve(response)
+            return
+          }
+
+          const delay = backoffDelay(attempt, response.headers.get('Retry-After'))
+          console.warn(`[WCL Scheduler] Rate limited (429), retrying in ${delay}ms`)
+          pausedUntil = Math.max(pausedUntil, Date.now() + delay)
+          void refreshBudget(credentials, url)
+          await sleep(delay)
+        }
+      } catch (error) {
+        reject(error)
+      }
+    }
+
+    // Interactive requests go ahead of every background one
+    const request: QueuedRequest = { priority, run, reject }
+    if (priority === 'interactive') {
+      const firstBackground = queue.findIndex(queued => queued.priority === 'background')
+      queue.splice(firstBackground === -1 ? queue.length : firstBackground, 0, request)
+    } else {
+      queue.push(request)
+    }
+
+    pump()
+  })
+}
+
+/**
+ * The queue and the budget as last known
+ * With `refresh` the budget is asked for first.
+ */
+export async function getWclSchedulerStatus(
+  options: { refresh?: boolean; credentials?: WclCredentials; apiUrl?: string } = {}
+): Promise<WclSchedulerStatus> {
+  if (options.refresh) {
+    await refreshBudget(options.credentials ?? {}, options.apiUrl ?? DEFAULT_API_URL)
+  }
+
+  return {
+    budget,
+    queued: {
+      interactive: queue.filter(request => request.priority === 'interactive').length,
+      background: queue.filter(request => request.priority === 'background').length,
+    },
+    active,
+    pausedUntil: pausedUntil > Date.now() ? new Date(pausedUntil).toISOString() : null,
+  }
+}
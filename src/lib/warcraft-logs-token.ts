@@ -0,0 +1,170 @@
+/**
+ * Warcraft Logs OAuth Tokens
+ *
+ * Client-credentials tokens for the Warcraft Logs API, shared by every
+ * request the server makes. A token is kept until shortly before it
+ * expires, concurrent requests for a new one share a single exchange, and
+ * a token WCL rejects (401) is dropped and replaced once.
+ *
+ * Tokens are kept in memory per client id, so each server process asks
+ * for its own.
+ */
+
+const TOKEN_URL = 'https://www.warcraftlogs.com/oauth/token'
+
+// Get a new token this long before the old one expires
+const REFRESH_MARGIN_MS = 60 * 1000
+
+export interface WclCredentials {
+  clientId?: string
+  clientSecret?: string
+}
+
+export interface WclToken {
+  accessToken: string
+  expiresAt: number  // Epoch ms; the token is refreshed REFRESH_MARGIN_MS before this
+}
+
+const tokens = new Map<string, WclToken>()
+const pending = new Map<string, Promise<WclToken>>()
+
+function wclError(message: string, code: string, details: Record<string, unknown> = {}): Error {
+  const error = new Error(message)
+  Object.assign(error, { code, ...details })
+  return error
+}
+
+function resolveCredentials(credentials: WclCredentials): { clientId: string; clientSecret: string } {
+  const clientId = credentials.clientId || process.env.WCL_CLIENT_ID
+  const clientSecret = credentials.clientSecret || process.env.WCL_CLIENT_SECRET
+
+  if (!clientId || !clientSecret) {
+    throw wclError('Warcraft Logs API credentials not configured', 'WCL_CONFIG_MISSING')
+  }
+
+  return { clientId, clientSecret }
+}
+
+async function requestToken(clientId: string, clientSecret: string): Promise<WclToken> {
+  if (process.env.NODE_ENV === 'development') {
+    console.log('[WCL OAuth] Requesting token from:', TOKEN_URL)
+  }
+
+  let response: Response
+  try {
+    response = await fetch(TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+      }),
+    })
+  } catch (fetchError) {
+    console.error('[WCL OAuth] Network error:', fetchError)
+    throw wclError('Network error connecting to Warcraft Logs OAuth', 'WCL_OAUTH_NETWORK_ERROR')
+  }
+
+  if (!response.ok) {
+    const responseText = await response.text()
+    console.error('[WCL OAuth] Failed:', {
+      status: response.status,
+      statusText: response.statusText,
+      body: responseText.substring(0, 500)
+    })
+    throw wclError(`WCL OAuth failed: ${response.status} ${response.statusText}`, 'WCL_OAUTH_FAILED', {
+      status: response.status,
+      statusText: response.statusText,
+    })
+  }
+
+  const data = await response.json().catch(() => null)
+  if (!data?.access_token) {
+    throw wclError('WCL OAuth response missing access token', 'WCL_OAUTH_INVALID_RESPONSE')
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('[WCL OAuth] Token obtained successfully')
+  }
+
+  const lifetimeMs = (Number(data.expires_in) || 0) * 1000
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + lifetimeMs,
+  }
+}
+
+/**
+ * A token for the WCL API, from memory while it's still good
+ * Throws with code WCL_CONFIG_MISSING, WCL_OAUTH_FAILED (with `status`),
+ * WCL_OAUTH_INVALID_RESPONSE or WCL_OAUTH_NETWORK_ERROR.
+ */
+export async function getWclToken(credentials: WclCredentials = {}): Promise<WclToken> {
+  const { clientId, clientSecret } = resolveCredentials(credentials)
+
+  const cached = tokens.get(clientId)
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cached
+  }
+
+  // Everyone waiting on a new token shares the one exchange
+  let request = pending.get(clientId)
+  if (!request) {
+    request = requestToken(clientId, clientSecret)
+      .then(token => {
+        tokens.set(clientId, token)
+        return token
+      })
+      .finally(() => pending.delete(clientId))
+    pending.set(clientId, request)
+  }
+
+  return request
+}
+
+/**
+ * Forget a token WCL has rejected
+ * Only that token is dropped, so a replacement another request already
+ * got is kept.
+ */
+export function invalidateWclToken(accessToken: string): void {
+  for (const [clientId, token] of tokens) {
+    if (token.accessToken === accessToken) tokens.delete(clientId)
+  }
+}
+
+/**
+ * Forget every token (e.g. after the credentials change)
+ */
+export function clearWclTokens(): void {
+  tokens.clear()
+}
+
+/**
+ * fetch() a WCL API URL with a bearer token
+ * If WCL answers 401 the token is replaced and the request sent once more.
+ */
+export async function fetchWithWclToken(
+  url: string,
+  init: RequestInit,
+  credentials: WclCredentials = {}
+): Promise<Response> {
+  const send = (token: WclToken) => fetch(url, {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string> | undefined),
+      'Authorization': `Bearer ${token.accessToken}`,
+    },
+  })
+
+  const token = await getWclToken(credentials)
+  const response = await send(token)
+  if (response.status !== 401) return response
+
+  console.warn('[WCL OAuth] Token rejected (401), requesting a new one')
+  invalidateWclToken(token.accessToken)
+  return send(await getWclToken(credentials))
+}
@@ -0,0 +1,103 @@
+/**
+ * Application Types
+ *
+ * Recruitment applications submitted from the public Apply page
+ */
+
+import type { PlayerCard } from './player-card'
+
+export type ApplicationStatus = 'new' | 'reviewing' | 'trial' | 'accepted' | 'declined'
+
+export type ApplicationVoteValue = 'yes' | 'no' | 'abstain'
+
+export type EnrichmentStatus = 'pending' | 'complete' | 'failed'
+
+export type ApplicationQuestionType = 'short_text' | 'long_text' | 'single_choice' | 'multi_choice' | 'url'
+
+// One question in a team's questionnaire (teams.application_questions)
+export interface ApplicationQuestion {
+  id: string  // Stable key answers refer to, e.g. "raid-times"
+  label: string
+  type: ApplicationQuestionType
+  required: boolean
+  options?: string[]  // single_choice / multi_choice only
+  help?: string
+}
+
+// questionId is set when the team has a questionnaire; question is the
+// label as it read when the applicant answered
+export interface ApplicationAnswer {
+  questionId?: string
+  question: string
+  answer: string | string[]  // string[] for multi_choice
+}
+
+export interface Application {
+  id: number
+  team_id: number
+  character_name: string
+  realm: string
+  region: string
+  wcl_url: string
+  class: string
+  spec: string | null
+  availability: string | null
+  discord: string
+  answers: ApplicationAnswer[]
+  player_card: PlayerCard | null
+  enrichment_status: EnrichmentStatus
+  enrichment_error: string | null
+  status: ApplicationStatus
+  status_changed_by: number | null
+  status_changed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// What the Apply page sends (camelCase, like roster input)
+export interface ApplicationInput {
+  teamId: number
+  characterName: string
+  realm: string
+  region: string
+  wclUrl: string
+  class: string
+  spec: string | null
+  availability: string | null
+  discord: string
+  answers: ApplicationAnswer[]
+}
+
+export interface ApplicationComment {
+  id: number
+  application_id: number
+  user_id: number | null
+  username: string
+  body: string
+  created_at: string
+}
+
+export interface ApplicationVote {
+  id: number
+  application_id: number
+  user_id: number
+  username: string
+  vote: ApplicationVoteValue
+  created_at: string
+  updated_at: string
+}
+
+// An application as reviewers see it, with the discussion
+export interface ApplicationDetail extends Application {
+  team_name: string
+  comments: ApplicationComment[]
+  votes: ApplicationVote[]
+  tally: Record<ApplicationVoteValue, number>
+}
+
+export interface ApplicationFilters {
+  teamIds: number[] | null  // null = every team
+  status?: ApplicationStatus
+  page: number
+  limit: number
+}
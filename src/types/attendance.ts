@@ -0,0 +1,73 @@
+/**
+ * Attendance Types
+ *
+ * Signups for and attendance at a team's raid event occurrences, per
+ * roster member, and the attendance percentages worked out from them
+ */
+
+import type { RosterStatus } from './roster'
+
+export type SignupStatus = 'accepted' | 'tentative' | 'declined'
+
+export type AttendanceStatus = 'present' | 'late' | 'bench' | 'absent'
+
+export interface RaidSignup {
+  id: number
+  team_id: number
+  event_id: number
+  occurrence_date: string
+  member_id: number
+  status: SignupStatus
+  reason: string | null
+  recorded_by: number | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AttendanceRecord {
+  id: number
+  team_id: number
+  event_id: number
+  occurrence_date: string
+  starts_at: string  // UTC, YYYY-MM-DD HH:MM:SS
+  member_id: number
+  status: AttendanceStatus
+  recorded_by: number | null
+  recorded_at: string
+}
+
+// One occurrence's signups and attendance
+export interface OccurrenceAttendance {
+  eventId: number
+  date: string
+  startsAt: string
+  cancelled: boolean
+  signups: RaidSignup[]
+  attendance: AttendanceRecord[]
+}
+
+export interface AttendanceWindowStats {
+  days: number
+  raids: number  // Raids attendance was taken for
+  attended: number  // present, late or bench
+  late: number
+  absent: number
+  percent: number | null  // null with no raids
+}
+
+export interface MemberAttendance {
+  memberId: number
+  characterName: string
+  rosterStatus: RosterStatus
+  windows: AttendanceWindowStats[]
+  flagged: boolean  // A trial below the threshold in the shortest window
+}
+
+export interface TeamAttendance {
+  teamId: number
+  windows: number[]
+  threshold: number
+  members: MemberAttendance[]
+  trialsToReview: number[]  // Member ids of flagged trials
+  computedAt: string
+}
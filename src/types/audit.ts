@@ -0,0 +1,95 @@
+/**
+ * Audit Log Types
+ *
+ * Record of privileged mutations (who changed what, when and from where)
+ */
+
+export type AuditTargetType =
+  | 'team'
+  | 'user'
+  | 'content'
+  | 'role'
+  | 'role_assignment'
+  | 'season_config'
+  | 'two_factor_policy'
+  | 'application'
+  | 'lockout'
+  | 'migration'
+
+export type AuditAction =
+  | 'team.create'
+  | 'team.update'
+  | 'team.update_data'
+  | 'team.update_questions'
+  | 'team.delete'
+  | 'team.member_add'
+  | 'team.member_update'
+  | 'team.member_remove'
+  | 'team.roster_add'
+  | 'team.roster_update'
+  | 'team.roster_remove'
+  | 'team.roster_import'
+  | 'team.event_add'
+  | 'team.event_update'
+  | 'team.event_remove'
+  | 'team.event_cancel'
+  | 'team.event_restore'
+  | 'team.signup_record'
+  | 'team.attendance_record'
+  | 'team.report_import'
+  | 'team.loot_add'
+  | 'team.loot_update'
+  | 'team.loot_remove'
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'user.password_reset'
+  | 'user.sessions_revoke'
+  | 'user.two_factor_reset'
+  | 'user.recovery_resolve'
+  | 'content.update'
+  | 'role.create'
+  | 'role.update'
+  | 'role.delete'
+  | 'role.assign'
+  | 'role.unassign'
+  | 'role.permissions_update'
+  | 'season_config.save'
+  | 'two_factor_policy.update'
+  | 'application.status_update'
+  | 'security.lockout_clear'
+  | 'system.migrate'
+
+// What a route passes to recordAudit()
+export interface AuditEntry {
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId: string | number | null
+  // Full state before/after the change; only differing fields are stored
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+export interface AuditLogEntry {
+  id: number
+  actor_id: number | null
+  actor_username: string | null
+  action: AuditAction
+  target_type: AuditTargetType
+  target_id: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  ip_address: string | null
+  created_at: string
+}
+
+export interface AuditLogFilters {
+  actorId?: number
+  action?: string
+  targetType?: string
+  targetId?: string
+  from?: string
+  to?: string
+  page: number
+  limit: number
+}
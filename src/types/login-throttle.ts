@@ -0,0 +1,48 @@
+/**
+ * Login Throttling Types
+ *
+ * Failed-login tracking and lockouts, per username and per client IP
+ */
+
+export type LockoutScope = 'username' | 'ip'
+
+export type LoginAttemptReason =
+  | 'success'
+  | 'invalid_password'
+  | 'unknown_user'
+  | 'locked_out'
+  | 'invalid_two_factor'
+
+export interface LoginAttempt {
+  id: number
+  username: string
+  user_id: number | null
+  ip_address: string | null
+  success: boolean
+  reason: LoginAttemptReason | null
+  created_at: string
+}
+
+export interface LoginLockout {
+  id: number
+  scope: LockoutScope
+  identifier: string
+  failure_count: number
+  last_failure_at: string | null
+  locked_until: string | null
+}
+
+// Result of checking whether a login may be attempted right now
+export interface LoginThrottleStatus {
+  allowed: boolean
+  scope?: LockoutScope
+  retryAfterSeconds?: number
+}
+
+export interface LoginAttemptFilters {
+  username?: string
+  ipAddress?: string
+  success?: boolean
+  page: number
+  limit: number
+}
@@ -0,0 +1,96 @@
+/**
+ * Loot Types
+ *
+ * Items a team's loot council hands out at its raids: each item, who it
+ * went to and why, the council's votes and notes, and what each roster
+ * member has received in a season
+ */
+
+import type { RosterStatus } from './roster'
+import type { RaidDifficulty } from './team-data'
+
+// Why the player wanted the item
+export type LootResponse = 'bis' | 'upgrade' | 'offspec' | 'transmog'
+
+export interface LootAward {
+  id: number
+  team_id: number
+  event_id: number
+  occurrence_date: string  // Local date of the raid it dropped in
+  season_config_id: number | null  // Season active when it dropped
+  item_id: number | null  // WoW item id
+  item_name: string
+  encounter_name: string | null
+  difficulty: RaidDifficulty | null
+  member_id: number | null  // null while the council is still deciding
+  character_name: string | null  // The member's name when it was awarded
+  response: LootResponse | null
+  note: string | null
+  awarded_by: number | null
+  awarded_at: string | null
+  created_by: number | null
+  created_at: string
+  updated_at: string
+}
+
+// Fields accepted when adding or editing an item
+export interface LootAwardInput {
+  eventId: number
+  date: string
+  itemId?: number | null
+  itemName: string
+  encounterName?: string | null
+  difficulty?: RaidDifficulty | null
+  memberId?: number | null
+  response?: LootResponse | null
+  note?: string | null
+}
+
+// A council member's vote for who should get an item
+export interface LootVote {
+  id: number
+  award_id: number
+  user_id: number
+  username: string
+  member_id: number
+  note: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Votes per candidate, most first
+export interface LootVoteTally {
+  memberId: number
+  votes: number
+}
+
+export interface LootAwardDetail extends LootAward {
+  votes: LootVote[]
+  tally: LootVoteTally[]
+}
+
+export interface LootFilters {
+  memberId?: number
+  eventId?: number
+  seasonConfigId?: number
+  page: number
+  limit: number
+}
+
+// What one member has received in a season
+export interface MemberLootSummary {
+  memberId: number
+  characterName: string
+  rosterStatus: RosterStatus
+  total: number
+  byResponse: Record<LootResponse, number>
+  lastAwardedAt: string | null
+}
+
+export interface TeamLootSummary {
+  teamId: number
+  seasonConfigId: number | null
+  tierName: string | null
+  members: MemberLootSummary[]
+  computedAt: string
+}
@@ -0,0 +1,74 @@
+/**
+ * Schema Migration Types
+ *
+ * Numbered, reversible schema changes applied by the migration runner
+ */
+
+import type { DriverSession } from '../lib/db-drivers/types'
+
+// Code that reshapes existing rows, for data moves SQL can't express portably
+export type MigrationTransform = (db: DriverSession) => Promise<void>
+
+export interface Migration {
+  version: number
+  name: string
+  up: string[]
+  down: string[]
+  /**
+   * MySQL/MariaDB statements, required when DDL differs from SQLite.
+   * Without it the SQLite statements are translated (fine for plain DML).
+   */
+  mysql?: {
+    up: string[]
+    down: string[]
+  }
+  /**
+   * Data changes run in the same transaction as the statements: 'up' runs
+   * after the up statements, 'down' before the down statements (so the
+   * tables it reads still exist). Use sparingly - plain SQL is preferred.
+   */
+  transform?: {
+    up?: MigrationTransform
+    down?: MigrationTransform
+  }
+  /**
+   * Databases created before schema_migrations existed were built by the old
+   * initSchema(). When adopting one of those, the migration is recorded as
+   * applied (without running) if this table/column is already present.
+   * Only set this on changes that predate the migration runner.
+   */
+  legacyCheck?: {
+    table: string
+    column?: string
+  }
+}
+
+export type MigrationDirection = 'up' | 'down'
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  applied_at: string
+  baselined: boolean
+}
+
+export interface MigrationStatus {
+  currentVersion: number
+  applied: AppliedMigration[]
+  pending: Array<{ version: number; name: string }>
+  unknown: AppliedMigration[]
+}
+
+export interface MigrationStep {
+  version: number
+  name: string
+  direction: MigrationDirection
+  statements: string[]
+  transform?: MigrationTransform
+  baselined: boolean
+}
+
+export interface MigrationRunOptions {
+  dryRun?: boolean
+  steps?: number
+}
@@ -0,0 +1,37 @@
+/**
+ * Permission Types
+ *
+ * Named capabilities that ranks grant by default and guild roles can add to
+ */
+
+export type Permission =
+  | 'team.view'
+  | 'team.edit'
+  | 'team.roster.edit'
+  | 'team.members.manage'
+  | 'team.create'
+  | 'team.delete'
+  | 'applications.review'
+  | 'applications.manage'
+  | 'loot.view'
+  | 'loot.manage'
+  | 'users.manage'
+  | 'roles.manage'
+  | 'content.edit'
+  | 'season.manage'
+  | 'recovery.resolve'
+  | 'security.view'
+  | 'security.manage'
+  | 'audit.view'
+  | 'system.migrate'
+
+// One permission a user holds; teamId limits it to that team, null means every team
+export interface PermissionGrant {
+  permission: Permission
+  teamId: number | null
+}
+
+// What a permission is being checked against
+export interface PermissionResource {
+  teamId?: number
+}
@@ -0,0 +1,69 @@
+/**
+ * Player Card Types
+ *
+ * A character's summary built from Warcraft Logs, as shown on the site
+ */
+
+export interface PlayerCard {
+  warcraftLogsUrl: string
+  characterName: string
+  realm: string
+  region: string
+  class: string | null
+  spec: string | null
+  avatarUrl: string | null
+  bestKillLatestSeason: {
+    bossId: number
+    bossName: string
+    difficulty: 'Mythic' | 'Heroic' | 'Normal'
+    orderIndex: number
+  } | null
+  classSpec: string | null
+  updatedAt: string
+  fetchStatus: 'complete' | 'partial' | 'failed'
+  errorMessage?: string
+  seasonConfigUpdatedAt?: string
+}
+
+// A player card and how it was obtained (cache hit, fresh fetch, ...)
+export interface PlayerCardResult {
+  playerCard: PlayerCard
+  message?: string
+}
+
+export interface PlayerCardOptions {
+  seasonKey?: string  // Default: 'latest'
+  forceRefresh?: boolean  // Skip the cache
+}
+
+// One character asked for in a batch, optionally on behalf of a roster member
+export interface PlayerCardBatchRequest {
+  warcraftLogsUrl: string
+  memberId?: number
+}
+
+/**
+ * One character's result in a batch. A character that can't be enriched
+ * fails on its own (fetchStatus 'failed', with an error code) rather than
+ * failing the batch.
+ */
+export interface PlayerCardBatchItem {
+  warcraftLogsUrls: string[]  // Every requested URL that is this character
+  memberIds: number[]
+  playerCard: PlayerCard | null
+  fetchStatus: PlayerCard['fetchStatus']
+  cached: boolean  // Served from the cache without asking WCL
+  errorCode?: string  // INVALID_URL, or the WCL error's code
+  errorMessage?: string
+}
+
+export interface PlayerCardBatchResult {
+  results: PlayerCardBatchItem[]
+  counts: {
+    requested: number
+    unique: number
+    cached: number
+    fetched: number
+    failed: number
+  }
+}
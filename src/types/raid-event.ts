@@ -0,0 +1,72 @@
+/**
+ * Raid Event Types
+ *
+ * A team's raid schedule: weekly raid nights and one-off events, each in
+ * the team's local time, plus cancelled occurrences
+ */
+
+import type { Weekday } from './team-data'
+
+export type RaidEventKind = 'weekly' | 'one_off'
+
+export interface RaidEvent {
+  id: number
+  team_id: number
+  kind: RaidEventKind
+  title: string
+  description: string | null
+  weekday: Weekday | null  // weekly only
+  event_date: string | null  // YYYY-MM-DD, one_off only
+  start_time: string  // HH:MM in `timezone`
+  duration_minutes: number
+  timezone: string  // IANA name, e.g. 'America/New_York'
+  starts_on: string | null  // weekly: first date it runs (YYYY-MM-DD)
+  ends_on: string | null  // weekly: last date it runs
+  created_by: number | null
+  created_at: string
+  updated_at: string
+}
+
+// Fields accepted when adding or editing an event
+export interface RaidEventInput {
+  kind: RaidEventKind
+  title: string
+  description?: string | null
+  weekday?: Weekday | null
+  date?: string | null
+  startTime: string
+  durationMinutes: number
+  timezone: string
+  startsOn?: string | null
+  endsOn?: string | null
+}
+
+export interface RaidEventCancellation {
+  id: number
+  event_id: number
+  occurrence_date: string  // Local date of the cancelled occurrence
+  reason: string | null
+  created_by: number | null
+  created_at: string
+}
+
+// An event with its cancellations, as returned by the events API
+export interface RaidEventDetail extends RaidEvent {
+  cancellations: RaidEventCancellation[]
+}
+
+// One occurrence of an event, on the calendar
+export interface CalendarOccurrence {
+  eventId: number
+  teamId: number
+  teamName: string
+  kind: RaidEventKind
+  title: string
+  description: string | null
+  date: string  // Local date in the event's timezone
+  startsAt: string  // ISO 8601, UTC
+  endsAt: string
+  timezone: string
+  cancelled: boolean
+  cancellationReason: string | null
+}
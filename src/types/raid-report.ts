@@ -0,0 +1,93 @@
+/**
+ * Raid Report Types
+ *
+ * Warcraft Logs reports imported for raid event occurrences: the report as
+ * fetched from WCL, the boss pulls stored from it, and how its players
+ * matched the team's roster
+ */
+
+import type { AttendanceRecord } from './attendance'
+import type { RaidDifficulty } from './team-data'
+
+export interface WclReportFight {
+  id: number
+  encounterId: number  // 0 for trash
+  name: string
+  kill: boolean | null
+  startTime: number  // Epoch ms
+  endTime: number
+  difficulty: number | null  // WCL difficulty id, e.g. 5 for Mythic
+  fightPercentage: number | null  // Boss health left when the pull ended
+  playerIds: number[]  // Report actor ids of the players in the fight
+}
+
+export interface WclReportPlayer {
+  id: number
+  name: string
+  server: string | null
+}
+
+// A report as fetched from WCL
+export interface WclReport {
+  code: string
+  title: string
+  startTime: number  // Epoch ms
+  endTime: number
+  zone: { id: number; name: string } | null
+  fights: WclReportFight[]
+  players: WclReportPlayer[]
+}
+
+export interface RaidReportImport {
+  id: number
+  team_id: number
+  event_id: number
+  occurrence_date: string
+  report_code: string
+  title: string
+  zone_id: number | null
+  started_at: string  // UTC, YYYY-MM-DD HH:MM:SS
+  ended_at: string
+  matched_members: number[]
+  unmatched_players: string[]  // Name-Server of players not on the roster
+  imported_by: number | null
+  imported_at: string
+}
+
+export interface RaidBossPull {
+  id: number
+  team_id: number
+  event_id: number
+  occurrence_date: string
+  report_code: string
+  fight_id: number
+  encounter_id: number
+  encounter_name: string
+  difficulty: RaidDifficulty
+  killed: boolean
+  fight_percentage: number | null
+  started_at: string  // UTC, YYYY-MM-DD HH:MM:SS
+  ended_at: string
+}
+
+// What the pure matcher works out from a report
+export interface ReportPlayerMatch {
+  matchedMemberIds: number[]
+  unmatchedPlayers: string[]
+}
+
+// What an import did, as returned by the import API
+export interface ReportImportResult {
+  report: RaidReportImport
+  pulls: RaidBossPull[]
+  attendance: AttendanceRecord[]
+  firstKillsRecorded: { encounterId: number; difficulty: RaidDifficulty }[]
+}
+
+// Reports and pulls for one occurrence
+export interface OccurrenceReports {
+  eventId: number
+  date: string
+  reports: RaidReportImport[]
+  pulls: RaidBossPull[]
+}
@@ -0,0 +1,117 @@
+/**
+ * Roster Types
+ *
+ * One row per character on a team's roster
+ */
+
+export type RosterRole = 'tank' | 'healer' | 'dps'
+
+export type RosterStatus = 'main' | 'trial' | 'bench' | 'inactive'
+
+export interface RosterMember {
+  id: number
+  team_id: number
+  character_name: string
+  realm: string
+  region: string
+  class: string | null
+  spec: string | null
+  role: RosterRole | null
+  status: RosterStatus
+  wcl_url: string | null
+  joined_at: string | null
+  notes: string | null
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+// Fields accepted when adding or editing a member
+export interface RosterMemberInput {
+  characterName: string
+  realm?: string
+  region?: string
+  class?: string | null
+  spec?: string | null
+  role?: RosterRole | null
+  status?: RosterStatus
+  wclUrl?: string | null
+  joinedAt?: string | null
+  notes?: string | null
+}
+
+/**
+ * The shape of one entry in the old teams.roster JSON array, which GET
+ * responses still return for existing clients
+ */
+export interface LegacyRosterEntry {
+  id: number
+  name: string
+  realm: string
+  region: string
+  class: string | null
+  spec: string | null
+  role: RosterRole | null
+  status: RosterStatus
+  wclUrl: string | null
+  joinDate: string | null
+  notes: string | null
+}
+
+export type RosterEventType = 'added' | 'updated' | 'removed'
+
+// One field's change in an 'updated' event
+export interface RosterFieldChange {
+  from: unknown
+  to: unknown
+}
+
+/**
+ * One change to a roster. `snapshot` is the member as it was after the
+ * change (before it, for 'removed'), so any past roster can be rebuilt.
+ */
+export interface RosterEvent {
+  id: number
+  team_id: number
+  member_id: number
+  character_name: string
+  event_type: RosterEventType
+  changes: Record<string, RosterFieldChange> | null
+  snapshot: RosterMember
+  actor_id: number | null
+  actor_username: string | null
+  created_at: string
+}
+
+export interface RosterHistoryFilters {
+  memberId?: number
+  from?: string
+  to?: string
+  page: number
+  limit: number
+}
+
+// merge adds and updates members; replace also removes those not listed
+export type RosterImportMode = 'merge' | 'replace'
+
+export type RosterImportAction = 'add' | 'update' | 'unchanged' | 'invalid'
+
+// One row of an import, as it would be saved
+export interface RosterImportRow {
+  index: number  // 0-based data row
+  line: number  // Spreadsheet row number (the header is row 1), or the array position + 1 for JSON
+  action: RosterImportAction
+  memberId: number | null  // The existing member it updates
+  member: RosterMemberInput | null  // null when invalid
+  changes: string[]  // Fields an update changes
+  errors: Record<string, string[]>
+}
+
+export interface RosterImportPreview {
+  mode: RosterImportMode
+  valid: boolean
+  rows: RosterImportRow[]
+  removed: { memberId: number; characterName: string }[]  // replace mode only
+  ignoredColumns: string[]  // CSV headers that weren't imported
+  counts: Record<RosterImportAction | 'remove', number>
+}
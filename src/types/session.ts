@@ -0,0 +1,45 @@
+/**
+ * Session Types
+ *
+ * Server-side sessions behind refresh tokens
+ */
+
+import type { User } from '../lib/auth'
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'token_reuse'
+  | 'rank_changed'
+  | 'team_changed'
+  | 'user_deleted'
+  | 'admin_revoked'
+  | 'two_factor_reset'
+
+export interface Session {
+  id: number
+  user_id: number
+  user_agent: string | null
+  ip_address: string | null
+  created_at: string
+  last_used_at: string
+  expires_at: string
+  revoked_at: string | null
+  revoked_reason: SessionRevokeReason | null
+}
+
+// Where a session was started from, for the user's device list
+export interface SessionMetadata {
+  userAgent?: string | null
+  ipAddress?: string | null
+}
+
+// A fresh refresh token; the plain token is only ever returned here
+export interface IssuedSession {
+  sessionId: number
+  refreshToken: string
+}
+
+export interface RotatedSession extends IssuedSession {
+  user: User
+}
@@ -0,0 +1,82 @@
+/**
+ * Team Data Types
+ *
+ * The declared shapes of teams.progress and teams.team_info
+ */
+
+import type { RosterRole } from './roster'
+
+export type RaidDifficulty = 'Normal' | 'Heroic' | 'Mythic'
+
+// Highest difficulty a boss has been killed on (null = not killed yet)
+export interface BossProgress {
+  encounterId: number
+  difficulty: RaidDifficulty | null
+}
+
+export interface TeamProgress {
+  completed: number  // Bosses killed on `difficulty` or higher
+  total: number  // Bosses in the active tier
+  difficulty: RaidDifficulty
+  bosses?: BossProgress[]
+  notes?: string
+}
+
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday'
+
+export interface RaidDay {
+  day: Weekday
+  startTime: string  // HH:MM, in the team's timezone
+  endTime: string
+}
+
+export type RecruitmentPriority = 'low' | 'medium' | 'high'
+
+export interface RecruitmentNeed {
+  class: string
+  spec?: string
+  role?: RosterRole
+  priority?: RecruitmentPriority
+}
+
+export interface TeamRecruitment {
+  open: boolean
+  needs?: RecruitmentNeed[]
+  notes?: string
+}
+
+export interface TeamContact {
+  name?: string
+  discord?: string
+  battletag?: string
+  email?: string
+}
+
+export interface TeamInfo {
+  description?: string
+  goals?: string
+  timezone?: string  // IANA name, e.g. 'America/New_York'
+  raidDays?: RaidDay[]
+  recruitment?: TeamRecruitment
+  contact?: TeamContact
+}
+
+// What progress is checked against: the active season_config, if there is one
+export interface TeamDataSeason {
+  tierName: string
+  encounterIds: number[]
+}
+
+// A team whose stored progress or team_info doesn't match the schema
+export interface NonConformingTeam {
+  id: number
+  name: string
+  errors: Record<string, string[]>
+}
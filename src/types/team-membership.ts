@@ -0,0 +1,27 @@
+/**
+ * Team Membership Types
+ *
+ * Who leads which team. A user can belong to several teams and a team can
+ * have several leads, co-leads and officers.
+ */
+
+export type TeamMembershipRole = 'lead' | 'co-lead' | 'officer'
+
+export interface TeamMembership {
+  id: number
+  team_id: number
+  user_id: number
+  role: TeamMembershipRole
+  created_at: string
+}
+
+// A membership with the user's name, for a team's member list
+export interface TeamMember extends TeamMembership {
+  username: string
+  rank: string
+}
+
+// A membership with the team's name, for a user's team list
+export interface UserTeam extends TeamMembership {
+  team_name: string
+}
@@ -0,0 +1,81 @@
+/**
+ * Team Progression Types
+ *
+ * Team progress worked out from roster members' Warcraft Logs kills
+ */
+
+import type { RaidDifficulty, TeamProgress } from './team-data'
+
+// One character's kills in the active zone
+export interface MemberKills {
+  memberId: number
+  characterName: string
+  // killedAt: their first kill (UTC), null when WCL didn't give a date
+  kills: Array<{ encounterId: number; difficulty: RaidDifficulty; killedAt?: string | null }>
+}
+
+export interface BossKillStatus {
+  encounterId: number
+  name: string
+  // Members with a kill on each difficulty (a harder kill counts for easier ones)
+  kills: Record<RaidDifficulty, number>
+  // Highest difficulty at least `threshold` members have killed it on
+  difficulty: RaidDifficulty | null
+  // When the team first had it down on each difficulty (UTC): the day the
+  // threshold-th member got the kill
+  firstKills: Partial<Record<RaidDifficulty, string>>
+}
+
+// A roster member whose kills couldn't be looked up
+export interface SkippedMember {
+  memberId: number
+  characterName: string
+  reason: string
+}
+
+export interface TeamProgression {
+  teamId: number
+  seasonConfigId: number
+  tierName: string
+  zoneId: number
+  threshold: number  // Members who need the kill for a boss to count
+  membersCounted: number
+  skipped: SkippedMember[]
+  bosses: BossKillStatus[]
+  progress: TeamProgress  // In the teams.progress shape
+  computedAt: string
+}
+
+export interface TeamProgressionOptions {
+  threshold?: number  // Defaults to half the active roster (rounded up)
+  refresh?: boolean  // Ignore cached kills and ask WCL again
+  cachedOnly?: boolean  // Use cached kills however old, never ask WCL
+  recordFirstKills?: boolean  // Save first-kill dates to team_boss_kills
+}
+
+export interface LeaderboardBoss {
+  encounterId: number
+  name: string
+  difficulty: RaidDifficulty | null
+  firstKills: Partial<Record<RaidDifficulty, string>>
+}
+
+export interface LeaderboardEntry {
+  rank: number
+  teamId: number
+  teamName: string
+  // Bosses down on each difficulty or a harder one
+  killed: Record<RaidDifficulty, number>
+  total: number
+  summary: string  // e.g. '5/8 M'
+  // When the team got its last boss on its hardest difficulty (tie-breaker)
+  reachedAt: string | null
+  bosses: LeaderboardBoss[]
+}
+
+export interface ProgressionLeaderboard {
+  seasonConfigId: number
+  tierName: string
+  computedAt: string
+  teams: LeaderboardEntry[]
+}
@@ -0,0 +1,33 @@
+/**
+ * Two-Factor Authentication Types
+ */
+
+import type { UserRank } from '../lib/auth'
+
+export type TwoFactorPolicy = Record<UserRank, boolean>
+
+export type LoginChallengePurpose = 'verify' | 'setup'
+
+export interface LoginChallenge {
+  id: number
+  user_id: number
+  purpose: LoginChallengePurpose
+  attempts: number
+  expires_at: string
+  created_at: string
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  pendingEnrollment: boolean
+  backupCodesRemaining: number
+}
+
+// Returned when enrollment starts; the secret is shown to the user once
+export interface TwoFactorEnrollment {
+  secret: string
+  otpauthUri: string
+}
+
+export type RecoveryRequestType = 'password' | 'two_factor'